@@ -0,0 +1,193 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * STATS, RETRY, RESTART and HELP answered whatever state the conversation is in
+ */
+import { parseKeyword, handleKeyword, parseSubscriptionKeyword, handleSubscriptionKeyword } from '@/lib/bot-keywords';
+import { WELCOME_MESSAGE } from '@/lib/conversation-flows';
+import { sipManagementService } from '@/lib/services/sipManagementService';
+import { handleSIPCommand } from '@/lib/sip-commands';
+
+const db = {
+  user: null as any,
+  sip: null as any,
+  plots: [] as any[]
+};
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    whatsAppUser: {
+      findUnique: jest.fn(async () => db.user),
+      update: jest.fn(async ({ data }: any) => Object.assign(db.user, data))
+    },
+    sIPInvestment: {
+      findFirst: jest.fn(async () => db.sip)
+    },
+    berryPlot: {
+      findMany: jest.fn(async () => db.plots)
+    },
+    analytics: {
+      create: jest.fn(async ({ data }: any) => data)
+    }
+  }
+}));
+
+jest.mock('@/lib/services/sipManagementService', () => ({
+  sipManagementService: {
+    getCurrent: jest.fn(async () => db.sip),
+    retry: jest.fn()
+  }
+}));
+
+jest.mock('@/lib/sip-commands', () => ({
+  handleSIPCommand: jest.fn(async () => '▶️ Welcome back!')
+}));
+
+const PHONE = '919876543210';
+
+describe('parseKeyword', () => {
+  it('should recognise keywords however they are typed', () => {
+    expect(parseKeyword('stats')).toEqual({ keyword: 'STATS', reference: null });
+    expect(parseKeyword(' "RETRY" ')).toEqual({ keyword: 'RETRY', reference: null });
+    expect(parseKeyword('Restart!')).toEqual({ keyword: 'RESTART', reference: null });
+    expect(parseKeyword('HELP')).toEqual({ keyword: 'HELP', reference: null });
+  });
+
+  it('should keep the reference from payment page links', () => {
+    expect(parseKeyword('HELP with order DARJ_LS_1')).toEqual({ keyword: 'HELP', reference: 'order DARJ_LS_1' });
+  });
+
+  it('should leave ordinary messages to the conversation', () => {
+    expect(parseKeyword('how do stats work?')).toBeNull();
+    expect(parseKeyword('I need help')).toBeNull();
+    expect(parseKeyword('2')).toBeNull();
+  });
+});
+
+describe('handleKeyword', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.user = { phoneNumber: PHONE, name: 'Asha Rai', email: 'asha@example.com', state: 'SIP_ONBOARDING' };
+    db.sip = null;
+    db.plots = [];
+  });
+
+  it('should ignore messages that are not keywords', async () => {
+    expect(await handleKeyword(PHONE, 'Asha Rai')).toBeNull();
+    expect(db.user.state).toBe('SIP_ONBOARDING');
+  });
+
+  it('should open the dashboard for members in any state', async () => {
+    db.sip = { id: 'sip_1', status: 'ACTIVE', dailyAmount: 10000, totalInvested: 30000, startDate: new Date() };
+    db.plots = [{ plantCount: 10 }];
+
+    const response = await handleKeyword(PHONE, 'STATS');
+
+    expect(response).toContain('Your Berry Stats');
+    expect(response).toContain('Total Plants: 10');
+    expect(db.user.state).toBe('MEMBER_DASHBOARD');
+  });
+
+  it('should point newcomers asking for STATS to the start', async () => {
+    const response = await handleKeyword(PHONE, 'STATS');
+
+    expect(response).toContain("You don't have any berry plots yet");
+    expect(db.user.state).toBe('SIP_ONBOARDING');
+  });
+
+  it('should resend the payment link for a pending mandate', async () => {
+    db.sip = { id: 'sip_1', status: 'PENDING', dailyAmount: 10000, failedDebitCount: 0 };
+    (sipManagementService.retry as jest.Mock).mockResolvedValue({
+      sip: db.sip,
+      paymentLink: 'https://pay.example/authorize',
+      replaced: false
+    });
+
+    const response = await handleKeyword(PHONE, 'RETRY');
+
+    expect(sipManagementService.retry).toHaveBeenCalledWith(PHONE);
+    expect(response).toContain('https://pay.example/authorize');
+  });
+
+  it('should point a SIP in dunning to its next scheduled debit', async () => {
+    db.sip = { id: 'sip_1', status: 'ACTIVE', dailyAmount: 10000, failedDebitCount: 1 };
+
+    const response = await handleKeyword(PHONE, 'RETRY');
+
+    expect(response).toContain('Your last ₹10,000 debit didn\'t go through');
+    expect(sipManagementService.retry).not.toHaveBeenCalled();
+  });
+
+  it('should send cancelled SIPs to RESTART', async () => {
+    db.sip = { id: 'sip_1', status: 'CANCELLED', dailyAmount: 10000, failedDebitCount: 0 };
+
+    expect(await handleKeyword(PHONE, 'RETRY')).toContain('Reply RESTART');
+  });
+
+  it('should restart a SIP through the SIP commands', async () => {
+    db.sip = { id: 'sip_1', status: 'PAUSED', dailyAmount: 10000 };
+
+    const response = await handleKeyword(PHONE, 'restart');
+
+    expect(handleSIPCommand).toHaveBeenCalledWith(PHONE, 'RESTART');
+    expect(response).toBe('▶️ Welcome back!');
+  });
+
+  it('should restart the conversation when there is no SIP', async () => {
+    const response = await handleKeyword(PHONE, 'RESTART');
+
+    expect(response).toBe(WELCOME_MESSAGE);
+    expect(db.user.state).toBe('SELECTING_SERVICE');
+  });
+
+  it('should list the keywords', async () => {
+    const response = await handleKeyword(PHONE, 'HELP');
+
+    expect(response).toContain('RETRY');
+    expect(db.user.state).toBe('SELECTING_SERVICE');
+  });
+
+  it('should hand help with an order or SIP over to the team', async () => {
+    const { prisma } = jest.requireMock('@/lib/prisma');
+
+    const response = await handleKeyword(PHONE, 'HELP with SIP DARJ_SUB_1');
+
+    expect(response).toContain('need help with SIP DARJ_SUB_1');
+    expect(db.user).toMatchObject({ state: 'HUMAN_HANDOFF', assignedTo: null });
+    expect(db.user.handoffAt).toBeInstanceOf(Date);
+    expect(prisma.analytics.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ event: 'HUMAN_HANDOFF_REQUESTED', metadata: JSON.stringify({ reference: 'SIP DARJ_SUB_1' }) })
+    });
+  });
+});
+
+describe('subscription keywords', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.user = { phoneNumber: PHONE, state: 'HUMAN_HANDOFF', optedOutAt: null };
+  });
+
+  it('should recognise the ways customers opt out', () => {
+    expect(parseSubscriptionKeyword('stop')).toBe('STOP');
+    expect(parseSubscriptionKeyword('Stop promotions')).toBe('STOP');
+    expect(parseSubscriptionKeyword('"UNSUBSCRIBE"')).toBe('STOP');
+    expect(parseSubscriptionKeyword('subscribe')).toBe('SUBSCRIBE');
+    expect(parseSubscriptionKeyword('stop the SIP')).toBeNull();
+  });
+
+  it('should opt out of campaigns without touching the conversation', async () => {
+    const reply = await handleSubscriptionKeyword(PHONE, 'STOP');
+
+    expect(reply).toContain('unsubscribed');
+    expect(db.user.optedOutAt).toBeInstanceOf(Date);
+    expect(db.user.state).toBe('HUMAN_HANDOFF');
+  });
+
+  it('should opt back in on SUBSCRIBE', async () => {
+    db.user.optedOutAt = new Date();
+
+    expect(await handleSubscriptionKeyword(PHONE, 'SUBSCRIBE')).toContain('subscribed to Darjberry updates!');
+    expect(db.user).toMatchObject({ optedOutAt: null, optInSource: 'KEYWORD', optedInAt: expect.any(Date) });
+  });
+});
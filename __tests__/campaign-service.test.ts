@@ -0,0 +1,367 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Broadcast campaigns: segments, approved templates, throttled sending, opt-outs and results
+ */
+import { CampaignService } from '@/lib/services/campaignService';
+import { WhatsAppService } from '@/lib/whatsapp';
+import { prisma } from '@/lib/prisma';
+
+const db = {
+  users: [] as any[],
+  interest: [] as any[],
+  templates: [] as any[],
+  campaigns: [] as any[],
+  recipients: [] as any[],
+  messages: [] as any[]
+};
+
+// Enough of Prisma's where clauses for the filters campaigns build
+function matches(record: any, where: any = {}): boolean {
+  return Object.entries(where).every(([key, condition]: [string, any]) => {
+    if (key === 'AND') return condition.every((part: any) => matches(record, part));
+    const value = record[key] ?? null;
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('some' in condition) return (value || []).some((item: any) => matches(item, condition.some));
+      if ('in' in condition) return condition.in.includes(value);
+      if ('gte' in condition) return value >= condition.gte;
+      if ('not' in condition) return value !== condition.not;
+    }
+    return value === condition;
+  });
+}
+
+function groupByStatus(records: any[], key: string) {
+  const groups = new Map<string, any>();
+  for (const record of records) {
+    const group = groups.get(`${record[key]}|${record.status}`) || { [key]: record[key], status: record.status, _count: { _all: 0 } };
+    group._count._all += 1;
+    groups.set(`${record[key]}|${record.status}`, group);
+  }
+  return Array.from(groups.values());
+}
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    whatsAppUser: {
+      count: jest.fn(async ({ where }: any) => db.users.filter(u => matches(u, where)).length),
+      findMany: jest.fn(async ({ where, take }: any) => db.users.filter(u => matches(u, where)).slice(0, take)),
+      findUnique: jest.fn(async ({ where }: any) => db.users.find(u => u.phoneNumber === where.phoneNumber) || null),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.users.find(u => u.phoneNumber === where.phoneNumber), data))
+    },
+    darjeelingInterest: {
+      findMany: jest.fn(async ({ where }: any) => db.interest.filter(i => matches(i, where))),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        db.interest.filter(i => matches(i, where)).forEach(i => Object.assign(i, data));
+        return { count: 1 };
+      })
+    },
+    messageTemplate: {
+      findUnique: jest.fn(async ({ where }: any) => db.templates.find(t => t.name === where.name_language.name) || null)
+    },
+    campaign: {
+      findUnique: jest.fn(async ({ where }: any) => db.campaigns.find(c => matches(c, where)) || null),
+      findMany: jest.fn(async () => [...db.campaigns].reverse()),
+      create: jest.fn(async ({ data }: any) => {
+        const campaign = {
+          id: `cmp_${db.campaigns.length + 1}`,
+          status: 'DRAFT',
+          createdAt: new Date(),
+          startedAt: null,
+          completedAt: null,
+          ...data
+        };
+        db.campaigns.push(campaign);
+        return campaign;
+      }),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.campaigns.find(c => c.id === where.id), data))
+    },
+    campaignRecipient: {
+      createMany: jest.fn(async ({ data }: any) => {
+        data.forEach((recipient: any) => db.recipients.push({
+          id: `rcp_${String(db.recipients.length + 1).padStart(3, '0')}`,
+          waMessageId: null,
+          sentAt: null,
+          ...recipient
+        }));
+        return { count: data.length };
+      }),
+      findMany: jest.fn(async ({ where, take }: any) => db.recipients.filter(r => matches(r, where)).slice(0, take)),
+      count: jest.fn(async ({ where }: any) => db.recipients.filter(r => matches(r, where)).length),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.recipients.find(r => r.id === where.id), data)),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const updated = db.recipients.filter(r => matches(r, where));
+        updated.forEach(r => Object.assign(r, data));
+        return { count: updated.length };
+      }),
+      groupBy: jest.fn(async ({ where }: any) => groupByStatus(db.recipients.filter(r => matches(r, where)), 'campaignId'))
+    },
+    whatsAppMessage: {
+      create: jest.fn(async ({ data }: any) => {
+        db.messages.push(data);
+        return data;
+      }),
+      groupBy: jest.fn(async ({ where }: any) => groupByStatus(db.messages.filter(m => m.campaign === where.campaign), 'campaign'))
+    }
+  }
+}));
+
+jest.mock('@/lib/whatsapp', () => ({
+  WhatsAppService: {
+    sendTemplate: jest.fn()
+  }
+}));
+
+const sendTemplate = WhatsAppService.sendTemplate as jest.Mock;
+
+const accepted = (to: string) => ({
+  messaging_product: 'whatsapp',
+  contacts: [{ input: to, wa_id: to }],
+  messages: [{ id: `wamid.${to}` }]
+});
+
+const graphFailure = (code: number, message: string) =>
+  Object.assign(new Error('Request failed with status code 400'), {
+    response: { data: { error: { code, message } } }
+  });
+
+const user = (phoneNumber: string, overrides: Record<string, unknown> = {}) => ({
+  phoneNumber,
+  name: null,
+  state: 'SELECTING_SERVICE',
+  landType: null,
+  leadScore: 0,
+  optInSource: 'KEYWORD',
+  optedInAt: new Date('2025-01-01'),
+  optedOutAt: null,
+  sipInvestments: [],
+  berryPlots: [],
+  ...overrides
+});
+
+// 3:30 PM in India
+const DAYTIME = new Date('2025-06-02T10:00:00Z');
+
+const launch = {
+  name: 'darjeeling_lease_launch',
+  templateName: 'darjeeling_lease_launch',
+  parameters: ['{name}', 'Leases start at 1 acre.'],
+  segment: { darjeelingInterest: true },
+  createdBy: 'Pema'
+};
+
+describe('CampaignService', () => {
+  const service = new CampaignService({ messagesPerSecond: 1000, batchSize: 2, maxRetries: 2, retryDelayMs: 0 });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    db.users = [
+      user('919800000001', { name: 'Asha', sipInvestments: [{ status: 'ACTIVE', totalInvested: 300000 }] }),
+      user('919800000002', { name: 'Binod', sipInvestments: [{ status: 'PAUSED', totalInvested: 50000 }] }),
+      user('919800000003', { optedOutAt: new Date('2025-05-01'), sipInvestments: [{ status: 'ACTIVE', totalInvested: 10000 }] }),
+      user('919800000004', { name: 'Dorjee' })
+    ];
+    db.interest = [
+      { phoneNumber: '919800000001', notified: false },
+      { phoneNumber: '919800000003', notified: false },
+      { phoneNumber: '919800000004', notified: false },
+      { phoneNumber: '919800000002', notified: true }
+    ];
+    db.templates = [
+      { name: 'darjeeling_lease_launch', language: 'en', status: 'APPROVED' },
+      { name: 'harvest_update', language: 'en', status: 'PENDING' }
+    ];
+    db.campaigns = [];
+    db.recipients = [];
+    db.messages = [];
+    jest.clearAllMocks();
+    sendTemplate.mockImplementation(async (to: string) => accepted(to));
+  });
+
+  it('should preview who a segment reaches', async () => {
+    const preview = await service.preview({ sipStatuses: ['ACTIVE'] });
+
+    expect(preview).toEqual({
+      recipients: 2,
+      optedOut: 1,
+      notOptedIn: 0,
+      sample: [expect.objectContaining({ phoneNumber: '919800000001' })]
+    });
+    expect((await service.preview({ minTotalInvested: 100000 })).recipients).toBe(1);
+  });
+
+  it('should only create campaigns for approved templates and real segments', async () => {
+    await expect(service.create({ ...launch, templateName: 'harvest_update', parameters: ['{name}', 'Picking has begun'] }))
+      .rejects.toThrow('Invalid template: harvest_update is not approved by Meta');
+    await expect(service.create({ ...launch, templateName: 'flash_sale' }))
+      .rejects.toThrow('Invalid template: flash_sale is not one of our templates');
+    await expect(service.create({ ...launch, parameters: ['{name}'] }))
+      .rejects.toThrow('Invalid parameters for template darjeeling_lease_launch: expected 2, got 1');
+    await expect(service.create({ ...launch, segment: {} }))
+      .rejects.toThrow('Invalid segment: choose at least one filter');
+    await expect(service.create({ ...launch, name: 'Darjeeling Launch!' }))
+      .rejects.toThrow('Invalid campaign name');
+
+    await service.create(launch);
+    await expect(service.create(launch)).rejects.toThrow('Campaign darjeeling_lease_launch already exists');
+  });
+
+  it('should send the Darjeeling launch to everyone waiting and mark them notified', async () => {
+    const campaign = await service.create(launch);
+
+    const first = await service.sendBatch(campaign.id, DAYTIME);
+
+    expect(first).toEqual({ sent: 2, failed: 0, skipped: 0, remaining: 0, rateLimited: false, quietUntil: null, status: 'COMPLETED' });
+    expect(db.recipients).toEqual([
+      expect.objectContaining({ phoneNumber: '919800000001', status: 'SENT', waMessageId: 'wamid.919800000001' }),
+      expect.objectContaining({ phoneNumber: '919800000003', status: 'SKIPPED', error: 'Opted out' }),
+      expect.objectContaining({ phoneNumber: '919800000004', status: 'SENT' })
+    ]);
+    expect(sendTemplate).toHaveBeenCalledWith('919800000001', 'darjeeling_lease_launch', [{
+      type: 'body',
+      parameters: [{ type: 'text', text: 'Asha' }, { type: 'text', text: 'Leases start at 1 acre.' }]
+    }], 'en');
+    expect(db.messages[0]).toMatchObject({ campaign: 'darjeeling_lease_launch', waMessageId: 'wamid.919800000001' });
+    expect(db.interest.filter(i => i.notified).map(i => i.phoneNumber))
+      .toEqual(['919800000001', '919800000004', '919800000002']);
+  });
+
+  it('should work through a large audience in batches', async () => {
+    db.users.push(user('919800000005', { sipInvestments: [{ status: 'ACTIVE', totalInvested: 1000 }] }));
+    const campaign = await service.create({ ...launch, name: 'active_sip_update', segment: { sipStatuses: ['ACTIVE', 'PAUSED'] } });
+
+    const first = await service.sendBatch(campaign.id, DAYTIME);
+    expect(first).toMatchObject({ sent: 2, skipped: 0, remaining: 1, status: 'SENDING' });
+
+    const second = await service.sendBatch(campaign.id, DAYTIME);
+    expect(second).toMatchObject({ sent: 1, remaining: 0, status: 'COMPLETED' });
+    // Not a Darjeeling segment, so nobody is marked notified
+    expect(db.interest.filter(i => i.notified)).toHaveLength(1);
+
+    await expect(service.sendBatch(campaign.id, DAYTIME)).rejects.toThrow('Invalid campaign status');
+  });
+
+  it('should back off when Graph rate limits and stop the batch if it persists', async () => {
+    const campaign = await service.create(launch);
+    sendTemplate
+      .mockRejectedValueOnce(graphFailure(130429, 'Rate limit hit'))
+      .mockImplementationOnce(async (to: string) => accepted(to))
+      .mockRejectedValue(graphFailure(130429, 'Rate limit hit'));
+
+    const result = await service.sendBatch(campaign.id, DAYTIME);
+
+    expect(result).toMatchObject({ sent: 1, rateLimited: true, remaining: 1, status: 'SENDING' });
+    // One retry for the first recipient, then the initial attempt and two retries for the second
+    expect(sendTemplate).toHaveBeenCalledTimes(5);
+    expect(db.recipients.find(r => r.phoneNumber === '919800000004').status).toBe('PENDING');
+  });
+
+  it('should send to each recipient once when two batches overlap', async () => {
+    const campaign = await service.create(launch);
+    await service.start(campaign.id);
+
+    const results = await Promise.all([
+      service.sendBatch(campaign.id, DAYTIME),
+      service.sendBatch(campaign.id, DAYTIME)
+    ]);
+
+    expect(results[0].sent + results[1].sent).toBe(2);
+    expect(sendTemplate).toHaveBeenCalledTimes(2);
+    expect(db.messages).toHaveLength(2);
+  });
+
+  it('should count a delivered message as sent when logging it fails', async () => {
+    const campaign = await service.create(launch);
+    (prisma.whatsAppMessage.create as jest.Mock).mockRejectedValueOnce(new Error('database is locked'));
+
+    const result = await service.sendBatch(campaign.id, DAYTIME);
+
+    expect(result).toMatchObject({ sent: 2, failed: 0 });
+    expect(db.recipients.find(r => r.phoneNumber === '919800000001')).toMatchObject({
+      status: 'SENT',
+      waMessageId: 'wamid.919800000001'
+    });
+  });
+
+  it('should record failures and customers who blocked marketing messages', async () => {
+    const campaign = await service.create(launch);
+    sendTemplate
+      .mockRejectedValueOnce(graphFailure(131050, 'User has stopped marketing messages'))
+      .mockRejectedValueOnce(graphFailure(131026, 'Message undeliverable'));
+
+    const result = await service.sendBatch(campaign.id, DAYTIME);
+
+    expect(result).toMatchObject({ sent: 0, failed: 1, skipped: 1, status: 'COMPLETED' });
+    expect(db.users[0].optedOutAt).toBeInstanceOf(Date);
+    expect(db.recipients.map(r => r.error)).toEqual([
+      'Opted out of marketing messages in WhatsApp',
+      'Opted out',
+      '131026: Message undeliverable'
+    ]);
+  });
+
+  it('should skip customers who reply STOP while the campaign is going out', async () => {
+    const campaign = await service.create(launch);
+    await service.start(campaign.id);
+    db.users[3].optedOutAt = new Date();
+
+    const result = await service.sendBatch(campaign.id, DAYTIME);
+
+    expect(result).toMatchObject({ sent: 1, skipped: 1 });
+    expect(sendTemplate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip everyone not reached when cancelled', async () => {
+    db.users.push(user('919800000005', { sipInvestments: [{ status: 'ACTIVE', totalInvested: 1000 }] }));
+    const campaign = await service.create({ ...launch, name: 'active_sip_update', segment: { sipStatuses: ['ACTIVE', 'PAUSED'] } });
+    await service.sendBatch(campaign.id, DAYTIME);
+
+    await service.cancel(campaign.id);
+
+    expect(db.campaigns[0].status).toBe('CANCELLED');
+    expect(db.recipients.map(r => r.status)).toEqual(['SENT', 'SENT', 'SKIPPED', 'SKIPPED']);
+    await expect(service.cancel(campaign.id)).rejects.toThrow('Invalid campaign status');
+  });
+
+  it('should report per-campaign results', async () => {
+    const campaign = await service.create(launch);
+    await service.sendBatch(campaign.id, DAYTIME);
+
+    const detail = await service.get(campaign.id);
+
+    expect(detail.recipients).toEqual({ PENDING: 0, SENDING: 0, SENT: 2, FAILED: 0, SKIPPED: 1 });
+    expect(detail.delivery).toMatchObject({ campaign: 'darjeeling_lease_launch', total: 2, pending: 2 });
+    expect(detail.failures).toEqual([
+      expect.objectContaining({ phoneNumber: '919800000003', status: 'SKIPPED', error: 'Opted out' })
+    ]);
+    expect((await service.list())[0].recipients.SENT).toBe(2);
+    await expect(service.get('cmp_missing')).rejects.toThrow('Campaign not found');
+  });
+
+  it('should skip users who never subscribed to marketing', async () => {
+    db.users[3] = user('919800000004', { name: 'Dorjee', optInSource: null, optedInAt: null });
+    const campaign = await service.create(launch);
+
+    expect((await service.preview(launch.segment)).notOptedIn).toBe(1);
+
+    const result = await service.sendBatch(campaign.id, DAYTIME);
+
+    expect(result).toMatchObject({ sent: 1, status: 'COMPLETED' });
+    expect(db.recipients.find(r => r.phoneNumber === '919800000004')).toMatchObject({ status: 'SKIPPED', error: 'Never subscribed' });
+  });
+
+  it('should hold sending during quiet hours in India', async () => {
+    const campaign = await service.create(launch);
+
+    // 10:30 PM in India
+    const result = await service.sendBatch(campaign.id, new Date('2025-06-02T17:00:00Z'));
+
+    expect(result).toMatchObject({ sent: 0, status: 'DRAFT', quietUntil: new Date('2025-06-03T03:30:00Z') });
+    expect(sendTemplate).not.toHaveBeenCalled();
+    expect(db.recipients).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Shared Cashfree HTTP client: token caching, retries, timeouts and typed errors
+ */
+import { CashfreeService } from '@/lib/cashfree';
+import {
+  CashfreeHttpClient,
+  CashfreeApiError,
+  CashfreeAuthError,
+  CashfreeTimeoutError
+} from '@/lib/cashfree-client';
+import { startCashfreeStub, CashfreeStub } from './helpers/cashfree-stub';
+
+describe('CashfreeHttpClient', () => {
+  let stub: CashfreeStub;
+  let client: CashfreeHttpClient;
+  let cashfree: CashfreeService;
+
+  const tokenCalls = () => stub.requests.filter(r => r.path === '/cftoken/order').length;
+
+  beforeAll(async () => {
+    stub = await startCashfreeStub();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+    client = new CashfreeHttpClient({
+      clientId: 'test_client',
+      clientSecret: 'test_secret',
+      baseUrl: stub.baseUrl,
+      timeoutMs: 200,
+      retryDelayMs: 1
+    });
+    cashfree = new CashfreeService({ clientId: 'test_client', clientSecret: 'test_secret', environment: 'TEST' }, client);
+  });
+
+  it('should reuse one token across calls and concurrent bursts', async () => {
+    await cashfree.getOrder('order_1');
+    await Promise.all(['order_2', 'order_3', 'order_4'].map(orderId => cashfree.getOrder(orderId)));
+
+    expect(tokenCalls()).toBe(1);
+    expect(stub.requests.filter(r => r.path.startsWith('/orders/'))).toHaveLength(4);
+  });
+
+  it('should fetch a new token once the cached one expires', async () => {
+    stub.on('POST', '/cftoken/order', () => ({
+      status: 200,
+      body: { cftoken: `token_${tokenCalls()}`, expiry: Math.floor(Date.now() / 1000) + 10 }
+    }));
+
+    await cashfree.getOrder('order_1');
+    await cashfree.getOrder('order_2');
+
+    // Inside the refresh margin, so every call refreshes
+    expect(tokenCalls()).toBe(2);
+  });
+
+  it('should refresh a token Cashfree rejects and replay the request', async () => {
+    await cashfree.getOrder('order_1');
+
+    let rejected = false;
+    stub.on('GET', '/orders/:orderId', (request) => {
+      if (!rejected) {
+        rejected = true;
+        return { status: 401, body: { message: 'token expired' } };
+      }
+      return { status: 200, body: { orderId: request.params.orderId, orderStatus: 'ACTIVE' } };
+    });
+
+    expect(await cashfree.getOrder('order_2')).toMatchObject({ orderId: 'order_2' });
+    expect(tokenCalls()).toBe(2);
+  });
+
+  it('should retry idempotent calls on server errors', async () => {
+    let failures = 2;
+    stub.on('POST', '/orders', (request) => (failures-- > 0
+      ? { status: 503, body: { message: 'unavailable' } }
+      : { status: 200, body: { orderId: request.body.orderId, paymentSessionId: 'session_1' } }));
+
+    const order = await cashfree.createOrder({
+      orderId: 'DARJ_LS_1',
+      orderAmount: 300000,
+      orderCurrency: 'INR',
+      customerDetails: { customerId: 'CUST_1', customerName: 'Asha Rai', customerEmail: 'asha@example.com', customerPhone: '919876543210' }
+    });
+
+    const orderCalls = stub.requests.filter(r => r.path === '/orders');
+    expect(order.paymentSessionId).toBe('session_1');
+    expect(orderCalls).toHaveLength(3);
+    expect(orderCalls.every(r => r.headers['x-idempotency-key'] === 'DARJ_LS_1')).toBe(true);
+  });
+
+  it('should not retry calls that are unsafe to repeat', async () => {
+    stub.on('POST', '/subscriptions/:subscriptionId/cancel', () => ({ status: 502, body: { message: 'bad gateway' } }));
+
+    const error = await cashfree.cancelSubscription('DARJ_SUB_1').catch(e => e);
+
+    expect(error).toBeInstanceOf(CashfreeApiError);
+    expect(error).toMatchObject({ status: 502, retryable: true, message: expect.stringContaining('Failed to cancel subscription') });
+    expect(stub.requests.filter(r => r.path.endsWith('/cancel'))).toHaveLength(1);
+  });
+
+  it('should give up after the configured retries with a typed error', async () => {
+    stub.on('GET', '/orders/:orderId', () => ({ status: 500, body: { code: 'internal_error', message: 'down' } }));
+
+    const error = await cashfree.getOrder('order_1').catch(e => e);
+
+    expect(error).toBeInstanceOf(CashfreeApiError);
+    expect(error.code).toBe('internal_error');
+    expect(stub.requests.filter(r => r.path === '/orders/order_1')).toHaveLength(3);
+  });
+
+  it('should surface client errors without retrying', async () => {
+    stub.on('GET', '/orders/:orderId', () => ({ status: 404, body: { message: 'order not found' } }));
+
+    const error = await cashfree.getOrder('missing').catch(e => e);
+
+    expect(error).toMatchObject({ status: 404, retryable: false });
+    expect(stub.requests.filter(r => r.path === '/orders/missing')).toHaveLength(1);
+  });
+
+  it('should time out slow responses', async () => {
+    stub.on('GET', '/subscriptions/:subscriptionId', () => ({ status: 200, body: {}, delayMs: 500 }));
+
+    const error = await cashfree.getSubscription('DARJ_SUB_1').catch(e => e);
+
+    expect(error).toBeInstanceOf(CashfreeTimeoutError);
+    expect(stub.requests.filter(r => r.path === '/subscriptions/DARJ_SUB_1')).toHaveLength(3);
+  });
+
+  it('should report rejected credentials as an auth error', async () => {
+    stub.on('POST', '/cftoken/order', () => ({ status: 403, body: { message: 'invalid client' } }));
+
+    const error = await cashfree.getOrder('order_1').catch(e => e);
+
+    expect(error).toBeInstanceOf(CashfreeAuthError);
+    expect(error.message).toContain('Cashfree auth failed');
+    expect(tokenCalls()).toBe(1);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * CashfreeProvider subscription flow against a local Cashfree stand-in
+ */
+import { CashfreeService } from '@/lib/cashfree';
+import { PaymentGatewayRegistry } from '@/lib/payment-gateway';
+import { CashfreeProvider } from '@/lib/cashfree-provider';
+import { prisma } from '@/lib/prisma';
+import { startCashfreeStub, CashfreeStub } from './helpers/cashfree-stub';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    sIPInvestment: {
+      create: jest.fn(async ({ data }: any) => ({ id: 'sip_1', ...data }))
+    },
+    subscriptionPlan: {
+      findFirst: jest.fn(async () => null),
+      findMany: jest.fn(async () => [
+        { planId: 'DARJBERRY_DAILY_10K', gatewayPlanId: null, amount: 10000, maxCycles: 365, planName: 'Darjberry Daily SIP ₹10,000', gateway: 'CASHFREE' },
+        { planId: 'DARJBERRY_DAILY15K_V1', gatewayPlanId: null, amount: 15000, maxCycles: 365, planName: 'Darjberry Daily SIP ₹15,000', gateway: 'CASHFREE' }
+      ]),
+      count: jest.fn(async () => 0),
+      create: jest.fn(async ({ data }: any) => ({ id: 'plan_1', ...data }))
+    }
+  }
+}));
+
+describe('CashfreeProvider', () => {
+  let stub: CashfreeStub;
+  let provider: CashfreeProvider;
+
+  beforeAll(async () => {
+    stub = await startCashfreeStub();
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+    (prisma.sIPInvestment.create as jest.Mock).mockClear();
+    provider = new CashfreeProvider(new PaymentGatewayRegistry([new CashfreeService({
+      clientId: 'test_client',
+      clientSecret: 'test_secret',
+      environment: 'TEST',
+      baseUrl: stub.baseUrl
+    })]));
+  });
+
+  describe('createDailySIPSubscription', () => {
+    it('should create a subscription on the daily plan', async () => {
+      await provider.createDailySIPSubscription('919876543210', {
+        name: 'Asha Rai',
+        email: 'asha@example.com'
+      });
+
+      const subscriptionCall = stub.requests.find(r => r.path === '/subscriptions');
+      expect(subscriptionCall).toBeDefined();
+      expect(subscriptionCall!.headers.authorization).toBe('Bearer stub_token');
+      expect(subscriptionCall!.body.planId).toBe('DARJBERRY_DAILY_10K');
+      expect(subscriptionCall!.body.customerDetails).toEqual({
+        customerId: 'CUST_919876543210',
+        customerName: 'Asha Rai',
+        customerEmail: 'asha@example.com',
+        customerPhone: '919876543210'
+      });
+    });
+
+    it('should store the Cashfree references and payment link on the SIP record', async () => {
+      const result = await provider.createDailySIPSubscription('919876543210', {
+        name: 'Asha Rai',
+        email: 'asha@example.com'
+      });
+
+      const { data } = (prisma.sIPInvestment.create as jest.Mock).mock.calls[0][0];
+      expect(data.subscriptionId).toBe(result.subscriptionId);
+      expect(data.subscriptionId).not.toBe('temp_subscription_id');
+      expect(data.cfSubscriptionId).toBe(`cf_${result.subscriptionId}`);
+      expect(data.paymentLink).toBe(result.paymentLink);
+      expect(data.status).toBe('PENDING');
+      expect(data.dailyAmount).toBe(10000);
+    });
+
+    it('should return the payment link from Cashfree', async () => {
+      const result = await provider.createDailySIPSubscription('919876543210', {
+        name: 'Asha Rai',
+        email: 'asha@example.com'
+      });
+
+      expect(result.paymentLink).toMatch(/^https:\/\/stub\.cashfree\.local\/subscriptions\/DARJ_/);
+      expect(result.subscriptionStatus).toBe('BANK_APPROVAL_PENDING');
+    });
+
+    it('should keep a restarted SIP on the plan at its amount', async () => {
+      const result = await provider.createDailySIPSubscription('919876543210', {
+        name: 'Asha Rai',
+        email: 'asha@example.com'
+      }, { dailyAmount: 15000, gateway: 'CASHFREE' });
+
+      const subscriptionCall = stub.requests.find(r => r.path === '/subscriptions');
+      expect(subscriptionCall!.body.planId).toBe('DARJBERRY_DAILY15K_V1');
+      expect(result.dailyAmount).toBe(15000);
+    });
+
+    it('should refuse an amount no daily plan debits', async () => {
+      await expect(
+        provider.createDailySIPSubscription('919876543210', { name: 'Asha Rai', email: 'asha@example.com' }, { dailyAmount: 12000, gateway: 'CASHFREE' })
+      ).rejects.toThrow('Invalid daily amount');
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('should not create a SIP record when Cashfree rejects the subscription', async () => {
+      stub.on('POST', '/subscriptions', () => ({ status: 400, body: { message: 'plan not found' } }));
+
+      await expect(
+        provider.createDailySIPSubscription('919876543210', { name: 'Asha Rai', email: 'asha@example.com' })
+      ).rejects.toThrow('Failed to create subscription');
+      expect(prisma.sIPInvestment.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Cashfree webhook replay handling: signed retries must not credit a payment twice
+ */
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/cashfree/webhook/route';
+import { WhatsAppService } from '@/lib/whatsapp';
+import { invoiceService } from '@/lib/services/invoiceService';
+import { lumpsumService } from '@/lib/services/lumpsumService';
+import { refundService } from '@/lib/services/refundService';
+import { dunningService } from '@/lib/services/dunningService';
+
+const db = {
+  processedEvents: new Set<string>(),
+  payments: [] as any[],
+  berryPlots: [] as any[],
+  allocations: [] as any[],
+  sip: { id: 'sip_1', phoneNumber: '919876543210', subscriptionId: 'DARJ_SUB_1', totalInvested: 0, allocationCredit: 0 }
+};
+
+jest.mock('@/lib/prisma', () => {
+  const client: any = {
+    processedWebhookEvent: {
+      create: jest.fn(async ({ data }: any) => {
+        const key = `${data.source}:${data.eventKey}`;
+        if (db.processedEvents.has(key)) {
+          throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+        }
+        db.processedEvents.add(key);
+        return data;
+      }),
+      deleteMany: jest.fn(async ({ where }: any) => {
+        db.processedEvents.delete(`${where.source}:${where.eventKey}`);
+        return { count: 1 };
+      })
+    },
+    sIPInvestment: {
+      findFirst: jest.fn(async () => ({ ...db.sip })),
+      findUnique: jest.fn(async () => ({ ...db.sip })),
+      update: jest.fn(async ({ data }: any) => {
+        const { totalInvested, ...rest } = data;
+        if (totalInvested) db.sip.totalInvested += totalInvested.increment;
+        return Object.assign(db.sip, rest);
+      }),
+      updateMany: jest.fn(async () => ({ count: 1 }))
+    },
+    berryPlot: {
+      create: jest.fn(async ({ data }: any) => {
+        db.berryPlots.push(data);
+        return data;
+      })
+    },
+    plantAllocation: {
+      create: jest.fn(async ({ data }: any) => {
+        db.allocations.push(data);
+        return data;
+      })
+    },
+    payment: {
+      create: jest.fn(async ({ data }: any) => {
+        db.payments.push(data);
+        return data;
+      }),
+      findUnique: jest.fn(async ({ where }: any) => db.payments.find(p => p.paymentId === where.paymentId) || null)
+    },
+    whatsAppMessage: {
+      create: jest.fn(async ({ data }: any) => data)
+    },
+    // Customers wrote recently, so notifications go out as free-form text
+    whatsAppUser: {
+      findUnique: jest.fn(async () => ({ lastInboundAt: new Date() }))
+    }
+  };
+  client.$transaction = jest.fn(async (fn: any) => fn(client));
+  return { prisma: client };
+});
+
+// Daytime in India, so notifications go out rather than wait for the morning
+jest.mock('@/lib/messaging-policy', () => ({
+  ...jest.requireActual('@/lib/messaging-policy'),
+  quietHoursEnd: jest.fn(() => null)
+}));
+
+jest.mock('@/lib/whatsapp', () => ({
+  WhatsAppService: { sendMessage: jest.fn(async () => undefined) }
+}));
+
+jest.mock('@/lib/services/invoiceService', () => ({
+  invoiceService: {
+    issueForPayment: jest.fn(async (paymentId: string) => ({ id: `inv_${paymentId}` })),
+    send: jest.fn(async () => undefined)
+  }
+}));
+
+jest.mock('@/lib/services/lumpsumService', () => ({
+  lumpsumService: {
+    getOrder: jest.fn(async () => null),
+    completeOrder: jest.fn(),
+    markFailed: jest.fn(async () => undefined)
+  }
+}));
+
+const WEBHOOK_SECRET = 'test_webhook_secret';
+
+function signedRequest(payload: object): NextRequest {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = crypto
+    .createHmac('sha256', WEBHOOK_SECRET)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return new NextRequest('http://localhost/api/cashfree/webhook', {
+    method: 'POST',
+    body,
+    headers: {
+      'content-type': 'application/json',
+      'x-webhook-signature': signature,
+      'x-webhook-timestamp': timestamp
+    }
+  });
+}
+
+const paymentSuccess = {
+  type: 'PAYMENT_SUCCESS',
+  data: {
+    order_id: 'order_1',
+    payment_id: 'cf_payment_1',
+    order_amount: '10000',
+    payment_method: 'UPI',
+    payment_time: '2025-06-01T10:00:00+05:30',
+    subscription_id: 'DARJ_SUB_1'
+  }
+};
+
+describe('Cashfree webhook idempotency', () => {
+  beforeAll(() => {
+    process.env.CASHFREE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    db.processedEvents.clear();
+    db.payments = [];
+    db.berryPlots = [];
+    db.allocations = [];
+    db.sip.totalInvested = 0;
+    db.sip.allocationCredit = 0;
+    jest.clearAllMocks();
+  });
+
+  it('should credit a payment only once when the same signed payload is delivered twice', async () => {
+    const first = await POST(signedRequest(paymentSuccess));
+    const second = await POST(signedRequest(paymentSuccess));
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(db.sip.totalInvested).toBe(10000);
+    expect(db.berryPlots).toHaveLength(1);
+    expect(db.payments).toHaveLength(1);
+    expect(WhatsAppService.sendMessage).toHaveBeenCalledTimes(1);
+    expect(invoiceService.issueForPayment).toHaveBeenCalledTimes(1);
+  });
+
+  it('should acknowledge a replay as a duplicate', async () => {
+    await POST(signedRequest(paymentSuccess));
+    const replay = await POST(signedRequest(paymentSuccess));
+
+    expect(await replay.json()).toEqual({ status: 'duplicate' });
+  });
+
+  it('should process distinct payments on the same subscription', async () => {
+    await POST(signedRequest(paymentSuccess));
+    await POST(signedRequest({
+      ...paymentSuccess,
+      data: { ...paymentSuccess.data, order_id: 'order_2', payment_id: 'cf_payment_2' }
+    }));
+
+    expect(db.sip.totalInvested).toBe(20000);
+    expect(db.berryPlots).toHaveLength(2);
+  });
+
+  it('should carry part-plant credit over to the next payment', async () => {
+    await POST(signedRequest(paymentSuccess));
+    await POST(signedRequest({
+      ...paymentSuccess,
+      data: { ...paymentSuccess.data, order_id: 'order_2', payment_id: 'cf_payment_2', order_amount: '2000' }
+    }));
+
+    expect(db.berryPlots.map(p => p.plantCount)).toEqual([3, 1]);
+    expect(db.allocations.map(a => a.creditAfter)).toEqual([1000, 0]);
+    expect(db.sip.allocationCredit).toBe(0);
+  });
+
+  it('should route lumpsum order payments to land allocation instead of a SIP', async () => {
+    (lumpsumService.getOrder as jest.Mock).mockResolvedValueOnce({ orderId: 'DARJ_LS_1' });
+    (lumpsumService.completeOrder as jest.Mock).mockResolvedValueOnce({
+      order: { phoneNumber: '919876543210', amount: 300000 },
+      paymentId: 'pay_lumpsum',
+      allocation: { plants: 100, acres: 0.05, plotNumber: 'PLOT_1', landName: 'Ambari T-State Land', landAllocationId: 'la_1' }
+    });
+
+    // Orders carry no subscription_id
+    await POST(signedRequest({
+      type: 'PAYMENT_SUCCESS',
+      data: { ...paymentSuccess.data, subscription_id: undefined, order_id: 'DARJ_LS_1', order_amount: '300000' }
+    }));
+
+    expect(lumpsumService.completeOrder).toHaveBeenCalledWith('DARJ_LS_1', expect.objectContaining({ amount: 300000 }));
+    expect(db.payments).toHaveLength(0);
+    expect(db.sip.totalInvested).toBe(0);
+    expect(WhatsAppService.sendMessage).toHaveBeenCalledWith('919876543210', expect.stringContaining('100 plants allocated'));
+    expect(invoiceService.issueForPayment).toHaveBeenCalledWith('pay_lumpsum');
+  });
+
+  it('should refund a lumpsum payment that arrived after the land sold out', async () => {
+    const initiate = jest.spyOn(refundService, 'initiate').mockResolvedValueOnce({} as any);
+    (lumpsumService.getOrder as jest.Mock).mockResolvedValueOnce({ orderId: 'DARJ_LS_1' });
+    (lumpsumService.completeOrder as jest.Mock).mockResolvedValueOnce({
+      order: { orderId: 'DARJ_LS_1', phoneNumber: '919876543210', amount: 300000 },
+      paymentId: 'pay_lumpsum',
+      allocation: null
+    });
+
+    await POST(signedRequest({
+      type: 'PAYMENT_SUCCESS',
+      data: { ...paymentSuccess.data, subscription_id: undefined, order_id: 'DARJ_LS_1', order_amount: '300000' }
+    }));
+
+    expect(initiate).toHaveBeenCalledWith('pay_lumpsum', undefined, expect.stringContaining('sold out'));
+    expect(WhatsAppService.sendMessage).toHaveBeenCalledWith('919876543210', expect.stringContaining('being refunded'));
+    expect(invoiceService.issueForPayment).not.toHaveBeenCalled();
+  });
+
+  it('should reprocess a retry when the first delivery failed', async () => {
+    const { prisma } = jest.requireMock('@/lib/prisma');
+    prisma.berryPlot.create.mockRejectedValueOnce(new Error('database unavailable'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const failed = await POST(signedRequest(paymentSuccess));
+    const retried = await POST(signedRequest(paymentSuccess));
+
+    expect(failed.status).toBe(500);
+    expect(retried.status).toBe(200);
+    expect(db.berryPlots).toHaveLength(1);
+  });
+
+  it('should reach dunning on a retry of a failure whose dunning step failed', async () => {
+    const recordFailure = jest.spyOn(dunningService, 'recordFailure')
+      .mockRejectedValueOnce(new Error('database unavailable'))
+      .mockResolvedValueOnce({ attempt: 1, paused: false });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const paymentFailed = {
+      type: 'PAYMENT_FAILED',
+      data: { ...paymentSuccess.data, payment_id: 'cf_payment_failed', failure_reason: 'Insufficient funds' }
+    };
+
+    const failed = await POST(signedRequest(paymentFailed));
+    const retried = await POST(signedRequest(paymentFailed));
+
+    expect(failed.status).toBe(500);
+    expect(retried.status).toBe(200);
+    expect(recordFailure).toHaveBeenCalledTimes(2);
+    expect(db.payments.filter(p => p.paymentId === 'cf_payment_failed')).toHaveLength(1);
+  });
+});
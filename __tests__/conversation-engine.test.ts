@@ -0,0 +1,315 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Conversation flows as data: the runtime, validators and the Darjberry flow itself
+ */
+import { prisma } from '@/lib/prisma';
+import {
+  ConversationEngine,
+  ConversationFlow,
+  FlowAction,
+  FlowUser,
+  FLOW_VALIDATORS,
+  validateFlow
+} from '@/lib/conversation-engine';
+import { DARJBERRY_FLOW, WELCOME_MESSAGE } from '@/lib/conversation-flows';
+import { FLOW_ACTIONS } from '@/lib/conversation-actions';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    whatsAppUser: {
+      update: jest.fn(async ({ data }: any) => data)
+    }
+  }
+}));
+
+// The real actions touch the database and gateways; the flow is tested against stand-ins
+jest.mock('@/lib/conversation-actions', () => ({
+  FLOW_ACTIONS: {
+    showStats: jest.fn(),
+    startSIP: jest.fn(),
+    requestHuman: jest.fn(),
+    registerDarjeelingInterest: jest.fn(),
+    analyseLocation: jest.fn(),
+    saveLandDocument: jest.fn(),
+    finishLandVerification: jest.fn(),
+    aiFallback: jest.fn()
+  }
+}));
+
+const updates = () => (prisma.whatsAppUser.update as jest.Mock).mock.calls.map(([call]: any[]) => call.data);
+
+/**
+ * Play messages through an engine, carrying the persisted state and profile
+ * forward as the route would on the next webhook
+ */
+async function converse(engine: ConversationEngine, user: FlowUser, messages: string[]): Promise<{ user: FlowUser; replies: (string | undefined)[] }> {
+  const replies: (string | undefined)[] = [];
+
+  for (const text of messages) {
+    (prisma.whatsAppUser.update as jest.Mock).mockClear();
+    replies.push((await engine.handleMessage(user, { text }))?.text);
+    user = Object.assign({ ...user }, ...updates());
+  }
+
+  return { user, replies };
+}
+
+describe('ConversationEngine', () => {
+  const lookup = jest.fn<FlowAction>();
+
+  const flow: ConversationFlow = {
+    initial: 'START',
+    unknownState: { reply: 'Lost you there', next: 'START' },
+    states: {
+      START: {
+        prompt: 'Pick 1 or 2',
+        options: [
+          { id: '1', title: 'Tell my name', next: 'ASK_NAME' },
+          { id: '2', title: 'Look it up', aliases: ['lookup'], action: 'lookup' }
+        ],
+        fallback: { reply: 'Please pick 1 or 2' }
+      },
+      ASK_NAME: {
+        prompt: 'Your name?',
+        input: { validate: 'name', save: 'name', skipIfSet: true, next: 'DONE' }
+      },
+      DONE: {
+        prompt: ({ user }) => `Thanks ${user.name}`,
+        fallback: { reply: 'All done' }
+      }
+    }
+  };
+
+  const engine = new ConversationEngine(flow, { lookup });
+  const user: FlowUser = { phoneNumber: '919876543210', state: 'START', name: null };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should follow an option and reply with the prompt of the state it enters', async () => {
+    expect(await engine.handleMessage(user, { text: ' 1 ' })).toEqual({ text: 'Your name?', choices: [] });
+    expect(updates()).toEqual([{ state: 'ASK_NAME' }]);
+  });
+
+  it('should answer unmatched messages from the fallback without moving', async () => {
+    expect((await engine.handleMessage(user, { text: 'maybe' }))?.text).toBe('Please pick 1 or 2');
+    expect(prisma.whatsAppUser.update).not.toHaveBeenCalled();
+  });
+
+  it('should keep the state and explain when input fails validation', async () => {
+    const { user: after, replies } = await converse(engine, user, ['1', '?', 'Asha Rai']);
+
+    expect(replies).toEqual(['Your name?', expect.stringContaining('Please share your full name'), 'Thanks Asha Rai']);
+    expect(after).toMatchObject({ state: 'DONE', name: 'Asha Rai' });
+  });
+
+  it('should skip steps the user has already answered', async () => {
+    const known = { ...user, name: 'Asha Rai' };
+
+    expect((await engine.handleMessage(known, { text: '1' }))?.text).toBe('Thanks Asha Rai');
+    expect(updates()).toEqual([{ state: 'DONE' }]);
+  });
+
+  it('should let an action choose the reply and the next state', async () => {
+    lookup.mockResolvedValue({ reply: 'Found it', next: 'DONE', profile: { location: 'Kurseong' } });
+
+    expect((await engine.handleMessage(user, { text: 'LOOKUP' }))?.text).toBe('Found it');
+    expect(lookup).toHaveBeenCalledWith(expect.objectContaining({ message: { text: 'LOOKUP' } }));
+    expect(updates()).toEqual([{ location: 'Kurseong', state: 'DONE' }]);
+  });
+
+  it('should recover users parked in a state the flow no longer has', async () => {
+    expect((await engine.handleMessage({ ...user, state: 'RETIRED_STATE' }, { text: 'hi' }))?.text).toBe('Lost you there');
+    expect(updates()).toEqual([{ state: 'START' }]);
+  });
+
+  it('should offer titled options as choices with the reply', async () => {
+    expect(await engine.handleMessage(user, { text: 'maybe' })).toEqual({
+      text: 'Please pick 1 or 2',
+      choices: [
+        { id: 'START:1', title: 'Tell my name', description: undefined },
+        { id: 'START:2', title: 'Look it up', description: undefined }
+      ]
+    });
+  });
+
+  it('should route a tapped choice by its id', async () => {
+    expect((await engine.handleMessage(user, { text: 'Tell my name', choiceId: 'START:1' }))?.text).toBe('Your name?');
+    expect(updates()).toEqual([{ state: 'ASK_NAME' }]);
+  });
+
+  it('should answer taps on an older message from the state it was sent in', async () => {
+    const moved = { ...user, state: 'DONE', name: 'Asha Rai' };
+    lookup.mockResolvedValue({ reply: 'Found it' });
+
+    expect((await engine.handleMessage(moved, { text: 'Look it up', choiceId: 'START:2' }))?.text).toBe('Found it');
+    expect(updates()).toEqual([{ state: 'START' }]);
+  });
+
+  it('should treat unknown choice ids as typed text', async () => {
+    expect((await engine.handleMessage(user, { text: 'Tell my name', choiceId: 'RETIRED_STATE:9' }))?.text).toBe('Please pick 1 or 2');
+  });
+
+  it('should send files to the attachment step rather than the options', async () => {
+    const withPhotos = new ConversationEngine({
+      ...flow,
+      states: { ...flow.states, START: { ...flow.states.START, attachment: { accept: ['image'], reply: 'Nice photo', next: 'DONE' } } }
+    }, { lookup });
+
+    const reply = await withPhotos.handleMessage(user, { text: '1', attachment: { kind: 'image', mediaId: 'media_1', caption: '1' } });
+
+    expect(reply?.text).toBe('Nice photo');
+    expect(updates()).toEqual([{ state: 'DONE' }]);
+  });
+
+  it('should answer attachments a state does not accept from its fallback', async () => {
+    expect((await engine.handleMessage(user, { text: '', attachment: { kind: 'audio', voice: true } }))?.text).toBe('Please pick 1 or 2');
+  });
+
+  it('should report broken references in a flow', () => {
+    const broken: ConversationFlow = {
+      initial: 'START',
+      unknownState: {},
+      states: {
+        START: {
+          options: [
+            { id: 'a', next: 'MISSING' },
+            { id: 'A', action: 'nope', title: 'A title too long for a button' }
+          ],
+          input: { validate: 'phone' }
+        },
+        EMPTY: {}
+      }
+    };
+
+    expect(validateFlow(broken, { lookup })).toEqual([
+      'START option A: title longer than 20 characters',
+      'START option a: unknown state MISSING',
+      'START option A: unknown action nope',
+      'START: A matches more than one option',
+      'START input: unknown validator phone',
+      'EMPTY: no way to answer a message'
+    ]);
+  });
+});
+
+describe('FLOW_VALIDATORS', () => {
+  it('should pick the email out of "email, phone" replies', () => {
+    expect(FLOW_VALIDATORS.email('Asha@Example.com, 9876543210')).toEqual({ value: 'asha@example.com' });
+    expect(FLOW_VALIDATORS.email('9876543210')).toHaveProperty('error');
+  });
+
+  it('should accept names in any script', () => {
+    expect(FLOW_VALIDATORS.name('  आशा   राय ')).toEqual({ value: 'आशा राय' });
+    expect(FLOW_VALIDATORS.name('42')).toHaveProperty('error');
+  });
+});
+
+describe('DARJBERRY_FLOW', () => {
+  const engine = new ConversationEngine(DARJBERRY_FLOW, FLOW_ACTIONS);
+  const newUser: FlowUser = { phoneNumber: '919876543210', state: 'NEW' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should only reference states, actions and validators that exist', () => {
+    expect(validateFlow(DARJBERRY_FLOW, FLOW_ACTIONS)).toEqual([]);
+  });
+
+  it('should greet new users with the menu', async () => {
+    const { user, replies } = await converse(engine, newUser, ['hi']);
+
+    expect(replies).toEqual([WELCOME_MESSAGE]);
+    expect(user.state).toBe('SELECTING_SERVICE');
+  });
+
+  it('should onboard through name, email and location', async () => {
+    (FLOW_ACTIONS.analyseLocation as jest.Mock).mockResolvedValue({
+      reply: 'Kurseong looks great',
+      next: 'SIP_PACKAGE_SELECTION',
+      profile: { location: 'Kurseong' }
+    });
+
+    const { user, replies } = await converse(engine, newUser, [
+      'hi', '2', 'Asha Rai', 'not an email', 'asha@example.com, 9876543210', 'Kurseong'
+    ]);
+
+    expect(replies[2]).toContain('Perfect, Asha Rai!');
+    expect(replies[3]).toContain("that email doesn't look right");
+    expect(replies[4]).toContain('**Step 3**');
+    expect(replies[5]).toBe('Kurseong looks great');
+    expect(user).toMatchObject({
+      state: 'SIP_PACKAGE_SELECTION',
+      name: 'Asha Rai',
+      email: 'asha@example.com',
+      location: 'Kurseong'
+    });
+  });
+
+  it('should offer the main menu as a list', async () => {
+    const reply = await engine.handleMessage(newUser, { text: 'hi' });
+
+    expect(reply?.choices.map(choice => choice.id)).toEqual([
+      'SELECTING_SERVICE:1', 'SELECTING_SERVICE:2', 'SELECTING_SERVICE:3', 'SELECTING_SERVICE:4'
+    ]);
+  });
+
+  it('should start land verification when photos arrive after the location analysis', async () => {
+    (FLOW_ACTIONS.saveLandDocument as jest.Mock).mockResolvedValue({ reply: '✅ Saved!' });
+
+    const reply = await engine.handleMessage(
+      { ...newUser, state: 'SIP_PACKAGE_SELECTION' },
+      { text: '', attachment: { kind: 'image', mediaId: 'media_1' } }
+    );
+
+    expect(FLOW_ACTIONS.saveLandDocument).toHaveBeenCalled();
+    expect(reply?.text).toBe('✅ Saved!');
+    expect(updates()).toEqual([{ state: 'LAND_VERIFICATION' }]);
+  });
+
+  it('should acknowledge voice notes and contacts wherever the customer is', async () => {
+    const voice = await engine.handleMessage(
+      { ...newUser, state: 'SELECTING_SERVICE' },
+      { text: '', attachment: { kind: 'audio', voice: true, mediaId: 'media_2' } }
+    );
+    const contacts = await engine.handleMessage(
+      { ...newUser, state: 'SIP_EXPLANATION' },
+      { text: '', attachment: { kind: 'contacts', contacts: [{ name: 'Bina Rai', phone: '+91 98765 43211' }] } }
+    );
+
+    expect(voice?.text).toContain('Thanks for the voice note');
+    expect(contacts?.text).toContain('Thanks for sharing Bina Rai');
+    expect(prisma.whatsAppUser.update).not.toHaveBeenCalled();
+  });
+
+  it('should hand customers who ask for a person to the team and then stay quiet', async () => {
+    (FLOW_ACTIONS.requestHuman as jest.Mock).mockResolvedValue({});
+
+    const { user, replies } = await converse(engine, { ...newUser, state: 'SELECTING_SERVICE' }, ['4', 'my payment failed']);
+
+    expect(FLOW_ACTIONS.requestHuman).toHaveBeenCalled();
+    expect(replies[0]).toContain('connecting you to a real human');
+    expect(replies[1]).toBeUndefined();
+    expect(user.state).toBe('HUMAN_HANDOFF');
+  });
+
+  it('should start onboarding when the customer replies START to the explanation', async () => {
+    const { user } = await converse(engine, { ...newUser, state: 'SIP_EXPLANATION' }, ['start']);
+
+    expect(user.state).toBe('SIP_ONBOARDING');
+  });
+
+  it('should continue onboarding for users who were half-way through before the flow engine', async () => {
+    const reply = await engine.handleMessage(
+      { ...newUser, state: 'SIP_ONBOARDING', name: 'Asha Rai' },
+      { text: 'asha@example.com' }
+    );
+
+    expect(reply?.text).toContain('**Step 3**');
+    expect(updates()).toEqual([{ email: 'asha@example.com', state: 'LOCATION_ANALYSIS' }]);
+  });
+});
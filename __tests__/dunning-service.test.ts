@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Dunning of failed SIP debits: escalating reminders, grace period and resume
+ */
+import { DunningService, DEFAULT_DUNNING_POLICY } from '@/lib/services/dunningService';
+import { WhatsAppService } from '@/lib/whatsapp';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const db = {
+  sip: null as any,
+  events: [] as any[]
+};
+
+jest.mock('@/lib/prisma', () => {
+  const client: any = {
+    sIPInvestment: {
+      update: jest.fn(async ({ data }: any) => Object.assign(db.sip, data)),
+      findMany: jest.fn(async ({ where }: any) =>
+        (db.sip.status === where.status && db.sip.dunningStartedAt && db.sip.dunningStartedAt <= where.dunningStartedAt.lte)
+          ? [{ ...db.sip }]
+          : []
+      )
+    },
+    dunningEvent: {
+      create: jest.fn(async ({ data }: any) => {
+        db.events.push(data);
+        return data;
+      })
+    },
+    whatsAppMessage: {
+      create: jest.fn(async ({ data }: any) => data)
+    },
+    // Customers wrote recently, so notifications go out as free-form text
+    whatsAppUser: {
+      findUnique: jest.fn(async () => ({ lastInboundAt: new Date() }))
+    }
+  };
+  return { prisma: client };
+});
+
+// Daytime in India, so notifications go out rather than wait for the morning
+jest.mock('@/lib/messaging-policy', () => ({
+  ...jest.requireActual('@/lib/messaging-policy'),
+  quietHoursEnd: jest.fn(() => null)
+}));
+
+jest.mock('@/lib/whatsapp', () => ({
+  WhatsAppService: { sendMessage: jest.fn(async () => undefined) }
+}));
+
+describe('DunningService', () => {
+  const service = new DunningService(DEFAULT_DUNNING_POLICY);
+  const firstFailure = new Date('2025-06-01T04:30:00Z');
+  const failure = { paymentId: 'cf_payment_1', amount: 10000, reason: 'Insufficient funds' };
+
+  // Each failure is reported with the SIP as last saved
+  const fail = (now: Date) => service.recordFailure({ ...db.sip }, failure, now);
+  const steps = () => db.events.map(e => e.step);
+
+  beforeEach(() => {
+    db.sip = { id: 'sip_1', phoneNumber: '919876543210', dailyAmount: 10000, status: 'ACTIVE', failedDebitCount: 0, dunningStartedAt: null };
+    db.events = [];
+    jest.clearAllMocks();
+  });
+
+  it('should start the dunning cycle and send a reminder', async () => {
+    const result = await fail(firstFailure);
+
+    expect(result).toEqual({ attempt: 1, paused: false });
+    expect(db.sip.dunningStartedAt).toEqual(firstFailure);
+    expect(steps()).toEqual(['DEBIT_FAILED', 'REMINDER_SENT']);
+    expect(WhatsAppService.sendMessage).toHaveBeenCalledWith('919876543210', expect.stringContaining('Insufficient funds'));
+    expect(WhatsAppService.sendMessage).not.toHaveBeenCalledWith('919876543210', expect.stringContaining("We'll retry"));
+  });
+
+  it('should count attempts from the first failure', async () => {
+    await fail(firstFailure);
+    const second = await fail(new Date(firstFailure.getTime() + DAY_MS));
+
+    expect(second.attempt).toBe(2);
+    expect(db.sip.dunningStartedAt).toEqual(firstFailure);
+  });
+
+  it('should escalate the reminder with each failed attempt', async () => {
+    await fail(firstFailure);
+    await fail(new Date(firstFailure.getTime() + DAY_MS));
+    await fail(new Date(firstFailure.getTime() + 3 * DAY_MS));
+
+    const reminders = db.events.filter(e => e.step === 'REMINDER_SENT').map(e => e.message);
+    expect(reminders[1]).toContain('failed again');
+    expect(reminders[2]).toContain('Final reminder');
+  });
+
+  it('should not pause before the grace period ends', async () => {
+    await fail(firstFailure);
+    await fail(new Date(firstFailure.getTime() + 5 * DAY_MS));
+    const result = await fail(new Date(firstFailure.getTime() + 6 * DAY_MS));
+
+    expect(result.paused).toBe(false);
+    expect(db.sip.status).toBe('ACTIVE');
+  });
+
+  it('should pause once the grace period has run out', async () => {
+    await fail(firstFailure);
+    const result = await fail(new Date(firstFailure.getTime() + 7 * DAY_MS));
+
+    expect(result.paused).toBe(true);
+    expect(db.sip.status).toBe('PAUSED');
+    expect(steps()).toContain('PAUSED');
+  });
+
+  it('should pause overdue SIPs on the daily run', async () => {
+    await fail(firstFailure);
+
+    expect(await service.processDue(new Date(firstFailure.getTime() + 6 * DAY_MS))).toEqual({ paused: 0 });
+    expect(await service.processDue(new Date(firstFailure.getTime() + 7 * DAY_MS))).toEqual({ paused: 1 });
+    expect(db.sip.status).toBe('PAUSED');
+  });
+
+  it('should resume a paused SIP on the next successful debit', async () => {
+    await fail(firstFailure);
+    await service.processDue(new Date(firstFailure.getTime() + 8 * DAY_MS));
+
+    const resumed = await service.recordRecovery({ ...db.sip }, 'cf_payment_2');
+
+    expect(resumed).toBe(true);
+    expect(db.sip).toMatchObject({ status: 'ACTIVE', failedDebitCount: 0, dunningStartedAt: null });
+    expect(steps()).toContain('RESUMED');
+  });
+
+  it('should leave SIPs in good standing untouched on success', async () => {
+    const resumed = await service.recordRecovery({ ...db.sip }, 'cf_payment_2');
+
+    expect(resumed).toBe(false);
+    expect(db.events).toHaveLength(0);
+  });
+});
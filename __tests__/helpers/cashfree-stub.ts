@@ -0,0 +1,166 @@
+/**
+ * Local stand-in for the Cashfree HTTP API.
+ * Serves the handful of endpoints CashfreeService calls and records every request.
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export interface StubResponse {
+  status: number;
+  body: any;
+  delayMs?: number; // Hold the response back, e.g. to trigger client timeouts
+}
+
+type RouteHandler = (request: RecordedRequest) => StubResponse;
+
+export interface CashfreeStub {
+  baseUrl: string;
+  requests: RecordedRequest[];
+  on(method: string, path: string, handler: RouteHandler): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+const defaultRoutes: Record<string, RouteHandler> = {
+  'POST /cftoken/order': () => ({ status: 200, body: { status: 'OK', cftoken: 'stub_token' } }),
+  'POST /subscriptions': (request) => ({
+    status: 200,
+    body: {
+      cfSubscriptionId: `cf_${request.body.subscriptionId}`,
+      subscriptionId: request.body.subscriptionId,
+      subscriptionStatus: 'BANK_APPROVAL_PENDING',
+      subscriptionPaymentLink: `https://stub.cashfree.local/subscriptions/${request.body.subscriptionId}/authorize`
+    }
+  }),
+  'POST /subscriptions/plans': (request) => ({
+    status: 200,
+    body: { planId: request.body.planId, planName: request.body.planName, status: 'ACTIVE' }
+  }),
+  'POST /subscriptions/:subscriptionId/manage': (request) => ({
+    status: 200,
+    body: {
+      subscriptionId: request.params.subscriptionId,
+      subscriptionStatus: request.body.action === 'PAUSE' ? 'PAUSED' : 'ACTIVE'
+    }
+  }),
+  'POST /subscriptions/:subscriptionId/cancel': (request) => ({
+    status: 200,
+    body: { subscriptionId: request.params.subscriptionId, subscriptionStatus: 'CANCELLED' }
+  }),
+  'PATCH /subscriptions/:subscriptionId': (request) => ({
+    status: 200,
+    body: { subscriptionId: request.params.subscriptionId, ...request.body }
+  }),
+  'POST /orders': (request) => ({
+    status: 200,
+    body: {
+      cfOrderId: `cf_${request.body.orderId}`,
+      orderId: request.body.orderId,
+      orderAmount: request.body.orderAmount,
+      orderStatus: 'ACTIVE',
+      paymentSessionId: `session_${request.body.orderId}`
+    }
+  }),
+  'GET /orders/:orderId': (request) => ({
+    status: 200,
+    body: {
+      cfOrderId: `cf_${request.params.orderId}`,
+      orderId: request.params.orderId,
+      orderStatus: 'ACTIVE',
+      paymentSessionId: `session_${request.params.orderId}`
+    }
+  }),
+  'POST /orders/:orderId/refunds': (request) => ({
+    status: 200,
+    body: {
+      cfRefundId: `cf_${request.body.refundId}`,
+      refundId: request.body.refundId,
+      orderId: request.params.orderId,
+      refundAmount: request.body.refundAmount,
+      refundStatus: 'PENDING'
+    }
+  })
+};
+
+// Match "METHOD /path/:param" route keys against a request
+function matchRoute(routeKey: string, method: string, path: string): Record<string, string> | null {
+  const [routeMethod, routePath] = routeKey.split(' ');
+  if (routeMethod !== method) return null;
+
+  const routeParts = routePath.split('/');
+  const pathParts = path.split('?')[0].split('/');
+  if (routeParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < routeParts.length; i++) {
+    if (routeParts[i].startsWith(':')) {
+      params[routeParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (routeParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+export async function startCashfreeStub(): Promise<CashfreeStub> {
+  const routes: Record<string, RouteHandler> = { ...defaultRoutes };
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      const recorded: RecordedRequest = {
+        method: req.method || 'GET',
+        path: req.url || '/',
+        params: {},
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : null
+      };
+      requests.push(recorded);
+
+      let response: StubResponse = { status: 404, body: { message: `No stub for ${recorded.method} ${recorded.path}` } };
+      for (const [routeKey, handler] of Object.entries(routes)) {
+        const params = matchRoute(routeKey, recorded.method, recorded.path);
+        if (params) {
+          recorded.params = params;
+          response = handler(recorded);
+          break;
+        }
+      }
+
+      const { status, body } = response;
+      setTimeout(() => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      }, response.delayMs || 0);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    on(method, path, handler) {
+      routes[`${method} ${path}`] = handler;
+    },
+    reset() {
+      requests.length = 0;
+      for (const key of Object.keys(routes)) delete routes[key];
+      Object.assign(routes, defaultRoutes);
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+    }
+  };
+}
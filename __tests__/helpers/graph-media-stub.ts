@@ -0,0 +1,81 @@
+/**
+ * Local stand-in for the Graph API media endpoints.
+ * Media ids resolve to a download URL on the same server, as Graph does.
+ */
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface GraphMediaRequest {
+  method: string;
+  path: string;
+  authorization: string | undefined;
+}
+
+export interface GraphMediaStub {
+  baseUrl: string;
+  requests: GraphMediaRequest[];
+  addMedia(mediaId: string, content: Buffer, mimeType: string, reportedSize?: number): { sha256: string };
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export async function startGraphMediaStub(): Promise<GraphMediaStub> {
+  const media = new Map<string, { content: Buffer; mimeType: string; sha256: string; reportedSize?: number }>();
+  const requests: GraphMediaRequest[] = [];
+  let baseUrl = '';
+
+  const server = http.createServer((req, res) => {
+    const path = req.url || '/';
+    requests.push({ method: req.method || 'GET', path, authorization: req.headers.authorization });
+
+    const download = path.match(/^\/files\/([^/]+)$/);
+    const lookup = path.match(/^\/([^/]+)$/);
+    const file = media.get(decodeURIComponent((download || lookup)?.[1] || ''));
+
+    if (!file) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Unsupported get request', code: 100 } }));
+      return;
+    }
+
+    if (download) {
+      res.writeHead(200, { 'Content-Type': file.mimeType });
+      res.end(file.content);
+      return;
+    }
+
+    const mediaId = lookup![1];
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id: mediaId,
+      url: `${baseUrl}/files/${mediaId}`,
+      mime_type: file.mimeType,
+      sha256: file.sha256,
+      file_size: file.reportedSize ?? file.content.length,
+      messaging_product: 'whatsapp'
+    }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    baseUrl,
+    requests,
+    // reportedSize lets a test have the lookup understate the file, as a misbehaving server might
+    addMedia(mediaId, content, mimeType, reportedSize) {
+      const sha256 = crypto.createHash('sha256').update(content).digest('hex');
+      media.set(mediaId, { content, mimeType, sha256, reportedSize });
+      return { sha256 };
+    },
+    reset() {
+      requests.length = 0;
+      media.clear();
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+    }
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Numbered receipts/invoices for successful payments
+ */
+import { InvoiceService } from '@/lib/services/invoiceService';
+import { getFinancialYear, formatInvoiceNumber, renderInvoicePdf } from '@/lib/invoice-renderer';
+import { DARJBERRY_CONSTANTS } from '@/lib/shared-constants';
+import { WhatsAppService } from '@/lib/whatsapp';
+
+const db = {
+  payments: [] as any[],
+  invoices: [] as any[],
+  sequences: {} as Record<string, number>,
+  scheduled: [] as any[],
+  lastInboundAt: null as Date | null,
+  templateStatus: 'APPROVED'
+};
+
+jest.mock('@/lib/prisma', () => {
+  const client: any = {
+    payment: {
+      findUnique: jest.fn(async ({ where }: any) => db.payments.find(p => p.id === where.id) || null)
+    },
+    invoice: {
+      findUnique: jest.fn(async ({ where }: any) =>
+        db.invoices.find(i => (where.id ? i.id === where.id : i.paymentId === where.paymentId)) || null
+      ),
+      create: jest.fn(async ({ data }: any) => {
+        const invoice = { id: `inv_${db.invoices.length + 1}`, sentAt: null, currency: 'INR', ...data };
+        db.invoices.push(invoice);
+        return invoice;
+      }),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.invoices.find(i => i.id === where.id), data))
+    },
+    whatsAppMessage: {
+      create: jest.fn(async ({ data }: any) => data)
+    },
+    whatsAppUser: {
+      findUnique: jest.fn(async () => ({ lastInboundAt: db.lastInboundAt, optedInAt: null, optedOutAt: null }))
+    },
+    messageTemplate: {
+      findUnique: jest.fn(async () => ({ status: db.templateStatus }))
+    },
+    analytics: {
+      create: jest.fn(async ({ data }: any) => data)
+    },
+    scheduledMessage: {
+      create: jest.fn(async ({ data }: any) => {
+        db.scheduled.push(data);
+        return data;
+      })
+    },
+    invoiceSequence: {
+      upsert: jest.fn(async ({ where }: any) => {
+        db.sequences[where.financialYear] = (db.sequences[where.financialYear] || 0) + 1;
+        return { financialYear: where.financialYear, lastNumber: db.sequences[where.financialYear] };
+      })
+    }
+  };
+  client.$transaction = jest.fn(async (fn: any) => fn(client));
+  return { prisma: client };
+});
+
+jest.mock('@/lib/whatsapp', () => ({
+  WhatsAppService: {
+    sendDocument: jest.fn(async () => undefined),
+    sendTemplate: jest.fn(async () => undefined)
+  }
+}));
+
+const successfulPayment = (id: string) => ({
+  id,
+  orderId: `order_${id}`,
+  paymentId: `cf_${id}`,
+  amount: 10000,
+  status: 'SUCCESS',
+  phoneNumber: '919876543210',
+  paidAt: new Date('2025-06-01T04:30:00Z'),
+  createdAt: new Date('2025-06-01T04:30:00Z'),
+  user: { name: 'Asha Rai', email: 'asha@example.com' },
+  sipInvestment: { dailyAmount: 10000 },
+  allocation: { plantsAllocated: 3 }
+});
+
+// 3:30 PM in India
+const afternoon = new Date('2025-06-02T10:00:00Z');
+
+describe('InvoiceService', () => {
+  const service = new InvoiceService();
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_BASE_URL = 'https://darjberry.test';
+  });
+
+  beforeEach(() => {
+    db.payments = [successfulPayment('pay_1'), successfulPayment('pay_2')];
+    db.invoices = [];
+    db.sequences = {};
+    db.scheduled = [];
+    db.lastInboundAt = afternoon;
+    db.templateStatus = 'APPROVED';
+    jest.clearAllMocks();
+  });
+
+  it('should number invoices sequentially within the financial year', async () => {
+    const first = await service.issueForPayment('pay_1');
+    const second = await service.issueForPayment('pay_2');
+    const financialYear = getFinancialYear(new Date());
+
+    expect(first.invoiceNumber).toBe(formatInvoiceNumber(financialYear, 1));
+    expect(second.invoiceNumber).toBe(formatInvoiceNumber(financialYear, 2));
+  });
+
+  it('should return the existing invoice when issued twice for a payment', async () => {
+    const first = await service.issueForPayment('pay_1');
+    const again = await service.issueForPayment('pay_1');
+
+    expect(again.id).toBe(first.id);
+    expect(db.sequences[getFinancialYear(new Date())]).toBe(1);
+  });
+
+  it('should capture company, plan and allocation details', async () => {
+    const invoice = await service.issueForPayment('pay_1');
+
+    expect(invoice).toMatchObject({ planName: 'Daily SIP ₹10,000', plantsAllocated: 3, amount: 10000 });
+    expect(invoice.html).toContain(DARJBERRY_CONSTANTS.COMPANY_NAME);
+    expect(invoice.html).toContain('Asha Rai');
+  });
+
+  it('should refuse to invoice failed payments', async () => {
+    db.payments[0].status = 'FAILED';
+
+    await expect(service.issueForPayment('pay_1')).rejects.toThrow('Invalid payment for invoice');
+  });
+
+  it('should send the PDF link on WhatsApp', async () => {
+    const invoice = await service.issueForPayment('pay_1');
+    expect(await service.send(invoice, afternoon)).toBe('SESSION');
+
+    expect(WhatsAppService.sendDocument).toHaveBeenCalledWith(
+      '919876543210',
+      `https://darjberry.test/api/invoices/${invoice.id}?format=pdf&token=${invoice.accessToken}`,
+      expect.stringMatching(/^Darjberry-Invoice-DJB-\d{4}-\d{2}-00001\.pdf$/),
+      expect.stringContaining(invoice.invoiceNumber)
+    );
+    expect(db.invoices[0].sentAt).toEqual(afternoon);
+  });
+
+  it('should attach the PDF to the invoice template outside the 24-hour window', async () => {
+    db.lastInboundAt = null;
+    const invoice = await service.issueForPayment('pay_1');
+
+    expect(await service.send(invoice, afternoon)).toBe('TEMPLATE');
+    expect(WhatsAppService.sendDocument).not.toHaveBeenCalled();
+    expect(WhatsAppService.sendTemplate).toHaveBeenCalledWith(
+      '919876543210',
+      'invoice_ready',
+      [
+        {
+          type: 'header',
+          parameters: [{
+            type: 'document',
+            document: {
+              link: `https://darjberry.test/api/invoices/${invoice.id}?format=pdf&token=${invoice.accessToken}`,
+              filename: expect.stringMatching(/\.pdf$/)
+            }
+          }]
+        },
+        { type: 'body', parameters: [{ type: 'text', text: invoice.invoiceNumber }, { type: 'text', text: '10,000' }] }
+      ],
+      'en'
+    );
+    expect(db.invoices[0].sentAt).toEqual(afternoon);
+  });
+
+  it('should leave the invoice unsent when the template is not approved', async () => {
+    db.lastInboundAt = null;
+    db.templateStatus = 'PENDING';
+    const invoice = await service.issueForPayment('pay_1');
+
+    expect(await service.send(invoice, afternoon)).toBe('UNSENT');
+    expect(WhatsAppService.sendTemplate).not.toHaveBeenCalled();
+    expect(db.invoices[0].sentAt).toBeNull();
+  });
+
+  it('should hold the invoice until quiet hours end', async () => {
+    const invoice = await service.issueForPayment('pay_1');
+
+    // 10:30 PM in India
+    expect(await service.send(invoice, new Date('2025-06-02T17:00:00Z'))).toBe('QUEUED');
+    expect(WhatsAppService.sendDocument).not.toHaveBeenCalled();
+    expect(db.scheduled).toEqual([expect.objectContaining({ invoiceId: invoice.id, document: expect.stringContaining('.pdf') })]);
+    expect(db.invoices[0].sentAt).toBeNull();
+  });
+
+  it('should only serve downloads with the right token', async () => {
+    const invoice = await service.issueForPayment('pay_1');
+
+    expect(await service.getForDownload(invoice.id, 'wrong')).toBeNull();
+    expect(await service.getForDownload(invoice.id, invoice.accessToken)).toMatchObject({ id: invoice.id });
+  });
+});
+
+describe('Invoice rendering', () => {
+  it('should use the Indian financial year in IST', () => {
+    expect(getFinancialYear(new Date('2025-03-31T18:30:00Z'))).toBe('2025-26');
+    expect(getFinancialYear(new Date('2026-01-15T00:00:00Z'))).toBe('2025-26');
+    expect(getFinancialYear(new Date('2025-03-31T18:29:00Z'))).toBe('2024-25');
+  });
+
+  it('should produce a well-formed PDF', () => {
+    const pdf = renderInvoicePdf({
+      invoiceNumber: 'DJB/2025-26/00001',
+      issuedAt: new Date('2025-06-01T04:30:00Z'),
+      paidAt: new Date('2025-06-01T04:30:00Z'),
+      customerName: 'Asha Rai',
+      customerEmail: null,
+      phoneNumber: '919876543210',
+      orderId: 'order_1',
+      paymentReference: 'cf_payment_1',
+      planName: 'Daily SIP ₹10,000',
+      amount: 10000,
+      plantsAllocated: 3
+    }).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('(DJB/2025-26/00001)');
+    expect(pdf).toContain('Daily SIP Rs. 10,000');
+
+    // Every xref offset must point at its object
+    const xrefStart = parseInt(pdf.match(/startxref\n(\d+)/)![1]);
+    const offsets = pdf.slice(xrefStart).match(/^\d{10} 00000 n $/gm)!.map(line => parseInt(line));
+    offsets.forEach((offset, index) => {
+      expect(pdf.startsWith(`${index + 1} 0 obj`, offset)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * One-time lumpsum checkout: Cashfree orders for signed-in customers, allocation on payment and
+ * the return-page status
+ */
+import { NextRequest } from 'next/server';
+import { POST as createOrderRoute } from '@/app/api/cashfree/order/route';
+import { CashfreeService } from '@/lib/cashfree';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { PaymentGatewayRegistry } from '@/lib/payment-gateway';
+import { LumpsumService, lumpsumService } from '@/lib/services/lumpsumService';
+import { startCashfreeStub, CashfreeStub } from './helpers/cashfree-stub';
+
+const db = {
+  orders: [] as any[],
+  landOptions: [] as any[],
+  landAllocations: [] as any[],
+  payments: [] as any[],
+  berryPlots: [] as any[],
+  allocations: [] as any[]
+};
+
+jest.mock('@/lib/prisma', () => {
+  const client: any = {
+    lumpsumOrder: {
+      create: jest.fn(async ({ data }: any) => {
+        const order = { id: `lo_${db.orders.length + 1}`, status: 'PENDING', paidAt: null, landAllocationId: null, ...data };
+        db.orders.push(order);
+        return order;
+      }),
+      findUnique: jest.fn(async ({ where }: any) => db.orders.find(o => o.orderId === where.orderId) || null),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.orders.find(o => o.orderId === where.orderId), data)),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const matches = db.orders.filter(o => o.orderId === where.orderId && !where.status.notIn.includes(o.status));
+        matches.forEach(o => Object.assign(o, data));
+        return { count: matches.length };
+      })
+    },
+    landOption: {
+      findUnique: jest.fn(async ({ where }: any) => db.landOptions.find(l => l.id === where.id) || null),
+      findFirst: jest.fn(async ({ where }: any) =>
+        db.landOptions.find(l => l.isActive && l.status === where.status && l.availableAcres >= where.availableAcres.gte) || null
+      ),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const landOption = db.landOptions.find(l => l.id === where.id && l.availableAcres >= where.availableAcres.gte);
+        if (!landOption) return { count: 0 };
+        landOption.availableAcres -= data.availableAcres.decrement;
+        return { count: 1 };
+      })
+    },
+    landAllocation: {
+      create: jest.fn(async ({ data }: any) => {
+        const allocation = { id: `la_${db.landAllocations.length + 1}`, ...data };
+        db.landAllocations.push(allocation);
+        return allocation;
+      }),
+      findUnique: jest.fn(async ({ where }: any) => {
+        const allocation = db.landAllocations.find(a => a.id === where.id);
+        return allocation && { ...allocation, landOption: db.landOptions.find(l => l.id === allocation.landOptionId) };
+      })
+    },
+    payment: {
+      create: jest.fn(async ({ data }: any) => {
+        const payment = { id: `pay_${db.payments.length + 1}`, ...data };
+        db.payments.push(payment);
+        return payment;
+      })
+    },
+    berryPlot: {
+      create: jest.fn(async ({ data }: any) => {
+        db.berryPlots.push(data);
+        return data;
+      })
+    },
+    plantAllocation: {
+      create: jest.fn(async ({ data }: any) => {
+        db.allocations.push(data);
+        return data;
+      })
+    }
+  };
+  client.$transaction = jest.fn(async (fn: any) => fn(client));
+  return { prisma: client };
+});
+
+const customer = {
+  packageKey: 'lumpsum3L',
+  phoneNumber: '919876543210',
+  customerName: 'Asha Rai',
+  customerEmail: 'asha@example.com'
+};
+
+jest.mock('@/lib/middleware/auth', () => ({
+  authenticateRequest: jest.fn()
+}));
+
+const payment = {
+  cfPaymentId: 'cf_payment_1',
+  amount: 300000,
+  paymentMethod: 'UPI',
+  paidAt: new Date('2025-06-01T04:30:00Z')
+};
+
+describe('LumpsumService', () => {
+  let stub: CashfreeStub;
+  let service: LumpsumService;
+
+  beforeAll(async () => {
+    stub = await startCashfreeStub();
+    process.env.NEXT_PUBLIC_BASE_URL = 'https://darjberry.test';
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+    db.orders = [];
+    db.landOptions = [
+      { id: 'land_1', name: 'Ambari T-State Land', isActive: true, status: 'AVAILABLE', availableAcres: 10, latitude: 26.7, longitude: 88.4 }
+    ];
+    db.landAllocations = [];
+    db.payments = [];
+    db.berryPlots = [];
+    db.allocations = [];
+    service = new LumpsumService(new PaymentGatewayRegistry([new CashfreeService({
+      clientId: 'test_client',
+      clientSecret: 'test_secret',
+      environment: 'TEST',
+      baseUrl: stub.baseUrl
+    })]));
+  });
+
+  describe('createOrder', () => {
+    it('should create a one-time Cashfree order for the package', async () => {
+      const checkout = await service.createOrder(customer);
+
+      const orderCall = stub.requests.find(r => r.method === 'POST' && r.path === '/orders');
+      expect(orderCall!.body).toMatchObject({
+        orderId: checkout.orderId,
+        orderAmount: 300000,
+        orderCurrency: 'INR',
+        orderMeta: { returnUrl: 'https://darjberry.test/payment/success?order_id={order_id}' }
+      });
+      expect(stub.requests.some(r => r.path.startsWith('/subscriptions'))).toBe(false);
+      expect(checkout).toMatchObject({ amount: 300000, plants: 100, landName: 'Ambari T-State Land' });
+      expect(db.orders[0]).toMatchObject({ status: 'PENDING', landOptionId: 'land_1', paymentSessionId: `session_${checkout.orderId}` });
+    });
+
+    it('should reject unknown packages', async () => {
+      await expect(service.createOrder({ ...customer, packageKey: 'dailySIP' })).rejects.toThrow('Invalid lumpsum package');
+    });
+
+    it('should refuse orders when no land has room for the plants', async () => {
+      db.landOptions[0].availableAcres = 0.01;
+
+      await expect(service.createOrder(customer)).rejects.toThrow('not available');
+      expect(stub.requests.some(r => r.path === '/orders')).toBe(false);
+    });
+  });
+
+  describe('completeOrder', () => {
+    it('should allocate plants and land for the buyer', async () => {
+      const { orderId } = await service.createOrder(customer);
+
+      const completed = await service.completeOrder(orderId, payment);
+
+      expect(completed!.allocation).toMatchObject({ plants: 100, landName: 'Ambari T-State Land' });
+      expect(db.berryPlots).toEqual([
+        expect.objectContaining({ phoneNumber: '919876543210', plantCount: 100, location: 'Ambari T-State Land', paymentId: 'pay_1' })
+      ]);
+      expect(db.landAllocations).toEqual([
+        expect.objectContaining({ landOptionId: 'land_1', plantsCount: 100, purchasePrice: 300000 })
+      ]);
+      expect(db.landOptions[0].availableAcres).toBeCloseTo(10 - completed!.allocation!.acres);
+      expect(db.allocations[0]).not.toHaveProperty('sipInvestmentId');
+      expect(db.orders[0]).toMatchObject({ status: 'PAID', paymentId: 'pay_1', landAllocationId: 'la_1' });
+    });
+
+    it('should not allocate twice for the same order', async () => {
+      const { orderId } = await service.createOrder(customer);
+
+      await service.completeOrder(orderId, payment);
+      const again = await service.completeOrder(orderId, payment);
+
+      expect(again).toBeNull();
+      expect(db.payments).toHaveLength(1);
+      expect(db.landAllocations).toHaveLength(1);
+    });
+
+    it('should mark the order for refund when the land sold out before payment', async () => {
+      const { orderId } = await service.createOrder(customer);
+      db.landOptions[0].availableAcres = 0.01;
+
+      const completed = await service.completeOrder(orderId, payment);
+
+      expect(completed!.allocation).toBeNull();
+      expect(db.payments).toHaveLength(1);
+      expect(db.berryPlots).toHaveLength(0);
+      expect(db.landAllocations).toHaveLength(0);
+      expect(db.landOptions[0].availableAcres).toBe(0.01);
+      expect(db.orders[0]).toMatchObject({ status: 'REFUND_DUE', paymentId: 'pay_1', landAllocationId: null });
+      expect(await service.completeOrder(orderId, payment)).toBeNull();
+    });
+
+    it('should complete an order after an earlier failed attempt', async () => {
+      const { orderId } = await service.createOrder(customer);
+
+      await service.markFailed(orderId, 'Insufficient funds');
+      expect(db.orders[0]).toMatchObject({ status: 'FAILED', failureReason: 'Insufficient funds' });
+
+      await service.completeOrder(orderId, payment);
+      expect(db.orders[0]).toMatchObject({ status: 'PAID', failureReason: null });
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report PROCESSING while Cashfree has the money but the webhook has not landed', async () => {
+      const { orderId } = await service.createOrder(customer);
+      stub.on('GET', '/orders/:orderId', (request) => ({
+        status: 200,
+        body: { orderId: request.params.orderId, orderStatus: 'PAID', paymentSessionId: 'session' }
+      }));
+
+      expect(await service.getStatus(orderId)).toMatchObject({ status: 'PROCESSING', plants: 100 });
+    });
+
+    it('should show the allocated land once paid', async () => {
+      const { orderId } = await service.createOrder(customer);
+      const completed = await service.completeOrder(orderId, payment);
+
+      expect(await service.getStatus(orderId)).toMatchObject({
+        status: 'PAID',
+        landName: 'Ambari T-State Land',
+        plotNumbers: [completed!.allocation!.plotNumber]
+      });
+    });
+  });
+
+  describe('POST /api/cashfree/order', () => {
+    const orderRequest = (body: object) => new NextRequest('http://localhost/api/cashfree/order', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'content-type': 'application/json', authorization: 'Bearer token' }
+    });
+
+    it('should reject callers who have not signed in', async () => {
+      (authenticateRequest as jest.Mock).mockResolvedValueOnce(null);
+
+      const response = await createOrderRoute(orderRequest({
+        customerDetails: { name: 'Asha Rai', email: 'asha@example.com', phone: '9876543210' }
+      }));
+
+      expect(response.status).toBe(401);
+      expect(db.orders).toHaveLength(0);
+    });
+
+    it('should order for the verified number, not the one in the body', async () => {
+      (authenticateRequest as jest.Mock).mockResolvedValueOnce({ id: 'u1', phoneNumber: '919876543210', state: 'NEW' });
+      const createOrder = jest.spyOn(lumpsumService, 'createOrder').mockResolvedValueOnce({} as any);
+
+      const response = await createOrderRoute(orderRequest({
+        customerDetails: { name: 'Asha Rai', email: 'asha@example.com', phone: '9123456789' }
+      }));
+
+      expect(response.status).toBe(200);
+      expect(createOrder).toHaveBeenCalledWith(expect.objectContaining({ phoneNumber: '919876543210', customerName: 'Asha Rai' }));
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Delivery tracking of the WhatsApp messages we send: Graph ids, status webhooks and per-campaign stats
+ */
+import { MessageDeliveryService, sentMessageId } from '@/lib/services/messageDeliveryService';
+import { WhatsAppMessageStatus } from '@/types/whatsapp';
+
+const db = {
+  messages: [] as any[]
+};
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    whatsAppMessage: {
+      create: jest.fn(async ({ data }: any) => {
+        const message = { id: `msg_${db.messages.length + 1}`, error: null, timestamp: new Date(), ...data };
+        db.messages.push(message);
+        return message;
+      }),
+      findUnique: jest.fn(async ({ where }: any) => db.messages.find(m => m.waMessageId === where.waMessageId) || null),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.messages.find(m => m.id === where.id), data)),
+      groupBy: jest.fn(async () => {
+        const groups = new Map<string, any>();
+        for (const message of db.messages) {
+          const key = `${message.campaign}|${message.status}`;
+          const group = groups.get(key) || { campaign: message.campaign, status: message.status, _count: { _all: 0 } };
+          group._count._all += 1;
+          groups.set(key, group);
+        }
+        return Array.from(groups.values());
+      })
+    }
+  }
+}));
+
+const PHONE = '919876543210';
+
+const accepted = (id: string) => ({
+  messaging_product: 'whatsapp' as const,
+  contacts: [{ input: PHONE, wa_id: PHONE }],
+  messages: [{ id }]
+});
+
+const status = (id: string, value: WhatsAppMessageStatus['status'], timestamp: number, errors?: WhatsAppMessageStatus['errors']): WhatsAppMessageStatus => ({
+  id,
+  status: value,
+  timestamp: String(timestamp),
+  recipient_id: PHONE,
+  errors
+});
+
+describe('MessageDeliveryService', () => {
+  const service = new MessageDeliveryService();
+
+  beforeEach(() => {
+    db.messages = [];
+    jest.clearAllMocks();
+  });
+
+  it('should keep the Graph id of a sent message', async () => {
+    const message = await service.recordSent(PHONE, 'Payment failed', accepted('wamid.1'), { campaign: 'dunning' });
+
+    expect(message).toMatchObject({ messageType: 'SENT', campaign: 'dunning', waMessageId: 'wamid.1', status: 'ACCEPTED' });
+  });
+
+  it('should leave messages untracked when WhatsApp is not configured', async () => {
+    const message = await service.recordSent(PHONE, 'Hello', undefined, { campaign: 'bot' });
+
+    expect(message).toMatchObject({ waMessageId: null, status: null });
+    expect(sentMessageId(undefined)).toBeNull();
+  });
+
+  it('should move a message forward through sent, delivered and read', async () => {
+    await service.recordSent(PHONE, 'Payment failed', accepted('wamid.1'), { campaign: 'dunning' });
+
+    await service.recordStatus(status('wamid.1', 'sent', 1717400000));
+    await service.recordStatus(status('wamid.1', 'read', 1717400120));
+    // Meta does not promise order; a late delivered must not undo read
+    await service.recordStatus(status('wamid.1', 'delivered', 1717400060));
+
+    expect(db.messages[0]).toMatchObject({ status: 'READ', statusAt: new Date(1717400120 * 1000) });
+  });
+
+  it('should record why a message failed', async () => {
+    await service.recordSent(PHONE, 'Payment failed', accepted('wamid.1'), { campaign: 'dunning' });
+
+    await service.recordStatus(status('wamid.1', 'failed', 1717400000, [
+      { code: 131026, title: 'Message undeliverable' }
+    ]));
+
+    expect(db.messages[0]).toMatchObject({ status: 'FAILED', error: '131026: Message undeliverable' });
+  });
+
+  it('should ignore statuses for messages it has no record of', async () => {
+    expect(await service.recordStatus(status('wamid.unknown', 'delivered', 1717400000))).toBe(false);
+  });
+
+  it('should count delivery per campaign', async () => {
+    for (const [id, campaign] of [['wamid.1', 'dunning'], ['wamid.2', 'dunning'], ['wamid.3', 'dunning'], ['wamid.4', 'bot']]) {
+      await service.recordSent(PHONE, 'Message', accepted(id), { campaign });
+    }
+    await service.recordStatus(status('wamid.1', 'delivered', 1717400000));
+    await service.recordStatus(status('wamid.2', 'read', 1717400000));
+    await service.recordStatus(status('wamid.3', 'failed', 1717400000));
+
+    expect(await service.getCampaignStats()).toEqual([
+      { campaign: 'dunning', total: 3, pending: 0, sent: 0, delivered: 2, read: 1, failed: 1 },
+      { campaign: 'bot', total: 1, pending: 1, sent: 0, delivered: 0, read: 0, failed: 0 }
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Subscription plan catalogue: versioning and sync to Cashfree
+ */
+import { CashfreeService } from '@/lib/cashfree';
+import { PaymentGatewayRegistry } from '@/lib/payment-gateway';
+import { PlanService } from '@/lib/services/planService';
+import { startCashfreeStub, CashfreeStub } from './helpers/cashfree-stub';
+
+const db = {
+  plans: [] as any[]
+};
+
+const matches = (plan: any, where: any = {}) =>
+  Object.entries(where).every(([field, condition]: [string, any]) => {
+    if (condition && typeof condition === 'object') {
+      if (condition.in) return condition.in.includes(plan[field]);
+      if (condition.lt !== undefined) return plan[field] < condition.lt;
+    }
+    return plan[field] === condition;
+  });
+
+jest.mock('@/lib/prisma', () => {
+  const client: any = {
+    subscriptionPlan: {
+      findFirst: jest.fn(async ({ where }: any) =>
+        db.plans.filter(p => matches(p, where)).sort((a, b) => b.version - a.version)[0] || null
+      ),
+      findMany: jest.fn(async ({ where }: any) =>
+        db.plans.filter(p => matches(p, where)).sort((a, b) => a.version - b.version)
+      ),
+      count: jest.fn(async ({ where }: any) => db.plans.filter(p => matches(p, where)).length),
+      create: jest.fn(async ({ data }: any) => {
+        const plan = { id: `plan_${db.plans.length + 1}`, status: 'ACTIVE', intervals: 1, ...data };
+        db.plans.push(plan);
+        return plan;
+      }),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.plans.find(p => p.id === where.id), data)),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const plans = db.plans.filter(p => matches(p, where));
+        plans.forEach(p => Object.assign(p, data));
+        return { count: plans.length };
+      })
+    }
+  };
+  client.$transaction = jest.fn(async (arg: any) => (typeof arg === 'function' ? arg(client) : Promise.all(arg)));
+  return { prisma: client };
+});
+
+const weeklyPlan = {
+  key: 'weekly5K',
+  planName: 'Darjberry Weekly ₹5,000',
+  intervalType: 'WEEKLY' as const,
+  maxCycles: 52,
+  amount: 5000,
+  description: 'Weekly ₹5,000 blueberry farm investment'
+};
+
+describe('PlanService', () => {
+  let stub: CashfreeStub;
+  let service: PlanService;
+
+  beforeAll(async () => {
+    stub = await startCashfreeStub();
+    service = new PlanService(new PaymentGatewayRegistry([new CashfreeService({
+      clientId: 'test_client',
+      clientSecret: 'test_secret',
+      environment: 'TEST',
+      baseUrl: stub.baseUrl
+    })]));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+    db.plans = [];
+  });
+
+  it('should seed the original plans on first use', async () => {
+    const plan = await service.getActivePlan('dailySIP');
+
+    expect(plan).toMatchObject({ planId: 'DARJBERRY_DAILY_10K', amount: 10000, version: 1, syncStatus: 'SYNCED' });
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('should not offer a new plan until it is synced', async () => {
+    await service.create(weeklyPlan);
+
+    expect(await service.getActivePlan('weekly5K')).toBeNull();
+
+    const result = await service.sync();
+    const planCall = stub.requests.find(r => r.path === '/subscriptions/plans');
+
+    expect(result).toEqual({ synced: ['DARJBERRY_WEEKLY_5K_V1'], failed: [] });
+    expect(planCall!.body).toMatchObject({ planId: 'DARJBERRY_WEEKLY_5K_V1', intervalType: 'WEEKLY', amount: 5000, type: 'PERIODIC' });
+    expect(await service.getActivePlan('weekly5K')).toMatchObject({ amount: 5000, syncStatus: 'SYNCED' });
+  });
+
+  it('should reject duplicate keys', async () => {
+    await service.create(weeklyPlan);
+
+    await expect(service.create(weeklyPlan)).rejects.toThrow('already exists');
+    await expect(service.create({ ...weeklyPlan, key: 'dailySIP' })).rejects.toThrow('already exists');
+  });
+
+  it('should validate plan terms', async () => {
+    await expect(service.create({ ...weeklyPlan, amount: 0 })).rejects.toThrow('Invalid plan amount');
+    await expect(service.create({ ...weeklyPlan, intervalType: 'YEARLY' as any })).rejects.toThrow('Invalid interval type');
+  });
+
+  it('should reject daily plans Razorpay cannot debit', async () => {
+    await expect(service.create({ ...weeklyPlan, intervalType: 'DAILY', gateway: 'RAZORPAY' }))
+      .rejects.toThrow('Invalid plan for RAZORPAY');
+    await expect(service.update('dailySIP', { gateway: 'RAZORPAY' })).rejects.toThrow('Invalid plan for RAZORPAY');
+    expect(db.plans.map(p => p.key)).toEqual(['dailySIP']);
+  });
+
+  it('should version a change and keep the old version until the new one syncs', async () => {
+    const updated = await service.update('dailySIP', { amount: 12000 });
+
+    expect(updated).toMatchObject({ version: 2, planId: 'DARJBERRY_DAILY_SIP_V2', syncStatus: 'PENDING' });
+    expect(await service.getActivePlan('dailySIP')).toMatchObject({ version: 1, amount: 10000 });
+
+    await service.sync();
+
+    expect(await service.getActivePlan('dailySIP')).toMatchObject({ version: 2, amount: 12000 });
+    expect(db.plans.find(p => p.version === 1).status).toBe('RETIRED');
+  });
+
+  it('should record sync failures and retry them on the next sync', async () => {
+    await service.create(weeklyPlan);
+    stub.on('POST', '/subscriptions/plans', () => ({ status: 500, body: { message: 'down' } }));
+
+    expect(await service.sync()).toEqual({ synced: [], failed: ['DARJBERRY_WEEKLY_5K_V1'] });
+    expect(db.plans[0].syncStatus).toBe('FAILED');
+
+    stub.reset();
+    expect((await service.sync()).synced).toEqual(['DARJBERRY_WEEKLY_5K_V1']);
+  });
+
+  it('should withdraw a retired plan', async () => {
+    await service.create(weeklyPlan);
+    await service.sync();
+    await service.retire('weekly5K');
+
+    expect(await service.getActivePlan('weekly5K')).toBeNull();
+    await expect(service.retire('weekly5K')).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Plant allocation rules shared by the payment webhook, SIP calculator and bot
+ */
+import {
+  ALLOCATION_RULES,
+  allocatePlants,
+  plantsForAmount,
+  plotsForPlants,
+  amountForPlants
+} from '@/lib/plant-allocation';
+import { DailySIPCalculator } from '@/lib/daily-sip-calculator';
+
+describe('Plant allocation', () => {
+  describe('allocatePlants', () => {
+    it('should allocate 100 plants for ₹3 lakh', () => {
+      expect(allocatePlants(300000)).toEqual({ plants: 100, creditBefore: 0, creditAfter: 0 });
+    });
+
+    it('should carry the remainder as credit', () => {
+      expect(allocatePlants(10000)).toEqual({ plants: 3, creditBefore: 0, creditAfter: 1000 });
+    });
+
+    it('should not lose small debits', () => {
+      let credit = 0;
+      let plants = 0;
+      for (let i = 0; i < 10; i++) {
+        const result = allocatePlants(999.9, credit);
+        plants += result.plants;
+        credit = result.creditAfter;
+      }
+
+      expect(plants).toBe(3);
+      expect(credit).toBe(999);
+      expect(plants * ALLOCATION_RULES.PRICE_PER_PLANT + credit).toBe(9999);
+    });
+  });
+
+  describe('shared across paths', () => {
+    it('should match the calculator projection to what payments allocate', () => {
+      const projection = DailySIPCalculator.calculate(10000, 30);
+
+      let credit = 0;
+      let plants = 0;
+      for (let day = 0; day < 30; day++) {
+        const result = allocatePlants(10000, credit);
+        plants += result.plants;
+        credit = result.creditAfter;
+      }
+
+      expect(projection.plantsAllocated).toBe(100);
+      expect(plants).toBe(projection.plantsAllocated);
+    });
+
+    it('should define plots in terms of plants', () => {
+      const plotCost = amountForPlants(ALLOCATION_RULES.PLANTS_PER_PLOT);
+
+      expect(DailySIPCalculator.calculatePlotAllocation(plotCost * 2)).toBe(2);
+      expect(plotsForPlants(plantsForAmount(plotCost - 1))).toBe(0);
+      expect(DailySIPCalculator.getNextPlotMilestone(plotCost).nextPlotAt).toBe(plotCost * 2);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Razorpay adapter, gateway selection and the Razorpay webhook route
+ */
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { CashfreeService } from '@/lib/cashfree';
+import { RazorpayService, translateRazorpayEvent } from '@/lib/razorpay';
+import { PaymentGatewayRegistry } from '@/lib/payment-gateway';
+import { handlePaymentEvent } from '@/lib/payment-webhook-handlers';
+import { POST } from '@/app/api/razorpay/webhook/route';
+import { startCashfreeStub, CashfreeStub } from './helpers/cashfree-stub';
+
+const processedEvents = new Set<string>();
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    processedWebhookEvent: {
+      create: jest.fn(async ({ data }: any) => {
+        const key = `${data.source}:${data.eventKey}`;
+        if (processedEvents.has(key)) {
+          throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+        }
+        processedEvents.add(key);
+        return data;
+      }),
+      deleteMany: jest.fn(async () => ({ count: 0 }))
+    }
+  }
+}));
+
+jest.mock('@/lib/payment-webhook-handlers', () => ({
+  handlePaymentEvent: jest.fn(async () => undefined)
+}));
+
+const WEBHOOK_SECRET = 'test_razorpay_secret';
+
+function signedRequest(payload: object, eventId: string, secret: string = WEBHOOK_SECRET): NextRequest {
+  const body = JSON.stringify(payload);
+  const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+  return new NextRequest('http://localhost/api/razorpay/webhook', {
+    method: 'POST',
+    body,
+    headers: {
+      'content-type': 'application/json',
+      'x-razorpay-signature': signature,
+      'x-razorpay-event-id': eventId
+    }
+  });
+}
+
+const subscriptionEntity = {
+  id: 'sub_rzp_1',
+  status: 'active',
+  notes: { subscriptionId: 'DARJ_SUB_1', customerPhone: '919876543210' }
+};
+
+const subscriptionCharged = {
+  event: 'subscription.charged',
+  payload: {
+    subscription: { entity: subscriptionEntity },
+    payment: { entity: { id: 'pay_rzp_1', order_id: 'order_rzp_1', amount: 500000, method: 'upi', created_at: 1748752200 } }
+  }
+};
+
+describe('RazorpayService', () => {
+  let stub: CashfreeStub;
+  let razorpay: RazorpayService;
+
+  beforeAll(async () => {
+    stub = await startCashfreeStub();
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+    razorpay = new RazorpayService({ keyId: 'rzp_test_key', keySecret: 'rzp_test_secret', baseUrl: stub.baseUrl });
+  });
+
+  it('should register plans in paise and return the Razorpay plan ID', async () => {
+    stub.on('POST', '/plans', () => ({ status: 200, body: { id: 'plan_rzp_1' } }));
+
+    const result = await razorpay.createSubscriptionPlan({
+      planId: 'DARJBERRY_WEEKLY_5K_V1',
+      planName: 'Darjberry Weekly ₹5,000',
+      type: 'PERIODIC',
+      maxCycles: 52,
+      intervalType: 'WEEKLY',
+      intervals: 1,
+      amount: 5000,
+      currency: 'INR',
+      description: 'Weekly ₹5,000 blueberry farm investment'
+    });
+
+    const planCall = stub.requests.find(r => r.path === '/plans');
+    expect(result).toEqual({ planId: 'plan_rzp_1' });
+    expect(planCall!.headers.authorization).toBe(`Basic ${Buffer.from('rzp_test_key:rzp_test_secret').toString('base64')}`);
+    expect(planCall!.body).toMatchObject({ period: 'weekly', interval: 1, item: { amount: 500000, currency: 'INR' } });
+  });
+
+  it('should refuse daily plans Razorpay cannot debit', async () => {
+    await expect(razorpay.createSubscriptionPlan({
+      planId: 'DARJBERRY_DAILY_SIP_V2',
+      planName: 'Daily',
+      type: 'PERIODIC',
+      maxCycles: 365,
+      intervalType: 'DAILY',
+      intervals: 1,
+      amount: 10000,
+      currency: 'INR',
+      description: 'Daily'
+    })).rejects.toThrow('Invalid plan for RAZORPAY');
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('should carry our subscription ID in notes and map the response', async () => {
+    stub.on('POST', '/subscriptions', (request) => ({
+      status: 200,
+      body: { id: 'sub_rzp_1', status: 'created', short_url: 'https://rzp.io/i/abc', notes: request.body.notes }
+    }));
+
+    const subscription = await razorpay.createSubscription({
+      subscriptionId: 'DARJ_SUB_1',
+      planId: 'plan_rzp_1',
+      maxCycles: 52,
+      customerDetails: { customerId: 'CUST_1', customerName: 'Asha Rai', customerEmail: 'asha@example.com', customerPhone: '919876543210' }
+    });
+
+    expect(stub.requests[0].body).toMatchObject({
+      plan_id: 'plan_rzp_1',
+      total_count: 52,
+      notes: { subscriptionId: 'DARJ_SUB_1', customerPhone: '919876543210' }
+    });
+    expect(subscription).toEqual({
+      cfSubscriptionId: 'sub_rzp_1',
+      subscriptionId: 'DARJ_SUB_1',
+      subscriptionStatus: 'BANK_APPROVAL_PENDING',
+      subscriptionPaymentLink: 'https://rzp.io/i/abc'
+    });
+    expect(razorpay.getSubscriptionReference({ subscriptionId: 'DARJ_SUB_1', cfSubscriptionId: 'sub_rzp_1' })).toBe('sub_rzp_1');
+  });
+
+  it('should look orders up by our order ID as the receipt', async () => {
+    stub.on('GET', '/orders', () => ({
+      status: 200,
+      body: { items: [{ id: 'order_rzp_1', receipt: 'DARJ_LS_1', amount: 30000000, status: 'paid' }] }
+    }));
+
+    const order = await razorpay.getOrder('DARJ_LS_1');
+
+    expect(stub.requests[0].path).toBe('/orders?receipt=DARJ_LS_1');
+    expect(order).toMatchObject({ orderId: 'DARJ_LS_1', cfOrderId: 'order_rzp_1', orderAmount: 300000, orderStatus: 'PAID' });
+  });
+
+  it('should refund against the payment and require its ID', async () => {
+    stub.on('POST', '/payments/:paymentId/refund', (request) => ({
+      status: 200,
+      body: { id: 'rfnd_1', receipt: request.body.receipt, amount: request.body.amount, status: 'processed' }
+    }));
+
+    await expect(razorpay.createRefund('order_1', { refundId: 'RFD_1', refundAmount: 100 })).rejects.toThrow('Invalid refund');
+
+    const refund = await razorpay.createRefund('order_1', { refundId: 'RFD_1', refundAmount: 2500 }, 'pay_rzp_1');
+
+    expect(stub.requests[0].path).toBe('/payments/pay_rzp_1/refund');
+    expect(refund).toEqual({ cfRefundId: 'rfnd_1', refundId: 'RFD_1', orderId: 'order_1', refundAmount: 2500, refundStatus: 'SUCCESS' });
+  });
+});
+
+describe('PaymentGatewayRegistry', () => {
+  const cashfree = new CashfreeService({ clientId: 'id', clientSecret: 'secret', environment: 'TEST' });
+  const registry = new PaymentGatewayRegistry([cashfree]);
+
+  it('should default to Cashfree for records from before gateways were tracked', () => {
+    expect(registry.get(undefined)).toBe(cashfree);
+    expect(registry.get('CASHFREE')).toBe(cashfree);
+  });
+
+  it('should reject gateways that are not configured', () => {
+    expect(() => registry.get('RAZORPAY')).toThrow('Invalid payment gateway: RAZORPAY is not configured');
+  });
+});
+
+describe('translateRazorpayEvent', () => {
+  it('should turn a subscription charge into a payment success for our subscription', () => {
+    expect(translateRazorpayEvent(subscriptionCharged)).toEqual({
+      type: 'PAYMENT_SUCCESS',
+      data: expect.objectContaining({
+        subscription_id: 'DARJ_SUB_1',
+        order_id: 'order_rzp_1',
+        payment_id: 'pay_rzp_1',
+        order_amount: 5000,
+        payment_method: 'UPI',
+        payment_time: '2025-06-01T04:30:00.000Z'
+      })
+    });
+  });
+
+  it('should match paid orders by receipt', () => {
+    const event = translateRazorpayEvent({
+      event: 'order.paid',
+      payload: {
+        order: { entity: { id: 'order_rzp_1', receipt: 'DARJ_LS_1' } },
+        payment: { entity: { id: 'pay_rzp_2', amount: 30000000, method: 'netbanking', created_at: 1748752200 } }
+      }
+    });
+
+    expect(event).toMatchObject({ type: 'PAYMENT_SUCCESS', data: { order_id: 'DARJ_LS_1', order_amount: 300000 } });
+    expect(event!.data.subscription_id).toBeUndefined();
+  });
+
+  it('should map dispute outcomes to the Cashfree statuses', () => {
+    const event = translateRazorpayEvent({
+      event: 'payment.dispute.won',
+      payload: { dispute: { entity: { id: 'disp_1', payment_id: 'pay_rzp_1', amount: 500000, status: 'won' } } }
+    });
+
+    expect(event).toMatchObject({
+      type: 'DISPUTE_CLOSED',
+      data: { payment_id: 'pay_rzp_1', dispute_id: 'disp_1', dispute_amount: 5000, dispute_status: 'DISPUTE_MERCHANT_WON' }
+    });
+  });
+
+  it('should only activate the SIP once the subscription is activated, not when the mandate is approved', () => {
+    const subscription = { entity: { id: 'sub_rzp_1', notes: { subscriptionId: 'DARJ_SUB_1' } } };
+
+    expect(translateRazorpayEvent({ event: 'subscription.authenticated', payload: { subscription } }))
+      .toMatchObject({ type: 'SUBSCRIPTION_AUTHORIZED', data: { subscription_id: 'DARJ_SUB_1' } });
+    expect(translateRazorpayEvent({ event: 'subscription.activated', payload: { subscription } }))
+      .toMatchObject({ type: 'SUBSCRIPTION_ACTIVATED', data: { subscription_id: 'DARJ_SUB_1' } });
+  });
+
+  it('should ignore events we do not act on', () => {
+    expect(translateRazorpayEvent({ event: 'payment.authorized', payload: {} })).toBeNull();
+  });
+});
+
+describe('Razorpay webhook', () => {
+  beforeAll(() => {
+    process.env.RAZORPAY_WEBHOOK_SECRET = WEBHOOK_SECRET;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    processedEvents.clear();
+    jest.clearAllMocks();
+  });
+
+  it('should hand translated events to the shared handlers once', async () => {
+    const first = await POST(signedRequest(subscriptionCharged, 'evt_1'));
+    const second = await POST(signedRequest(subscriptionCharged, 'evt_1'));
+
+    expect(first.status).toBe(200);
+    expect(await second.json()).toEqual({ status: 'duplicate' });
+    expect(handlePaymentEvent).toHaveBeenCalledTimes(1);
+    expect(handlePaymentEvent).toHaveBeenCalledWith(
+      'RAZORPAY',
+      'PAYMENT_SUCCESS',
+      expect.objectContaining({ subscription_id: 'DARJ_SUB_1', payment_id: 'pay_rzp_1' })
+    );
+  });
+
+  it('should reject payloads signed with another secret', async () => {
+    const response = await POST(signedRequest(subscriptionCharged, 'evt_2', 'wrong_secret'));
+
+    expect(response.status).toBe(403);
+    expect(handlePaymentEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Reconciliation of Cashfree settlement exports against the payment ledger
+ */
+import { ReconciliationService } from '@/lib/services/reconciliationService';
+import { parseCsv, parseSettlementReport } from '@/lib/settlement-report';
+
+const db = {
+  payments: [] as any[],
+  sips: [] as any[],
+  runs: [] as any[],
+  exceptions: [] as any[]
+};
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    payment: {
+      findMany: jest.fn(async ({ where }: any) =>
+        db.payments.filter(p => where.OR.some((clause: any) =>
+          (clause.orderId && p.orderId === clause.orderId) || (clause.paymentId && p.paymentId === clause.paymentId)
+        ))
+      )
+    },
+    sIPInvestment: {
+      findMany: jest.fn(async () =>
+        db.sips.map(sip => ({ ...sip, payments: db.payments.filter(p => p.sipInvestmentId === sip.id) }))
+      )
+    },
+    reconciliationRun: {
+      create: jest.fn(async ({ data }: any) => {
+        const run = { id: `run_${db.runs.length + 1}`, createdAt: new Date(), ...data };
+        db.runs.push(run);
+        return run;
+      }),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.runs.find(r => r.id === where.id), data))
+    },
+    reconciliationException: {
+      findFirst: jest.fn(async ({ where }: any) =>
+        db.exceptions.find(e => e.key === where.key && e.status === where.status) || null
+      ),
+      findUnique: jest.fn(async ({ where }: any) => db.exceptions.find(e => e.id === where.id) || null),
+      create: jest.fn(async ({ data }: any) => {
+        const exception = { id: `exc_${db.exceptions.length + 1}`, status: 'OPEN', createdAt: new Date(), ...data };
+        db.exceptions.push(exception);
+        return exception;
+      }),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.exceptions.find(e => e.id === where.id), data))
+    }
+  }
+}));
+
+const payment = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  orderId: `order_${id}`,
+  paymentId: `cf_${id}`,
+  amount: 10000,
+  refundedAmount: 0,
+  status: 'SUCCESS',
+  sipInvestmentId: 'sip_1',
+  ...overrides
+});
+
+const csv = (...rows: string[]) =>
+  ['Order ID,CF Payment ID,Payment Amount,Payment Status,Settlement UTR', ...rows].join('\n');
+
+describe('ReconciliationService', () => {
+  const service = new ReconciliationService();
+
+  beforeEach(() => {
+    db.payments = [payment('p1'), payment('p2')];
+    db.sips = [{ id: 'sip_1', phoneNumber: '919876543210', totalInvested: 20000 }];
+    db.runs = [];
+    db.exceptions = [];
+  });
+
+  it('should match rows that agree with the ledger', async () => {
+    const summary = await service.run(csv(
+      'order_p1,cf_p1,10000,SUCCESS,UTR1',
+      'order_p2,cf_p2,"10,000.00",SUCCESS,UTR1'
+    ), 'settlement.csv');
+
+    expect(summary).toMatchObject({ source: 'settlement.csv', rowCount: 2, matchedCount: 2, exceptionCount: 0 });
+  });
+
+  it('should flag settled payments whose webhook never arrived', async () => {
+    const summary = await service.run(csv('order_p3,cf_p3,10000,SUCCESS,UTR1'));
+
+    expect(summary.exceptions).toEqual([
+      expect.objectContaining({ type: 'MISSING_WEBHOOK', cfPaymentId: 'cf_p3', expectedAmount: 10000, actualAmount: 0 })
+    ]);
+  });
+
+  it('should flag an order credited twice', async () => {
+    db.payments.push(payment('p1_dup', { orderId: 'order_p1', paymentId: 'cf_p1_dup' }));
+    db.sips[0].totalInvested = 30000;
+
+    const summary = await service.run(csv('order_p1,cf_p1,10000,SUCCESS,UTR1'));
+
+    expect(summary.exceptions).toEqual([
+      expect.objectContaining({ type: 'DOUBLE_CREDIT', orderId: 'order_p1', actualAmount: 20000 })
+    ]);
+  });
+
+  it('should flag amount mismatches', async () => {
+    const summary = await service.run(csv('order_p1,cf_p1,9000,SUCCESS,UTR1'));
+
+    expect(summary.exceptions).toEqual([
+      expect.objectContaining({ type: 'AMOUNT_MISMATCH', paymentId: 'p1', expectedAmount: 9000, actualAmount: 10000 })
+    ]);
+  });
+
+  it('should flag payments Cashfree failed but we credited', async () => {
+    const summary = await service.run(csv('order_p1,cf_p1,10000,FAILED,'));
+
+    expect(summary.exceptions).toEqual([
+      expect.objectContaining({ type: 'STATUS_MISMATCH', paymentId: 'p1' })
+    ]);
+  });
+
+  it('should cross-check totalInvested against payments net of refunds', async () => {
+    db.payments[1] = payment('p2', { status: 'PARTIALLY_REFUNDED', refundedAmount: 4000 });
+    db.payments.push(payment('p3', { status: 'FAILED' }));
+    db.sips[0].totalInvested = 16000;
+    expect((await service.run(csv())).exceptions).toHaveLength(0);
+
+    db.sips[0].totalInvested = 26000;
+    const summary = await service.run(csv());
+
+    expect(summary.exceptions).toEqual([
+      expect.objectContaining({
+        type: 'TOTAL_INVESTED_MISMATCH',
+        sipInvestmentId: 'sip_1',
+        expectedAmount: 16000,
+        actualAmount: 26000,
+        details: expect.stringContaining('possible double credit')
+      })
+    ]);
+  });
+
+  it('should not raise an open exception again on the next run', async () => {
+    await service.run(csv('order_p3,cf_p3,10000,SUCCESS,UTR1'));
+    const again = await service.run(csv('order_p3,cf_p3,10000,SUCCESS,UTR1'));
+
+    expect(again.exceptionCount).toBe(0);
+    expect(db.exceptions).toHaveLength(1);
+  });
+
+  it('should resolve exceptions once', async () => {
+    const { exceptions: [exception] } = await service.run(csv('order_p3,cf_p3,10000,SUCCESS,UTR1'));
+
+    const resolved = await service.resolve(exception.id, 'Credited manually');
+
+    expect(resolved).toMatchObject({ status: 'RESOLVED', resolutionNote: 'Credited manually' });
+    await expect(service.resolve(exception.id)).rejects.toThrow('Invalid exception status');
+    await expect(service.resolve('missing')).rejects.toThrow('not found');
+  });
+});
+
+describe('Settlement report parsing', () => {
+  it('should handle quoted fields, CRLF line endings and a byte-order mark', () => {
+    expect(parseCsv('\uFEFFa,"b,1","say ""hi"""\r\n1,2,3\r\n\r\n')).toEqual([
+      ['a', 'b,1', 'say "hi"'],
+      ['1', '2', '3']
+    ]);
+  });
+
+  it('should default to SUCCESS and skip refund lines in settlement exports', () => {
+    const report = parseSettlementReport([
+      'order_id,cf_payment_id,amount,event_type,settlement_utr',
+      'order_1,cf_1,10000,PAYMENT,UTR1',
+      'order_1,cf_1,-10000,REFUND,UTR2'
+    ].join('\n'));
+
+    expect(report.skipped).toBe(1);
+    expect(report.rows).toEqual([
+      expect.objectContaining({ orderId: 'order_1', cfPaymentId: 'cf_1', amount: 10000, status: 'SUCCESS', settlementUtr: 'UTR1' })
+    ]);
+  });
+
+  it('should reject exports without order or amount columns', () => {
+    expect(() => parseSettlementReport('foo,bar\n1,2')).toThrow('Invalid settlement report');
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Refund and chargeback reversal of SIP and lumpsum payments
+ */
+import { CashfreeService } from '@/lib/cashfree';
+import { PaymentGatewayRegistry } from '@/lib/payment-gateway';
+import { RefundService } from '@/lib/services/refundService';
+import { startCashfreeStub, CashfreeStub } from './helpers/cashfree-stub';
+
+const db = {
+  payment: null as any,
+  sip: null as any,
+  plots: [] as any[],
+  refunds: [] as any[],
+  allocation: null as any,
+  lumpsumOrder: null as any,
+  landAllocation: null as any,
+  landOption: null as any
+};
+
+jest.mock('@/lib/prisma', () => {
+  const client: any = {
+    payment: {
+      findUnique: jest.fn(async ({ where }: any) =>
+        (where.id === db.payment.id || where.paymentId === db.payment.paymentId) ? { ...db.payment } : null
+      ),
+      update: jest.fn(async ({ data }: any) => Object.assign(db.payment, data))
+    },
+    sIPInvestment: {
+      findUnique: jest.fn(async () => ({ ...db.sip })),
+      update: jest.fn(async ({ data }: any) => {
+        db.sip.totalInvested -= data.totalInvested.decrement;
+        db.sip.allocationCredit = data.allocationCredit;
+        return db.sip;
+      })
+    },
+    plantAllocation: {
+      findUnique: jest.fn(async ({ where }: any) =>
+        db.allocation?.paymentId === where.paymentId ? { ...db.allocation } : null
+      ),
+      update: jest.fn(async ({ data }: any) => Object.assign(db.allocation, data))
+    },
+    lumpsumOrder: {
+      findUnique: jest.fn(async ({ where }: any) =>
+        db.lumpsumOrder?.paymentId === where.paymentId ? { ...db.lumpsumOrder } : null
+      )
+    },
+    landAllocation: {
+      findUnique: jest.fn(async () => (db.landAllocation ? { ...db.landAllocation } : null)),
+      update: jest.fn(async ({ data }: any) => Object.assign(db.landAllocation, data))
+    },
+    landOption: {
+      update: jest.fn(async ({ data }: any) => {
+        db.landOption.availableAcres += data.availableAcres.increment;
+        return db.landOption;
+      })
+    },
+    berryPlot: {
+      findMany: jest.fn(async ({ where }: any) =>
+        db.plots.filter(p => p.paymentId === where.paymentId && p.status !== 'DEALLOCATED').map(p => ({ ...p }))
+      ),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.plots.find(p => p.id === where.id), data)),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const plots = db.plots.filter(p => p.paymentId === where.paymentId && p.status === where.status);
+        plots.forEach(p => Object.assign(p, data));
+        return { count: plots.length };
+      })
+    },
+    refund: {
+      create: jest.fn(async ({ data }: any) => {
+        db.refunds.push(data);
+        return data;
+      }),
+      findUnique: jest.fn(async ({ where }: any) => db.refunds.find(r => r.refundId === where.refundId) || null),
+      aggregate: jest.fn(async ({ where }: any) => ({
+        _sum: {
+          amount: db.refunds
+            .filter(r => r.paymentId === where.paymentId && r.type === where.type && r.status === where.status)
+            .reduce((sum, r) => sum + r.amount, 0) || null
+        }
+      })),
+      upsert: jest.fn(async ({ where, update, create }: any) => {
+        const existing = db.refunds.find(r => r.refundId === where.refundId);
+        if (existing) return Object.assign(existing, update);
+        db.refunds.push(create);
+        return create;
+      }),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        db.refunds.filter(r => r.refundId === where.refundId).forEach(r => Object.assign(r, data));
+        return { count: 1 };
+      })
+    }
+  };
+  client.$transaction = jest.fn(async (arg: any) => (typeof arg === 'function' ? arg(client) : Promise.all(arg)));
+  return { prisma: client };
+});
+
+describe('RefundService', () => {
+  let stub: CashfreeStub;
+  let service: RefundService;
+
+  beforeAll(async () => {
+    stub = await startCashfreeStub();
+    service = new RefundService(new PaymentGatewayRegistry([new CashfreeService({
+      clientId: 'test_client',
+      clientSecret: 'test_secret',
+      environment: 'TEST',
+      baseUrl: stub.baseUrl
+    })]));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+    db.payment = {
+      id: 'pay_1',
+      orderId: 'order_1',
+      paymentId: 'cf_payment_1',
+      amount: 10000,
+      refundedAmount: 0,
+      status: 'SUCCESS',
+      sipInvestmentId: 'sip_1',
+      phoneNumber: '919876543210'
+    };
+    db.sip = { id: 'sip_1', totalInvested: 30000, allocationCredit: 1000 };
+    db.plots = [{ id: 'plot_1', paymentId: 'pay_1', plantCount: 20, plotSize: 0.008, status: 'ACTIVE' }];
+    db.refunds = [];
+    db.allocation = { id: 'alloc_1', paymentId: 'pay_1', creditBefore: 0, creditAfter: 1000, plantsAllocated: 20 };
+    db.lumpsumOrder = null;
+    db.landAllocation = null;
+    db.landOption = null;
+  });
+
+  describe('initiate', () => {
+    it('should request the refund from Cashfree and record it as pending', async () => {
+      const refund = await service.initiate('pay_1', 4000, 'Customer request');
+
+      const refundCall = stub.requests.find(r => r.path === '/orders/order_1/refunds');
+      expect(refundCall!.body.refundAmount).toBe(4000);
+      expect(refund.status).toBe('PENDING');
+      expect(refund.cfRefundId).toBe(`cf_${refund.refundId}`);
+    });
+
+    it('should not roll back the credit before Cashfree confirms', async () => {
+      await service.initiate('pay_1', undefined, 'Customer request');
+
+      expect(db.sip.totalInvested).toBe(30000);
+      expect(db.plots[0].status).toBe('ACTIVE');
+    });
+
+    it('should not allow refund for non-successful payments', async () => {
+      db.payment.status = 'FAILED';
+
+      await expect(service.initiate('pay_1', undefined, 'Customer request'))
+        .rejects.toThrow('Invalid payment status for refund');
+    });
+
+    it('should not allow refunding more than was paid', async () => {
+      await expect(service.initiate('pay_1', 15000, 'Customer request'))
+        .rejects.toThrow('Invalid refund amount');
+    });
+
+    it('should count refunds still pending with Cashfree against what is left', async () => {
+      await service.initiate('pay_1', 6000, 'Customer request');
+
+      await expect(service.initiate('pay_1', undefined, 'Customer request'))
+        .resolves.toMatchObject({ amount: 4000 });
+      await expect(service.initiate('pay_1', 1000, 'Customer request'))
+        .rejects.toThrow('Invalid refund amount: ₹1000 (refundable ₹0)');
+    });
+  });
+
+  describe('applyRefund', () => {
+    it('should reverse a full refund and de-allocate the plot', async () => {
+      const result = await service.applyRefund({ cfPaymentId: 'cf_payment_1', refundId: 'rfd_1', amount: 10000 });
+
+      expect(result).toEqual({ phoneNumber: '919876543210', amount: 10000, plantsRemoved: 20, fullyReversed: true });
+      expect(db.sip.totalInvested).toBe(20000);
+      expect(db.payment.status).toBe('REFUNDED');
+      expect(db.plots[0].status).toBe('DEALLOCATED');
+    });
+
+    it('should remove plants in proportion to a partial refund', async () => {
+      await service.applyRefund({ cfPaymentId: 'cf_payment_1', refundId: 'rfd_1', amount: 2500 });
+
+      expect(db.sip.totalInvested).toBe(27500);
+      expect(db.payment.status).toBe('PARTIALLY_REFUNDED');
+      expect(db.plots[0].plantCount).toBe(15);
+      expect(db.plots[0].status).toBe('ACTIVE');
+    });
+
+    it('should take back the credit the payment carried forward', async () => {
+      await service.applyRefund({ cfPaymentId: 'cf_payment_1', refundId: 'rfd_1', amount: 10000 });
+
+      expect(db.sip.allocationCredit).toBe(0);
+      expect(db.allocation.plantsAllocated).toBe(0);
+    });
+
+    it('should return the acres of a refunded lumpsum purchase to the land', async () => {
+      db.payment.sipInvestmentId = null;
+      db.lumpsumOrder = { paymentId: 'pay_1', landAllocationId: 'land_alloc_1' };
+      db.landAllocation = { id: 'land_alloc_1', landOptionId: 'land_1', acres: 0.008, plantsCount: 20, status: 'ACTIVE' };
+      db.landOption = { id: 'land_1', availableAcres: 5 };
+
+      await service.applyRefund({ cfPaymentId: 'cf_payment_1', refundId: 'rfd_1', amount: 10000 });
+
+      expect(db.landAllocation.status).toBe('CANCELLED');
+      expect(db.landOption.availableAcres).toBeCloseTo(5.008);
+      expect(db.sip.totalInvested).toBe(30000);
+    });
+
+    it('should ignore refunds for unknown payments', async () => {
+      const result = await service.applyRefund({ cfPaymentId: 'cf_unknown', refundId: 'rfd_1', amount: 10000 });
+
+      expect(result).toBeNull();
+      expect(db.sip.totalInvested).toBe(30000);
+    });
+  });
+
+  describe('disputes', () => {
+    it('should flag the plot while a dispute is open', async () => {
+      await service.openDispute({ cfPaymentId: 'cf_payment_1', disputeId: 'dsp_1', amount: 10000 });
+
+      expect(db.payment.status).toBe('DISPUTED');
+      expect(db.plots[0].status).toBe('UNDER_DISPUTE');
+    });
+
+    it('should restore the plot when the dispute is won', async () => {
+      await service.openDispute({ cfPaymentId: 'cf_payment_1', disputeId: 'dsp_1', amount: 10000 });
+      await service.resolveDispute({ cfPaymentId: 'cf_payment_1', disputeId: 'dsp_1', merchantWon: true });
+
+      expect(db.payment.status).toBe('SUCCESS');
+      expect(db.plots[0].status).toBe('ACTIVE');
+      expect(db.sip.totalInvested).toBe(30000);
+    });
+
+    it('should reverse the credit when the chargeback is lost', async () => {
+      await service.openDispute({ cfPaymentId: 'cf_payment_1', disputeId: 'dsp_1', amount: 10000 });
+      await service.resolveDispute({ cfPaymentId: 'cf_payment_1', disputeId: 'dsp_1', merchantWon: false });
+
+      expect(db.payment.status).toBe('CHARGEBACK');
+      expect(db.plots[0].status).toBe('DEALLOCATED');
+      expect(db.sip.totalInvested).toBe(20000);
+    });
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * SIP self-service: pause, resume, amount change, cancel and RESTART kept in step with Cashfree,
+ * the mandate status shown on the payment return page and RETRY for unfinished mandates
+ */
+import { CashfreeService } from '@/lib/cashfree';
+import { PaymentGatewayRegistry } from '@/lib/payment-gateway';
+import { SIPManagementService } from '@/lib/services/sipManagementService';
+import { parseSIPCommand } from '@/lib/sip-commands';
+import { DunningService } from '@/lib/services/dunningService';
+import { startCashfreeStub, CashfreeStub } from './helpers/cashfree-stub';
+
+const db = {
+  sips: [] as any[],
+  events: [] as any[],
+  user: null as any
+};
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    sIPInvestment: {
+      findFirst: jest.fn(async ({ where }: any) => {
+        const sip = where.subscriptionId
+          ? db.sips.find(s => s.subscriptionId === where.subscriptionId)
+          : db.sips[db.sips.length - 1];
+        return sip ? { ...sip } : null;
+      }),
+      findUniqueOrThrow: jest.fn(async ({ where }: any) => db.sips.find(s => s.id === where.id)),
+      findMany: jest.fn(async ({ where }: any) => db.sips.filter(s => s.status === where.status && (where.pausedUntil
+        ? s.pausedUntil && s.pausedUntil <= where.pausedUntil.lte
+        : s.dunningStartedAt && s.dunningStartedAt <= where.dunningStartedAt.lte
+      ))),
+      create: jest.fn(async ({ data }: any) => {
+        const sip = { id: `sip_${db.sips.length + 1}`, ...data };
+        db.sips.push(sip);
+        return sip;
+      }),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.sips.find(s => s.id === where.id), data))
+    },
+    subscriptionPlan: {
+      findFirst: jest.fn(async () => ({ planId: 'DARJBERRY_DAILY_10K', planName: 'Darjberry Daily SIP ₹10,000' })),
+      findMany: jest.fn(async () => [
+        { planId: 'DARJBERRY_DAILY_10K', gatewayPlanId: null, amount: 10000 },
+        { planId: 'DARJBERRY_DAILY15K_V1', gatewayPlanId: null, amount: 15000 }
+      ])
+    },
+    whatsAppUser: {
+      findUnique: jest.fn(async () => db.user)
+    },
+    dunningEvent: {
+      create: jest.fn(async ({ data }: any) => {
+        db.events.push(data);
+        return data;
+      })
+    }
+  }
+}));
+
+describe('SIP self-service', () => {
+  let stub: CashfreeStub;
+  let service: SIPManagementService;
+
+  beforeAll(async () => {
+    stub = await startCashfreeStub();
+    service = new SIPManagementService(new PaymentGatewayRegistry([new CashfreeService({
+      clientId: 'test_client',
+      clientSecret: 'test_secret',
+      environment: 'TEST',
+      baseUrl: stub.baseUrl
+    })]));
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+    db.sips = [{
+      id: 'sip_1',
+      phoneNumber: '919876543210',
+      dailyAmount: 10000,
+      status: 'ACTIVE',
+      subscriptionId: 'DARJ_SUB_1',
+      pausedUntil: null
+    }];
+    db.events = [];
+    db.user = { phoneNumber: '919876543210', name: 'Asha Rai', email: 'asha@example.com' };
+  });
+
+  describe('SIPManagementService', () => {
+    it('should pause the Cashfree subscription until the chosen date', async () => {
+      const sip = await service.pause('919876543210', 7);
+
+      const manageCall = stub.requests.find(r => r.path === '/subscriptions/DARJ_SUB_1/manage');
+      expect(manageCall!.body.action).toBe('PAUSE');
+      expect(manageCall!.body.actionDetails.nextScheduledTime).toBe(sip.pausedUntil!.toISOString());
+      expect(sip.status).toBe('PAUSED');
+    });
+
+    it('should reject pauses beyond the limit', async () => {
+      await expect(service.pause('919876543210', 120)).rejects.toThrow('Invalid pause duration');
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('should resume a paused SIP', async () => {
+      await service.pause('919876543210', 7);
+      const sip = await service.resume('919876543210');
+
+      const actions = stub.requests.filter(r => r.path.endsWith('/manage')).map(r => r.body.action);
+      expect(actions).toEqual(['PAUSE', 'ACTIVATE']);
+      expect(sip).toMatchObject({ status: 'ACTIVE', pausedUntil: null });
+    });
+
+    it('should end the dunning cycle when the customer resumes a SIP dunning paused', async () => {
+      const dunningStartedAt = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+      Object.assign(db.sips[0], { status: 'PAUSED', failedDebitCount: 3, dunningStartedAt });
+
+      const sip = await service.resume('919876543210');
+
+      expect(sip).toMatchObject({ status: 'ACTIVE', failedDebitCount: 0, dunningStartedAt: null });
+      expect(db.events).toEqual([expect.objectContaining({ sipInvestmentId: 'sip_1', step: 'RESUMED', attempt: 3 })]);
+      // The daily dunning run no longer finds it overdue
+      expect(await new DunningService().processDue()).toEqual({ paused: 0 });
+      expect(db.sips[0].status).toBe('ACTIVE');
+    });
+
+    it('should resume SIPs whose pause has ended', async () => {
+      await service.pause('919876543210', 7);
+
+      const early = await service.resumeDue(new Date(Date.now() + 6 * 24 * 60 * 60 * 1000));
+      expect(early.resumed).toBe(0);
+
+      const result = await service.resumeDue(new Date(Date.now() + 8 * 24 * 60 * 60 * 1000));
+
+      const actions = stub.requests.filter(r => r.path.endsWith('/manage')).map(r => r.body.action);
+      expect(actions).toEqual(['PAUSE', 'ACTIVATE']);
+      expect(result.resumed).toBe(1);
+      expect(db.sips[0]).toMatchObject({ status: 'ACTIVE', pausedUntil: null });
+    });
+
+    it('should leave dunning pauses to the next successful debit', async () => {
+      db.sips[0].status = 'PAUSED';
+
+      const result = await service.resumeDue();
+
+      expect(result.resumed).toBe(0);
+      expect(db.sips[0].status).toBe('PAUSED');
+    });
+
+    it('should change the daily amount on Cashfree and locally', async () => {
+      const sip = await service.changeAmount('919876543210', 15000);
+
+      const updateCall = stub.requests.find(r => r.method === 'PATCH');
+      expect(updateCall!.body.planId).toBe('DARJBERRY_DAILY15K_V1');
+      expect(updateCall!.body.subscriptionMeta).toEqual({ dailyAmount: 15000 });
+      expect(sip.dailyAmount).toBe(15000);
+    });
+
+    it('should reject amounts without a daily plan', async () => {
+      await expect(service.changeAmount('919876543210', 12000)).rejects.toThrow('choose ₹10,000, ₹15,000');
+      expect(stub.requests).toHaveLength(0);
+      expect(db.sips[0].dailyAmount).toBe(10000);
+    });
+
+    it('should leave the SIP untouched when Cashfree rejects the change', async () => {
+      stub.on('POST', '/subscriptions/:subscriptionId/cancel', () => ({ status: 500, body: { message: 'down' } }));
+
+      await expect(service.cancel('919876543210')).rejects.toThrow('Failed to cancel subscription');
+      expect(db.sips[0].status).toBe('ACTIVE');
+    });
+
+    it('should cancel the subscription', async () => {
+      const sip = await service.cancel('919876543210');
+
+      expect(stub.requests.some(r => r.path === '/subscriptions/DARJ_SUB_1/cancel')).toBe(true);
+      expect(sip.status).toBe('CANCELLED');
+    });
+
+    it('should restart a cancelled SIP with a new subscription on the plan at the old amount', async () => {
+      db.sips[0].status = 'CANCELLED';
+      db.sips[0].dailyAmount = 15000;
+
+      const result = await service.restart('919876543210');
+
+      const subscriptionCall = stub.requests.find(r => r.path === '/subscriptions');
+      expect(subscriptionCall!.body.planId).toBe('DARJBERRY_DAILY15K_V1');
+      expect(result.resumed).toBe(false);
+      expect(result.sip).toMatchObject({ id: 'sip_2', dailyAmount: 15000, status: 'PENDING' });
+      expect(result.paymentLink).toContain('https://stub.cashfree.local/subscriptions/');
+    });
+
+    it('should not restart at an amount no daily plan debits', async () => {
+      db.sips[0].status = 'CANCELLED';
+      db.sips[0].dailyAmount = 12000;
+
+      await expect(service.restart('919876543210')).rejects.toThrow('Invalid daily amount: no daily plan at ₹12,000');
+      expect(stub.requests.some(r => r.path === '/subscriptions')).toBe(false);
+      expect(db.sips).toHaveLength(1);
+    });
+
+    it('should restart a paused SIP by resuming it', async () => {
+      db.sips[0].status = 'PAUSED';
+
+      const result = await service.restart('919876543210');
+
+      expect(result.resumed).toBe(true);
+      expect(db.sips).toHaveLength(1);
+      expect(db.sips[0].status).toBe('ACTIVE');
+    });
+  });
+
+  describe('Mandate status and RETRY', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      Object.assign(db.sips[0], {
+        status: 'PENDING',
+        gateway: 'CASHFREE',
+        totalInvested: 0,
+        allocationCredit: 0,
+        nextPaymentDate: new Date('2025-06-02T00:00:00.000Z'),
+        paymentLink: 'https://stub.cashfree.local/subscriptions/DARJ_SUB_1/authorize'
+      });
+    });
+
+    it('should report a mandate the bank has just approved with its first debit and plants', async () => {
+      stub.on('GET', '/subscriptions/:subscriptionId', (request) => ({
+        status: 200,
+        body: { subscriptionId: request.params.subscriptionId, subscriptionStatus: 'ACTIVE' }
+      }));
+
+      const status = await service.getMandateStatus('DARJ_SUB_1');
+
+      expect(status).toMatchObject({
+        status: 'ACTIVE',
+        dailyAmount: 10000,
+        firstDebitDate: new Date('2025-06-02T00:00:00.000Z'),
+        plantsFirstDebit: 3,
+        plantsPerMonth: 100,
+        paymentLink: null
+      });
+      // The activation webhook moves the SIP itself
+      expect(db.sips[0].status).toBe('PENDING');
+    });
+
+    it('should offer the authorisation link again when the bank rejects the mandate', async () => {
+      stub.on('GET', '/subscriptions/:subscriptionId', () => ({
+        status: 200,
+        body: { subscriptionStatus: 'AUTHORIZATION_FAILED' }
+      }));
+
+      const status = await service.getMandateStatus('DARJ_SUB_1');
+
+      expect(status).toMatchObject({
+        status: 'FAILED',
+        failureReason: 'Your bank did not approve the mandate',
+        paymentLink: 'https://stub.cashfree.local/subscriptions/DARJ_SUB_1/authorize'
+      });
+    });
+
+    it('should not offer an expired link', async () => {
+      stub.on('GET', '/subscriptions/:subscriptionId', () => ({ status: 200, body: { subscriptionStatus: 'LINK_EXPIRED' } }));
+
+      const status = await service.getMandateStatus('DARJ_SUB_1');
+
+      expect(status).toMatchObject({ status: 'FAILED', paymentLink: null });
+    });
+
+    it('should trust the SIP once webhooks have settled it', async () => {
+      db.sips[0].status = 'CANCELLED';
+
+      const status = await service.getMandateStatus('DARJ_SUB_1');
+
+      expect(status.status).toBe('CANCELLED');
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('should fall back to the SIP when the gateway lookup fails', async () => {
+      stub.on('GET', '/subscriptions/:subscriptionId', () => ({ status: 404, body: { message: 'not found' } }));
+
+      const status = await service.getMandateStatus('DARJ_SUB_1');
+
+      expect(status).toMatchObject({ status: 'PENDING', paymentLink: db.sips[0].paymentLink });
+    });
+
+    it('should look up web subscriptions that have no SIP on the gateway', async () => {
+      stub.on('GET', '/subscriptions/:subscriptionId', () => ({
+        status: 200,
+        body: { subscriptionStatus: 'BANK_APPROVAL_PENDING', subscriptionPaymentLink: 'https://stub.cashfree.local/web' }
+      }));
+
+      const status = await service.getMandateStatus('DARJ_WEB_1', 'CASHFREE');
+
+      expect(status).toMatchObject({ status: 'PENDING', gateway: 'CASHFREE', dailyAmount: null, paymentLink: 'https://stub.cashfree.local/web' });
+    });
+
+    it('should resend a link that can still be authorised', async () => {
+      stub.on('GET', '/subscriptions/:subscriptionId', () => ({ status: 200, body: { subscriptionStatus: 'BANK_APPROVAL_PENDING' } }));
+
+      const result = await service.retry('919876543210');
+
+      expect(result).toMatchObject({ replaced: false, paymentLink: db.sips[0].paymentLink });
+      expect(stub.requests.some(r => r.method === 'POST')).toBe(false);
+    });
+
+    it('should replace a rejected mandate with a new subscription at the same amount', async () => {
+      stub.on('GET', '/subscriptions/:subscriptionId', () => ({ status: 200, body: { subscriptionStatus: 'LINK_EXPIRED' } }));
+
+      const result = await service.retry('919876543210');
+
+      expect(result.replaced).toBe(true);
+      expect(result.sip).toMatchObject({ id: 'sip_2', dailyAmount: 10000, status: 'PENDING' });
+      expect(result.paymentLink).toContain('/authorize');
+      expect(db.sips[0].status).toBe('CANCELLED');
+    });
+
+    it('should only retry mandates that are still pending', async () => {
+      db.sips[0].status = 'ACTIVE';
+
+      await expect(service.retry('919876543210')).rejects.toThrow('Invalid SIP status for retry: ACTIVE');
+    });
+
+    it('should report unknown subscriptions as not found', async () => {
+      stub.on('GET', '/subscriptions/:subscriptionId', () => ({ status: 404, body: { message: 'not found' } }));
+
+      await expect(service.getMandateStatus('DARJ_MISSING')).rejects.toThrow('Subscription not found');
+    });
+  });
+
+  describe('parseSIPCommand', () => {
+    it('should parse WhatsApp commands', () => {
+      expect(parseSIPCommand('pause 7 days')).toEqual({ type: 'PAUSE', days: 7 });
+      expect(parseSIPCommand('Amount ₹15,000')).toEqual({ type: 'AMOUNT', amount: 15000 });
+      expect(parseSIPCommand('RESTART')).toEqual({ type: 'RESTART' });
+      expect(parseSIPCommand('cancel')).toEqual({ type: 'CANCEL', confirmed: false });
+      expect(parseSIPCommand('CANCEL SIP')).toEqual({ type: 'CANCEL', confirmed: true });
+    });
+
+    it('should ignore ordinary messages', () => {
+      expect(parseSIPCommand('I want to pause and think')).toBeNull();
+      expect(parseSIPCommand('hello')).toBeNull();
+    });
+  });
+});
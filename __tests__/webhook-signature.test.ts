@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Webhook signature hardening: length-safe comparison, replay window and secret rotation
+ */
+import crypto from 'crypto';
+import {
+  safeCompare,
+  getWebhookSecrets,
+  getToleranceSeconds,
+  isTimestampFresh,
+  verifyHmacSignature,
+  DEFAULT_WEBHOOK_TOLERANCE_SECONDS
+} from '@/lib/webhook-signature';
+
+const sign = (secret: string, payload: string) =>
+  crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+describe('Webhook signature verification', () => {
+  describe('safeCompare', () => {
+    it('should match identical strings', () => {
+      expect(safeCompare('abc123', 'abc123')).toBe(true);
+    });
+
+    it('should return false instead of throwing on length mismatch', () => {
+      expect(() => safeCompare('short', 'a-much-longer-signature')).not.toThrow();
+      expect(safeCompare('short', 'a-much-longer-signature')).toBe(false);
+    });
+  });
+
+  describe('isTimestampFresh', () => {
+    const now = Date.UTC(2025, 5, 1, 10, 0, 0);
+
+    it('should accept a current timestamp in seconds', () => {
+      expect(isTimestampFresh(String(now / 1000), 300, now)).toBe(true);
+    });
+
+    it('should accept a current timestamp in milliseconds', () => {
+      expect(isTimestampFresh(String(now), 300, now)).toBe(true);
+    });
+
+    it('should reject stale timestamps', () => {
+      expect(isTimestampFresh(String(now / 1000 - 301), 300, now)).toBe(false);
+    });
+
+    it('should reject future timestamps', () => {
+      expect(isTimestampFresh(String(now / 1000 + 301), 300, now)).toBe(false);
+    });
+
+    it('should reject non-numeric timestamps', () => {
+      expect(isTimestampFresh('2025-06-01T10:00:00Z', 300, now)).toBe(false);
+    });
+  });
+
+  describe('getToleranceSeconds', () => {
+    it('should fall back to the default for missing or invalid values', () => {
+      expect(getToleranceSeconds(undefined)).toBe(DEFAULT_WEBHOOK_TOLERANCE_SECONDS);
+      expect(getToleranceSeconds('abc')).toBe(DEFAULT_WEBHOOK_TOLERANCE_SECONDS);
+      expect(getToleranceSeconds('-5')).toBe(DEFAULT_WEBHOOK_TOLERANCE_SECONDS);
+    });
+
+    it('should use a configured value', () => {
+      expect(getToleranceSeconds('60')).toBe(60);
+    });
+  });
+
+  describe('verifyHmacSignature', () => {
+    const payload = '1717236000.{"type":"PAYMENT_SUCCESS"}';
+
+    it('should accept a signature from the current secret', () => {
+      expect(verifyHmacSignature(payload, sign('current', payload), ['current', 'previous'])).toBe(true);
+    });
+
+    it('should accept a signature from the previous secret during rotation', () => {
+      expect(verifyHmacSignature(payload, sign('previous', payload), ['current', 'previous'])).toBe(true);
+    });
+
+    it('should reject a signature from an unknown secret', () => {
+      expect(verifyHmacSignature(payload, sign('retired', payload), ['current', 'previous'])).toBe(false);
+    });
+
+    it('should apply the signature format', () => {
+      const signature = `sha256=${sign('current', payload)}`;
+      expect(verifyHmacSignature(payload, signature, ['current'], (digest) => `sha256=${digest}`)).toBe(true);
+    });
+
+    it('should ignore unset secrets', () => {
+      expect(getWebhookSecrets('current', undefined, '  ')).toEqual(['current']);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Human handoff: the bot goes quiet for customers who asked for a person, and agents answer from the shared inbox
+ */
+import { NextRequest } from 'next/server';
+import { inboxService } from '@/lib/services/inboxService';
+import { handleWhatsAppWebhook } from '@/lib/whatsapp-webhook-handlers';
+import { WhatsAppService } from '@/lib/whatsapp';
+import { GET as listThreads } from '@/app/api/admin/inbox/route';
+import { GET as getThread, PATCH as assignThread } from '@/app/api/admin/inbox/[phoneNumber]/route';
+import { POST as replyToThread } from '@/app/api/admin/inbox/[phoneNumber]/reply/route';
+
+const db = {
+  users: [] as any[],
+  messages: [] as any[],
+  analytics: [] as any[]
+};
+
+const withMessages = (user: any, take: number) => ({
+  ...user,
+  messages: db.messages
+    .filter(message => message.phoneNumber === user.phoneNumber)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+    .slice(0, take)
+});
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    processedWebhookEvent: {
+      create: jest.fn(async ({ data }: any) => data),
+      deleteMany: jest.fn(async () => ({ count: 1 }))
+    },
+    whatsAppUser: {
+      findUnique: jest.fn(async ({ where, include }: any) => {
+        const user = db.users.find(u => u.phoneNumber === where.phoneNumber);
+        if (!user) return null;
+        return include ? withMessages(user, include.messages.take) : user;
+      }),
+      findMany: jest.fn(async ({ where, include }: any) => db.users
+        .filter(u => (!where.state || u.state === where.state) && (!where.assignedTo || u.assignedTo === where.assignedTo))
+        .map(user => withMessages(user, include.messages.take))),
+      create: jest.fn(async ({ data }: any) => {
+        db.users.push({ ...data });
+        return { ...data };
+      }),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.users.find(u => u.phoneNumber === where.phoneNumber), data))
+    },
+    whatsAppMessage: {
+      create: jest.fn(async ({ data }: any) => {
+        const message = { id: `msg_${db.messages.length + 1}`, metadata: null, timestamp: new Date(Date.now() + db.messages.length), ...data };
+        db.messages.push(message);
+        return message;
+      })
+    },
+    analytics: {
+      create: jest.fn(async ({ data }: any) => {
+        db.analytics.push(data);
+        return data;
+      })
+    }
+  }
+}));
+
+jest.mock('@/lib/whatsapp', () => ({
+  ...jest.requireActual('@/lib/whatsapp'),
+  WhatsAppService: {
+    sendMessage: jest.fn(async () => undefined),
+    sendChoices: jest.fn(async () => undefined)
+  }
+}));
+
+const ADMIN_KEY = 'test_admin_key';
+const PHONE = '919876543210';
+
+const customer = (overrides: object = {}) => ({
+  phoneNumber: PHONE,
+  name: 'Asha Rai',
+  state: 'HUMAN_HANDOFF',
+  handoffAt: new Date('2024-06-03T10:00:00Z'),
+  assignedTo: null,
+  lastInteraction: new Date('2024-06-03T10:00:00Z'),
+  lastInboundAt: new Date(),
+  ...overrides
+});
+
+const adminRequest = (path: string, init: { method?: string; body?: object } = {}, key: string = ADMIN_KEY) =>
+  new NextRequest(`http://localhost${path}`, {
+    method: init.method || 'GET',
+    body: init.body ? JSON.stringify(init.body) : undefined,
+    headers: { 'content-type': 'application/json', 'x-admin-key': key }
+  });
+
+const params = (phoneNumber: string) => ({ params: Promise.resolve({ phoneNumber }) });
+
+describe('WhatsApp human handoff', () => {
+  beforeAll(() => {
+    process.env.ADMIN_SECRET_KEY = ADMIN_KEY;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    db.users = [customer()];
+    db.messages = [];
+    db.analytics = [];
+    jest.clearAllMocks();
+  });
+
+  it('should log but not answer messages while an agent has the conversation', async () => {
+    await handleWhatsAppWebhook({
+      object: 'whatsapp_business_account',
+      entry: [{
+        id: 'waba_1',
+        changes: [{
+          field: 'messages',
+          value: { messages: [{ id: 'wamid.1', from: PHONE, timestamp: '1717400000', type: 'text', text: { body: 'STATS' } }] }
+        }]
+      }]
+    });
+
+    expect(db.messages).toEqual([expect.objectContaining({ messageType: 'RECEIVED', content: 'STATS' })]);
+    expect(WhatsAppService.sendChoices).not.toHaveBeenCalled();
+    expect(WhatsAppService.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should send agent replies on WhatsApp and keep them in the thread', async () => {
+    const message = await inboxService.reply(PHONE, ' Hi Asha, looking into your payment now ', 'Priya');
+
+    expect(WhatsAppService.sendMessage).toHaveBeenCalledWith(PHONE, 'Hi Asha, looking into your payment now');
+    expect(message).toMatchObject({ messageType: 'SENT', agent: 'Priya' });
+    expect(db.users[0].assignedTo).toBe('Priya');
+  });
+
+  it('should take the conversation over from the bot when an agent replies first', async () => {
+    db.users = [customer({ state: 'SIP_EXPLANATION', handoffAt: null })];
+
+    await inboxService.reply(PHONE, 'Hello from the Darjberry team', 'Priya');
+
+    expect(db.users[0]).toMatchObject({ state: 'HUMAN_HANDOFF', assignedTo: 'Priya', handoffAt: expect.any(Date) });
+  });
+
+  it('should refuse empty replies and replies without an agent', async () => {
+    await expect(inboxService.reply(PHONE, '   ', 'Priya')).rejects.toThrow('Invalid reply: message is empty');
+    await expect(inboxService.reply(PHONE, 'Hello', ' ')).rejects.toThrow('Invalid agent');
+    await expect(inboxService.reply('910000000000', 'Hello', 'Priya')).rejects.toThrow('Conversation not found');
+    expect(WhatsAppService.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should not reply once the customer has been silent for 24 hours', async () => {
+    db.users = [customer({ lastInboundAt: new Date(Date.now() - 25 * 60 * 60 * 1000) })];
+
+    await expect(inboxService.reply(PHONE, 'Hello', 'Priya')).rejects.toThrow('not written in the last 24 hours');
+    expect(WhatsAppService.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should hand the conversation back to the bot at the main menu', async () => {
+    db.users = [customer({ assignedTo: 'Priya' })];
+
+    await inboxService.handBack(PHONE, 'Priya');
+
+    expect(WhatsAppService.sendMessage).toHaveBeenCalledWith(PHONE, expect.stringContaining("You're back with the Darjberry bot"));
+    expect(db.users[0]).toMatchObject({ state: 'SELECTING_SERVICE', handoffAt: null, assignedTo: null });
+    expect(db.analytics).toEqual([expect.objectContaining({ event: 'HUMAN_HANDOFF_RETURNED' })]);
+    await expect(inboxService.handBack(PHONE, 'Priya')).rejects.toThrow('already with the bot');
+  });
+
+  it('should list handed-off conversations with their latest message', async () => {
+    db.users.push(customer({ phoneNumber: '919876543211', name: 'Bina', state: 'SELECTING_SERVICE' }));
+    db.messages.push({ id: 'msg_1', phoneNumber: PHONE, messageType: 'RECEIVED', content: 'Need help', metadata: null, timestamp: new Date() });
+
+    const response = await listThreads(adminRequest('/api/admin/inbox'));
+    const body = await response.json();
+
+    expect(body.data).toEqual([expect.objectContaining({
+      phoneNumber: PHONE,
+      lastMessage: expect.objectContaining({ content: 'Need help', agent: null })
+    })]);
+  });
+
+  it('should show a thread oldest message first', async () => {
+    await inboxService.reply(PHONE, 'First', 'Priya');
+    await inboxService.reply(PHONE, 'Second', 'Priya');
+
+    const response = await getThread(adminRequest(`/api/admin/inbox/${PHONE}`), params(PHONE));
+    const body = await response.json();
+
+    expect(body.data.messages.map((message: any) => message.content)).toEqual(['First', 'Second']);
+    expect((await getThread(adminRequest('/api/admin/inbox/910000000000'), params('910000000000'))).status).toBe(404);
+  });
+
+  it('should assign and reply through the admin API', async () => {
+    const assigned = await assignThread(
+      adminRequest(`/api/admin/inbox/${PHONE}`, { method: 'PATCH', body: { assignedTo: 'Ravi' } }),
+      params(PHONE)
+    );
+    const replied = await replyToThread(
+      adminRequest(`/api/admin/inbox/${PHONE}/reply`, { method: 'POST', body: { text: 'Hi, Ravi here', agent: 'Ravi' } }),
+      params(PHONE)
+    );
+    const empty = await replyToThread(
+      adminRequest(`/api/admin/inbox/${PHONE}/reply`, { method: 'POST', body: { text: '', agent: 'Ravi' } }),
+      params(PHONE)
+    );
+
+    expect(assigned.status).toBe(200);
+    expect(db.users[0].assignedTo).toBe('Ravi');
+    expect(replied.status).toBe(201);
+    expect(empty.status).toBe(400);
+  });
+
+  it('should require the admin key', async () => {
+    expect((await listThreads(adminRequest('/api/admin/inbox', {}, 'wrong'))).status).toBe(401);
+  });
+});
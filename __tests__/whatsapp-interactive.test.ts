@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Reply buttons and list messages out, tapped choices in
+ */
+import { WhatsAppService, readInboundReply } from '@/lib/whatsapp';
+import { WhatsAppMessage } from '@/types/whatsapp';
+
+const PHONE = '919876543210';
+
+const inbound = (fields: Partial<WhatsAppMessage>): WhatsAppMessage => ({
+  id: 'wamid.1',
+  from: PHONE,
+  type: 'text',
+  timestamp: '1717400000',
+  ...fields
+});
+
+describe('readInboundReply', () => {
+  it('should read typed text', () => {
+    expect(readInboundReply(inbound({ text: { body: 'hi' } }))).toEqual({ text: 'hi' });
+  });
+
+  it('should read the id and title of a tapped button or list row', () => {
+    expect(readInboundReply(inbound({
+      type: 'interactive',
+      interactive: { type: 'button_reply', button_reply: { id: 'SIP_EXPLANATION:C', title: "I'm ready to join!" } }
+    }))).toEqual({ text: "I'm ready to join!", choiceId: 'SIP_EXPLANATION:C' });
+
+    expect(readInboundReply(inbound({
+      type: 'interactive',
+      interactive: { type: 'list_reply', list_reply: { id: 'SELECTING_SERVICE:3', title: 'My berry plots' } }
+    }))).toEqual({ text: 'My berry plots', choiceId: 'SELECTING_SERVICE:3' });
+  });
+
+  it('should read quick-reply buttons on templates', () => {
+    expect(readInboundReply(inbound({ type: 'button', button: { text: 'RETRY', payload: 'retry' } })))
+      .toEqual({ text: 'RETRY', choiceId: 'retry' });
+  });
+});
+
+describe('WhatsAppService.sendChoices', () => {
+  const sendMessage = jest.spyOn(WhatsAppService, 'sendMessage').mockResolvedValue(undefined);
+  const sendButtons = jest.spyOn(WhatsAppService, 'sendInteractiveButtons').mockResolvedValue(undefined);
+  const sendList = jest.spyOn(WhatsAppService, 'sendInteractiveList').mockResolvedValue(undefined);
+
+  const choices = [
+    { id: 'S:A', title: 'Why blueberries?' },
+    { id: 'S:B', title: 'Show me the numbers' },
+    { id: 'S:C', title: "I'm ready to join!" }
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send up to three short choices as reply buttons', async () => {
+    await WhatsAppService.sendChoices(PHONE, 'Pick one', choices);
+
+    expect(sendButtons).toHaveBeenCalledWith(PHONE, 'Pick one', choices);
+    expect(sendList).not.toHaveBeenCalled();
+  });
+
+  it('should use a list for more choices or longer titles', async () => {
+    const menu = [...choices, { id: 'S:D', title: 'Talk to a person', description: 'Our team replies 9 AM - 6 PM' }];
+
+    await WhatsAppService.sendChoices(PHONE, 'Pick one', menu);
+    await WhatsAppService.sendChoices(PHONE, 'Pick one', [{ id: 'S:A', title: 'Register for tea estates' }]);
+
+    expect(sendList).toHaveBeenCalledWith(PHONE, 'Pick one', 'Choose an option', menu);
+    expect(sendList).toHaveBeenCalledTimes(2);
+    expect(sendButtons).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to text when there are no choices or the text is too long', async () => {
+    await WhatsAppService.sendChoices(PHONE, 'Just text', []);
+    await WhatsAppService.sendChoices(PHONE, 'x'.repeat(1025), choices);
+
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+    expect(sendButtons).not.toHaveBeenCalled();
+    expect(sendList).not.toHaveBeenCalled();
+  });
+});
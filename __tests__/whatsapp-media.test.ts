@@ -0,0 +1,226 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Files customers send on WhatsApp: downloaded from the Graph API, kept against the user and used for land verification
+ */
+import os from 'os';
+import path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { WhatsAppMediaService } from '@/lib/services/whatsappMediaService';
+import { describeInboundMessage, readInboundMedia } from '@/lib/whatsapp';
+import { FLOW_ACTIONS } from '@/lib/conversation-actions';
+import { WhatsAppMessage } from '@/types/whatsapp';
+import { startGraphMediaStub, GraphMediaStub } from './helpers/graph-media-stub';
+
+const db = {
+  media: [] as any[]
+};
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    whatsAppMedia: {
+      findUnique: jest.fn(async ({ where }: any) => db.media.find(m => m.mediaId === where.mediaId) || null),
+      create: jest.fn(async ({ data }: any) => {
+        const media = { id: `media_${db.media.length + 1}`, purpose: null, createdAt: new Date(), ...data };
+        db.media.push(media);
+        return media;
+      }),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.media.find(m => m.id === where.id), data)),
+      findMany: jest.fn(async ({ where }: any) => db.media.filter(m =>
+        m.phoneNumber === where.phoneNumber && (!where.purpose || m.purpose === where.purpose)
+      ))
+    }
+  }
+}));
+
+// The land verification actions only file and count stored media, so their service needs no Graph access
+jest.mock('@/lib/services/whatsappMediaService', () => {
+  const actual = jest.requireActual('@/lib/services/whatsappMediaService');
+  const service = new actual.WhatsAppMediaService({ baseUrl: '', storageDir: '' });
+  return { ...actual, whatsappMediaService: service };
+});
+
+jest.mock('@/lib/bot-keywords', () => ({
+  buildStatsMessage: jest.fn(),
+  createPaymentLink: jest.fn()
+}));
+
+const PHONE = '919876543210';
+const PHOTO = Buffer.from('land photo bytes');
+
+const imageMessage = (mediaId: string, caption?: string): WhatsAppMessage => ({
+  id: `wamid.${mediaId}`,
+  from: PHONE,
+  type: 'image',
+  timestamp: '1717400000',
+  image: { id: mediaId, mime_type: 'image/jpeg', caption }
+});
+
+describe('WhatsAppMediaService', () => {
+  let stub: GraphMediaStub;
+  let storageDir: string;
+  let service: WhatsAppMediaService;
+
+  beforeAll(async () => {
+    stub = await startGraphMediaStub();
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(async () => {
+    stub.reset();
+    db.media = [];
+    storageDir = await mkdtemp(path.join(os.tmpdir(), 'whatsapp-media-'));
+    service = new WhatsAppMediaService({ baseUrl: stub.baseUrl, accessToken: 'graph_token', storageDir });
+  });
+
+  afterEach(async () => {
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  it('should download a file through its media URL and keep it against the user', async () => {
+    const { sha256 } = stub.addMedia('media_plot', PHOTO, 'image/jpeg');
+
+    const stored = await service.store(PHONE, 'wamid.1', 'image', { id: 'media_plot', mime_type: 'image/jpeg', sha256, caption: 'North field' });
+
+    expect(stub.requests.map(request => request.path)).toEqual(['/media_plot', '/files/media_plot']);
+    expect(stub.requests.every(request => request.authorization === 'Bearer graph_token')).toBe(true);
+    expect(stored).toMatchObject({
+      phoneNumber: PHONE,
+      messageId: 'wamid.1',
+      kind: 'IMAGE',
+      mimeType: 'image/jpeg',
+      caption: 'North field',
+      size: PHOTO.length,
+      storagePath: path.join(PHONE, 'media_plot.jpg')
+    });
+    expect(await service.readFile(stored)).toEqual(PHOTO);
+  });
+
+  it('should not download the same media twice when a webhook is redelivered', async () => {
+    stub.addMedia('media_plot', PHOTO, 'image/jpeg');
+
+    const first = await service.store(PHONE, 'wamid.1', 'image', { id: 'media_plot', mime_type: 'image/jpeg' });
+    const second = await service.store(PHONE, 'wamid.1', 'image', { id: 'media_plot', mime_type: 'image/jpeg' });
+
+    expect(second.id).toBe(first.id);
+    expect(stub.requests).toHaveLength(2);
+    expect(db.media).toHaveLength(1);
+  });
+
+  it('should refuse files over the size limit without downloading them', async () => {
+    service = new WhatsAppMediaService({ baseUrl: stub.baseUrl, accessToken: 'graph_token', storageDir, maxBytes: 8 });
+    stub.addMedia('media_plot', PHOTO, 'image/jpeg');
+
+    await expect(service.store(PHONE, 'wamid.1', 'image', { id: 'media_plot', mime_type: 'image/jpeg' }))
+      .rejects.toThrow('over the 8 byte limit');
+    expect(stub.requests.map(request => request.path)).toEqual(['/media_plot']);
+    expect(db.media).toHaveLength(0);
+  });
+
+  it('should stop a download that turns out bigger than the lookup said', async () => {
+    service = new WhatsAppMediaService({ baseUrl: stub.baseUrl, accessToken: 'graph_token', storageDir, maxBytes: 8 });
+    stub.addMedia('media_plot', PHOTO, 'image/jpeg', 4);
+
+    await expect(service.store(PHONE, 'wamid.1', 'image', { id: 'media_plot', mime_type: 'image/jpeg' }))
+      .rejects.toThrow('over the 8 byte limit');
+    expect(db.media).toHaveLength(0);
+  });
+
+  it('should reject a file that does not match the checksum WhatsApp sent', async () => {
+    stub.addMedia('media_plot', PHOTO, 'image/jpeg');
+
+    await expect(service.store(PHONE, 'wamid.1', 'image', { id: 'media_plot', mime_type: 'image/jpeg', sha256: 'not-the-hash' }))
+      .rejects.toThrow('checksum mismatch');
+    expect(db.media).toHaveLength(0);
+  });
+
+  it('should fail when Graph does not know the media', async () => {
+    await expect(service.store(PHONE, 'wamid.1', 'document', { id: 'media_gone', mime_type: 'application/pdf' }))
+      .rejects.toThrow('Failed to look up media media_gone: 404');
+  });
+
+  it('should need an access token to download', async () => {
+    const unconfigured = new WhatsAppMediaService({ baseUrl: stub.baseUrl, storageDir });
+
+    await expect(unconfigured.store(PHONE, 'wamid.1', 'image', { id: 'media_plot', mime_type: 'image/jpeg' }))
+      .rejects.toThrow('WhatsApp not configured');
+  });
+});
+
+describe('inbound message helpers', () => {
+  it('should find the file on media messages', () => {
+    expect(readInboundMedia(imageMessage('media_plot'))).toEqual({
+      kind: 'image',
+      media: { id: 'media_plot', mime_type: 'image/jpeg' }
+    });
+    expect(readInboundMedia({ id: 'wamid.2', from: PHONE, type: 'text', timestamp: '1', text: { body: 'hi' } })).toBeNull();
+  });
+
+  it('should describe non-text messages for the message log', () => {
+    expect(describeInboundMessage(imageMessage('media_plot', 'North field'))).toBe('[image] North field');
+    expect(describeInboundMessage({
+      id: 'wamid.3', from: PHONE, type: 'audio', timestamp: '1',
+      audio: { id: 'media_voice', mime_type: 'audio/ogg; codecs=opus', voice: true }
+    })).toBe('[voice note]');
+    expect(describeInboundMessage({
+      id: 'wamid.4', from: PHONE, type: 'contacts', timestamp: '1',
+      contacts: [{ name: { formatted_name: 'Bina Rai' }, phones: [{ phone: '+91 98765 43211' }] }]
+    })).toBe('[contacts] Bina Rai +91 98765 43211');
+    expect(describeInboundMessage({
+      id: 'wamid.5', from: PHONE, type: 'reaction', timestamp: '1',
+      reaction: { message_id: 'wamid.out', emoji: '👍' }
+    })).toBe('[reaction] 👍');
+  });
+});
+
+describe('land verification actions', () => {
+  const user = { phoneNumber: PHONE, state: 'LAND_VERIFICATION' };
+  const attachment = (kind: 'image' | 'document', mediaId?: string) => ({
+    user,
+    message: { text: '', attachment: { kind, mediaId } },
+    value: null
+  });
+
+  beforeEach(() => {
+    db.media = [
+      { id: 'media_1', phoneNumber: PHONE, kind: 'IMAGE', purpose: null },
+      { id: 'media_2', phoneNumber: PHONE, kind: 'DOCUMENT', purpose: null }
+    ];
+  });
+
+  it('should file photos and records and ask for what is missing', async () => {
+    const afterPhoto = await FLOW_ACTIONS.saveLandDocument(attachment('image', 'media_1'));
+
+    expect(db.media[0].purpose).toBe('LAND_PHOTO');
+    expect(afterPhoto.reply).toContain('1 photo, 0 land records');
+    expect(afterPhoto.reply).toContain('Please also send your land record');
+
+    const afterRecord = await FLOW_ACTIONS.saveLandDocument(attachment('document', 'media_2'));
+
+    expect(db.media[1].purpose).toBe('LAND_RECORD');
+    expect(afterRecord.reply).toContain('reply DONE');
+  });
+
+  it('should ask again when the file could not be downloaded', async () => {
+    expect((await FLOW_ACTIONS.saveLandDocument(attachment('image'))).reply).toContain("couldn't receive that file");
+  });
+
+  it('should only finish once there is a photo and a land record', async () => {
+    db.media[0].purpose = 'LAND_PHOTO';
+
+    expect(await FLOW_ACTIONS.finishLandVerification(attachment('image'))).toEqual({
+      reply: expect.stringContaining('your land record')
+    });
+
+    db.media[1].purpose = 'LAND_RECORD';
+
+    expect(await FLOW_ACTIONS.finishLandVerification(attachment('image'))).toMatchObject({
+      next: 'SIP_PACKAGE_SELECTION',
+      reply: expect.stringContaining('1 photo and 1 land record')
+    });
+  });
+});
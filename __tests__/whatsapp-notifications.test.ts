@@ -0,0 +1,293 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Proactive WhatsApp notifications: free-form inside the 24-hour window, approved templates after it
+ */
+import { WhatsAppNotificationService, getSessionWindow } from '@/lib/services/whatsappNotificationService';
+import { WHATSAPP_TEMPLATES, renderTemplate, template, templateComponents } from '@/lib/whatsapp-templates';
+import { quietHoursEnd } from '@/lib/messaging-policy';
+import { WhatsAppService } from '@/lib/whatsapp';
+
+const db = {
+  user: null as any,
+  templates: [] as any[],
+  messages: [] as any[],
+  scheduled: [] as any[],
+  analytics: [] as any[],
+  invoices: [] as any[]
+};
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    whatsAppUser: {
+      findUnique: jest.fn(async () => db.user)
+    },
+    messageTemplate: {
+      findUnique: jest.fn(async ({ where }: any) => db.templates.find(t =>
+        t.name === where.name_language.name && t.language === where.name_language.language
+      ) || null),
+      upsert: jest.fn(async ({ where, update, create }: any) => {
+        const existing = db.templates.find(t =>
+          t.name === where.name_language.name && t.language === where.name_language.language
+        );
+        if (existing) return Object.assign(existing, update);
+        db.templates.push(create);
+        return create;
+      })
+    },
+    whatsAppMessage: {
+      create: jest.fn(async ({ data }: any) => {
+        db.messages.push(data);
+        return data;
+      })
+    },
+    scheduledMessage: {
+      create: jest.fn(async ({ data }: any) => {
+        const message = { id: `sch_${db.scheduled.length + 1}`, status: 'PENDING', ...data };
+        db.scheduled.push(message);
+        return message;
+      }),
+      findMany: jest.fn(async ({ where }: any) => db.scheduled.filter(m =>
+        m.status === where.status && m.sendAfter <= where.sendAfter.lte
+      )),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.scheduled.find(m => m.id === where.id), data)),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const matched = db.scheduled.filter(m => m.id === where.id && m.status === where.status);
+        matched.forEach(m => Object.assign(m, data));
+        return { count: matched.length };
+      })
+    },
+    analytics: {
+      create: jest.fn(async ({ data }: any) => {
+        db.analytics.push(data);
+        return data;
+      })
+    },
+    invoice: {
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.invoices.find(i => i.id === where.id), data))
+    }
+  }
+}));
+
+jest.mock('@/lib/whatsapp', () => ({
+  WhatsAppService: {
+    sendMessage: jest.fn(async () => undefined),
+    sendTemplate: jest.fn(async () => undefined),
+    sendDocument: jest.fn(async () => undefined)
+  }
+}));
+
+const PHONE = '919876543210';
+const HOUR_MS = 60 * 60 * 1000;
+// 3:30 PM in India
+const now = new Date('2025-06-02T10:00:00Z');
+// 10:30 PM in India, inside quiet hours
+const night = new Date('2025-06-02T17:00:00Z');
+
+const refund = {
+  text: '💸 Refund processed\n\n💳 Amount: ₹5,000',
+  template: template('refund_processed', '5,000', 50)
+};
+
+describe('WhatsAppNotificationService', () => {
+  const service = new WhatsAppNotificationService();
+
+  const statusUpdate = (event: string, reason: string | null = null) => ({
+    event,
+    message_template_id: 987,
+    message_template_name: 'refund_processed',
+    message_template_language: 'en',
+    reason
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    db.user = { phoneNumber: PHONE, lastInboundAt: new Date(now.getTime() - 2 * HOUR_MS) };
+    db.templates = [];
+    db.messages = [];
+    db.scheduled = [];
+    db.analytics = [];
+    db.invoices = [];
+    jest.clearAllMocks();
+  });
+
+  it('should send free-form text while the customer wrote in the last 24 hours', async () => {
+    const channel = await service.send(PHONE, refund, 'webhook_notification', now);
+
+    expect(channel).toBe('SESSION');
+    expect(WhatsAppService.sendMessage).toHaveBeenCalledWith(PHONE, refund.text);
+    expect(WhatsAppService.sendTemplate).not.toHaveBeenCalled();
+    expect(db.messages).toEqual([expect.objectContaining({ content: refund.text, campaign: 'webhook_notification' })]);
+  });
+
+  it('should fall back to the approved template once the window has closed', async () => {
+    db.user.lastInboundAt = new Date(now.getTime() - 25 * HOUR_MS);
+    await service.recordTemplateStatus(statusUpdate('APPROVED'));
+
+    const channel = await service.send(PHONE, refund, 'webhook_notification', now);
+
+    expect(channel).toBe('TEMPLATE');
+    expect(WhatsAppService.sendMessage).not.toHaveBeenCalled();
+    expect(WhatsAppService.sendTemplate).toHaveBeenCalledWith(PHONE, 'refund_processed', [{
+      type: 'body',
+      parameters: [{ type: 'text', text: '5,000' }, { type: 'text', text: '50' }]
+    }], 'en');
+    expect(db.messages[0].content).toContain('Your refund of ₹5,000 has been processed and 50 plants were released');
+  });
+
+  it('should use templates for customers who have never written to us', async () => {
+    db.user = null;
+    await service.recordTemplateStatus(statusUpdate('APPROVED'));
+
+    expect(await service.send(PHONE, refund, 'webhook_notification', now)).toBe('TEMPLATE');
+  });
+
+  it('should not send anything while the template is not approved', async () => {
+    db.user.lastInboundAt = new Date(now.getTime() - 25 * HOUR_MS);
+    await service.recordTemplateStatus(statusUpdate('APPROVED'));
+    await service.recordTemplateStatus(statusUpdate('PAUSED', 'Low quality'));
+
+    const channel = await service.send(PHONE, refund, 'webhook_notification', now);
+
+    expect(channel).toBe('UNSENT');
+    expect(WhatsAppService.sendTemplate).not.toHaveBeenCalled();
+    expect(db.templates).toEqual([expect.objectContaining({ status: 'PAUSED', reason: 'Low quality' })]);
+    expect(db.analytics).toEqual([expect.objectContaining({ event: 'NOTIFICATION_UNSENT' })]);
+  });
+
+  it('should treat reinstated templates as approved', async () => {
+    await service.recordTemplateStatus(statusUpdate('REINSTATED', 'NONE'));
+
+    expect(db.templates[0]).toMatchObject({ status: 'APPROVED', reason: null, templateId: '987' });
+  });
+
+  it('should hold notifications during quiet hours until 9 AM in India', async () => {
+    const channel = await service.send(PHONE, refund, 'webhook_notification', night);
+
+    expect(channel).toBe('QUEUED');
+    expect(WhatsAppService.sendMessage).not.toHaveBeenCalled();
+    expect(db.scheduled).toEqual([expect.objectContaining({
+      text: refund.text,
+      source: 'webhook_notification',
+      sendAfter: new Date('2025-06-03T03:30:00Z')
+    })]);
+  });
+
+  it('should send urgent notifications during quiet hours', async () => {
+    expect(await service.send(PHONE, { ...refund, urgent: true }, 'webhook_notification', night)).toBe('SESSION');
+  });
+
+  it('should send queued notifications in the morning', async () => {
+    await service.send(PHONE, refund, 'webhook_notification', night);
+
+    expect(await service.sendQueued(night)).toEqual({ sent: 0, unsent: 0 });
+
+    const morning = new Date('2025-06-03T03:30:00Z');
+    expect(await service.sendQueued(morning)).toEqual({ sent: 1, unsent: 0 });
+    expect(WhatsAppService.sendMessage).toHaveBeenCalledWith(PHONE, refund.text);
+    expect(db.scheduled[0]).toMatchObject({ status: 'SENT', channel: 'SESSION', sentAt: morning });
+  });
+
+  it('should send a queued notification once when runs overlap', async () => {
+    await service.send(PHONE, refund, 'webhook_notification', night);
+
+    const morning = new Date('2025-06-03T03:30:00Z');
+    const results = await Promise.all([service.sendQueued(morning), service.sendQueued(morning)]);
+
+    expect(results.reduce((sent, result) => sent + result.sent, 0)).toBe(1);
+    expect(WhatsAppService.sendMessage).toHaveBeenCalledTimes(1);
+    expect(db.scheduled[0]).toMatchObject({ status: 'SENT' });
+  });
+
+  it('should mark a queued notification that fails UNSENT and carry on with the batch', async () => {
+    await service.send(PHONE, refund, 'webhook_notification', night);
+    await service.send(PHONE, refund, 'webhook_notification', night);
+    (WhatsAppService.sendMessage as jest.Mock).mockRejectedValueOnce(new Error('Graph API unavailable'));
+
+    const morning = new Date('2025-06-03T03:30:00Z');
+    expect(await service.sendQueued(morning)).toEqual({ sent: 1, unsent: 1 });
+    expect(db.scheduled[0]).toMatchObject({ status: 'UNSENT', error: 'Graph API unavailable' });
+    expect(db.scheduled[1]).toMatchObject({ status: 'SENT' });
+  });
+
+  it('should keep the document of a queued invoice and mark the invoice sent in the morning', async () => {
+    db.invoices = [{ id: 'inv_1', sentAt: null }];
+    const document = { link: 'https://darjberry.test/api/invoices/inv_1?format=pdf', filename: 'Darjberry-Invoice.pdf' };
+
+    await service.send(PHONE, {
+      text: '🧾 Your receipt',
+      template: template('invoice_ready', 'DJB/2025-26/00001', '5,000'),
+      document,
+      invoiceId: 'inv_1'
+    }, 'invoice', night);
+    expect(db.invoices[0].sentAt).toBeNull();
+
+    const morning = new Date('2025-06-03T03:30:00Z');
+    expect(await service.sendQueued(morning)).toEqual({ sent: 1, unsent: 0 });
+    expect(WhatsAppService.sendDocument).toHaveBeenCalledWith(PHONE, document.link, document.filename, '🧾 Your receipt');
+    expect(db.invoices[0].sentAt).toEqual(morning);
+  });
+
+  it('should only send marketing to customers who opted in and have not replied STOP', async () => {
+    const milestone = {
+      text: '🎉 First harvest',
+      template: template('milestone_reached', 'First harvest'),
+      category: 'MARKETING' as const
+    };
+
+    expect(await service.send(PHONE, milestone, 'milestone', now)).toBe('UNSENT');
+
+    db.user.optedInAt = new Date('2025-01-01');
+    expect(await service.send(PHONE, milestone, 'milestone', now)).toBe('SESSION');
+
+    db.user.optedOutAt = new Date('2025-05-01');
+    expect(await service.send(PHONE, milestone, 'milestone', now)).toBe('UNSENT');
+    expect(db.analytics[1]).toMatchObject({ event: 'NOTIFICATION_UNSENT', metadata: expect.stringContaining('NO_CONSENT') });
+
+    // STOP ends marketing, not news about their SIP
+    expect(await service.send(PHONE, refund, 'webhook_notification', now)).toBe('SESSION');
+  });
+});
+
+describe('quiet hours', () => {
+  it('should run from 9 PM to 9 AM in India', () => {
+    expect(quietHoursEnd(new Date('2025-06-02T15:29:00Z'))).toBeNull(); // 8:59 PM
+    expect(quietHoursEnd(new Date('2025-06-02T15:30:00Z'))).toEqual(new Date('2025-06-03T03:30:00Z'));
+    expect(quietHoursEnd(new Date('2025-06-02T20:00:00Z'))).toEqual(new Date('2025-06-03T03:30:00Z')); // 1:30 AM
+    expect(quietHoursEnd(new Date('2025-06-03T03:30:00Z'))).toBeNull(); // 9 AM
+  });
+});
+
+describe('session window', () => {
+  it('should stay open for 24 hours after the last inbound message', () => {
+    const lastInboundAt = new Date('2025-06-01T10:00:00Z');
+
+    expect(getSessionWindow(lastInboundAt, new Date('2025-06-02T09:59:00Z'))).toEqual({
+      open: true,
+      expiresAt: new Date('2025-06-02T10:00:00Z')
+    });
+    expect(getSessionWindow(lastInboundAt, new Date('2025-06-02T10:00:00Z')).open).toBe(false);
+    expect(getSessionWindow(null)).toEqual({ open: false, expiresAt: null });
+  });
+});
+
+describe('WhatsApp templates', () => {
+  it('should need exactly the parameters the body has', () => {
+    expect(() => template('refund_processed', '5,000')).toThrow('expected 2, got 1');
+    expect(templateComponents(template('sip_resumed'))).toEqual([]);
+  });
+
+  it('should render the text the customer sees', () => {
+    expect(renderTemplate(template('milestone_reached', 'First harvest'))).toContain('berry milestone: First harvest.');
+  });
+
+  it('should have names Meta accepts', () => {
+    for (const name of Object.keys(WHATSAPP_TEMPLATES)) {
+      expect(name).toMatch(/^[a-z0-9_]{1,512}$/);
+    }
+  });
+});
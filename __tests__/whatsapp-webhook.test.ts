@@ -0,0 +1,261 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * The single WhatsApp ingress: signed, deduplicated and fanned out to the bot, statuses and template events
+ */
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/whatsapp/webhook/route';
+import * as metaRoute from '@/app/api/webhooks/meta/route';
+import { WhatsAppService } from '@/lib/whatsapp';
+import { WELCOME_MESSAGE } from '@/lib/conversation-flows';
+
+const db = {
+  processedEvents: new Set<string>(),
+  users: [] as any[],
+  messages: [] as any[],
+  analytics: [] as any[],
+  templates: [] as any[]
+};
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    processedWebhookEvent: {
+      create: jest.fn(async ({ data }: any) => {
+        const key = `${data.source}:${data.eventKey}`;
+        if (db.processedEvents.has(key)) {
+          throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+        }
+        db.processedEvents.add(key);
+        return data;
+      }),
+      deleteMany: jest.fn(async ({ where }: any) => {
+        db.processedEvents.delete(`${where.source}:${where.eventKey}`);
+        return { count: 1 };
+      })
+    },
+    whatsAppUser: {
+      findUnique: jest.fn(async ({ where }: any) => db.users.find(u => u.phoneNumber === where.phoneNumber) || null),
+      create: jest.fn(async ({ data }: any) => {
+        db.users.push({ ...data });
+        return { ...data };
+      }),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.users.find(u => u.phoneNumber === where.phoneNumber), data))
+    },
+    whatsAppMessage: {
+      create: jest.fn(async ({ data }: any) => {
+        const message = { id: `msg_${db.messages.length + 1}`, ...data };
+        db.messages.push(message);
+        return message;
+      }),
+      findUnique: jest.fn(async ({ where }: any) => db.messages.find(m => m.waMessageId === where.waMessageId) || null),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(db.messages.find(m => m.id === where.id), data))
+    },
+    analytics: {
+      create: jest.fn(async ({ data }: any) => {
+        db.analytics.push(data);
+        return data;
+      })
+    },
+    messageTemplate: {
+      upsert: jest.fn(async ({ create }: any) => {
+        db.templates.push(create);
+        return create;
+      })
+    }
+  }
+}));
+
+jest.mock('@/lib/whatsapp', () => ({
+  ...jest.requireActual('@/lib/whatsapp'),
+  WhatsAppService: {
+    sendMessage: jest.fn(async () => undefined),
+    sendChoices: jest.fn(async () => undefined)
+  }
+}));
+
+const APP_SECRET = 'test_app_secret';
+const PHONE = '919876543210';
+
+function signedRequest(payload: object, secret: string = APP_SECRET): NextRequest {
+  const body = JSON.stringify(payload);
+  const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+  return new NextRequest('http://localhost/api/whatsapp/webhook', {
+    method: 'POST',
+    body,
+    headers: {
+      'content-type': 'application/json',
+      'x-hub-signature-256': `sha256=${signature}`
+    }
+  });
+}
+
+const webhook = (field: string, value: object) => ({
+  object: 'whatsapp_business_account',
+  entry: [{ id: 'waba_1', changes: [{ field, value }] }]
+});
+
+const textMessage = (id: string, body: string) => webhook('messages', {
+  messaging_product: 'whatsapp',
+  metadata: { display_phone_number: '919000000000', phone_number_id: 'phone_1' },
+  contacts: [{ wa_id: PHONE, profile: { name: 'Asha' } }],
+  messages: [{ id, from: PHONE, timestamp: '1717400000', type: 'text', text: { body } }]
+});
+
+describe('WhatsApp webhook ingress', () => {
+  beforeAll(() => {
+    process.env.META_APP_SECRET = APP_SECRET;
+    process.env.WHATSAPP_VERIFY_TOKEN = 'verify_me';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    db.processedEvents.clear();
+    db.users = [];
+    db.messages = [];
+    db.analytics = [];
+    db.templates = [];
+    jest.clearAllMocks();
+  });
+
+  it('should answer a new customer through the conversation engine', async () => {
+    const response = await POST(signedRequest(textMessage('wamid.1', 'hi')));
+
+    expect(response.status).toBe(200);
+    expect(WhatsAppService.sendChoices).toHaveBeenCalledWith(PHONE, WELCOME_MESSAGE, expect.arrayContaining([
+      expect.objectContaining({ id: 'SELECTING_SERVICE:1' })
+    ]));
+    expect(db.users[0]).toMatchObject({
+      phoneNumber: PHONE,
+      state: 'SELECTING_SERVICE',
+      lastInboundAt: new Date(1717400000 * 1000)
+    });
+    // Writing to us is not a marketing opt-in
+    expect(db.users[0].optedInAt).toBeUndefined();
+    expect(db.messages.map(message => message.messageType)).toEqual(['RECEIVED', 'SENT']);
+  });
+
+  it('should reply to a message only once when Meta redelivers it', async () => {
+    await POST(signedRequest(textMessage('wamid.1', 'hi')));
+    const redelivery = await POST(signedRequest(textMessage('wamid.1', 'hi')));
+
+    expect(redelivery.status).toBe(200);
+    expect(WhatsAppService.sendChoices).toHaveBeenCalledTimes(1);
+    expect(db.messages.filter(message => message.messageType === 'RECEIVED')).toHaveLength(1);
+  });
+
+  it('should not answer again when the reply failed after the message was applied', async () => {
+    (WhatsAppService.sendChoices as jest.Mock).mockRejectedValueOnce(new Error('Graph API unavailable'));
+
+    const failed = await POST(signedRequest(textMessage('wamid.1', 'hi')));
+    await POST(signedRequest(textMessage('wamid.1', 'hi')));
+
+    expect(failed.status).toBe(200);
+    expect(WhatsAppService.sendChoices).toHaveBeenCalledTimes(1);
+    expect(db.messages.filter(message => message.messageType === 'RECEIVED')).toHaveLength(1);
+    expect(db.users[0]).toMatchObject({ state: 'SELECTING_SERVICE', lastInboundAt: new Date(1717400000 * 1000) });
+  });
+
+  it('should process a redelivery when nothing was applied the first time', async () => {
+    const { prisma } = jest.requireMock('@/lib/prisma');
+    prisma.whatsAppMessage.create.mockRejectedValueOnce(new Error('database unavailable'));
+
+    const failed = await POST(signedRequest(textMessage('wamid.1', 'hi')));
+    const redelivery = await POST(signedRequest(textMessage('wamid.1', 'hi')));
+
+    expect(failed.status).toBe(500);
+    expect(redelivery.status).toBe(200);
+    expect(WhatsAppService.sendChoices).toHaveBeenCalledTimes(1);
+    expect(db.messages.filter(message => message.messageType === 'RECEIVED')).toHaveLength(1);
+  });
+
+  it('should reject payloads without a valid signature', async () => {
+    const unsigned = new NextRequest('http://localhost/api/whatsapp/webhook', {
+      method: 'POST',
+      body: JSON.stringify(textMessage('wamid.1', 'hi'))
+    });
+
+    expect((await POST(unsigned)).status).toBe(403);
+    expect((await POST(signedRequest(textMessage('wamid.1', 'hi'), 'wrong_secret'))).status).toBe(403);
+    expect(WhatsAppService.sendChoices).not.toHaveBeenCalled();
+  });
+
+  it('should record delivery statuses once each', async () => {
+    const delivered = webhook('messages', {
+      messaging_product: 'whatsapp',
+      metadata: { display_phone_number: '919000000000', phone_number_id: 'phone_1' },
+      statuses: [{ id: 'wamid.out', status: 'delivered', timestamp: '1717400000', recipient_id: PHONE }]
+    });
+
+    await POST(signedRequest(delivered));
+    await POST(signedRequest(delivered));
+
+    expect(db.analytics).toEqual([expect.objectContaining({ phoneNumber: PHONE, event: 'MESSAGE_DELIVERED' })]);
+  });
+
+  it('should keep the Graph id of bot replies and track their delivery', async () => {
+    (WhatsAppService.sendChoices as jest.Mock).mockResolvedValueOnce({
+      messaging_product: 'whatsapp',
+      contacts: [{ input: PHONE, wa_id: PHONE }],
+      messages: [{ id: 'wamid.reply' }]
+    });
+
+    await POST(signedRequest(textMessage('wamid.1', 'hi')));
+    await POST(signedRequest(webhook('messages', {
+      messaging_product: 'whatsapp',
+      metadata: { display_phone_number: '919000000000', phone_number_id: 'phone_1' },
+      statuses: [{ id: 'wamid.reply', status: 'read', timestamp: '1717400060', recipient_id: PHONE }]
+    })));
+
+    expect(db.messages[1]).toMatchObject({
+      messageType: 'SENT',
+      campaign: 'bot',
+      waMessageId: 'wamid.reply',
+      status: 'READ',
+      statusAt: new Date(1717400060 * 1000)
+    });
+  });
+
+  it('should store and log template review events', async () => {
+    await POST(signedRequest(webhook('message_template_status_update', {
+      event: 'APPROVED',
+      message_template_id: 1234,
+      message_template_name: 'sip_payment_failed',
+      message_template_language: 'en',
+      reason: null
+    })));
+
+    expect(db.templates).toEqual([
+      expect.objectContaining({ name: 'sip_payment_failed', language: 'en', templateId: '1234', status: 'APPROVED' })
+    ]);
+    expect(db.analytics).toEqual([expect.objectContaining({ phoneNumber: 'SYSTEM', event: 'TEMPLATE_APPROVED' })]);
+  });
+
+  it('should serve the old Meta webhook URL with the same handler', () => {
+    expect(metaRoute.POST).toBe(POST);
+    expect(metaRoute.GET).toBe(GET);
+  });
+});
+
+describe('WhatsApp webhook verification handshake', () => {
+  const handshake = (token: string) =>
+    new NextRequest(`http://localhost/api/whatsapp/webhook?hub.mode=subscribe&hub.verify_token=${token}&hub.challenge=challenge_42`);
+
+  beforeAll(() => {
+    process.env.WHATSAPP_VERIFY_TOKEN = 'verify_me';
+  });
+
+  it('should echo the challenge for our verify token', async () => {
+    const response = await GET(handshake('verify_me'));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('challenge_42');
+  });
+
+  it('should refuse other tokens', async () => {
+    expect((await GET(handshake('guess'))).status).toBe(403);
+  });
+});
@@ -0,0 +1,514 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Megaphone, RefreshCw, Send, Users, XCircle } from "lucide-react";
+import { WHATSAPP_TEMPLATES, TemplateName } from "@/lib/whatsapp-templates";
+
+interface CampaignSegment {
+  sipStatuses?: string[];
+  minTotalInvested?: number;
+  plotLocations?: string[];
+  landTypes?: string[];
+  minLeadScore?: number;
+  darjeelingInterest?: boolean;
+}
+
+interface RecipientCounts {
+  PENDING: number;
+  SENDING: number;
+  SENT: number;
+  FAILED: number;
+  SKIPPED: number;
+}
+
+interface CampaignSummary {
+  id: string;
+  name: string;
+  templateName: string;
+  status: string;
+  createdBy: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  recipients: RecipientCounts;
+}
+
+interface CampaignDetail extends CampaignSummary {
+  delivery: {
+    total: number;
+    delivered: number;
+    read: number;
+    failed: number;
+  } | null;
+  failures: Array<{ phoneNumber: string; status: string; error: string | null }>;
+}
+
+interface SegmentPreview {
+  recipients: number;
+  optedOut: number;
+  notOptedIn: number;
+  sample: Array<{ phoneNumber: string; name: string | null }>;
+}
+
+const SIP_STATUSES = ['ACTIVE', 'PAUSED', 'PENDING', 'CANCELLED'];
+const PLOT_LOCATIONS = ['Your Own Land', 'Darjeeling Tea Estate'];
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  SENDING: 'default',
+  COMPLETED: 'secondary',
+  CANCELLED: 'destructive'
+};
+
+const placeholderCount = (name: TemplateName) =>
+  new Set(WHATSAPP_TEMPLATES[name].match(/\{\{\d+\}\}/g) || []).size;
+
+const percent = (count: number, total: number) =>
+  total === 0 ? '-' : `${Math.round((count / total) * 100)}%`;
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const CampaignsAdminPage = () => {
+  const [adminKey, setAdminKey] = useState('');
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [detail, setDetail] = useState<CampaignDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const [name, setName] = useState('');
+  const [createdBy, setCreatedBy] = useState('');
+  const [templateName, setTemplateName] = useState<TemplateName>('darjeeling_lease_launch');
+  const [parameters, setParameters] = useState<string[]>(['{name}', '']);
+  const [darjeelingInterest, setDarjeelingInterest] = useState(true);
+  const [sipStatuses, setSipStatuses] = useState<string[]>([]);
+  const [minTotalInvested, setMinTotalInvested] = useState('');
+  const [plotLocations, setPlotLocations] = useState<string[]>([]);
+  const [preview, setPreview] = useState<SegmentPreview | null>(null);
+
+  const segment: CampaignSegment = {
+    ...(darjeelingInterest && { darjeelingInterest: true }),
+    ...(sipStatuses.length > 0 && { sipStatuses }),
+    ...(minTotalInvested && { minTotalInvested: Number(minTotalInvested) }),
+    ...(plotLocations.length > 0 && { plotLocations })
+  };
+
+  const fetchCampaigns = React.useCallback(async () => {
+    if (!adminKey) return;
+
+    try {
+      const response = await fetch('/api/admin/campaigns', {
+        headers: { 'x-admin-key': adminKey }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setCampaigns(data.data);
+        setError(null);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching campaigns:', error);
+    }
+  }, [adminKey]);
+
+  const fetchDetail = React.useCallback(async () => {
+    if (!adminKey || !selected) return;
+
+    try {
+      const response = await fetch(`/api/admin/campaigns/${selected}`, {
+        headers: { 'x-admin-key': adminKey }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setDetail(data.data);
+        setError(null);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching campaign:', error);
+    }
+  }, [adminKey, selected]);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  useEffect(() => {
+    fetchDetail();
+  }, [fetchDetail]);
+
+  const selectTemplate = (value: TemplateName) => {
+    setTemplateName(value);
+    setParameters(Array.from({ length: placeholderCount(value) }, (_, i) => (i === 0 ? '{name}' : '')));
+  };
+
+  const post = async (url: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-admin-key': adminKey },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    return response.json();
+  };
+
+  const previewSegment = async () => {
+    try {
+      const data = await post('/api/admin/campaigns/preview', { segment });
+
+      if (data.success) {
+        setPreview(data.data);
+        setError(null);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error previewing segment:', error);
+    }
+  };
+
+  const createCampaign = async () => {
+    try {
+      const data = await post('/api/admin/campaigns', { name, templateName, parameters, segment, createdBy });
+
+      if (data.success) {
+        setName('');
+        setPreview(null);
+        setSelected(data.data.id);
+        setNotice(`Campaign ${data.data.name} created as a draft`);
+        setError(null);
+        await fetchCampaigns();
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error creating campaign:', error);
+    }
+  };
+
+  // Each call sends one throttled batch; keep going until the audience is done
+  const sendCampaign = async (id: string) => {
+    setSending(true);
+    setSelected(id);
+    try {
+      for (;;) {
+        const data = await post(`/api/admin/campaigns/${id}/send`);
+
+        if (!data.success) {
+          setError(data.error);
+          break;
+        }
+
+        setNotice(`${data.data.remaining} recipients left`);
+        await fetchCampaigns();
+
+        if (data.data.quietUntil) {
+          setNotice(`Quiet hours in India; send again after ${new Date(data.data.quietUntil).toLocaleString('en-IN')}.`);
+          break;
+        }
+        if (data.data.rateLimited) {
+          setNotice(`WhatsApp asked us to slow down. ${data.data.remaining} recipients left; send again in a few minutes.`);
+          break;
+        }
+        if (data.data.remaining === 0) {
+          setNotice('Campaign sent');
+          break;
+        }
+      }
+      await fetchDetail();
+    } catch (error) {
+      console.error('Error sending campaign:', error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const cancelCampaign = async (id: string) => {
+    try {
+      const data = await post(`/api/admin/campaigns/${id}/cancel`);
+
+      if (data.success) {
+        setNotice(data.message);
+        await fetchCampaigns();
+        await fetchDetail();
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error cancelling campaign:', error);
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold tracking-tight">WhatsApp Campaigns</h1>
+        <p className="text-muted-foreground mt-2">
+          Broadcast approved templates to a segment of investors and leads
+        </p>
+      </div>
+
+      <div className="flex gap-4 mb-6">
+        <Input
+          type="password"
+          placeholder="Admin key"
+          value={adminKey}
+          onChange={(e) => setAdminKey(e.target.value)}
+        />
+        <Button variant="outline" onClick={() => { fetchCampaigns(); fetchDetail(); }} disabled={!adminKey}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="mb-6">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert className="mb-6">
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Megaphone className="h-5 w-5 mr-2" />
+            New Campaign
+          </CardTitle>
+          <CardDescription>
+            Only templates Meta has approved can be sent, and not between 9 PM and 9 AM IST. Customers who replied STOP or never replied SUBSCRIBE are skipped.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-4">
+            <Input
+              placeholder="Name, e.g. darjeeling_lease_launch"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Input
+              placeholder="Your name"
+              value={createdBy}
+              onChange={(e) => setCreatedBy(e.target.value)}
+            />
+            <select
+              value={templateName}
+              onChange={(e) => selectTemplate(e.target.value as TemplateName)}
+              className="px-3 py-2 border rounded-md"
+            >
+              {Object.keys(WHATSAPP_TEMPLATES).map((template) => (
+                <option key={template} value={template}>{template}</option>
+              ))}
+            </select>
+          </div>
+
+          <pre className="text-sm whitespace-pre-wrap bg-muted p-3 rounded-md">{WHATSAPP_TEMPLATES[templateName]}</pre>
+
+          {parameters.map((parameter, index) => (
+            <Input
+              key={index}
+              placeholder={`{{${index + 1}}} ({name} becomes the recipient's name)`}
+              value={parameter}
+              onChange={(e) => setParameters(parameters.map((p, i) => (i === index ? e.target.value : p)))}
+            />
+          ))}
+
+          <div className="space-y-2 text-sm">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={darjeelingInterest}
+                onChange={(e) => setDarjeelingInterest(e.target.checked)}
+              />
+              Registered for the Darjeeling lease and not yet notified
+            </label>
+            <div className="flex items-center gap-4">
+              <span className="text-muted-foreground">SIP status:</span>
+              {SIP_STATUSES.map((status) => (
+                <label key={status} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={sipStatuses.includes(status)}
+                    onChange={() => setSipStatuses(toggle(sipStatuses, status))}
+                  />
+                  {status}
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-4">
+              <span className="text-muted-foreground">Active plots at:</span>
+              {PLOT_LOCATIONS.map((location) => (
+                <label key={location} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={plotLocations.includes(location)}
+                    onChange={() => setPlotLocations(toggle(plotLocations, location))}
+                  />
+                  {location}
+                </label>
+              ))}
+            </div>
+            <Input
+              type="number"
+              placeholder="Minimum total invested (₹)"
+              value={minTotalInvested}
+              onChange={(e) => setMinTotalInvested(e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-4">
+            <Button variant="outline" onClick={previewSegment} disabled={!adminKey}>
+              <Users className="h-4 w-4 mr-2" />
+              Preview audience
+            </Button>
+            <Button onClick={createCampaign} disabled={!adminKey || !name}>
+              Create draft
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="text-sm">
+              <p>
+                {preview.recipients} matched, {preview.optedOut} opted out, {preview.notOptedIn} never subscribed
+                ({preview.recipients - preview.optedOut - preview.notOptedIn} will receive it)
+              </p>
+              <p className="text-muted-foreground">
+                e.g. {preview.sample.map((user) => user.name || user.phoneNumber).join(', ') || 'nobody'}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Campaigns</CardTitle>
+          <CardDescription>Sending works through the audience in throttled batches</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Template</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Sent</TableHead>
+                <TableHead>Failed</TableHead>
+                <TableHead>Skipped</TableHead>
+                <TableHead>Pending</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.map((campaign) => (
+                <TableRow key={campaign.id} className="cursor-pointer" onClick={() => setSelected(campaign.id)}>
+                  <TableCell className="font-medium">{campaign.name}</TableCell>
+                  <TableCell>{campaign.templateName}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[campaign.status] || 'outline'}>{campaign.status}</Badge>
+                  </TableCell>
+                  <TableCell>{campaign.recipients.SENT}</TableCell>
+                  <TableCell>{campaign.recipients.FAILED}</TableCell>
+                  <TableCell>{campaign.recipients.SKIPPED}</TableCell>
+                  <TableCell>{campaign.recipients.PENDING}</TableCell>
+                  <TableCell className="flex gap-2">
+                    {(campaign.status === 'DRAFT' || campaign.status === 'SENDING') && (
+                      <>
+                        <Button
+                          size="sm"
+                          onClick={(e) => { e.stopPropagation(); sendCampaign(campaign.id); }}
+                          disabled={sending}
+                        >
+                          <Send className="h-4 w-4 mr-1" />
+                          {campaign.status === 'DRAFT' ? 'Send' : 'Resume'}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={(e) => { e.stopPropagation(); cancelCampaign(campaign.id); }}
+                          disabled={sending}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Cancel
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {campaigns.length === 0 && (
+            <div className="text-sm text-muted-foreground mt-4">
+              {adminKey ? 'No campaigns yet.' : 'Enter the admin key to load campaigns.'}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {detail && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{detail.name}</CardTitle>
+            <CardDescription>
+              {detail.createdBy ? `Created by ${detail.createdBy}` : 'Created'} on {new Date(detail.createdAt).toLocaleString('en-IN')}
+              {detail.completedAt && `, finished ${new Date(detail.completedAt).toLocaleString('en-IN')}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {detail.delivery ? (
+              <p className="text-sm mb-4">
+                Delivered {detail.delivery.delivered} ({percent(detail.delivery.delivered, detail.delivery.total)}),
+                read {detail.delivery.read} ({percent(detail.delivery.read, detail.delivery.total)}),
+                failed after sending {detail.delivery.failed}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground mb-4">Nothing sent yet.</p>
+            )}
+
+            {detail.failures.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>To</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detail.failures.map((failure) => (
+                    <TableRow key={failure.phoneNumber}>
+                      <TableCell className="font-mono text-xs">{failure.phoneNumber}</TableCell>
+                      <TableCell>
+                        <Badge variant={failure.status === 'FAILED' ? 'destructive' : 'outline'}>{failure.status}</Badge>
+                      </TableCell>
+                      <TableCell>{failure.error || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default CampaignsAdminPage;
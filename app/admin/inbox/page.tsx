@@ -0,0 +1,336 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { MessageSquare, RefreshCw, Send, UserCheck, Bot } from "lucide-react";
+
+interface InboxMessage {
+  id: string;
+  messageType: string;
+  content: string;
+  agent: string | null;
+  timestamp: string;
+}
+
+interface InboxThreadSummary {
+  phoneNumber: string;
+  name: string | null;
+  state: string;
+  handoffAt: string | null;
+  assignedTo: string | null;
+  lastInteraction: string;
+  sessionExpiresAt: string | null;
+  lastMessage: InboxMessage | null;
+}
+
+interface InboxThread extends InboxThreadSummary {
+  messages: InboxMessage[];
+}
+
+const HUMAN_HANDOFF = 'HUMAN_HANDOFF';
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-IN', { dateStyle: 'short', timeStyle: 'short' });
+
+const isSessionOpen = (summary: InboxThreadSummary) =>
+  !!summary.sessionExpiresAt && new Date(summary.sessionExpiresAt) > new Date();
+
+const InboxAdminPage = () => {
+  const [adminKey, setAdminKey] = useState('');
+  const [agent, setAgent] = useState('');
+  const [status, setStatus] = useState('HANDOFF');
+  const [threads, setThreads] = useState<InboxThreadSummary[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [thread, setThread] = useState<InboxThread | null>(null);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchThreads = React.useCallback(async () => {
+    if (!adminKey) return;
+
+    try {
+      const response = await fetch(`/api/admin/inbox?status=${status}`, {
+        headers: { 'x-admin-key': adminKey }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setThreads(data.data);
+        setError(null);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching inbox:', error);
+    }
+  }, [adminKey, status]);
+
+  const fetchThread = React.useCallback(async () => {
+    if (!adminKey || !selected) return;
+
+    try {
+      const response = await fetch(`/api/admin/inbox/${selected}`, {
+        headers: { 'x-admin-key': adminKey }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setThread(data.data);
+        setError(null);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching conversation:', error);
+    }
+  }, [adminKey, selected]);
+
+  useEffect(() => {
+    fetchThreads();
+  }, [fetchThreads]);
+
+  useEffect(() => {
+    fetchThread();
+  }, [fetchThread]);
+
+  const refresh = async () => {
+    await fetchThreads();
+    await fetchThread();
+  };
+
+  const sendReply = async () => {
+    if (!selected) return;
+
+    setSending(true);
+    try {
+      const response = await fetch(`/api/admin/inbox/${selected}/reply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-admin-key': adminKey },
+        body: JSON.stringify({ text: reply, agent })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setReply('');
+        await refresh();
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error sending reply:', error);
+      setError('Error sending reply');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const assign = async (assignedTo: string | null) => {
+    if (!selected) return;
+
+    const response = await fetch(`/api/admin/inbox/${selected}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', 'x-admin-key': adminKey },
+      body: JSON.stringify({ assignedTo })
+    });
+    const data = await response.json();
+
+    if (data.success) {
+      await refresh();
+    } else {
+      alert('Failed to assign conversation: ' + data.error);
+    }
+  };
+
+  const handBack = async () => {
+    if (!selected || !confirm('Hand this conversation back to the bot?')) return;
+
+    const response = await fetch(`/api/admin/inbox/${selected}/hand-back`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-admin-key': adminKey },
+      body: JSON.stringify({ agent })
+    });
+    const data = await response.json();
+
+    if (data.success) {
+      await refresh();
+    } else {
+      alert('Failed to hand back conversation: ' + data.error);
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold tracking-tight">WhatsApp Inbox</h1>
+        <p className="text-muted-foreground mt-2">
+          Answer customers who asked for a person. The bot stays quiet until you hand them back.
+        </p>
+      </div>
+
+      <div className="flex gap-4 mb-6">
+        <Input
+          type="password"
+          placeholder="Admin key"
+          value={adminKey}
+          onChange={(e) => setAdminKey(e.target.value)}
+        />
+        <Input
+          placeholder="Your name"
+          value={agent}
+          onChange={(e) => setAgent(e.target.value)}
+        />
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          className="px-3 py-2 border rounded-md"
+        >
+          <option value="HANDOFF">With an agent</option>
+          <option value="ALL">All conversations</option>
+        </select>
+        <Button variant="outline" onClick={refresh} disabled={!adminKey}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="mb-6">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <MessageSquare className="h-5 w-5 mr-2" />
+              Conversations
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {threads.map((summary) => (
+              <button
+                key={summary.phoneNumber}
+                onClick={() => setSelected(summary.phoneNumber)}
+                className={`w-full text-left p-3 border rounded-md ${
+                  selected === summary.phoneNumber ? 'bg-muted' : ''
+                }`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">{summary.name || summary.phoneNumber}</span>
+                  {summary.state === HUMAN_HANDOFF && (
+                    <Badge variant={summary.assignedTo ? 'secondary' : 'destructive'}>
+                      {summary.assignedTo || 'Unassigned'}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground truncate">
+                  {summary.lastMessage?.content || 'No messages'}
+                </p>
+                <p className="text-xs text-muted-foreground">{formatTime(summary.lastInteraction)}</p>
+              </button>
+            ))}
+
+            {threads.length === 0 && (
+              <div className="text-sm text-muted-foreground">
+                {adminKey ? 'No conversations to show.' : 'Enter the admin key to load the inbox.'}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>{thread ? thread.name || thread.phoneNumber : 'Select a conversation'}</CardTitle>
+            {thread && (
+              <>
+                <CardDescription>
+                  {thread.phoneNumber} ·{' '}
+                  {thread.state === HUMAN_HANDOFF
+                    ? `With ${thread.assignedTo || 'no one yet'} since ${formatTime(thread.handoffAt || thread.lastInteraction)}`
+                    : `With the bot (${thread.state})`}
+                </CardDescription>
+
+                <div className="flex gap-2 mt-4">
+                  <Button size="sm" variant="outline" onClick={() => assign(agent)} disabled={!agent}>
+                    <UserCheck className="h-4 w-4 mr-1" />
+                    Assign to me
+                  </Button>
+                  {thread.assignedTo && (
+                    <Button size="sm" variant="outline" onClick={() => assign(null)}>
+                      Unassign
+                    </Button>
+                  )}
+                  {thread.state === HUMAN_HANDOFF && (
+                    <Button size="sm" variant="outline" onClick={handBack} disabled={!agent}>
+                      <Bot className="h-4 w-4 mr-1" />
+                      Hand back to bot
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+          </CardHeader>
+          <CardContent>
+            {thread && (
+              <>
+                <div className="space-y-3 max-h-[32rem] overflow-y-auto mb-4">
+                  {thread.messages.map((message) => (
+                    <div
+                      key={message.id}
+                      className={`flex ${message.messageType === 'SENT' ? 'justify-end' : 'justify-start'}`}
+                    >
+                      <div
+                        className={`max-w-[75%] p-3 rounded-md text-sm whitespace-pre-wrap ${
+                          message.messageType === 'SENT' ? 'bg-muted' : 'border'
+                        }`}
+                      >
+                        <p>{message.content}</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {message.messageType === 'SENT' ? message.agent || 'Bot' : 'Customer'} ·{' '}
+                          {formatTime(message.timestamp)}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {isSessionOpen(thread) ? (
+                  <p className="text-xs text-muted-foreground mb-2">
+                    You can reply until {formatTime(thread.sessionExpiresAt!)}
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground mb-2">
+                    The customer hasn&apos;t written in the last 24 hours, so WhatsApp won&apos;t deliver a reply.
+                  </p>
+                )}
+
+                <div className="flex gap-2">
+                  <textarea
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    placeholder={agent ? 'Type a reply' : 'Enter your name to reply'}
+                    className="flex-1 px-3 py-2 border rounded-md text-sm"
+                    rows={3}
+                  />
+                  <Button onClick={sendReply} disabled={!agent || !reply.trim() || sending || !isSessionOpen(thread)}>
+                    <Send className="h-4 w-4 mr-2" />
+                    {sending ? 'Sending...' : 'Send'}
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default InboxAdminPage;
@@ -0,0 +1,251 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { CheckCheck, RefreshCw } from "lucide-react";
+
+interface CampaignDeliveryStats {
+  campaign: string;
+  total: number;
+  pending: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+}
+
+interface OutboundMessage {
+  id: string;
+  phoneNumber: string;
+  content: string;
+  campaign: string | null;
+  status: string | null;
+  statusAt: string | null;
+  error: string | null;
+  timestamp: string;
+}
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  READ: 'default',
+  DELIVERED: 'secondary',
+  FAILED: 'destructive'
+};
+
+const percent = (count: number, total: number) =>
+  total === 0 ? '-' : `${Math.round((count / total) * 100)}%`;
+
+const MessagesAdminPage = () => {
+  const [adminKey, setAdminKey] = useState('');
+  const [days, setDays] = useState('30');
+  const [stats, setStats] = useState<CampaignDeliveryStats[]>([]);
+  const [messages, setMessages] = useState<OutboundMessage[]>([]);
+  const [campaign, setCampaign] = useState('');
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = React.useCallback(async () => {
+    if (!adminKey) return;
+
+    try {
+      const response = await fetch(`/api/admin/messages/stats?days=${days}`, {
+        headers: { 'x-admin-key': adminKey }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setStats(data.data);
+        setError(null);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching delivery stats:', error);
+    }
+  }, [adminKey, days]);
+
+  const fetchMessages = React.useCallback(async () => {
+    if (!adminKey) return;
+
+    try {
+      const params = new URLSearchParams();
+      if (campaign) params.set('campaign', campaign);
+      if (status) params.set('status', status);
+
+      const response = await fetch(`/api/admin/messages?${params}`, {
+        headers: { 'x-admin-key': adminKey }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessages(data.data);
+        setError(null);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching sent messages:', error);
+    }
+  }, [adminKey, campaign, status]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold tracking-tight">WhatsApp Delivery</h1>
+        <p className="text-muted-foreground mt-2">
+          Whether the messages we send reach investors and get read
+        </p>
+      </div>
+
+      <div className="flex gap-4 mb-6">
+        <Input
+          type="password"
+          placeholder="Admin key"
+          value={adminKey}
+          onChange={(e) => setAdminKey(e.target.value)}
+        />
+        <select
+          value={days}
+          onChange={(e) => setDays(e.target.value)}
+          className="px-3 py-2 border rounded-md"
+        >
+          <option value="1">Last 24 hours</option>
+          <option value="7">Last 7 days</option>
+          <option value="30">Last 30 days</option>
+          <option value="0">All time</option>
+        </select>
+        <Button
+          variant="outline"
+          onClick={() => { fetchStats(); fetchMessages(); }}
+          disabled={!adminKey}
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="mb-6">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <CheckCheck className="h-5 w-5 mr-2" />
+            By Campaign
+          </CardTitle>
+          <CardDescription>
+            Delivered includes read. Pending messages were accepted by WhatsApp with no status since.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Campaign</TableHead>
+                <TableHead>Sent</TableHead>
+                <TableHead>Delivered</TableHead>
+                <TableHead>Read</TableHead>
+                <TableHead>Failed</TableHead>
+                <TableHead>Pending</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats.map((row) => (
+                <TableRow key={row.campaign} className="cursor-pointer" onClick={() => setCampaign(row.campaign)}>
+                  <TableCell className="font-medium">{row.campaign}</TableCell>
+                  <TableCell>{row.total}</TableCell>
+                  <TableCell>{row.delivered} ({percent(row.delivered, row.total)})</TableCell>
+                  <TableCell>{row.read} ({percent(row.read, row.total)})</TableCell>
+                  <TableCell>{row.failed} ({percent(row.failed, row.total)})</TableCell>
+                  <TableCell>{row.pending + row.sent}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {stats.length === 0 && (
+            <div className="text-sm text-muted-foreground mt-4">
+              {adminKey ? 'No messages sent in this period.' : 'Enter the admin key to load delivery stats.'}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Messages</CardTitle>
+          <CardDescription>The latest 100 messages matching the filters</CardDescription>
+
+          <div className="flex gap-4 mt-4">
+            <Input
+              placeholder="Campaign"
+              value={campaign}
+              onChange={(e) => setCampaign(e.target.value)}
+            />
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="px-3 py-2 border rounded-md"
+            >
+              <option value="">Any status</option>
+              <option value="ACCEPTED">Accepted</option>
+              <option value="SENT">Sent</option>
+              <option value="DELIVERED">Delivered</option>
+              <option value="READ">Read</option>
+              <option value="FAILED">Failed</option>
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sent</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>Campaign</TableHead>
+                <TableHead>Message</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {messages.map((message) => (
+                <TableRow key={message.id}>
+                  <TableCell>{new Date(message.timestamp).toLocaleString('en-IN')}</TableCell>
+                  <TableCell className="font-mono text-xs">{message.phoneNumber}</TableCell>
+                  <TableCell>{message.campaign || '-'}</TableCell>
+                  <TableCell className="max-w-md truncate">{message.content}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[message.status || ''] || 'outline'}>
+                      {message.status || 'Untracked'}
+                    </Badge>
+                    {message.error && (
+                      <p className="text-xs text-muted-foreground mt-1">{message.error}</p>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MessagesAdminPage;
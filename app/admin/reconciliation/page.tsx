@@ -0,0 +1,256 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Upload, RefreshCw, CheckCircle } from "lucide-react";
+
+interface ReconciliationException {
+  id: string;
+  type: string;
+  orderId: string | null;
+  cfPaymentId: string | null;
+  sipInvestmentId: string | null;
+  expectedAmount: number | null;
+  actualAmount: number | null;
+  details: string;
+  status: string;
+  resolutionNote: string | null;
+  createdAt: string;
+}
+
+interface RunSummary {
+  rowCount: number;
+  skippedCount: number;
+  matchedCount: number;
+  exceptionCount: number;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  MISSING_WEBHOOK: 'Missing webhook',
+  DOUBLE_CREDIT: 'Double credit',
+  AMOUNT_MISMATCH: 'Amount mismatch',
+  STATUS_MISMATCH: 'Status mismatch',
+  TOTAL_INVESTED_MISMATCH: 'Total invested mismatch'
+};
+
+const formatAmount = (amount: number | null) =>
+  amount === null ? '-' : `₹${amount.toLocaleString('en-IN')}`;
+
+const ReconciliationAdminPage = () => {
+  const [adminKey, setAdminKey] = useState('');
+  const [exceptions, setExceptions] = useState<ReconciliationException[]>([]);
+  const [status, setStatus] = useState('OPEN');
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [lastRun, setLastRun] = useState<RunSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchExceptions = React.useCallback(async () => {
+    if (!adminKey) return;
+
+    try {
+      const response = await fetch(`/api/admin/reconciliation/exceptions?status=${status}`, {
+        headers: { 'x-admin-key': adminKey }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setExceptions(data.data);
+        setError(null);
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching reconciliation exceptions:', error);
+    }
+  }, [adminKey, status]);
+
+  useEffect(() => {
+    fetchExceptions();
+  }, [fetchExceptions]);
+
+  const uploadReport = async () => {
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/admin/reconciliation', {
+        method: 'POST',
+        headers: { 'x-admin-key': adminKey },
+        body: formData
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setLastRun(data.data);
+        setError(null);
+        await fetchExceptions();
+      } else {
+        setError(data.error);
+      }
+    } catch (error) {
+      console.error('Error uploading settlement report:', error);
+      setError('Error uploading settlement report');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const resolveException = async (id: string) => {
+    const note = prompt('Resolution note (what was done?)');
+    if (note === null) return;
+
+    const response = await fetch(`/api/admin/reconciliation/exceptions/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', 'x-admin-key': adminKey },
+      body: JSON.stringify({ note })
+    });
+    const data = await response.json();
+
+    if (data.success) {
+      await fetchExceptions();
+    } else {
+      alert('Failed to resolve exception: ' + data.error);
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold tracking-tight">Payment Reconciliation</h1>
+        <p className="text-muted-foreground mt-2">
+          Match Cashfree settlement exports against recorded payments and SIP totals
+        </p>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Upload className="h-5 w-5 mr-2" />
+            Upload Settlement Report
+          </CardTitle>
+          <CardDescription>
+            CSV export from the Cashfree dashboard (settlement or transaction report)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              type="password"
+              placeholder="Admin key"
+              value={adminKey}
+              onChange={(e) => setAdminKey(e.target.value)}
+            />
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+            <Button onClick={uploadReport} disabled={!adminKey || !file || uploading}>
+              {uploading ? 'Reconciling...' : 'Reconcile'}
+            </Button>
+          </div>
+
+          {lastRun && (
+            <p className="text-sm text-muted-foreground mt-4">
+              {lastRun.rowCount} rows checked, {lastRun.matchedCount} matched,{' '}
+              {lastRun.exceptionCount} new exceptions ({lastRun.skippedCount} refund/adjustment lines skipped)
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert className="mb-6">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exceptions</CardTitle>
+          <CardDescription>
+            Payments and SIP totals that don&apos;t agree with Cashfree
+          </CardDescription>
+
+          <div className="flex gap-4 mt-4">
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="px-3 py-2 border rounded-md"
+            >
+              <option value="OPEN">Open</option>
+              <option value="RESOLVED">Resolved</option>
+              <option value="ALL">All</option>
+            </select>
+
+            <Button variant="outline" onClick={fetchExceptions} disabled={!adminKey}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead>Recorded</TableHead>
+                <TableHead>Raised</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {exceptions.map((exception) => (
+                <TableRow key={exception.id}>
+                  <TableCell>
+                    <Badge variant={exception.type === 'DOUBLE_CREDIT' ? 'destructive' : 'secondary'}>
+                      {TYPE_LABELS[exception.type] || exception.type}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {exception.cfPaymentId || exception.orderId || exception.sipInvestmentId}
+                  </TableCell>
+                  <TableCell className="max-w-md">{exception.details}</TableCell>
+                  <TableCell>{formatAmount(exception.expectedAmount)}</TableCell>
+                  <TableCell>{formatAmount(exception.actualAmount)}</TableCell>
+                  <TableCell>{new Date(exception.createdAt).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {exception.status === 'OPEN' ? (
+                      <Button size="sm" variant="outline" onClick={() => resolveException(exception.id)}>
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Resolve
+                      </Button>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{exception.resolutionNote || 'Resolved'}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {exceptions.length === 0 && (
+            <div className="text-sm text-muted-foreground mt-4">
+              {adminKey ? 'No exceptions to show.' : 'Enter the admin key to load exceptions.'}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ReconciliationAdminPage;
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { campaignService } from '@/lib/services/campaignService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Stop the campaign; recipients not reached yet are skipped
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+    const campaign = await campaignService.cancel(id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Campaign cancelled',
+      data: campaign
+    });
+
+  } catch (error) {
+    console.error('Campaign cancel error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
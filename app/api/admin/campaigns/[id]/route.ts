@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { campaignService } from '@/lib/services/campaignService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// A campaign's results: recipient outcomes and delivery
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+    const campaign = await campaignService.get(id);
+
+    return NextResponse.json({
+      success: true,
+      data: campaign
+    });
+
+  } catch (error) {
+    console.error('Get campaign error:', error);
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
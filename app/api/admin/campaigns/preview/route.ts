@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { campaignService } from '@/lib/services/campaignService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// How many users a segment reaches before creating a campaign for it
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { segment } = await request.json().catch(() => ({}));
+    const preview = await campaignService.preview(segment);
+
+    return NextResponse.json({
+      success: true,
+      data: preview
+    });
+
+  } catch (error) {
+    console.error('Campaign preview error:', error);
+
+    if (error instanceof Error && error.message.includes('Invalid')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
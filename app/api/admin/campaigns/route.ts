@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { campaignService } from '@/lib/services/campaignService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Broadcast campaigns with their recipient counts
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const campaigns = await campaignService.list();
+
+    return NextResponse.json({
+      success: true,
+      data: campaigns
+    });
+
+  } catch (error) {
+    console.error('List campaigns error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a draft campaign: { name, templateName, parameters, segment, createdBy }
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const campaign = await campaignService.create(body);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Campaign created',
+      data: campaign
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create campaign error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      if (error.message.includes('already exists')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
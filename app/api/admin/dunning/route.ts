@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dunningService } from '@/lib/services/dunningService';
+import { sipManagementService } from '@/lib/services/sipManagementService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Dunning history for a SIP
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const sipInvestmentId = request.nextUrl.searchParams.get('sipInvestmentId');
+    if (!sipInvestmentId) {
+      return NextResponse.json(
+        { error: 'sipInvestmentId is required' },
+        { status: 400 }
+      );
+    }
+
+    const events = await dunningService.getHistory(sipInvestmentId);
+
+    return NextResponse.json({
+      success: true,
+      data: events
+    });
+
+  } catch (error) {
+    console.error('Get dunning history error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Daily run: pause SIPs whose grace period has expired and resume those whose pause has ended
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { paused } = await dunningService.processDue();
+    const { resumed } = await sipManagementService.resumeDue();
+
+    return NextResponse.json({
+      success: true,
+      data: { paused, resumed }
+    });
+
+  } catch (error) {
+    console.error('Dunning run error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { inboxService } from '@/lib/services/inboxService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Return the conversation to the bot, which picks up at the main menu
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ phoneNumber: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { phoneNumber } = await context.params;
+    const { agent } = await request.json().catch(() => ({}));
+
+    const thread = await inboxService.handBack(phoneNumber, agent);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Conversation handed back to the bot',
+      data: thread
+    });
+
+  } catch (error) {
+    console.error('Inbox hand back error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { inboxService } from '@/lib/services/inboxService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Agent reply on WhatsApp; the bot stays quiet for this customer until handed back
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ phoneNumber: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { phoneNumber } = await context.params;
+    const { text, agent } = await request.json();
+
+    const message = await inboxService.reply(phoneNumber, text, agent);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Reply sent',
+      data: message
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Inbox reply error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
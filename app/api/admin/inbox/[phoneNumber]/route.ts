@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { inboxService } from '@/lib/services/inboxService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// A customer's message history with the bot and agents
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ phoneNumber: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { phoneNumber } = await context.params;
+    const thread = await inboxService.getThread(phoneNumber);
+
+    return NextResponse.json({
+      success: true,
+      data: thread
+    });
+
+  } catch (error) {
+    console.error('Get inbox thread error:', error);
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Assign the conversation to an agent, or unassign it with null
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ phoneNumber: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { phoneNumber } = await context.params;
+    const body = await request.json().catch(() => ({}));
+
+    const thread = await inboxService.assign(phoneNumber, body.assignedTo ?? null);
+
+    return NextResponse.json({
+      success: true,
+      message: thread.assignedTo ? `Assigned to ${thread.assignedTo}` : 'Conversation unassigned',
+      data: thread
+    });
+
+  } catch (error) {
+    console.error('Assign inbox thread error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
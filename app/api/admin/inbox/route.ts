@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { inboxService, type InboxFilter } from '@/lib/services/inboxService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// WhatsApp conversations for the shared inbox, those handed to a person by default
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const status = params.get('status') || 'HANDOFF';
+
+    const threads = await inboxService.listThreads(
+      status as InboxFilter,
+      params.get('assignedTo') || undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: threads
+    });
+
+  } catch (error) {
+    console.error('List inbox threads error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { whatsappNotificationService } from '@/lib/services/whatsappNotificationService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Morning run: send notifications held over quiet hours (9 PM - 9 AM IST)
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await whatsappNotificationService.sendQueued();
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Queued notifications run error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { messageDeliveryService, type DeliveryStatus } from '@/lib/services/messageDeliveryService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// WhatsApp messages we sent and how far each got, newest first
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+
+    const messages = await messageDeliveryService.listMessages({
+      campaign: params.get('campaign') || undefined,
+      status: (params.get('status') || undefined) as DeliveryStatus | undefined,
+      phoneNumber: params.get('phoneNumber') || undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: messages
+    });
+
+  } catch (error) {
+    console.error('List sent messages error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
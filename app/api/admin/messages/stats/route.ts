@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { messageDeliveryService } from '@/lib/services/messageDeliveryService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Delivery and read counts per campaign, over the last 30 days by default
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const days = parseInt(request.nextUrl.searchParams.get('days') || '30', 10);
+    const since = days > 0 ? new Date(Date.now() - days * DAY_MS) : undefined;
+
+    const stats = await messageDeliveryService.getCampaignStats(since);
+
+    return NextResponse.json({
+      success: true,
+      data: stats
+    });
+
+  } catch (error) {
+    console.error('Message delivery stats error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { invoiceService } from '@/lib/services/invoiceService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Issue (or fetch the existing) invoice for a payment and send it to the customer again
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+
+    const invoice = await invoiceService.issueForPayment(id);
+    const channel = await invoiceService.send(invoice);
+
+    return NextResponse.json({
+      success: true,
+      message: channel === 'UNSENT'
+        ? `Invoice ${invoice.invoiceNumber} could not be sent on WhatsApp`
+        : channel === 'QUEUED'
+          ? `Invoice ${invoice.invoiceNumber} will be sent when quiet hours end`
+          : `Invoice ${invoice.invoiceNumber} sent`,
+      data: {
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        channel,
+        downloadUrl: invoiceService.getDownloadUrl(invoice, 'pdf')
+      }
+    });
+
+  } catch (error) {
+    console.error('Send invoice error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refundService } from '@/lib/services/refundService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Admin-initiated refund; the SIP credit is reversed when Cashfree confirms via webhook
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+    const { amount, reason } = await request.json();
+
+    if (!reason) {
+      return NextResponse.json(
+        { error: 'Refund reason is required' },
+        { status: 400 }
+      );
+    }
+
+    const refund = await refundService.initiate(
+      id,
+      amount !== undefined ? parseFloat(amount) : undefined,
+      reason
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Refund initiated',
+      data: refund
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Initiate refund error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { planService } from '@/lib/services/planService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Change a plan by publishing its next version
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ key: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { key } = await context.params;
+    const body = await request.json();
+
+    const plan = await planService.update(key, {
+      planName: body.planName,
+      intervalType: body.intervalType,
+      intervals: body.intervals !== undefined ? parseInt(body.intervals) : undefined,
+      maxCycles: body.maxCycles !== undefined ? parseInt(body.maxCycles) : undefined,
+      amount: body.amount !== undefined ? parseFloat(body.amount) : undefined,
+      description: body.description,
+      gateway: body.gateway
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Plan version ${plan.version} created, run sync to register it with its gateway`,
+      data: plan
+    });
+
+  } catch (error) {
+    console.error('Update plan error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Withdraw a plan from sale
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ key: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { key } = await context.params;
+    await planService.retire(key);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Plan retired'
+    });
+
+  } catch (error) {
+    console.error('Retire plan error:', error);
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
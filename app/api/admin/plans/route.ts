@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { planService } from '@/lib/services/planService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// List the plan catalogue, including retired versions on request
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const includeRetired = request.nextUrl.searchParams.get('includeRetired') === 'true';
+    const plans = await planService.list(includeRetired);
+
+    return NextResponse.json({
+      success: true,
+      data: plans
+    });
+
+  } catch (error) {
+    console.error('List plans error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a plan; it is offered once synced to Cashfree
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    const plan = await planService.create({
+      key: body.key,
+      planName: body.planName,
+      intervalType: body.intervalType,
+      intervals: body.intervals !== undefined ? parseInt(body.intervals) : undefined,
+      maxCycles: parseInt(body.maxCycles),
+      amount: parseFloat(body.amount),
+      description: body.description,
+      gateway: body.gateway
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Plan created, run sync to register it with its gateway',
+      data: plan
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create plan error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      if (error.message.includes('already exists')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { planService } from '@/lib/services/planService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Register pending plan versions with their gateways
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await planService.sync();
+
+    return NextResponse.json({
+      success: result.failed.length === 0,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Plan sync error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reconciliationService } from '@/lib/services/reconciliationService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Mark an exception resolved, with a note on what was done
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({}));
+
+    const exception = await reconciliationService.resolve(id, body.note);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Exception resolved',
+      data: exception
+    });
+
+  } catch (error) {
+    console.error('Resolve reconciliation exception error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
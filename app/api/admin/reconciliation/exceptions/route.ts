@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  reconciliationService,
+  type ReconciliationExceptionStatus,
+  type ReconciliationExceptionType
+} from '@/lib/services/reconciliationService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Reconciliation exceptions, open ones by default
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const status = params.get('status') || 'OPEN';
+
+    const exceptions = await reconciliationService.listExceptions({
+      status: status === 'ALL' ? undefined : status as ReconciliationExceptionStatus,
+      type: (params.get('type') || undefined) as ReconciliationExceptionType | undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: exceptions
+    });
+
+  } catch (error) {
+    console.error('List reconciliation exceptions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reconciliationService } from '@/lib/services/reconciliationService';
+import { isAdminRequest } from '@/lib/middleware/auth';
+
+// Recent reconciliation runs
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const runs = await reconciliationService.listRuns();
+
+    return NextResponse.json({
+      success: true,
+      data: runs
+    });
+
+  } catch (error) {
+    console.error('List reconciliation runs error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Reconcile an uploaded Cashfree settlement/transaction CSV export
+// Accepts a multipart upload (field "file") or the raw CSV as the request body
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    let csv: string;
+    let source = request.nextUrl.searchParams.get('source') || undefined;
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const file = (await request.formData()).get('file');
+      if (!file || typeof file === 'string') {
+        return NextResponse.json(
+          { error: 'CSV file is required' },
+          { status: 400 }
+        );
+      }
+      csv = await file.text();
+      source = source || file.name;
+    } else {
+      csv = await request.text();
+    }
+
+    const summary = await reconciliationService.run(csv, source);
+
+    return NextResponse.json({
+      success: true,
+      message: `Reconciled ${summary.rowCount} rows: ${summary.matchedCount} matched, ${summary.exceptionCount} new exceptions`,
+      data: summary
+    });
+
+  } catch (error) {
+    console.error('Reconciliation run error:', error);
+
+    if (error instanceof Error && error.message.includes('Invalid')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
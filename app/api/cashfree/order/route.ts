@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { lumpsumService } from '@/lib/services/lumpsumService';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { CashfreeError } from '@/lib/cashfree-client';
+
+// Create a one-time Cashfree order for a lumpsum package, for the signed-in customer
+export async function POST(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { packageKey, customerDetails, landOptionId } = body;
+
+    const customerName = customerDetails?.name || user.name;
+    const customerEmail = customerDetails?.email || user.email;
+
+    if (!customerName || !customerEmail) {
+      return NextResponse.json(
+        { error: 'Customer name and email are required' },
+        { status: 400 }
+      );
+    }
+
+    const checkout = await lumpsumService.createOrder({
+      packageKey: packageKey || 'lumpsum3L',
+      // The OTP-verified number, so the purchase lands on the customer's own bot profile
+      phoneNumber: user.phoneNumber,
+      customerName,
+      customerEmail,
+      landOptionId
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Order created successfully',
+      data: checkout
+    });
+
+  } catch (error) {
+    console.error('Cashfree order creation error:', error);
+
+    // Checked first: Cashfree's own error text can contain 'not found' or 'Invalid'
+    if (error instanceof CashfreeError) {
+      return NextResponse.json(
+        { error: error.retryable ? 'Payment gateway unavailable, please try again' : 'Payment gateway rejected the order' },
+        { status: error.retryable ? 503 : 502 }
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      if (error.message.includes('not available')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create order', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Order status for the /payment/success return page
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const orderId = searchParams.get('orderId');
+
+    if (!orderId) {
+      return NextResponse.json({ error: 'Order ID required' }, { status: 400 });
+    }
+
+    const order = await lumpsumService.getStatus(orderId);
+
+    return NextResponse.json({
+      success: true,
+      data: order
+    });
+
+  } catch (error) {
+    console.error('Cashfree order fetch error:', error);
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch order', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
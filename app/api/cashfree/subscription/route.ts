@@ -1,29 +1,36 @@
 import { NextResponse } from 'next/server';
-import { CashfreeService } from '@/lib/cashfree';
+import { createPaymentGatewaysFromEnv } from '@/lib/payment-gateway';
+import { planService } from '@/lib/services/planService';
+import { LUMPSUM_PACKAGES } from '@/lib/services/lumpsumService';
 
-const cashfreeService = new CashfreeService({
-  clientId: process.env.CASHFREE_CLIENT_ID!,
-  clientSecret: process.env.CASHFREE_CLIENT_SECRET!,
-  environment: process.env.NODE_ENV === 'production' ? 'PROD' : 'TEST'
-});
+// Subscriptions are created on the plan's gateway; lookups name it with ?gateway=, defaulting to Cashfree
+const gateways = createPaymentGatewaysFromEnv();
 
 export async function POST(request: Request) {
   try {
     const body = await request.json();
     const { planType, subscriptionTier, customerDetails, landingPageData } = body;
 
-    const plans = cashfreeService.generateDarjberryPlans();
-    const selectedPlan = plans[planType as keyof typeof plans];
+    if (planType && LUMPSUM_PACKAGES[planType]) {
+      return NextResponse.json(
+        { error: 'Lumpsum packages are one-time orders; use /api/cashfree/order' },
+        { status: 400 }
+      );
+    }
+
+    const selectedPlan = planType ? await planService.getActivePlan(planType) : null;
 
     if (!selectedPlan) {
       return NextResponse.json({ error: 'Invalid plan type' }, { status: 400 });
     }
 
     const subscriptionId = `DARJ_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const gateway = gateways.get(selectedPlan.gateway);
 
     const subscriptionRequest = {
       subscriptionId,
-      planId: selectedPlan.planId,
+      planId: selectedPlan.gatewayPlanId || selectedPlan.planId,
+      maxCycles: selectedPlan.maxCycles,
       customerDetails: {
         customerId: `CUST_${customerDetails.phone}`,
         customerName: customerDetails.name,
@@ -39,7 +46,7 @@ export async function POST(request: Request) {
         expectedPlots: Math.floor(selectedPlan.amount / 50000),
         coreOffer: 'Grow berries on your land or in the Himalayas, earn passive tax-free income'
       },
-      returnUrl: `${process.env.NEXT_PUBLIC_BASE_URL}/payment/success`,
+      returnUrl: `${process.env.NEXT_PUBLIC_BASE_URL}/payment/success?subscription_id=${subscriptionId}&gateway=${gateway.name}`,
       subscriptionTags: {
         product: 'blueberry_farming',
         location: landingPageData?.location || 'unknown',
@@ -47,10 +54,11 @@ export async function POST(request: Request) {
       }
     };
 
-    const subscription = await cashfreeService.createSubscription(subscriptionRequest);
+    const subscription = await gateway.createSubscription(subscriptionRequest);
 
     return NextResponse.json({
       success: true,
+      gateway: gateway.name,
       subscription,
       planDetails: selectedPlan,
       message: 'Subscription created successfully'
@@ -74,7 +82,7 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'Subscription ID required' }, { status: 400 });
     }
 
-    const subscription = await cashfreeService.getSubscription(subscriptionId);
+    const subscription = await gateways.get(searchParams.get('gateway')).getSubscription(subscriptionId);
 
     return NextResponse.json({
       success: true,
@@ -93,13 +101,13 @@ export async function GET(request: Request) {
 export async function PATCH(request: Request) {
   try {
     const body = await request.json();
-    const { subscriptionId, updateData } = body;
+    const { subscriptionId, updateData, gateway } = body;
 
     if (!subscriptionId) {
       return NextResponse.json({ error: 'Subscription ID required' }, { status: 400 });
     }
 
-    const updatedSubscription = await cashfreeService.updateSubscription(subscriptionId, updateData);
+    const updatedSubscription = await gateways.get(gateway).updateSubscription(subscriptionId, updateData);
 
     return NextResponse.json({
       success: true,
@@ -125,7 +133,7 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ error: 'Subscription ID required' }, { status: 400 });
     }
 
-    const cancelledSubscription = await cashfreeService.cancelSubscription(subscriptionId);
+    const cancelledSubscription = await gateways.get(searchParams.get('gateway')).cancelSubscription(subscriptionId);
 
     return NextResponse.json({
       success: true,
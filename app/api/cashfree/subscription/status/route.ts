@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { sipManagementService } from '@/lib/services/sipManagementService';
+
+// Mandate status for the payment return page; ?gateway= names the gateway for web subscriptions
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const subscriptionId = searchParams.get('subscriptionId');
+
+    if (!subscriptionId) {
+      return NextResponse.json({ error: 'Subscription ID required' }, { status: 400 });
+    }
+
+    const status = await sipManagementService.getMandateStatus(subscriptionId, searchParams.get('gateway'));
+
+    return NextResponse.json({
+      success: true,
+      data: status
+    });
+
+  } catch (error) {
+    console.error('Subscription status error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch subscription status', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
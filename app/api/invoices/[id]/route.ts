@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { invoiceService } from '@/lib/services/invoiceService';
+
+// Public invoice download; the link carries a per-invoice token so WhatsApp can fetch it
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const token = request.nextUrl.searchParams.get('token') || '';
+    const format = request.nextUrl.searchParams.get('format') || 'pdf';
+
+    const invoice = await invoiceService.getForDownload(id, token);
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    if (format === 'html') {
+      return new NextResponse(invoice.html, {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' }
+      });
+    }
+
+    const filename = `Darjberry-Invoice-${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`;
+
+    return new NextResponse(invoiceService.renderPdf(invoice), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${filename}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Invoice download error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paymentService } from '@/lib/services/paymentService';
+import { authenticateRequest, isAdminRequest } from '@/lib/middleware/auth';
+
+// Payment history: customers see their own payments, admins can query everyone's
+export async function GET(request: NextRequest) {
+  try {
+    const isAdmin = isAdminRequest(request);
+    const user = isAdmin ? null : await authenticateRequest(request);
+
+    if (!isAdmin && !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Pagination parameters
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
+
+    // Filter parameters
+    const status = searchParams.get('status') || undefined;
+    const sipInvestmentId = searchParams.get('sipInvestmentId') || undefined;
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : undefined;
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : undefined;
+
+    // Customers are always scoped to their own phone number
+    const phoneNumber = isAdmin
+      ? searchParams.get('phoneNumber') || undefined
+      : user!.phoneNumber;
+
+    const result = await paymentService.getHistory(page, limit, {
+      phoneNumber,
+      status,
+      sipInvestmentId,
+      from,
+      to
+    });
+
+    // The raw gateway webhook is for reconciliation, not for customers
+    const payments = isAdmin
+      ? result.payments
+      : result.payments.map(({ rawPayload, ...payment }) => payment);
+
+    return NextResponse.json({
+      success: true,
+      data: payments,
+      summary: {
+        totalAmount: result.totalAmount
+      },
+      pagination: {
+        page,
+        limit,
+        total: result.total,
+        totalPages: result.totalPages
+      }
+    });
+
+  } catch (error) {
+    console.error('Get payments error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { translateRazorpayEvent } from '@/lib/razorpay';
+import { handlePaymentEvent } from '@/lib/payment-webhook-handlers';
+import { webhookEventStore, getRazorpayEventKey } from '@/lib/services/webhookEventStore';
+import { getWebhookSecrets, verifyHmacSignature } from '@/lib/webhook-signature';
+
+// Razorpay webhook handler for plans marked gateway RAZORPAY
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.text();
+    const signature = request.headers.get('x-razorpay-signature');
+
+    if (!verifyWebhookSignature(body, signature)) {
+      console.error('Invalid Razorpay webhook signature');
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 403 });
+    }
+
+    const webhookData = JSON.parse(body);
+    console.log('Razorpay webhook received:', webhookData.event);
+
+    const event = translateRazorpayEvent(webhookData);
+    if (!event) {
+      console.log('Unhandled Razorpay webhook event:', webhookData.event);
+      return NextResponse.json({ status: 'ignored' });
+    }
+
+    const eventKey = getRazorpayEventKey(webhookData, body, request.headers.get('x-razorpay-event-id'));
+    const isNewEvent = await webhookEventStore.claim('RAZORPAY', eventKey, webhookData.event);
+
+    if (!isNewEvent) {
+      console.log('Duplicate Razorpay webhook ignored:', eventKey);
+      return NextResponse.json({ status: 'duplicate' });
+    }
+
+    try {
+      await handlePaymentEvent('RAZORPAY', event.type, event.data);
+    } catch (error) {
+      // Let the next retry from Razorpay process this event again
+      await webhookEventStore.release('RAZORPAY', eventKey);
+      throw error;
+    }
+
+    return NextResponse.json({ status: 'success' });
+  } catch (error) {
+    console.error('Razorpay webhook error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Razorpay signs the raw body with the webhook secret; there is no timestamp to check
+function verifyWebhookSignature(body: string, signature: string | null): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  const webhookSecrets = getWebhookSecrets(
+    process.env.RAZORPAY_WEBHOOK_SECRET,
+    process.env.RAZORPAY_WEBHOOK_SECRET_PREVIOUS
+  );
+  if (webhookSecrets.length === 0) {
+    console.error('RAZORPAY_WEBHOOK_SECRET not configured');
+    return false;
+  }
+
+  return verifyHmacSignature(body, signature, webhookSecrets);
+}
+
+// GET endpoint for webhook verification
+export async function GET() {
+  return NextResponse.json({
+    message: 'Razorpay webhook endpoint',
+    status: 'active',
+    timestamp: new Date().toISOString()
+  });
+}
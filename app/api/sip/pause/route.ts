@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sipManagementService } from '@/lib/services/sipManagementService';
+import { authenticateRequest } from '@/lib/middleware/auth';
+
+// Pause the SIP for a number of days
+export async function POST(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { days } = await request.json();
+    const sip = await sipManagementService.pause(user.phoneNumber, parseInt(days));
+
+    return NextResponse.json({
+      success: true,
+      message: `SIP paused until ${sip.pausedUntil?.toDateString()}`,
+      data: sip
+    });
+
+  } catch (error) {
+    console.error('Pause SIP error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
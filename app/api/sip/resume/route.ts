@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sipManagementService } from '@/lib/services/sipManagementService';
+import { authenticateRequest } from '@/lib/middleware/auth';
+
+// Resume a paused SIP
+export async function POST(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const sip = await sipManagementService.resume(user.phoneNumber);
+
+    return NextResponse.json({
+      success: true,
+      message: 'SIP resumed',
+      data: sip
+    });
+
+  } catch (error) {
+    console.error('Resume SIP error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
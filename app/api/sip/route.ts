@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sipManagementService } from '@/lib/services/sipManagementService';
+import { authenticateRequest } from '@/lib/middleware/auth';
+
+// Current SIP of the signed-in customer
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const sip = await sipManagementService.getCurrent(user.phoneNumber);
+    if (!sip) {
+      return NextResponse.json(
+        { error: 'SIP not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: sip
+    });
+
+  } catch (error) {
+    console.error('Get SIP error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Change the daily amount
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { dailyAmount } = await request.json();
+    const sip = await sipManagementService.changeAmount(user.phoneNumber, parseFloat(dailyAmount));
+
+    return NextResponse.json({
+      success: true,
+      message: 'Daily amount updated',
+      data: sip
+    });
+
+  } catch (error) {
+    console.error('Change SIP amount error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel the SIP
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const sip = await sipManagementService.cancel(user.phoneNumber);
+
+    return NextResponse.json({
+      success: true,
+      message: 'SIP cancelled',
+      data: sip
+    });
+
+  } catch (error) {
+    console.error('Cancel SIP error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Invalid')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -60,19 +60,15 @@ export async function POST(request: Request) {
     // Step 3: Test Cashfree Integration (if API keys available)
     try {
       if (process.env.CASHFREE_CLIENT_ID && process.env.CASHFREE_CLIENT_SECRET) {
-        const cashfreeResponse = await fetch(`${baseUrl}/api/cashfree/subscription`, {
+        const cashfreeResponse = await fetch(`${baseUrl}/api/cashfree/order`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            planType: 'lumpsum3L',
+            packageKey: 'lumpsum3L',
             customerDetails: {
               name: 'Test User',
               email: 'test@darjberry.com',
               phone: '+919876543210'
-            },
-            landingPageData: {
-              source: 'test',
-              location: 'Darjeeling, West Bengal'
             }
           })
         });
@@ -84,8 +80,8 @@ export async function POST(request: Request) {
             name: 'Cashfree Integration',
             status: 'success',
             data: {
-              subscriptionCreated: cashfreeData.success,
-              planType: cashfreeData.planDetails?.planName
+              orderCreated: cashfreeData.success,
+              orderId: cashfreeData.data?.orderId
             }
           });
         } else {
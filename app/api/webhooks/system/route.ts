@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { template } from '@/lib/whatsapp-templates';
 
 // System webhook for internal monitoring and health checks
 export async function POST(request: NextRequest) {
@@ -131,16 +132,18 @@ async function handleUserMilestone(data: any) {
   // Send congratulatory WhatsApp message if applicable
   if (phoneNumber && milestone === 'FIRST_PAYMENT') {
     try {
-      const { WhatsAppService } = await import('@/lib/whatsapp');
-      await WhatsAppService.sendMessage(
-        phoneNumber,
-        `🎉 Congratulations! You've reached a berry milestone!
+      const { whatsappNotificationService } = await import('@/lib/services/whatsappNotificationService');
+      await whatsappNotificationService.send(phoneNumber, {
+        text: `🎉 Congratulations! You've reached a berry milestone!
 
 🌟 Achievement: ${achievement}
 💫 Your journey to berry success continues!
 
-Keep growing! 🫐`
-      );
+Keep growing! 🫐`,
+        template: template('milestone_reached', achievement),
+        // Congratulations, not account news: customers who replied STOP skip it
+        category: 'MARKETING'
+      }, 'milestone');
     } catch (error) {
       console.error('Milestone WhatsApp notification error:', error);
     }
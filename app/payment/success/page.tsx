@@ -0,0 +1,467 @@
+'use client';
+
+import { useEffect, useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { DARJBERRY_CONSTANTS } from '@/lib/shared-constants';
+
+interface OrderStatus {
+  orderId: string;
+  status: 'PENDING' | 'PROCESSING' | 'PAID' | 'FAILED' | 'EXPIRED' | 'REFUND_DUE';
+  packageName: string;
+  amount: number;
+  plants: number;
+  acres: number;
+  landName: string | null;
+  plotNumbers: string[];
+  paidAt: string | null;
+}
+
+interface MandateStatus {
+  subscriptionId: string;
+  status: 'PENDING' | 'ACTIVE' | 'PAUSED' | 'FAILED' | 'CANCELLED';
+  dailyAmount: number | null;
+  firstDebitDate: string | null;
+  plantsFirstDebit: number | null;
+  plantsPerMonth: number | null;
+  totalInvested: number;
+  paymentLink: string | null;
+  failureReason: string | null;
+}
+
+// Cashfree redirects before the webhook has always landed, so keep checking for a while
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLLS = 20;
+
+const whatsappMessageLink = (text: string) =>
+  `https://wa.me/${DARJBERRY_CONSTANTS.WHATSAPP_NUMBER}?text=${encodeURIComponent(text)}`;
+
+const whatsappLink = whatsappMessageLink('STATS');
+
+function OrderStatusContent({ orderId }: { orderId: string }) {
+  const [order, setOrder] = useState<OrderStatus | null>(null);
+  const [error, setError] = useState('');
+  const [polls, setPolls] = useState(0);
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        const response = await fetch(`/api/cashfree/order?orderId=${encodeURIComponent(orderId)}`);
+        const data = await response.json();
+
+        if (data.success) {
+          setOrder(data.data);
+        } else {
+          setError(data.error || 'Could not find your order');
+        }
+      } catch (err) {
+        console.error('Order status error:', err);
+        setError('Could not check your payment status');
+      }
+    };
+
+    fetchStatus();
+  }, [orderId, polls]);
+
+  useEffect(() => {
+    if (!order || (order.status !== 'PENDING' && order.status !== 'PROCESSING') || polls >= MAX_POLLS) return;
+
+    const timer = setTimeout(() => setPolls(count => count + 1), POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [order, polls]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-red-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Something went wrong</h2>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <a
+            href={whatsappMessageLink(`HELP with order ${orderId}`)}
+            className="inline-block bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors"
+          >
+            Contact us on WhatsApp
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order || order.status === 'PENDING' || order.status === 'PROCESSING') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full text-center">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-green-600 mx-auto mb-6"></div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Confirming your payment...</h2>
+          <p className="text-gray-600">
+            {polls >= MAX_POLLS
+              ? 'This is taking longer than usual. We\'ll message you on WhatsApp once your payment is confirmed.'
+              : 'Please wait while we allocate your plants.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (order.status === 'REFUND_DUE') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-yellow-50 to-orange-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            This land has just sold out
+          </h2>
+          <p className="text-gray-600 mb-6">
+            We received your ₹{order.amount.toLocaleString('en-IN')} payment for {order.packageName}, but the land
+            sold out just before it arrived. Your full payment is being refunded within 5-7 working days.
+          </p>
+          <a
+            href={whatsappMessageLink(`HELP with order ${order.orderId}`)}
+            className="inline-block bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors"
+          >
+            Pick another plot on WhatsApp
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  if (order.status === 'FAILED' || order.status === 'EXPIRED') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-red-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            {order.status === 'EXPIRED' ? 'Your order has expired' : 'Payment not completed'}
+          </h2>
+          <p className="text-gray-600 mb-6">
+            Your ₹{order.amount.toLocaleString('en-IN')} payment for {order.packageName} didn&apos;t go through.
+            If any amount was debited, your bank will reverse it.
+          </p>
+          <a
+            href={whatsappMessageLink(`HELP with order ${order.orderId}`)}
+            className="inline-block bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors"
+          >
+            Get help on WhatsApp
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full text-center">
+        <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-8">
+          <svg className="w-10 h-10 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        </div>
+
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">
+          🎉 Payment received!
+        </h1>
+
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6 text-left">
+          <h3 className="font-semibold text-gray-900 mb-3">{order.packageName}</h3>
+          <div className="space-y-2 text-sm">
+            <div>
+              <span className="font-medium text-gray-700">Amount:</span>
+              <span className="ml-2 text-gray-900">₹{order.amount.toLocaleString('en-IN')}</span>
+            </div>
+            <div>
+              <span className="font-medium text-gray-700">Plants allocated:</span>
+              <span className="ml-2 text-gray-900">🌱 {order.plants}</span>
+            </div>
+            {order.landName && (
+              <div>
+                <span className="font-medium text-gray-700">Land:</span>
+                <span className="ml-2 text-gray-900">{order.landName} ({order.acres.toFixed(2)} acres)</span>
+              </div>
+            )}
+            {order.plotNumbers.length > 0 && (
+              <div>
+                <span className="font-medium text-gray-700">Plot:</span>
+                <span className="ml-2 text-gray-900">{order.plotNumbers.join(', ')}</span>
+              </div>
+            )}
+            <div>
+              <span className="font-medium text-gray-700">Order ID:</span>
+              <span className="ml-2 text-gray-900">{order.orderId}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-blue-50 rounded-lg p-4 mb-6">
+          <h4 className="font-semibold text-blue-900 mb-2">What&apos;s Next?</h4>
+          <ul className="text-sm text-blue-800 text-left space-y-1">
+            <li>🧾 Your receipt is on its way to WhatsApp</li>
+            <li>🌱 Your plants go into the ground on your allocated plot</li>
+            <li>📊 Reply STATS on WhatsApp to track your portfolio</li>
+          </ul>
+        </div>
+
+        <a
+          href={whatsappLink}
+          className="block w-full bg-green-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-green-700 transition-colors"
+        >
+          Open WhatsApp
+        </a>
+      </div>
+    </div>
+  );
+}
+
+function MandateStatusContent({ subscriptionId, gateway }: { subscriptionId: string; gateway: string | null }) {
+  const [mandate, setMandate] = useState<MandateStatus | null>(null);
+  const [error, setError] = useState('');
+  const [polls, setPolls] = useState(0);
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        const query = new URLSearchParams({ subscriptionId });
+        if (gateway) query.set('gateway', gateway);
+
+        const response = await fetch(`/api/cashfree/subscription/status?${query}`);
+        const data = await response.json();
+
+        if (data.success) {
+          setMandate(data.data);
+        } else {
+          setError(data.error || 'Could not find your SIP');
+        }
+      } catch (err) {
+        console.error('Subscription status error:', err);
+        setError('Could not check your mandate status');
+      }
+    };
+
+    fetchStatus();
+  }, [subscriptionId, gateway, polls]);
+
+  // The bank can take a moment to confirm the mandate after the redirect
+  useEffect(() => {
+    if (!mandate || mandate.status !== 'PENDING' || polls >= MAX_POLLS) return;
+
+    const timer = setTimeout(() => setPolls(count => count + 1), POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [mandate, polls]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-red-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Something went wrong</h2>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <a
+            href={whatsappMessageLink(`HELP with SIP ${subscriptionId}`)}
+            className="inline-block bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors"
+          >
+            Contact us on WhatsApp
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  if (!mandate || (mandate.status === 'PENDING' && polls < MAX_POLLS)) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full text-center">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-green-600 mx-auto mb-6"></div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Confirming your SIP mandate...</h2>
+          <p className="text-gray-600">Please wait while your bank approves the autopay.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (mandate.status === 'PENDING') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Waiting for your bank</h2>
+          <p className="text-gray-600 mb-6">
+            This is taking longer than usual. We&apos;ll message you on WhatsApp as soon as your mandate is approved.
+          </p>
+          {mandate.paymentLink && (
+            <a
+              href={mandate.paymentLink}
+              className="block w-full bg-white border border-green-600 text-green-700 py-3 px-4 rounded-lg font-medium hover:bg-green-50 transition-colors mb-3"
+            >
+              Didn&apos;t finish? Authorise again
+            </a>
+          )}
+          <a
+            href={whatsappLink}
+            className="block w-full bg-green-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-green-700 transition-colors"
+          >
+            Open WhatsApp
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  if (mandate.status === 'FAILED') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-red-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">SIP mandate not approved</h2>
+          <p className="text-gray-600 mb-6">
+            {mandate.failureReason || 'Your bank did not approve the autopay'}. No money has been debited.
+          </p>
+          {mandate.paymentLink ? (
+            <a
+              href={mandate.paymentLink}
+              className="block w-full bg-green-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-green-700 transition-colors mb-3"
+            >
+              Try again
+            </a>
+          ) : (
+            <a
+              href={whatsappMessageLink('RETRY')}
+              className="block w-full bg-green-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-green-700 transition-colors mb-3"
+            >
+              Get a new link on WhatsApp
+            </a>
+          )}
+          <a
+            href={whatsappMessageLink(`HELP with SIP ${mandate.subscriptionId}`)}
+            className="inline-block text-green-700 underline"
+          >
+            Get help on WhatsApp
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  if (mandate.status === 'CANCELLED') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">This SIP has been cancelled</h2>
+          <p className="text-gray-600 mb-6">
+            No further debits will be taken. Plants from earlier payments stay yours.
+          </p>
+          <a
+            href={whatsappMessageLink('RESTART')}
+            className="block w-full bg-green-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-green-700 transition-colors"
+          >
+            Restart on WhatsApp
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full text-center">
+        <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-8">
+          <svg className="w-10 h-10 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        </div>
+
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">
+          {mandate.status === 'PAUSED' ? '⏸️ Your SIP is paused' : '🎉 Your SIP is set up!'}
+        </h1>
+
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6 text-left">
+          <h3 className="font-semibold text-gray-900 mb-3">Darjberry Daily SIP</h3>
+          <div className="space-y-2 text-sm">
+            {mandate.dailyAmount !== null && (
+              <div>
+                <span className="font-medium text-gray-700">Daily amount:</span>
+                <span className="ml-2 text-gray-900">₹{mandate.dailyAmount.toLocaleString('en-IN')}</span>
+              </div>
+            )}
+            {mandate.firstDebitDate && (
+              <div>
+                <span className="font-medium text-gray-700">
+                  {mandate.totalInvested > 0 ? 'Next debit:' : 'First debit:'}
+                </span>
+                <span className="ml-2 text-gray-900">
+                  {new Date(mandate.firstDebitDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}
+                </span>
+              </div>
+            )}
+            {mandate.plantsFirstDebit !== null && (
+              <div>
+                <span className="font-medium text-gray-700">Plants from that debit:</span>
+                <span className="ml-2 text-gray-900">🌱 {mandate.plantsFirstDebit}</span>
+              </div>
+            )}
+            {mandate.plantsPerMonth !== null && (
+              <div>
+                <span className="font-medium text-gray-700">Plants per month:</span>
+                <span className="ml-2 text-gray-900">🌱 {mandate.plantsPerMonth}</span>
+              </div>
+            )}
+            <div>
+              <span className="font-medium text-gray-700">SIP ID:</span>
+              <span className="ml-2 text-gray-900">{mandate.subscriptionId}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-blue-50 rounded-lg p-4 mb-6">
+          <h4 className="font-semibold text-blue-900 mb-2">What&apos;s Next?</h4>
+          <ul className="text-sm text-blue-800 text-left space-y-1">
+            <li>🏦 Your bank debits the daily amount automatically</li>
+            <li>🌱 Plants are allocated to your plot after each debit</li>
+            <li>🧾 Receipts arrive on WhatsApp</li>
+            <li>📊 Reply STATS on WhatsApp to track your portfolio</li>
+          </ul>
+        </div>
+
+        <a
+          href={whatsappLink}
+          className="block w-full bg-green-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-green-700 transition-colors"
+        >
+          Open WhatsApp
+        </a>
+      </div>
+    </div>
+  );
+}
+
+// Lumpsum orders return with order_id, SIP mandates with subscription_id
+function PaymentSuccessContent() {
+  const searchParams = useSearchParams();
+  const orderId = searchParams.get('order_id');
+  const subscriptionId = searchParams.get('subscription_id');
+
+  if (orderId) {
+    return <OrderStatusContent orderId={orderId} />;
+  }
+
+  if (subscriptionId) {
+    return <MandateStatusContent subscriptionId={subscriptionId} gateway={searchParams.get('gateway')} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">🎉 Thank you!</h1>
+        <p className="text-gray-600 mb-6">
+          We&apos;re confirming your payment with the bank. You&apos;ll get a WhatsApp message as soon as it&apos;s done.
+        </p>
+        <a
+          href={whatsappLink}
+          className="block w-full bg-green-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-green-700 transition-colors"
+        >
+          Open WhatsApp
+        </a>
+      </div>
+    </div>
+  );
+}
+
+export default function PaymentSuccess() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 flex items-center justify-center"><div>Loading...</div></div>}>
+      <PaymentSuccessContent />
+    </Suspense>
+  );
+}
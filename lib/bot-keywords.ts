@@ -0,0 +1,355 @@
+import { prisma } from '@/lib/prisma';
+import { CashfreeProvider } from '@/lib/cashfree-provider';
+import { sipManagementService } from '@/lib/services/sipManagementService';
+import { plantsForAmount } from '@/lib/plant-allocation';
+import { handleSIPCommand } from '@/lib/sip-commands';
+import { HUMAN_HANDOFF_STATE, WELCOME_MESSAGE } from '@/lib/conversation-flows';
+
+export type BotKeyword = 'STATS' | 'RETRY' | 'RESTART' | 'HELP';
+export type SubscriptionKeyword = 'STOP' | 'SUBSCRIBE';
+
+// Customers often copy the quotes from 'reply "RETRY"'
+function normalizeKeyword(messageText: string): string {
+  return messageText.trim().replace(/^["'“”‘’]+|["'“”‘’.!]+$/g, '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Parse a keyword our notifications ask customers to reply with. HELP may
+ * carry a reference, e.g. "HELP with order DARJ_LS_1" from the payment pages.
+ */
+export function parseKeyword(messageText: string): { keyword: BotKeyword; reference: string | null } | null {
+  const text = normalizeKeyword(messageText);
+  const upper = text.toUpperCase();
+
+  switch (upper) {
+    case 'STATS':
+    case 'RETRY':
+    case 'RESTART':
+    case 'HELP':
+      return { keyword: upper, reference: null };
+  }
+
+  const help = text.match(/^help (?:with|for|on) (.+)$/i);
+  if (help) {
+    return { keyword: 'HELP', reference: help[1] };
+  }
+
+  return null;
+}
+
+/**
+ * Answer STATS, RETRY, RESTART and HELP whatever state the conversation is
+ * in. Returns null when the message is not a keyword.
+ */
+export async function handleKeyword(phoneNumber: string, messageText: string): Promise<string | null> {
+  const parsed = parseKeyword(messageText);
+  if (!parsed) {
+    return null;
+  }
+
+  switch (parsed.keyword) {
+    case 'STATS':
+      return handleStats(phoneNumber);
+
+    case 'RETRY':
+      return handleRetry(phoneNumber);
+
+    case 'RESTART':
+      return handleRestart(phoneNumber);
+
+    case 'HELP':
+      return handleHelp(phoneNumber, parsed.reference);
+  }
+}
+
+/**
+ * Parse an opt-out from broadcast campaigns, or an opt-in. START is not used
+ * as it would clash with starting the onboarding flow.
+ */
+export function parseSubscriptionKeyword(messageText: string): SubscriptionKeyword | null {
+  switch (normalizeKeyword(messageText).toUpperCase()) {
+    case 'STOP':
+    case 'STOP PROMOTIONS':
+    case 'UNSUBSCRIBE':
+      return 'STOP';
+    case 'SUBSCRIBE':
+      return 'SUBSCRIBE';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Record that a customer opted out of or into marketing: campaigns and
+ * milestone messages. Service messages about their SIP and payments are not
+ * affected. Returns null when the message is not STOP or SUBSCRIBE.
+ */
+export async function handleSubscriptionKeyword(phoneNumber: string, messageText: string): Promise<string | null> {
+  const keyword = parseSubscriptionKeyword(messageText);
+  if (!keyword) {
+    return null;
+  }
+
+  const optedOut = keyword === 'STOP';
+
+  await prisma.whatsAppUser.update({
+    where: { phoneNumber },
+    data: optedOut
+      ? { optedOutAt: new Date() }
+      : { optedOutAt: null, optInSource: 'KEYWORD', optedInAt: new Date() },
+  });
+
+  await prisma.analytics.create({
+    data: {
+      phoneNumber,
+      event: optedOut ? 'CAMPAIGN_OPTED_OUT' : 'CAMPAIGN_OPTED_IN',
+      funnelStage: 'ENGAGEMENT'
+    }
+  });
+
+  return optedOut
+    ? `✅ You've been unsubscribed from Darjberry updates and offers.
+
+You'll still hear from us about your SIP and payments. Changed your mind? Reply SUBSCRIBE anytime.`
+    : `🫐 You're subscribed to Darjberry updates!
+
+Reply STOP anytime to unsubscribe.`;
+}
+
+/**
+ * The member dashboard: SIP, plants and dividend timeline
+ */
+export async function buildStatsMessage(phoneNumber: string): Promise<string> {
+  const sipData = await prisma.sIPInvestment.findFirst({
+    where: { phoneNumber },
+    orderBy: { startDate: 'desc' }
+  });
+
+  const berryPlots = await prisma.berryPlot.findMany({
+    where: { phoneNumber, status: { not: 'DEALLOCATED' } }
+  });
+
+  if (!sipData && berryPlots.length === 0) {
+    return `You don't have any berry plots yet! 🫐
+
+Start your berry journey:
+Reply 2 to begin investing
+
+Or want to learn more first?
+Reply 1 to understand how it works`;
+  }
+
+  const totalPlants = berryPlots.reduce((sum, plot) => sum + plot.plantCount, 0);
+  const monthsActive = sipData ? Math.floor((Date.now() - sipData.startDate.getTime()) / (1000 * 60 * 60 * 24 * 30)) : 0;
+
+  return `🫐 **Your Berry Stats™**
+
+📅 SIP Started: ${sipData?.startDate.toDateString() || 'Not started'}
+💰 Daily: ₹${sipData?.dailyAmount.toLocaleString() || '0'}
+💵 Total Invested: ₹${sipData?.totalInvested.toLocaleString() || '0'}
+🌱 Total Plants: ${totalPlants}
+📍 Locations: ${berryPlots.length} allocation${berryPlots.length !== 1 ? 's' : ''}
+
+**Dividend Status:**
+• Payouts start: Year 3 (${monthsActive < 36 ? `${36 - monthsActive} months to go` : 'Started!'})
+• Expected yearly: ₹${(totalPlants * 120).toLocaleString()} - ₹${(totalPlants * 250).toLocaleString()}
+
+**Your Perks:**
+🏡 Farm stay credits: 2 nights available
+📦 Next berry box: Ships 15th
+🍃 Tea estate tour: Available
+
+**Manage your SIP:**
+⏸️ PAUSE 7 · 💰 AMOUNT 15000 · ❌ CANCEL
+
+Need help with:
+A) Add more plants
+B) Book farm visit
+C) Refer a friend (earn ₹1000!)
+D) Update details
+
+Reply A, B, C, or D`;
+}
+
+/**
+ * Start the daily SIP on the current catalogue plan and reply with its mandate link
+ */
+export async function createPaymentLink(phoneNumber: string): Promise<string> {
+  try {
+    const userData = await prisma.whatsAppUser.findUnique({
+      where: { phoneNumber }
+    });
+
+    if (!userData?.name || !userData?.email) {
+      return `We need your details first! Please provide:
+Name: [Your name]
+Email: [Your email]`;
+    }
+
+    const cashfreeProvider = new CashfreeProvider();
+    const paymentData = await cashfreeProvider.createDailySIPSubscription(phoneNumber, {
+      name: userData.name,
+      email: userData.email
+    });
+
+    if (!paymentData.paymentLink) {
+      throw new Error(`No payment link returned for subscription ${paymentData.subscriptionId}`);
+    }
+
+    return `🎉 **Almost there, ${userData.name}!**
+
+I've created your daily SIP subscription. Complete your payment setup:
+
+💳 **Payment Link:** ${paymentData.paymentLink}
+
+**What happens after payment:**
+✅ Daily auto-debit of ₹${paymentData.dailyAmount.toLocaleString('en-IN')} starts
+🌱 ${plantsForAmount(paymentData.dailyAmount * 30)} plants allocated every month
+📊 Real-time tracking via WhatsApp
+🎁 Welcome berry box ships within 7 days
+
+Payment is secure via Cashfree. Your berry empire awaits! 🫐
+
+Need help? Just reply "HELP"`;
+
+  } catch (error) {
+    console.error('Payment creation error:', error);
+    return `Oops! Something went berry wrong with payment setup 😅
+
+Our team will reach out to help you complete the process.
+
+Meanwhile, reply "RETRY" to try again or "HELP" for assistance.`;
+  }
+}
+
+async function handleStats(phoneNumber: string): Promise<string> {
+  const sip = await sipManagementService.getCurrent(phoneNumber);
+
+  // Members stay on the dashboard, where 3 shows this again
+  if (sip) {
+    await prisma.whatsAppUser.update({
+      where: { phoneNumber },
+      data: { state: 'MEMBER_DASHBOARD' },
+    });
+  }
+
+  return buildStatsMessage(phoneNumber);
+}
+
+async function handleRetry(phoneNumber: string): Promise<string> {
+  const sip = await sipManagementService.getCurrent(phoneNumber);
+
+  // Setting up the first SIP failed before a subscription existed
+  if (!sip) {
+    return createPaymentLink(phoneNumber);
+  }
+
+  if (sip.status === 'ACTIVE' && sip.failedDebitCount > 0) {
+    return `🔄 Your last ₹${sip.dailyAmount.toLocaleString()} debit didn't go through. Your next daily debit goes ahead as scheduled.
+
+Please make sure your account has enough balance and your UPI mandate is active.
+
+Want to switch bank or UPI? Reply HELP and our team will set up a new mandate with you.`;
+  }
+
+  if (sip.status === 'PAUSED' || sip.status === 'CANCELLED') {
+    return `Your SIP is currently ${sip.status.toLowerCase()}.
+
+🔄 Reply RESTART to start growing again`;
+  }
+
+  if (sip.status !== 'PENDING') {
+    return `✅ Your daily SIP is active and there's nothing to retry.
+
+Reply STATS to see your dashboard.`;
+  }
+
+  try {
+    const result = await sipManagementService.retry(phoneNumber);
+
+    return `${result.replaced ? '🔄 Here is a fresh link to set up' : '🔄 Pick up where you left off with'} your ₹${result.sip.dailyAmount.toLocaleString()} daily SIP:
+
+💳 **Payment Link:** ${result.paymentLink}
+
+Approve the autopay in your UPI or bank app to finish.`;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Invalid SIP status')) {
+      return `✅ Your bank has approved your mandate! We're just confirming it.
+
+You'll get a message as soon as your SIP is live.`;
+    }
+
+    if (error instanceof Error && error.message.includes('Invalid customer profile')) {
+      return `We need your details first! Please provide:
+Name: [Your name]
+Email: [Your email]`;
+    }
+
+    console.error('SIP retry error:', error);
+    return `Oops! Something went berry wrong with payment setup 😅
+
+Please try again in a bit, or reply HELP for assistance.`;
+  }
+}
+
+async function handleRestart(phoneNumber: string): Promise<string> {
+  const sip = await sipManagementService.getCurrent(phoneNumber);
+
+  if (sip) {
+    const response = await handleSIPCommand(phoneNumber, 'RESTART');
+    if (response) {
+      return response;
+    }
+  }
+
+  // Nothing to restart, so start the conversation over
+  await prisma.whatsAppUser.update({
+    where: { phoneNumber },
+    data: { state: 'SELECTING_SERVICE' },
+  });
+
+  return WELCOME_MESSAGE;
+}
+
+async function handleHelp(phoneNumber: string, reference: string | null): Promise<string> {
+  // Help with a specific order or SIP goes straight to the admin inbox
+  if (reference) {
+    await prisma.whatsAppUser.update({
+      where: { phoneNumber },
+      data: { state: HUMAN_HANDOFF_STATE, handoffAt: new Date(), assignedTo: null },
+    });
+
+    await prisma.analytics.create({
+      data: {
+        phoneNumber,
+        event: 'HUMAN_HANDOFF_REQUESTED',
+        funnelStage: 'ENGAGEMENT',
+        metadata: JSON.stringify({ reference })
+      }
+    });
+
+    return `📝 We've noted that you need help with ${reference}. Our team will reply right here during business hours (9 AM - 6 PM).
+
+Tell us anything else they should know in the meantime.`;
+  }
+
+  await prisma.whatsAppUser.update({
+    where: { phoneNumber },
+    data: { state: 'SELECTING_SERVICE' },
+  });
+
+  return `Here's what you can reply anytime:
+
+📊 STATS — your SIP and plants
+🔄 RETRY — finish a payment that didn't go through
+▶️ RESTART — restart a paused or cancelled SIP
+⏸️ PAUSE 7 · 💰 AMOUNT 15000 · ❌ CANCEL — manage your SIP
+
+Or pick from the menu:
+1️⃣ Learn about berry SIP
+2️⃣ Start investing
+3️⃣ Show my plots
+4️⃣ Talk to a human
+
+Reply 1, 2, 3, or 4`;
+}
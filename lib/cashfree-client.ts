@@ -0,0 +1,267 @@
+export interface CashfreeClientConfig {
+  clientId: string;
+  clientSecret: string;
+  baseUrl: string;
+  timeoutMs?: number; // Per attempt, default 10s
+  maxRetries?: number; // Extra attempts for idempotent calls, default 2
+  retryDelayMs?: number; // First backoff step, doubled on each retry, default 250ms
+  tokenTtlSeconds?: number; // Used when Cashfree does not say when the token expires, default 300
+}
+
+export interface CashfreeRequestOptions {
+  action: string; // For error messages, e.g. 'create order'
+  body?: unknown;
+  idempotencyKey?: string; // Our own ID for the resource; makes a POST safe to retry
+}
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 250;
+const DEFAULT_TOKEN_TTL_SECONDS = 300;
+
+// Refresh a little early so a token never expires mid-request
+const TOKEN_EXPIRY_MARGIN_MS = 30000;
+
+// Longest Retry-After we will wait for inside a request
+const MAX_RETRY_AFTER_MS = 5000;
+
+const API_VERSION = '2022-09-01';
+
+/**
+ * Base class for failed Cashfree calls. retryable says whether the same
+ * request may succeed if sent again later.
+ */
+export class CashfreeError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'CashfreeError';
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Cashfree answered with a non-2xx status
+ */
+export class CashfreeApiError extends CashfreeError {
+  readonly status: number;
+  readonly code: string | null;
+  readonly responseBody: string;
+  readonly retryAfterSeconds: number | null;
+
+  constructor(message: string, status: number, responseBody: string, retryAfter: string | null = null) {
+    super(message, status === 429 || status >= 500);
+    this.name = 'CashfreeApiError';
+    this.status = status;
+    this.responseBody = responseBody;
+    this.code = parseErrorCode(responseBody);
+    this.retryAfterSeconds = retryAfter && /^\d+$/.test(retryAfter) ? parseInt(retryAfter, 10) : null;
+  }
+}
+
+/**
+ * Our credentials were rejected; retrying will not help
+ */
+export class CashfreeAuthError extends CashfreeApiError {
+  constructor(message: string, status: number, responseBody: string) {
+    super(message, status, responseBody);
+    this.name = 'CashfreeAuthError';
+  }
+}
+
+export class CashfreeTimeoutError extends CashfreeError {
+  constructor(action: string, timeoutMs: number) {
+    super(`Failed to ${action}: Cashfree did not respond within ${timeoutMs}ms`, true);
+    this.name = 'CashfreeTimeoutError';
+  }
+}
+
+export class CashfreeNetworkError extends CashfreeError {
+  constructor(action: string, cause: unknown) {
+    super(`Failed to ${action}: ${cause instanceof Error ? cause.message : 'network error'}`, true);
+    this.name = 'CashfreeNetworkError';
+  }
+}
+
+function parseErrorCode(responseBody: string): string | null {
+  try {
+    const parsed = JSON.parse(responseBody);
+    return parsed?.code || parsed?.type || null;
+  } catch {
+    return null;
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * HTTP client shared by every Cashfree call. The bearer token is cached until
+ * shortly before it expires, and concurrent callers share a single token
+ * request, so a webhook burst costs one token call rather than one per event.
+ * GETs and POSTs carrying an idempotency key are retried with backoff on
+ * timeouts, network errors, 429 and 5xx.
+ */
+export class CashfreeHttpClient {
+  private config: CashfreeClientConfig;
+  private cachedToken: CachedToken | null = null;
+  private pendingToken: Promise<string> | null = null;
+
+  constructor(config: CashfreeClientConfig) {
+    this.config = config;
+  }
+
+  async request<T = any>(method: string, path: string, options: CashfreeRequestOptions): Promise<T> {
+    const idempotent = method === 'GET' || !!options.idempotencyKey;
+    const maxRetries = idempotent ? (this.config.maxRetries ?? DEFAULT_MAX_RETRIES) : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(method, path, options);
+      } catch (error) {
+        if (!(error instanceof CashfreeError) || !error.retryable || attempt >= maxRetries) {
+          throw error;
+        }
+
+        console.error(`Cashfree ${options.action} attempt ${attempt + 1} failed, retrying:`, error.message);
+        await sleep(this.getRetryDelay(attempt, error));
+      }
+    }
+  }
+
+  /**
+   * Drop the cached token, e.g. after Cashfree rejects it
+   */
+  invalidateToken(): void {
+    this.cachedToken = null;
+  }
+
+  private async send<T>(method: string, path: string, options: CashfreeRequestOptions): Promise<T> {
+    let token = await this.getToken();
+    let response = await this.fetchWithTimeout(method, path, options, token);
+
+    // A token revoked before its expiry is refreshed once; the request was not processed
+    if (response.status === 401) {
+      this.invalidateToken();
+      token = await this.getToken();
+      response = await this.fetchWithTimeout(method, path, options, token);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      const message = `Failed to ${options.action}: ${response.statusText} - ${errorText}`;
+
+      if (response.status === 401 || response.status === 403) {
+        throw new CashfreeAuthError(message, response.status, errorText);
+      }
+
+      throw new CashfreeApiError(message, response.status, errorText, response.headers.get('retry-after'));
+    }
+
+    return response.json();
+  }
+
+  private async getToken(): Promise<string> {
+    if (this.cachedToken && this.cachedToken.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+      return this.cachedToken.token;
+    }
+
+    if (!this.pendingToken) {
+      this.pendingToken = this.fetchToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+
+    return this.pendingToken;
+  }
+
+  private async fetchToken(): Promise<string> {
+    const response = await this.fetchWithTimeout('POST', '/cftoken/order', { action: 'authenticate' }, null);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      const message = `Cashfree auth failed: ${response.statusText}`;
+
+      // An outage at the token endpoint is retried with the request that needed the token
+      if (response.status === 429 || response.status >= 500) {
+        throw new CashfreeApiError(message, response.status, errorText, response.headers.get('retry-after'));
+      }
+
+      throw new CashfreeAuthError(message, response.status, errorText);
+    }
+
+    const data = await response.json();
+    this.cachedToken = {
+      token: data.cftoken,
+      expiresAt: this.getTokenExpiry(data)
+    };
+
+    return data.cftoken;
+  }
+
+  // Cashfree may send the expiry as epoch seconds; otherwise assume the configured lifetime
+  private getTokenExpiry(data: { expiry?: number | string }): number {
+    const expiry = Number(data.expiry);
+
+    if (Number.isFinite(expiry) && expiry > 0) {
+      return expiry > 1e12 ? expiry : expiry * 1000;
+    }
+
+    return Date.now() + (this.config.tokenTtlSeconds ?? DEFAULT_TOKEN_TTL_SECONDS) * 1000;
+  }
+
+  private async fetchWithTimeout(
+    method: string,
+    path: string,
+    options: CashfreeRequestOptions,
+    token: string | null
+  ): Promise<Response> {
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    const headers: Record<string, string> = token
+      ? { 'Authorization': `Bearer ${token}`, 'x-api-version': API_VERSION }
+      : { 'x-client-id': this.config.clientId, 'x-client-secret': this.config.clientSecret };
+
+    if (options.body !== undefined || !token) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    if (options.idempotencyKey) {
+      headers['x-idempotency-key'] = options.idempotencyKey;
+    }
+
+    try {
+      return await fetch(`${this.config.baseUrl}${path}`, {
+        method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: controller.signal
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new CashfreeTimeoutError(options.action, timeoutMs);
+      }
+
+      throw new CashfreeNetworkError(options.action, error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private getRetryDelay(attempt: number, error: CashfreeError): number {
+    const backoff = (this.config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * 2 ** attempt;
+
+    if (error instanceof CashfreeApiError && error.retryAfterSeconds !== null) {
+      return Math.min(error.retryAfterSeconds * 1000, MAX_RETRY_AFTER_MS);
+    }
+
+    return backoff;
+  }
+}
@@ -1,26 +1,113 @@
-// Temporarily simplified for build
 import { prisma } from '@/lib/prisma';
-import { WhatsAppService } from '@/lib/whatsapp';
+import { PaymentGatewayRegistry, createPaymentGatewaysFromEnv } from '@/lib/payment-gateway';
+import { PlanService } from '@/lib/services/planService';
+
+export interface DailySIPSubscriptionResult {
+  sipInvestmentId: string;
+  subscriptionId: string;
+  cfSubscriptionId: string;
+  subscriptionStatus: string;
+  paymentLink: string | null;
+  gateway: string;
+  dailyAmount: number; // The plan amount the gateway will debit
+}
 
 export class CashfreeProvider {
-  constructor() {
-    // Initialization will be added later
+  private gateways: PaymentGatewayRegistry;
+  private plans: PlanService;
+
+  constructor(gateways: PaymentGatewayRegistry = createPaymentGatewaysFromEnv()) {
+    this.gateways = gateways;
+    this.plans = new PlanService(gateways);
   }
-  
+
+  /**
+   * Subscribe to the current daily SIP plan, or, when restarting or replacing
+   * a SIP, to the daily plan at its amount on its gateway. The gateway debits
+   * the plan amount, so that is the amount the SIP records.
+   */
   async createDailySIPSubscription(
     phoneNumber: string,
-    dailyAmount: number,
     customerDetails: {
       name: string;
       email: string;
+    },
+    previous?: { dailyAmount: number; gateway: string }
+  ): Promise<DailySIPSubscriptionResult> {
+    const plan = previous
+      ? (await this.plans.getDailyPlans(previous.gateway)).find(p => p.amount === previous.dailyAmount)
+      : await this.plans.getActivePlan('dailySIP');
+
+    if (!plan) {
+      throw new Error(previous
+        ? `Invalid daily amount: no daily plan at ₹${previous.dailyAmount.toLocaleString()}`
+        : 'Daily SIP plan not found in the plan catalogue');
+    }
+
+    const dailyAmount = plan.amount;
+
+    const subscriptionId = `DARJ_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    // The mandate lives with whichever gateway the plan is registered on
+    const gateway = this.gateways.get(plan.gateway);
+
+    const subscription = await gateway.createSubscription({
+      subscriptionId,
+      planId: plan.gatewayPlanId || plan.planId,
+      maxCycles: plan.maxCycles,
+      customerDetails: {
+        customerId: `CUST_${phoneNumber}`,
+        customerName: customerDetails.name,
+        customerEmail: customerDetails.email,
+        customerPhone: phoneNumber,
+      },
+      subscriptionNote: `Darjberry investment - ${plan.planName}`,
+      subscriptionMeta: {
+        source: 'whatsapp',
+        dailyAmount,
+      },
+      returnUrl: `${process.env.NEXT_PUBLIC_BASE_URL}/payment/success?subscription_id=${subscriptionId}`,
+      subscriptionTags: {
+        product: 'blueberry_farming',
+        channel: 'whatsapp',
+        amount: dailyAmount.toString()
+      }
+    });
+
+    if (!subscription.cfSubscriptionId) {
+      throw new Error(`${gateway.name} did not return a subscription ID for ${subscriptionId}`);
     }
-  ) {
-    // TODO: Implement Cashfree integration
-    throw new Error('Cashfree integration not yet implemented');
+
+    const merchantSubscriptionId = subscription.subscriptionId || subscriptionId;
+
+    // SIP stays PENDING until the SUBSCRIPTION_ACTIVATED webhook arrives
+    const sipInvestment = await prisma.sIPInvestment.create({
+      data: {
+        phoneNumber,
+        packageType: 'DAILY_STANDARD',
+        dailyAmount,
+        status: 'PENDING',
+        subscriptionId: merchantSubscriptionId,
+        cfSubscriptionId: subscription.cfSubscriptionId,
+        paymentLink: subscription.subscriptionPaymentLink || null,
+        gateway: gateway.name,
+        nextPaymentDate: new Date(Date.now() + 24 * 60 * 60 * 1000), // Tomorrow
+      }
+    });
+
+    return {
+      sipInvestmentId: sipInvestment.id,
+      subscriptionId: merchantSubscriptionId,
+      cfSubscriptionId: subscription.cfSubscriptionId,
+      subscriptionStatus: subscription.subscriptionStatus,
+      paymentLink: subscription.subscriptionPaymentLink || null,
+      gateway: gateway.name,
+      dailyAmount,
+    };
   }
-  
+
   async handleWebhook(webhookData: Record<string, unknown>) {
     // TODO: Implement webhook handling
     throw new Error('Webhook handling not yet implemented');
   }
-}
\ No newline at end of file
+}
@@ -1,7 +1,14 @@
+import type { PaymentGateway } from '@/lib/payment-gateway';
+import { CashfreeHttpClient } from '@/lib/cashfree-client';
+
 interface CashfreeConfig {
   clientId: string;
   clientSecret: string;
   environment: 'TEST' | 'PROD';
+  baseUrl?: string; // Overrides the environment URL, e.g. a local stand-in during tests
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
 }
 
 interface SubscriptionPlan {
@@ -34,6 +41,50 @@ interface SubscriptionRequest {
   subscriptionExpiryTime?: string;
   returnUrl?: string;
   subscriptionSessionTags?: Record<string, string>;
+  maxCycles?: number; // Razorpay sets the debit count per subscription; Cashfree takes it from the plan
+}
+
+interface SubscriptionAction {
+  action: 'PAUSE' | 'ACTIVATE';
+  actionDetails?: {
+    nextScheduledTime?: string;
+  };
+}
+
+interface OrderRequest {
+  orderId: string;
+  orderAmount: number;
+  orderCurrency: 'INR';
+  customerDetails: CustomerDetails;
+  orderMeta?: {
+    returnUrl?: string;
+    notifyUrl?: string;
+  };
+  orderNote?: string;
+  orderTags?: Record<string, string>;
+}
+
+interface CashfreeOrderResponse {
+  cfOrderId: string;
+  orderId: string;
+  orderAmount: number;
+  orderStatus: 'ACTIVE' | 'PAID' | 'EXPIRED' | 'TERMINATED';
+  paymentSessionId: string;
+  paymentLink?: string;
+}
+
+interface RefundRequest {
+  refundId: string;
+  refundAmount: number;
+  refundNote?: string;
+}
+
+interface CashfreeRefundResponse {
+  cfRefundId: string;
+  refundId: string;
+  orderId: string;
+  refundAmount: number;
+  refundStatus: 'PENDING' | 'SUCCESS' | 'CANCELLED' | 'ONHOLD';
 }
 
 interface CashfreeSubscriptionResponse {
@@ -50,169 +101,110 @@ interface CashfreeSubscriptionResponse {
   subscriptionPaymentLink?: string;
 }
 
-class CashfreeService {
-  private config: CashfreeConfig;
-  private baseUrl: string;
-
-  constructor(config: CashfreeConfig) {
-    this.config = config;
-    this.baseUrl = config.environment === 'PROD' 
+function createCashfreeClient(config: CashfreeConfig): CashfreeHttpClient {
+  return new CashfreeHttpClient({
+    ...config,
+    baseUrl: config.baseUrl || (config.environment === 'PROD'
       ? 'https://api.cashfree.com/api/v2'
-      : 'https://test.cashfree.com/api/v2';
-  }
+      : 'https://test.cashfree.com/api/v2')
+  });
+}
 
-  private async getAuthToken(): Promise<string> {
-    const response = await fetch(`${this.baseUrl}/cftoken/order`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-client-id': this.config.clientId,
-        'x-client-secret': this.config.clientSecret,
-      }
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Cashfree auth failed: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    return data.cftoken;
+class CashfreeService implements PaymentGateway {
+  readonly name = 'CASHFREE' as const;
+  private client: CashfreeHttpClient;
+
+  constructor(config: CashfreeConfig, client: CashfreeHttpClient = createCashfreeClient(config)) {
+    this.client = client;
   }
 
   async createSubscriptionPlan(plan: SubscriptionPlan): Promise<any> {
-    const token = await this.getAuthToken();
-    
-    const response = await fetch(`${this.baseUrl}/subscriptions/plans`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-        'x-api-version': '2022-09-01',
-      },
-      body: JSON.stringify(plan)
+    return this.client.request('POST', '/subscriptions/plans', {
+      action: 'create plan',
+      body: plan,
+      idempotencyKey: plan.planId
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to create plan: ${response.statusText}`);
-    }
-
-    return response.json();
   }
 
   async createSubscription(subscriptionData: SubscriptionRequest): Promise<CashfreeSubscriptionResponse> {
-    const token = await this.getAuthToken();
-    
-    const response = await fetch(`${this.baseUrl}/subscriptions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-        'x-api-version': '2022-09-01',
-      },
-      body: JSON.stringify(subscriptionData)
+    return this.client.request('POST', '/subscriptions', {
+      action: 'create subscription',
+      body: subscriptionData,
+      idempotencyKey: subscriptionData.subscriptionId
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to create subscription: ${response.statusText} - ${errorText}`);
-    }
-
-    return response.json();
   }
 
   async getSubscription(subscriptionId: string): Promise<any> {
-    const token = await this.getAuthToken();
-    
-    const response = await fetch(`${this.baseUrl}/subscriptions/${subscriptionId}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'x-api-version': '2022-09-01',
-      }
+    return this.client.request('GET', `/subscriptions/${subscriptionId}`, {
+      action: 'get subscription'
     });
-
-    if (!response.ok) {
-      throw new Error(`Failed to get subscription: ${response.statusText}`);
-    }
-
-    return response.json();
   }
 
   async cancelSubscription(subscriptionId: string): Promise<any> {
-    const token = await this.getAuthToken();
-    
-    const response = await fetch(`${this.baseUrl}/subscriptions/${subscriptionId}/cancel`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'x-api-version': '2022-09-01',
-      }
+    return this.client.request('POST', `/subscriptions/${subscriptionId}/cancel`, {
+      action: 'cancel subscription'
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to cancel subscription: ${response.statusText}`);
-    }
+  async updateSubscription(subscriptionId: string, updateData: Partial<SubscriptionRequest>): Promise<any> {
+    return this.client.request('PATCH', `/subscriptions/${subscriptionId}`, {
+      action: 'update subscription',
+      body: updateData
+    });
+  }
 
-    return response.json();
+  async manageSubscription(subscriptionId: string, action: SubscriptionAction): Promise<any> {
+    return this.client.request('POST', `/subscriptions/${subscriptionId}/manage`, {
+      action: `${action.action.toLowerCase()} subscription`,
+      body: { subscriptionId, ...action }
+    });
   }
 
-  async updateSubscription(subscriptionId: string, updateData: Partial<SubscriptionRequest>): Promise<any> {
-    const token = await this.getAuthToken();
-    
-    const response = await fetch(`${this.baseUrl}/subscriptions/${subscriptionId}`, {
-      method: 'PATCH',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-        'x-api-version': '2022-09-01',
-      },
-      body: JSON.stringify(updateData)
+  async createOrder(orderData: OrderRequest): Promise<CashfreeOrderResponse> {
+    return this.client.request('POST', '/orders', {
+      action: 'create order',
+      body: orderData,
+      idempotencyKey: orderData.orderId
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to update subscription: ${response.statusText}`);
-    }
+  async getOrder(orderId: string): Promise<CashfreeOrderResponse> {
+    return this.client.request('GET', `/orders/${orderId}`, {
+      action: 'get order'
+    });
+  }
+
+  // Cashfree refunds against the order, so the payment ID is not needed
+  async createRefund(orderId: string, refundData: RefundRequest): Promise<CashfreeRefundResponse> {
+    return this.client.request('POST', `/orders/${orderId}/refunds`, {
+      action: 'create refund',
+      body: refundData,
+      idempotencyKey: refundData.refundId
+    });
+  }
 
-    return response.json();
+  // Cashfree manages subscriptions by the ID we gave them
+  getSubscriptionReference(sip: { subscriptionId: string | null; cfSubscriptionId: string | null }): string | null {
+    return sip.subscriptionId;
   }
+}
+
+// Every service built from env shares one client, and with it one cached token
+let sharedClient: CashfreeHttpClient | null = null;
 
-  generateDarjberryPlans() {
-    return {
-      dailySIP: {
-        planId: 'DARJBERRY_DAILY_10K',
-        planName: 'Darjberry Daily SIP ₹10,000',
-        type: 'PERIODIC' as const,
-        maxCycles: 365,
-        intervalType: 'DAILY' as const,
-        intervals: 1,
-        amount: 10000,
-        currency: 'INR' as const,
-        description: 'Daily ₹10,000 investment in Darjeeling blueberry farms with tax-free returns'
-      },
-      lumpsum3L: {
-        planId: 'DARJBERRY_LUMPSUM_3L',
-        planName: 'Darjberry Lumpsum ₹3 Lakh',
-        type: 'PERIODIC' as const,
-        maxCycles: 1,
-        intervalType: 'MONTHLY' as const,
-        intervals: 1,
-        amount: 300000,
-        currency: 'INR' as const,
-        description: 'One-time ₹3 lakh investment for premium blueberry farming setup'
-      },
-      monthly30K: {
-        planId: 'DARJBERRY_MONTHLY_30K',
-        planName: 'Darjberry Monthly ₹30,000',
-        type: 'PERIODIC' as const,
-        maxCycles: 120,
-        intervalType: 'MONTHLY' as const,
-        intervals: 1,
-        amount: 30000,
-        currency: 'INR' as const,
-        description: 'Monthly ₹30,000 for systematic blueberry farm investment'
-      }
-    };
+function createCashfreeServiceFromEnv(): CashfreeService {
+  const config: CashfreeConfig = {
+    clientId: process.env.CASHFREE_CLIENT_ID!,
+    clientSecret: process.env.CASHFREE_CLIENT_SECRET!,
+    environment: process.env.NODE_ENV === 'production' ? 'PROD' : 'TEST',
+    baseUrl: process.env.CASHFREE_API_BASE_URL
+  };
+
+  if (!sharedClient) {
+    sharedClient = createCashfreeClient(config);
   }
+
+  return new CashfreeService(config, sharedClient);
 }
 
-export { CashfreeService, type SubscriptionPlan, type CustomerDetails, type SubscriptionRequest, type CashfreeSubscriptionResponse };
\ No newline at end of file
+export { CashfreeService, createCashfreeServiceFromEnv, type CashfreeConfig, type SubscriptionPlan, type CustomerDetails, type SubscriptionRequest, type SubscriptionAction, type CashfreeSubscriptionResponse, type OrderRequest, type CashfreeOrderResponse, type RefundRequest, type CashfreeRefundResponse };
\ No newline at end of file
@@ -0,0 +1,360 @@
+import { prisma } from '@/lib/prisma';
+import type { FlowAction, FlowActionResult, FlowContext } from '@/lib/conversation-engine';
+import { buildStatsMessage, createPaymentLink } from '@/lib/bot-keywords';
+import { sipManagementService } from '@/lib/services/sipManagementService';
+import { whatsappMediaService } from '@/lib/services/whatsappMediaService';
+
+// Steps of the conversation flow that read or change data, referenced by name from DARJBERRY_FLOW
+
+async function showStats({ user }: FlowContext): Promise<FlowActionResult> {
+  const sip = await sipManagementService.getCurrent(user.phoneNumber);
+
+  return {
+    reply: await buildStatsMessage(user.phoneNumber),
+    next: sip ? 'MEMBER_DASHBOARD' : undefined
+  };
+}
+
+async function startSIP({ user }: FlowContext): Promise<FlowActionResult> {
+  // Onboarding picks up at whichever detail is missing
+  if (!user.name || !user.email) {
+    return { next: 'SIP_ONBOARDING' };
+  }
+
+  return { reply: await createPaymentLink(user.phoneNumber) };
+}
+
+async function requestHuman({ user }: FlowContext): Promise<FlowActionResult> {
+  await prisma.whatsAppUser.update({
+    where: { phoneNumber: user.phoneNumber },
+    data: { handoffAt: new Date(), assignedTo: null }
+  });
+
+  await prisma.analytics.create({
+    data: {
+      phoneNumber: user.phoneNumber,
+      event: 'HUMAN_HANDOFF_REQUESTED',
+      funnelStage: 'ENGAGEMENT'
+    }
+  });
+
+  return {};
+}
+
+async function registerDarjeelingInterest({ user }: FlowContext): Promise<FlowActionResult> {
+  await prisma.darjeelingInterest.upsert({
+    where: { phoneNumber: user.phoneNumber },
+    update: { registeredAt: new Date() },
+    create: {
+      phoneNumber: user.phoneNumber,
+      name: user.name || '',
+      location: user.location || '',
+    }
+  });
+
+  return {
+    reply: `🔔 **Registered for Darjeeling Tea Estate Program!**
+
+You're now on our priority list for premium tea estate partnerships.
+
+**What happens next:**
+📧 You'll get exclusive updates about the program
+📅 Priority access when we launch (Q2 2025)
+🏔️ First choice of premium high-altitude plots
+
+**Meanwhile, want to start with your own land?**
+B) Start ₹10k daily SIP now
+C) Get detailed proposal
+
+We'll keep you posted about Darjeeling! 🫐`
+  };
+}
+
+/**
+ * Score a shared location pin with the geospatial API, or an area name by region
+ */
+async function analyseLocation({ user, message }: FlowContext): Promise<FlowActionResult> {
+  if (message.location) {
+    return analyseCoordinates(user.phoneNumber, message.location);
+  }
+
+  const areaName = message.text.trim();
+  if (!areaName) {
+    return {
+      reply: `Please share your location with the 📍 attachment button, or tell us your city/area name.`
+    };
+  }
+
+  return analyseAreaName(areaName);
+}
+
+async function analyseCoordinates(
+  phoneNumber: string,
+  location: { latitude: number; longitude: number }
+): Promise<FlowActionResult> {
+  try {
+    // Call our new geospatial API
+    const response = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/location/analyze`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        latitude: location.latitude,
+        longitude: location.longitude,
+        source: 'whatsapp'
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error('Location analysis failed');
+    }
+
+    const { analysis, whatsappMessage, recommendations } = await response.json();
+
+    // Store in database
+    await prisma.landAnalysis.create({
+      data: {
+        phoneNumber,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        location: analysis.location.address || '',
+        district: analysis.location.city || '',
+        soilPh: analysis.soilAnalysis.pH,
+        climateScore: analysis.overallSuitability === 'EXCELLENT' ? 95 :
+                      analysis.overallSuitability === 'GOOD' ? 80 :
+                      analysis.overallSuitability === 'MODERATE' ? 60 : 40,
+        suitability: analysis.overallSuitability,
+      },
+    });
+
+    return {
+      next: 'SIP_PACKAGE_SELECTION',
+      profile: { location: `${analysis.location.city}, ${analysis.location.state}` },
+      reply: `${whatsappMessage}
+
+What would you like to do next?
+A) Register for Darjeeling tea estates
+B) ${recommendations.primaryAction === 'START_INVESTMENT' ? 'Start investing now!' : 'Start my ₹10k daily SIP'}
+C) Get detailed proposal
+D) Verify my land with photos & records
+
+Reply A, B, C, or D`
+    };
+
+  } catch (error) {
+    console.error('Location analysis error:', error);
+    return {
+      reply: `Sorry, I couldn't analyze that location right now.
+
+Could you tell me your city/area name instead?
+(e.g., "Mumbai", "Bangalore", "Kolkata")`
+    };
+  }
+}
+
+function analyseAreaName(areaName: string): FlowActionResult {
+  const isDarjeeling = areaName.toLowerCase().includes('darjeeling');
+  const isNorthBengal = ['siliguri', 'jalpaiguri', 'cooch behar', 'kurseong'].some(area =>
+    areaName.toLowerCase().includes(area)
+  );
+
+  const result = { next: 'SIP_PACKAGE_SELECTION', profile: { location: areaName } };
+
+  if (isDarjeeling) {
+    return {
+      ...result,
+      reply: `🏔️ **DARJEELING DETECTED!** You're in our prime zone!
+
+📍 **${areaName}**
+⭐ Suitability Score: 95/100 (Premium location!)
+
+🔔 **SPECIAL OPPORTUNITY:**
+You're eligible for our exclusive **Darjeeling Tea Estate Partnership Program** (launching Q2 2025)
+
+**Current Option:**
+💰 ₹10k daily SIP on your own land
+🌱 100 plants/month including complete setup
+
+Want to be first in line?
+A) Register for tea estate program
+B) Start with own land now
+C) Get detailed proposal
+
+Reply A, B, or C
+
+*Darjeeling residents get priority access! 🫐*`
+    };
+  }
+
+  if (isNorthBengal) {
+    return {
+      ...result,
+      reply: `🌱 Excellent! ${areaName} is perfect for our berry operations!
+
+📍 Suitability Score: 85/100
+✅ Great climate for blueberry cultivation
+✅ Close to our North Bengal expertise hub
+
+**Ready for your ₹10k daily SIP?**
+💰 Investment: ₹10,000/day (₹3L/month)
+🌱 Plants: 100 plants per month including setup
+📈 Returns: Start Year 3
+
+What's next?
+A) Register for Darjeeling tea estates
+B) I want to start now!
+C) Get detailed proposal
+D) Verify my land with photos & records
+
+Reply A, B, C, or D`
+    };
+  }
+
+  return {
+    ...result,
+    reply: `📍 Location: ${areaName}
+
+Thanks for sharing! We can work with locations across India.
+
+**Our Model:**
+💰 ₹10k daily SIP (₹3L monthly)
+🌱 100 plants/month on your own land
+🏠 We provide complete setup & expertise
+
+What would you like to do next?
+A) Register for Darjeeling tea estates
+B) Start now
+C) Get detailed proposal
+D) Verify my land with photos & records
+
+Reply A, B, C, or D`
+  };
+}
+
+async function countLandDocuments(phoneNumber: string): Promise<{ photos: number; records: number }> {
+  const saved = await whatsappMediaService.listForUser(phoneNumber);
+
+  return {
+    photos: saved.filter(media => media.purpose === 'LAND_PHOTO').length,
+    records: saved.filter(media => media.purpose === 'LAND_RECORD').length
+  };
+}
+
+/**
+ * Keep a land photo or land record sent during verification
+ */
+async function saveLandDocument({ user, message }: FlowContext): Promise<FlowActionResult> {
+  const mediaId = message.attachment?.mediaId;
+  if (!mediaId) {
+    return { reply: `Sorry, we couldn't receive that file. Could you send it again?` };
+  }
+
+  await whatsappMediaService.setPurpose(mediaId, message.attachment?.kind === 'image' ? 'LAND_PHOTO' : 'LAND_RECORD');
+
+  const { photos, records } = await countLandDocuments(user.phoneNumber);
+
+  return {
+    reply: `✅ Saved! So far: ${photos} photo${photos !== 1 ? 's' : ''}, ${records} land record${records !== 1 ? 's' : ''}.
+
+${records === 0 ? 'Please also send your land record (khatian, parcha, 7/12 or patta).' : 'Send more, or reply DONE when you\'ve sent everything.'}`
+  };
+}
+
+async function finishLandVerification({ user }: FlowContext): Promise<FlowActionResult> {
+  const { photos, records } = await countLandDocuments(user.phoneNumber);
+
+  if (photos === 0 || records === 0) {
+    return {
+      reply: `We still need ${photos === 0 ? 'at least one photo of your land' : 'your land record'} before we can verify it 🙂`
+    };
+  }
+
+  return {
+    next: 'SIP_PACKAGE_SELECTION',
+    reply: `🙌 Thanks! We've got ${photos} photo${photos !== 1 ? 's' : ''} and ${records} land record${records !== 1 ? 's' : ''}.
+
+Our agronomist will review them within 2 working days and message you here.
+
+Meanwhile:
+B) Start your ₹10k daily SIP
+C) Get detailed proposal`
+  };
+}
+
+/**
+ * A contextual answer for messages the flow has no step for, followed by the menu
+ */
+async function aiFallback({ user, message }: FlowContext): Promise<FlowActionResult> {
+  // Get user context for personalized response
+  const userData = await prisma.whatsAppUser.findUnique({
+    where: { phoneNumber: user.phoneNumber },
+    include: {
+      sipInvestments: true,
+      berryPlots: { where: { status: { not: 'DEALLOCATED' } } }
+    }
+  });
+
+  const hasActiveSIP = userData?.sipInvestments?.some(sip => sip.status === 'ACTIVE');
+  const totalPlants = userData?.berryPlots?.reduce((sum, plot) => sum + plot.plantCount, 0) || 0;
+
+  return {
+    next: 'SELECTING_SERVICE',
+    reply: `${contextualResponse(message.text.toLowerCase(), !!hasActiveSIP, totalPlants)}
+
+Need specific help?
+1️⃣ Learn about berry SIP
+2️⃣ Start investing
+3️⃣ Show my plots
+4️⃣ Talk to human
+
+Reply 1, 2, 3, or 4`
+  };
+}
+
+// Simple contextual responses based on message content
+function contextualResponse(message: string, hasActiveSIP: boolean, totalPlants: number): string {
+  if (message.includes('help') || message.includes('what') || message.includes('how')) {
+    return hasActiveSIP
+      ? `You're already growing ${totalPlants} plants! I can help with your berry journey.`
+      : `I'm here to help you start your berry farming adventure! ₹10k daily gets you 100 plants monthly.`;
+  }
+
+  if (message.includes('price') || message.includes('cost') || message.includes('money')) {
+    return `Our daily SIP is ₹10,000 per day (₹3L monthly) for 100 blueberry plants including complete setup.`;
+  }
+
+  if (message.includes('darjeeling') || message.includes('tea') || message.includes('estate')) {
+    return `Darjeeling tea estate partnerships launching Q2 2025! For now, we work on your own land.`;
+  }
+
+  if (message.includes('location') || message.includes('where') || message.includes('land')) {
+    return `We work across India, but North Bengal (especially Darjeeling) is ideal for blueberry farming.`;
+  }
+
+  if (message.includes('return') || message.includes('profit') || message.includes('dividend')) {
+    return `Dividends start Year 3: ₹8k-25k annually per 100 plants. Plus farm stays, berry boxes & tours!`;
+  }
+
+  if (message.includes('thanks') || message.includes('thank')) {
+    return `You're berry welcome! 🫐`;
+  }
+
+  if (message.includes('bye') || message.includes('goodbye')) {
+    return `Bye! Your berry empire awaits whenever you're ready! 👋`;
+  }
+
+  // Default conversational response
+  return hasActiveSIP
+    ? `I didn't quite catch that, but I see you're already part of our berry family! 🫐`
+    : `I didn't quite understand that, but I'd love to help you explore blueberry farming! 🌱`;
+}
+
+export const FLOW_ACTIONS: Record<string, FlowAction> = {
+  showStats,
+  startSIP,
+  requestHuman,
+  registerDarjeelingInterest,
+  analyseLocation,
+  saveLandDocument,
+  finishLandVerification,
+  aiFallback
+};
@@ -0,0 +1,364 @@
+import { prisma } from '@/lib/prisma';
+import { InteractiveChoice } from '@/types/whatsapp';
+
+/**
+ * WhatsApp conversations as data. A flow is a set of named states; each state
+ * has a prompt (what we say on entering it) and decides the reply to the next
+ * message through, in order: its options (fixed replies such as "A" or "2"),
+ * its input step (free text, validated and saved to the profile) and its
+ * fallback. The runtime stores the current state on WhatsAppUser.state.
+ * Options with a title are also offered as reply buttons or a list. Files and
+ * shared contacts go to the state's attachment step instead.
+ */
+
+// Profile columns an input step may fill in
+export type ProfileField = 'name' | 'email' | 'location';
+
+export interface FlowUser {
+  phoneNumber: string;
+  state: string;
+  name?: string | null;
+  email?: string | null;
+  location?: string | null;
+}
+
+export interface FlowMessage {
+  text: string;
+  location?: { latitude: number; longitude: number };
+  choiceId?: string; // Id of a tapped reply button or list row
+  attachment?: FlowAttachment;
+}
+
+export type AttachmentKind = 'image' | 'document' | 'audio' | 'video' | 'sticker' | 'contacts';
+
+export interface FlowAttachment {
+  kind: AttachmentKind;
+  mediaId?: string; // Stored WhatsAppMedia.id, for files
+  caption?: string;
+  voice?: boolean; // A recorded voice note rather than an audio file
+  contacts?: Array<{ name: string; phone?: string }>;
+}
+
+export interface FlowReply {
+  text: string;
+  choices: InteractiveChoice[]; // Titled options of the state the user is left in
+}
+
+export interface FlowContext {
+  user: FlowUser;
+  message: FlowMessage;
+  value: string | null; // The validated input, for input steps
+}
+
+export type Prompt = string | ((context: FlowContext) => string | Promise<string>);
+
+export interface FlowActionResult {
+  reply?: string;
+  next?: string; // Overrides the step's own transition
+  profile?: Partial<Record<ProfileField, string>>;
+}
+
+export type FlowAction = (context: FlowContext) => Promise<FlowActionResult>;
+
+export type FlowValidator = (text: string) => { value: string } | { error: string };
+
+/**
+ * What happens once a message has been matched. The reply is, in order: the
+ * action's reply, the step's own reply, or the prompt of the state moved to.
+ */
+export interface FlowStep {
+  next?: string;
+  reply?: Prompt;
+  action?: string; // Name in the action registry
+}
+
+export interface FlowOption extends FlowStep {
+  id: string; // What the customer replies, matched case-insensitively
+  aliases?: string[];
+  title?: string; // Label when offered as a button or list row
+  description?: string; // Shown under the title in a list
+}
+
+export interface FlowInputStep extends FlowStep {
+  validate?: string; // Name in the validator registry
+  save?: ProfileField;
+  skipIfSet?: boolean; // Enter the next state straight away when the field is already known
+}
+
+export interface FlowAttachmentStep extends FlowStep {
+  accept: AttachmentKind[];
+}
+
+export interface FlowState {
+  prompt?: Prompt;
+  options?: FlowOption[];
+  input?: FlowInputStep;
+  attachment?: FlowAttachmentStep;
+  fallback?: FlowStep;
+}
+
+export interface ConversationFlow {
+  initial: string;
+  states: Record<string, FlowState>;
+  unknownState: FlowStep; // For users parked in a state the flow no longer has
+  unhandledAttachment?: FlowStep; // For files and contacts a state does not accept, instead of its fallback
+}
+
+export const FLOW_VALIDATORS: Record<string, FlowValidator> = {
+  name: (text) => {
+    const name = text.trim().replace(/\s+/g, ' ');
+    return name.length >= 2 && name.length <= 100 && /\p{L}/u.test(name)
+      ? { value: name }
+      : { error: `Please share your full name (as per PAN/Aadhaar) 🙂` };
+  },
+
+  // Customers often send "email, phone" together, so take the first part that looks like an email
+  email: (text) => {
+    const email = text.split(/[\s,;]+/).find(part => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(part));
+    return email
+      ? { value: email.toLowerCase() }
+      : { error: `Hmm, that email doesn't look right. Please send it like: john@email.com` };
+  }
+};
+
+// Guards against skipIfSet states pointing at each other
+const MAX_SKIPS = 10;
+
+// Graph API limits on what a state may offer as buttons or a list
+const MAX_BUTTONS = 3;
+const MAX_CHOICES = 10;
+const MAX_BUTTON_TITLE = 20;
+const MAX_LIST_TITLE = 24;
+const MAX_LIST_DESCRIPTION = 72;
+
+// Choices carry their state so a tap on an older message still finds its option
+const choiceId = (state: string, option: FlowOption) => `${state}:${option.id}`;
+
+const normalise = (text: string) => text.trim().toUpperCase().replace(/[.!]+$/, '');
+
+/**
+ * Check that every transition, action and validator a flow names exists.
+ * Returns the problems found, empty when the flow is sound.
+ */
+export function validateFlow(
+  flow: ConversationFlow,
+  actions: Record<string, FlowAction>,
+  validators: Record<string, FlowValidator> = FLOW_VALIDATORS
+): string[] {
+  const problems: string[] = [];
+
+  const checkStep = (where: string, step: FlowStep | undefined) => {
+    if (!step) return;
+    if (step.next && !flow.states[step.next]) {
+      problems.push(`${where}: unknown state ${step.next}`);
+    }
+    if (step.action && !actions[step.action]) {
+      problems.push(`${where}: unknown action ${step.action}`);
+    }
+  };
+
+  if (!flow.states[flow.initial]) {
+    problems.push(`initial: unknown state ${flow.initial}`);
+  }
+  checkStep('unknownState', flow.unknownState);
+  checkStep('unhandledAttachment', flow.unhandledAttachment);
+
+  for (const [name, state] of Object.entries(flow.states)) {
+    const replies = new Set<string>();
+    const titled = (state.options || []).filter(option => option.title);
+    const maxTitle = titled.length <= MAX_BUTTONS ? MAX_BUTTON_TITLE : MAX_LIST_TITLE;
+
+    if (titled.length > MAX_CHOICES) {
+      problems.push(`${name}: more than ${MAX_CHOICES} titled options`);
+    }
+    for (const option of titled) {
+      if (option.title!.length > maxTitle) {
+        problems.push(`${name} option ${option.id}: title longer than ${maxTitle} characters`);
+      }
+      if (option.description && option.description.length > MAX_LIST_DESCRIPTION) {
+        problems.push(`${name} option ${option.id}: description longer than ${MAX_LIST_DESCRIPTION} characters`);
+      }
+    }
+
+    for (const option of state.options || []) {
+      checkStep(`${name} option ${option.id}`, option);
+
+      for (const reply of [option.id, ...(option.aliases || [])].map(normalise)) {
+        if (replies.has(reply)) {
+          problems.push(`${name}: ${reply} matches more than one option`);
+        }
+        replies.add(reply);
+      }
+    }
+
+    checkStep(`${name} input`, state.input);
+    checkStep(`${name} attachment`, state.attachment);
+    checkStep(`${name} fallback`, state.fallback);
+
+    if (state.input?.validate && !validators[state.input.validate]) {
+      problems.push(`${name} input: unknown validator ${state.input.validate}`);
+    }
+    if (state.input?.skipIfSet && (!state.input.save || !state.input.next)) {
+      problems.push(`${name} input: skipIfSet needs save and next`);
+    }
+    if (!state.options && !state.input && !state.attachment && !state.fallback) {
+      problems.push(`${name}: no way to answer a message`);
+    }
+  }
+
+  return problems;
+}
+
+export class ConversationEngine {
+  private flow: ConversationFlow;
+  private actions: Record<string, FlowAction>;
+  private validators: Record<string, FlowValidator>;
+
+  constructor(
+    flow: ConversationFlow,
+    actions: Record<string, FlowAction>,
+    validators: Record<string, FlowValidator> = FLOW_VALIDATORS
+  ) {
+    this.flow = flow;
+    this.actions = actions;
+    this.validators = validators;
+  }
+
+  /**
+   * Answer a message from wherever the user is in the flow, and persist the
+   * state and any profile fields it collected. Returns null when there is
+   * nothing to say.
+   */
+  async handleMessage(user: FlowUser, message: FlowMessage): Promise<FlowReply | null> {
+    const context: FlowContext = { user: { ...user }, message, value: null };
+
+    // A user may already have given what their state asks for, e.g. a name collected at login
+    let current = this.flow.states[user.state] ? this.resolveState(user.state, user) : null;
+
+    // A tapped button answers the state it was sent from, even if the user has moved on since
+    const chosen = message.choiceId ? this.findChoice(message.choiceId) : null;
+    if (chosen) {
+      current = chosen.state;
+    }
+
+    const state = current ? this.flow.states[current] : undefined;
+
+    let step: FlowStep | undefined;
+    let profile: Partial<Record<ProfileField, string>> = {};
+
+    if (!state || !current) {
+      step = this.flow.unknownState;
+    } else if (message.attachment) {
+      // A caption is not an answer, so attachments never match options or input
+      step = state.attachment?.accept.includes(message.attachment.kind)
+        ? state.attachment
+        : this.flow.unhandledAttachment ?? state.fallback;
+    } else {
+      const reply = normalise(message.text);
+      step = chosen?.option ?? state.options?.find(option =>
+        normalise(option.id) === reply || option.aliases?.some(alias => normalise(alias) === reply)
+      );
+
+      if (!step && state.input) {
+        const validator = state.input.validate ? this.validators[state.input.validate] : null;
+        const result = validator ? validator(message.text) : { value: message.text.trim() };
+
+        if ('error' in result) {
+          return { text: result.error, choices: this.choices(current) };
+        }
+
+        context.value = result.value;
+        if (state.input.save) {
+          profile[state.input.save] = result.value;
+        }
+        step = state.input;
+      }
+
+      step = step || state.fallback;
+    }
+
+    if (!step) {
+      return null;
+    }
+
+    Object.assign(context.user, profile);
+
+    const result: FlowActionResult = step.action ? await this.runAction(step.action, context) : {};
+    profile = { ...profile, ...result.profile };
+    Object.assign(context.user, result.profile);
+
+    const next = result.next ?? step.next;
+    const nextState = next ? this.resolveState(next, context.user) : current;
+
+    let reply: string | null = result.reply ?? null;
+    if (reply === null && step.reply) {
+      reply = await this.render(step.reply, context);
+    }
+    const nextPrompt = next && nextState ? this.flow.states[nextState].prompt : undefined;
+    if (reply === null && nextPrompt) {
+      reply = await this.render(nextPrompt, context);
+    }
+
+    const data: Partial<Record<ProfileField | 'state', string>> = { ...profile };
+    if (nextState && nextState !== user.state) {
+      data.state = nextState;
+    }
+
+    if (Object.keys(data).length > 0) {
+      await prisma.whatsAppUser.update({
+        where: { phoneNumber: user.phoneNumber },
+        data
+      });
+    }
+
+    return reply === null ? null : { text: reply, choices: nextState ? this.choices(nextState) : [] };
+  }
+
+  private findChoice(id: string): { state: string; option: FlowOption } | null {
+    const separator = id.lastIndexOf(':');
+    const state = id.slice(0, separator);
+    const option = this.flow.states[state]?.options?.find(candidate => choiceId(state, candidate) === id);
+
+    return separator > 0 && option ? { state, option } : null;
+  }
+
+  private choices(state: string): InteractiveChoice[] {
+    return (this.flow.states[state].options || [])
+      .filter(option => option.title)
+      .map(option => ({ id: choiceId(state, option), title: option.title!, description: option.description }));
+  }
+
+  // Follow skipIfSet states whose field the user has already given us
+  private resolveState(name: string, user: FlowUser): string {
+    let resolved = name;
+
+    for (let skips = 0; skips < MAX_SKIPS; skips++) {
+      const input = this.flow.states[resolved]?.input;
+
+      if (!input?.skipIfSet || !input.save || !input.next || !user[input.save]) {
+        break;
+      }
+      resolved = input.next;
+    }
+
+    if (!this.flow.states[resolved]) {
+      throw new Error(`Invalid flow: unknown state ${resolved}`);
+    }
+
+    return resolved;
+  }
+
+  private async runAction(name: string, context: FlowContext): Promise<FlowActionResult> {
+    const action = this.actions[name];
+
+    if (!action) {
+      throw new Error(`Invalid flow: unknown action ${name}`);
+    }
+
+    return action(context);
+  }
+
+  private async render(prompt: Prompt, context: FlowContext): Promise<string> {
+    return typeof prompt === 'function' ? prompt(context) : prompt;
+  }
+}
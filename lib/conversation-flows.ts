@@ -0,0 +1,283 @@
+import type { ConversationFlow, FlowContext } from '@/lib/conversation-engine';
+import { DailySIPCalculator } from '@/lib/daily-sip-calculator';
+
+// The bot's conversation. States are stored on WhatsAppUser.state, so renaming
+// one strands users who are in it; add a new state and retire the old one instead.
+
+// The bot stays quiet in this state while an agent answers from the admin inbox
+export const HUMAN_HANDOFF_STATE = 'HUMAN_HANDOFF';
+
+export const WELCOME_MESSAGE = `Hey hey! 👋
+Welcome to **Darjberry** — where we turn your ₹10k daily into sweet, tax-free blueberry farms 🌱
+
+What can I help with today?
+
+1. How does this berry SIP thing work?
+2. I want in! Let's start investing
+3. Show me my berry plots
+4. Talk to a real person (preferably with opposable thumbs)
+
+Reply with a number or just tell me what's on your mind 😄
+Want harvest news and offers too? Reply SUBSCRIBE.`;
+
+const dividendRange = (range: { min: number; max: number }, separator: string = '-') =>
+  `₹${(range.min / 1000).toFixed(0)}k${separator}₹${(range.max / 1000).toFixed(0)}k`;
+
+const showNumbers = () => {
+  const calculation = DailySIPCalculator.calculate(10000);
+  const monthlyPlants = DailySIPCalculator.calculate(10000, 30).plantsAllocated;
+
+  return `Numbers! My favorite bedtime story 📈
+
+**Your Daily Investment:**
+• ₹10,000/day (₹3 lakh/month)
+• ${monthlyPlants} plants per month including setup
+
+**What You Get:**
+• Plants on your own land (we provide everything else)
+• Annual dividends from Year 3:
+  - Year 3: ${dividendRange(calculation.expectedDividends.year3)} per 100 plants
+  - Year 4: ${dividendRange(calculation.expectedDividends.year4)}
+  - Year 5: ${dividendRange(calculation.expectedDividends.year5)}
+• 100% tax-free returns!
+
+**Bonus Perks:**
+🏡 Annual farm stay worth ₹25,000
+📦 Quarterly berry boxes worth ₹12,000
+🍃 Tea estate tours worth ₹8,000
+
+Ready to start?
+Reply START`;
+};
+
+const showProposal = () => {
+  const calculation = DailySIPCalculator.calculate(10000);
+  const monthlyPlants = DailySIPCalculator.calculate(10000, 30).plantsAllocated;
+
+  return `📊 **Detailed Darjberry Proposal**
+
+**Investment Structure:**
+💰 Daily: ₹10,000
+📅 Monthly: ₹3,00,000
+📈 Annual: ₹36,50,000
+
+**Plant Allocation:**
+🌱 ${monthlyPlants} plants per month including:
+- Premium Emerald/Jewel variety plants
+- Complete polyhouse setup
+- Soil preparation & pH adjustment
+- Drip irrigation system
+- Expert consultation
+
+**Expected Returns (per 100 plants):**
+Year 3: ${dividendRange(calculation.expectedDividends.year3, ' - ')}
+Year 4: ${dividendRange(calculation.expectedDividends.year4, ' - ')}
+Year 5: ${dividendRange(calculation.expectedDividends.year5, ' - ')}
+
+**Member Benefits:**
+🏡 Annual farm stay (₹25,000 value)
+📦 Quarterly berry boxes (₹12,000 value)
+🍃 Tea estate tours (₹8,000 value)
+
+Ready to start?
+Reply START to begin payment setup!`;
+};
+
+const acknowledgeAttachment = ({ message }: FlowContext) => {
+  const attachment = message.attachment;
+
+  if (attachment?.kind === 'audio' && attachment.voice) {
+    return `🎙️ Thanks for the voice note! I can only read text for now, so our team will listen to it and get back to you during business hours (9 AM - 6 PM).
+
+Reply HELP to see what I can do.`;
+  }
+
+  if (attachment?.kind === 'contacts') {
+    const names = (attachment.contacts || []).map(contact => contact.name).join(', ');
+    return `📇 Thanks for sharing ${names || 'that contact'}! Our team will reach out and let them know you referred them 🫐`;
+  }
+
+  if (attachment?.kind === 'sticker') {
+    return `🫐`;
+  }
+
+  if (!attachment?.mediaId) {
+    return `Sorry, we couldn't receive that file. Could you send it again?`;
+  }
+
+  return `📎 Got it, thanks! We've saved it to your profile.
+
+Want us to check your land? Choose "Verify my land" after sharing your location, or reply HELP.`;
+};
+
+export const DARJBERRY_FLOW: ConversationFlow = {
+  initial: 'NEW',
+
+  // Users left in states from older versions of the bot get a helpful answer and the menu
+  unknownState: { action: 'aiFallback' },
+
+  unhandledAttachment: { reply: acknowledgeAttachment },
+
+  states: {
+    NEW: {
+      fallback: { next: 'SELECTING_SERVICE' }
+    },
+
+    SELECTING_SERVICE: {
+      prompt: WELCOME_MESSAGE,
+      options: [
+        { id: '1', title: 'How it works', description: 'The berry SIP in a minute', next: 'SIP_EXPLANATION' },
+        { id: '2', title: 'Start investing', description: '₹10k daily, 100 plants a month', next: 'SIP_ONBOARDING' },
+        { id: '3', title: 'My berry plots', description: 'Your SIP, plants and dividends', action: 'showStats' },
+        {
+          id: '4',
+          title: 'Talk to a person',
+          description: 'Our team replies 9 AM - 6 PM',
+          action: 'requestHuman',
+          next: HUMAN_HANDOFF_STATE,
+          reply: `Alright, I'm connecting you to a real human. They don't have my charm, but they have opposable thumbs 🫶
+
+Our team will reply right here during business hours (9 AM - 6 PM). Go ahead and tell them what you need!`
+        }
+      ],
+      fallback: {
+        reply: `Oops! I didn't quite get that. Maybe try a number (1-4) or say "help"? I've had too many berries today 😅`
+      }
+    },
+
+    // Agents answer until they hand the conversation back from the inbox
+    [HUMAN_HANDOFF_STATE]: {
+      fallback: {}
+    },
+
+    SIP_EXPLANATION: {
+      prompt: `Ah, curious about our berry magic? Let me break it down! 🫐
+
+We're a co-op. A proper, legal, tax-free, multi-state _let's-grow-berries-together_ kind of gang.
+
+Here's the deal:
+💰 You invest ₹10,000/day (₹3 lakh/month)
+🌱 We provide 100 plants/month including complete setup
+💸 You get dividends from Year 3 (₹8k-25k per 100 plants annually)
+🎉 Plus: Free farm stays, berry boxes & tea estate tours!
+
+Best part? It's 100% tax-free agricultural income under Section 10(1)!
+
+Want to know more?
+A) Why blueberries? (Hint: Bryan Johnson eats them daily)
+B) Show me the numbers 📊
+C) I'm ready to join!
+
+Reply A, B, or C`,
+      options: [
+        {
+          id: 'A',
+          title: 'Why blueberries?',
+          reply: `Ooh, you want the juicy health secrets! 🧬
+
+Blueberries are basically time machines for your cells. Here's why:
+
+🫐 **Anthocyanins**: Nature's anti-aging ninjas
+⚡ **Pterostilbene**: Better than resveratrol (sorry, red wine)
+🧠 **Brain boost**: Improves memory & cognition
+💪 **Longevity**: Studies show 3.23 years biological age reduction!
+
+Bryan Johnson (the "don't die" guy) eats 70g daily. His 800k+ followers are going berry crazy!
+
+Fun fact: Our berries test 2x higher in antioxidants than imported ones. Because North Bengal soil is magical ✨
+
+Ready to invest in your health AND wealth?
+Reply YES to start!`
+        },
+        { id: 'B', title: 'Show me the numbers', reply: showNumbers },
+        { id: 'C', title: "I'm ready to join!", aliases: ['START', 'YES'], next: 'SIP_ONBOARDING' }
+      ],
+      fallback: {
+        reply: `Please choose A, B, or C. Or if you're ready to join, just reply "START"!`
+      }
+    },
+
+    SIP_ONBOARDING: {
+      prompt: `Berry nice! Let's get you started 🌱
+
+This'll take 5 minutes. Less time than scrolling Instagram!
+
+**Step 1**: What's your full name?
+(as per PAN/Aadhaar — no nicknames like "CryptoKing007", please)`,
+      input: { validate: 'name', save: 'name', skipIfSet: true, next: 'SIP_ONBOARDING_EMAIL' }
+    },
+
+    SIP_ONBOARDING_EMAIL: {
+      prompt: ({ user }) => `Perfect, ${user.name}! Welcome to the berry family 🫐
+
+**Step 2**: Your email + phone number?
+(We promise not to spam. Just berry important updates!)
+
+Example: john@email.com, 9876543210`,
+      input: { validate: 'email', save: 'email', skipIfSet: true, next: 'LOCATION_ANALYSIS' }
+    },
+
+    LOCATION_ANALYSIS: {
+      prompt: `**Step 3**: Share your location so we can analyze land suitability for blueberry farming!
+
+🌍 Tap the 📍 attachment button to share your location
+
+Or tell us your city/area: (e.g., "Mumbai", "Darjeeling", "Bangalore")`,
+      input: { action: 'analyseLocation' }
+    },
+
+    SIP_PACKAGE_SELECTION: {
+      options: [
+        { id: 'A', title: 'Darjeeling estates', action: 'registerDarjeelingInterest' },
+        { id: 'B', title: 'Start my SIP', aliases: ['START'], action: 'startSIP' },
+        { id: 'C', title: 'Detailed proposal', reply: showProposal },
+        { id: 'D', title: 'Verify my land', next: 'LAND_VERIFICATION' }
+      ],
+      // Land photos and records sent straight away start verification
+      attachment: { accept: ['image', 'document'], action: 'saveLandDocument', next: 'LAND_VERIFICATION' },
+      fallback: {
+        reply: `Please choose A, B, C, or D to continue your berry journey! 🫐`
+      }
+    },
+
+    LAND_VERIFICATION: {
+      prompt: `📸 **Land verification**
+
+Send us, one by one:
+• 2-3 photos of your land (the whole plot, the soil and any water source)
+• Your land record (khatian, parcha, 7/12 extract or patta) as a photo or PDF
+
+Our agronomist will review them before your plants are allocated.
+
+Reply DONE when you've sent everything.`,
+      options: [
+        { id: 'DONE', title: "I've sent everything", action: 'finishLandVerification' }
+      ],
+      attachment: { accept: ['image', 'document'], action: 'saveLandDocument' },
+      fallback: {
+        reply: `Please send photos of your land or your land record, or reply DONE when you've sent everything.`
+      }
+    },
+
+    MEMBER_DASHBOARD: {
+      options: [
+        { id: '3', action: 'showStats' }
+      ],
+      fallback: {
+        reply: `Welcome back, berry boss! 👑
+
+Your daily SIP is growing beautifully! 🌱
+
+Reply STATS to see your full dashboard`
+      }
+    },
+
+    DARJEELING_INTEREST: {
+      fallback: {
+        reply: `🔔 Thanks for your interest in our Darjeeling Tea Estate Program!
+
+You'll be notified as soon as we launch. Keep growing berries! 🫐`
+      }
+    }
+  }
+};
@@ -1,9 +1,11 @@
+import { ALLOCATION_RULES, plantsForAmount, plotsForPlants, amountForPlants } from '@/lib/plant-allocation';
+
 export interface DailySIPCalculation {
   dailyAmount: number;
   monthlyAmount: number; // dailyAmount * 30
   annualAmount: number;  // dailyAmount * 365
   totalInvestment: number;
-  plantsAllocated: number; // 100 plants per ₹10k daily
+  plantsAllocated: number; // 100 plants per ₹3L invested, see ALLOCATION_RULES
   landRequirement: string; // "Your own land" or "Coming soon: Darjeeling lease"
   expectedDividends: {
     year3: { min: number; max: number };
@@ -24,8 +26,6 @@ export interface DailySIPCalculation {
 }
 
 export class DailySIPCalculator {
-  private static readonly PLANTS_PER_MONTH = 100; // 100 plants per month including setup
-  private static readonly MONTHLY_INVESTMENT_FOR_100_PLANTS = 300000; // ₹3 lakhs per month for 100 plants
   private static readonly ANNUAL_FARM_STAY_VALUE = 25000; // Premium Darjeeling stay
   private static readonly ANNUAL_BERRY_BOX_VALUE = 12000; // Premium berries
   private static readonly TEA_ESTATE_TOUR_VALUE = 8000; // Exclusive tea estate access
@@ -35,9 +35,8 @@ export class DailySIPCalculator {
     const annualAmount = dailyAmount * 365;
     const totalInvestment = dailyAmount * days;
     
-    // Plant allocation: 100 plants per ₹3 lakh monthly (₹10k daily)
-    const monthsOfInvestment = Math.floor(totalInvestment / this.MONTHLY_INVESTMENT_FOR_100_PLANTS);
-    const plantsAllocated = monthsOfInvestment * this.PLANTS_PER_MONTH;
+    // Same rule the payment webhook allocates by
+    const plantsAllocated = plantsForAmount(totalInvestment);
     
     // Calculate dividends based on plants (not plots)
     const expectedDividends = {
@@ -93,8 +92,7 @@ export class DailySIPCalculator {
   }
   
   static calculatePlotAllocation(totalInvested: number): number {
-    const PLOT_COST = 50000; // ₹50,000 per plot
-    return Math.floor(totalInvested / PLOT_COST);
+    return plotsForPlants(plantsForAmount(totalInvested));
   }
   
   static getNextPlotMilestone(totalInvested: number): {
@@ -103,7 +101,7 @@ export class DailySIPCalculator {
     daysToGo: number;
   } {
     const currentPlots = this.calculatePlotAllocation(totalInvested);
-    const PLOT_COST = 50000; // ₹50,000 per plot
+    const PLOT_COST = amountForPlants(ALLOCATION_RULES.PLANTS_PER_PLOT);
     const nextPlotCost = (currentPlots + 1) * PLOT_COST;
     const amountNeeded = nextPlotCost - totalInvested;
     
@@ -0,0 +1,148 @@
+import { DARJBERRY_CONSTANTS, formatCurrency } from '@/lib/shared-constants';
+
+export interface InvoiceData {
+  invoiceNumber: string;
+  issuedAt: Date;
+  paidAt: Date;
+  customerName: string | null;
+  customerEmail: string | null;
+  phoneNumber: string;
+  orderId: string;
+  paymentReference: string | null;
+  planName: string;
+  amount: number;
+  plantsAllocated: number;
+}
+
+/**
+ * Indian financial year (April to March) a date falls in, e.g. "2025-26"
+ */
+export function getFinancialYear(date: Date): string {
+  // Invoices follow the IST calendar
+  const ist = new Date(date.getTime() + 5.5 * 60 * 60 * 1000);
+  const year = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+}
+
+export function formatInvoiceNumber(financialYear: string, sequence: number): string {
+  return `DJB/${financialYear}/${String(sequence).padStart(5, '0')}`;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Label/value rows shared by the HTML and PDF layouts
+function getInvoiceRows(invoice: InvoiceData): Array<[string, string]> {
+  return [
+    ['Invoice number', invoice.invoiceNumber],
+    ['Invoice date', formatDate(invoice.issuedAt)],
+    ['Billed to', invoice.customerName || 'Darjberry member'],
+    ['Phone', `+${invoice.phoneNumber}`],
+    ...(invoice.customerEmail ? [['Email', invoice.customerEmail] as [string, string]] : []),
+    ['Plan', invoice.planName],
+    ['Payment date', formatDate(invoice.paidAt)],
+    ['Order ID', invoice.orderId],
+    ...(invoice.paymentReference ? [['Payment reference', invoice.paymentReference] as [string, string]] : []),
+    ['Plants allocated', String(invoice.plantsAllocated)],
+    ['Amount paid', formatCurrency(invoice.amount)]
+  ];
+}
+
+/**
+ * Render the receipt as a standalone HTML page
+ */
+export function renderInvoiceHtml(invoice: InvoiceData): string {
+  const rows = getInvoiceRows(invoice)
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('\n        ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #1f2937; max-width: 640px; margin: 40px auto; }
+    h1 { font-size: 20px; margin-bottom: 4px; }
+    .company { color: #6b7280; font-size: 13px; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; padding: 8px 0; border-bottom: 1px solid #e5e7eb; font-size: 14px; }
+    th { color: #6b7280; font-weight: normal; width: 40%; }
+    .footer { margin-top: 24px; font-size: 12px; color: #6b7280; }
+  </style>
+</head>
+<body>
+  <h1>Receipt cum Invoice</h1>
+  <div class="company">
+    ${escapeHtml(DARJBERRY_CONSTANTS.COMPANY_NAME)}<br>
+    ${escapeHtml(DARJBERRY_CONSTANTS.COMPANY_ADDRESS)}<br>
+    WhatsApp: +${DARJBERRY_CONSTANTS.WHATSAPP_NUMBER}
+  </div>
+  <table>
+    <tbody>
+        ${rows}
+    </tbody>
+  </table>
+  <p class="footer">This is a computer-generated receipt and does not require a signature.</p>
+</body>
+</html>`;
+}
+
+// The built-in PDF fonts only cover Latin-1, so the rupee sign is spelt out
+const toPdfText = (value: string) =>
+  value
+    .replace(/₹/g, 'Rs. ')
+    .replace(/[^\x20-\x7e]/g, '')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+/**
+ * Render the receipt as a single-page PDF using the standard Helvetica fonts
+ */
+export function renderInvoicePdf(invoice: InvoiceData): Buffer {
+  const commands: string[] = [];
+  const text = (value: string, x: number, y: number, size: number, bold: boolean = false) =>
+    commands.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${y} Td (${toPdfText(value)}) Tj ET`);
+
+  text('Receipt cum Invoice', 50, 780, 18, true);
+  text(DARJBERRY_CONSTANTS.COMPANY_NAME, 50, 756, 10);
+  text(DARJBERRY_CONSTANTS.COMPANY_ADDRESS, 50, 742, 10);
+  text(`WhatsApp: +${DARJBERRY_CONSTANTS.WHATSAPP_NUMBER}`, 50, 728, 10);
+
+  let y = 690;
+  for (const [label, value] of getInvoiceRows(invoice)) {
+    text(label, 50, y, 11);
+    text(value, 230, y, 11, label === 'Amount paid');
+    y -= 22;
+  }
+
+  text('This is a computer-generated receipt and does not require a signature.', 50, y - 20, 9);
+
+  const stream = commands.join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
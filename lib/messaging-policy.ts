@@ -0,0 +1,60 @@
+// Who we may message proactively, and when. Replies to a customer who has just
+// written to us (the bot and the admin inbox) are always sent: they asked.
+
+export type MessageCategory = 'TRANSACTIONAL' | 'MARKETING';
+
+// KEYWORD: replied SUBSCRIBE. Writing to us about something else is not an opt-in.
+export type OptInSource = 'KEYWORD';
+
+export interface ConsentRecord {
+  optedInAt: Date | null;
+  optedOutAt: Date | null;
+}
+
+export interface QuietHours {
+  start: number; // Hour in India Standard Time
+  end: number;
+}
+
+// TRAI's window for promotional messages; all our customers are in India
+export const QUIET_HOURS_IST: QuietHours = { start: 21, end: 9 };
+
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+/**
+ * Whether a customer has agreed to this kind of message. Transactional
+ * messages are about what they bought, so STOP only ends marketing, which
+ * also needs a recorded opt-in.
+ */
+export function hasConsent(user: ConsentRecord | null | undefined, category: MessageCategory): boolean {
+  if (category === 'TRANSACTIONAL') {
+    return true;
+  }
+
+  return !!user?.optedInAt && !user.optedOutAt;
+}
+
+/**
+ * When quiet hours end if now falls inside them, otherwise null
+ */
+export function quietHoursEnd(now: Date = new Date(), quietHours: QuietHours = QUIET_HOURS_IST): Date | null {
+  // Shifted so the UTC fields read as the time in India
+  const local = new Date(now.getTime() + IST_OFFSET_MS);
+  const hour = local.getUTCHours();
+
+  const quiet = quietHours.start > quietHours.end
+    ? hour >= quietHours.start || hour < quietHours.end
+    : hour >= quietHours.start && hour < quietHours.end;
+
+  if (!quiet) {
+    return null;
+  }
+
+  const end = new Date(local);
+  end.setUTCHours(quietHours.end, 0, 0, 0);
+  if (end <= local) {
+    end.setUTCDate(end.getUTCDate() + 1);
+  }
+
+  return new Date(end.getTime() - IST_OFFSET_MS);
+}
@@ -82,6 +82,12 @@ export function requireAuth() {
   };
 }
 
+// Admin access via shared secret until role-based access control lands
+export function isAdminRequest(request: NextRequest): boolean {
+  const adminKey = request.headers.get('x-admin-key');
+  return !!process.env.ADMIN_SECRET_KEY && adminKey === process.env.ADMIN_SECRET_KEY;
+}
+
 // Helper to validate phone numbers in requests
 export function validatePhoneNumber(phoneNumber: string): boolean {
   const cleaned = phoneNumber.replace(/^\+91/, '').replace(/^91/, '');
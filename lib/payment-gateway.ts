@@ -0,0 +1,84 @@
+import {
+  createCashfreeServiceFromEnv,
+  type SubscriptionPlan,
+  type SubscriptionRequest,
+  type SubscriptionAction,
+  type CashfreeSubscriptionResponse,
+  type OrderRequest,
+  type CashfreeOrderResponse,
+  type RefundRequest,
+  type CashfreeRefundResponse
+} from '@/lib/cashfree';
+import { createRazorpayServiceFromEnv } from '@/lib/razorpay';
+
+export type PaymentGatewayName = 'CASHFREE' | 'RAZORPAY';
+
+export const PAYMENT_GATEWAYS: PaymentGatewayName[] = ['CASHFREE', 'RAZORPAY'];
+
+// Plans, SIPs and payments from before gateways were tracked are all Cashfree's
+export const DEFAULT_PAYMENT_GATEWAY: PaymentGatewayName = 'CASHFREE';
+
+/**
+ * What our payment flows need from a gateway. Requests and responses use the
+ * shapes first written for Cashfree; other adapters translate to and from them.
+ */
+export interface PaymentGateway {
+  readonly name: PaymentGatewayName;
+
+  /**
+   * Register a plan; planId in the result is the gateway's reference for it
+   */
+  createSubscriptionPlan(plan: SubscriptionPlan): Promise<{ planId: string }>;
+  createSubscription(subscriptionData: SubscriptionRequest): Promise<CashfreeSubscriptionResponse>;
+  getSubscription(subscriptionId: string): Promise<any>;
+  cancelSubscription(subscriptionId: string): Promise<any>;
+  updateSubscription(subscriptionId: string, updateData: Partial<SubscriptionRequest>): Promise<any>;
+  manageSubscription(subscriptionId: string, action: SubscriptionAction): Promise<any>;
+  createOrder(orderData: OrderRequest): Promise<CashfreeOrderResponse>;
+  getOrder(orderId: string): Promise<CashfreeOrderResponse>;
+  createRefund(orderId: string, refundData: RefundRequest, paymentId?: string | null): Promise<CashfreeRefundResponse>;
+
+  /**
+   * The ID to manage a SIP's subscription by: ours or the gateway's own
+   */
+  getSubscriptionReference(sip: { subscriptionId: string | null; cfSubscriptionId: string | null }): string | null;
+}
+
+export function isPaymentGatewayName(value: unknown): value is PaymentGatewayName {
+  return PAYMENT_GATEWAYS.includes(value as PaymentGatewayName);
+}
+
+/**
+ * The configured gateways, looked up by the name stored on a plan, SIP or payment
+ */
+export class PaymentGatewayRegistry {
+  private gateways: Map<string, PaymentGateway>;
+
+  constructor(gateways: PaymentGateway[]) {
+    this.gateways = new Map(gateways.map(gateway => [gateway.name, gateway]));
+  }
+
+  get(name?: string | null): PaymentGateway {
+    const gateway = this.gateways.get(name || DEFAULT_PAYMENT_GATEWAY);
+
+    if (!gateway) {
+      throw new Error(`Invalid payment gateway: ${name} is not configured`);
+    }
+
+    return gateway;
+  }
+
+  has(name: string): boolean {
+    return this.gateways.has(name);
+  }
+}
+
+export function createPaymentGatewaysFromEnv(): PaymentGatewayRegistry {
+  const gateways: PaymentGateway[] = [createCashfreeServiceFromEnv()];
+
+  if (process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET) {
+    gateways.push(createRazorpayServiceFromEnv());
+  }
+
+  return new PaymentGatewayRegistry(gateways);
+}
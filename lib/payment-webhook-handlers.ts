@@ -0,0 +1,550 @@
+import { prisma } from '@/lib/prisma';
+import { paymentService } from '@/lib/services/paymentService';
+import { refundService } from '@/lib/services/refundService';
+import { dunningService } from '@/lib/services/dunningService';
+import { allocationService } from '@/lib/services/allocationService';
+import { invoiceService } from '@/lib/services/invoiceService';
+import { lumpsumService } from '@/lib/services/lumpsumService';
+import { template, type TemplateMessage } from '@/lib/whatsapp-templates';
+import type { PaymentGatewayName } from '@/lib/payment-gateway';
+
+/**
+ * Apply a verified, deduplicated payment webhook. Events arrive in Cashfree's
+ * shape ({ type, data } with snake_case fields); other gateways' routes
+ * translate theirs first, so every gateway credits, allocates and notifies alike.
+ */
+export async function handlePaymentEvent(gateway: PaymentGatewayName, type: string, data: any): Promise<void> {
+  switch (type) {
+    case 'PAYMENT_SUCCESS':
+      await handlePaymentSuccess(gateway, data);
+      break;
+
+    case 'PAYMENT_FAILED':
+      await handlePaymentFailure(gateway, data);
+      break;
+
+    case 'SUBSCRIPTION_AUTHORIZED':
+      await handleSubscriptionAuthorized(data);
+      break;
+
+    case 'SUBSCRIPTION_ACTIVATED':
+      await handleSubscriptionActivated(data);
+      break;
+
+    case 'SUBSCRIPTION_CANCELLED':
+      await handleSubscriptionCancelled(data);
+      break;
+
+    case 'SUBSCRIPTION_PAUSED':
+      await handleSubscriptionPaused(data);
+      break;
+
+    case 'SUBSCRIPTION_RESUMED':
+      await handleSubscriptionResumed(data);
+      break;
+
+    case 'PAYMENT_RETRY':
+      await handlePaymentRetry(data);
+      break;
+
+    case 'REFUND_SUCCESS':
+      await handleRefundSuccess(data);
+      break;
+
+    case 'REFUND_FAILED':
+    case 'REFUND_CANCELLED':
+      await handleRefundFailure(data);
+      break;
+
+    case 'DISPUTE_CREATED':
+      await handleDisputeCreated(data);
+      break;
+
+    case 'DISPUTE_CLOSED':
+      await handleDisputeClosed(data);
+      break;
+
+    default:
+      console.log(`Unhandled ${gateway} webhook type:`, type);
+  }
+}
+
+async function handlePaymentSuccess(gateway: PaymentGatewayName, paymentData: any) {
+  const { 
+    order_id, 
+    payment_id, 
+    order_amount, 
+    payment_method, 
+    payment_time,
+    subscription_id 
+  } = paymentData;
+
+  console.log('Payment successful:', { order_id, payment_id, order_amount });
+
+  try {
+    // One-time lumpsum orders carry no subscription
+    if (!subscription_id && await lumpsumService.getOrder(order_id)) {
+      await handleLumpsumPaymentSuccess(paymentData);
+      return;
+    }
+
+    const sipInvestment = subscription_id
+      ? await prisma.sIPInvestment.findFirst({ where: { subscriptionId: subscription_id } })
+      : null;
+
+    const amount = parseFloat(order_amount);
+
+    // Ledger entry and credit are written together so a failed delivery can be retried cleanly
+    const result = await prisma.$transaction(async (tx) => {
+      const payment = await paymentService.record({
+        gateway,
+        orderId: order_id,
+        paymentId: payment_id,
+        amount,
+        paymentMethod: payment_method,
+        status: 'SUCCESS',
+        subscriptionId: subscription_id,
+        sipInvestmentId: sipInvestment?.id,
+        phoneNumber: sipInvestment?.phoneNumber,
+        paidAt: new Date(payment_time),
+        rawPayload: paymentData
+      }, tx);
+
+      if (!sipInvestment) return { paymentId: payment.id, credit: null };
+
+      // Update total invested amount
+      await tx.sIPInvestment.update({
+        where: { id: sipInvestment.id },
+        data: {
+          totalInvested: {
+            increment: amount
+          },
+          nextPaymentDate: new Date(Date.now() + 24 * 60 * 60 * 1000) // Next day
+        }
+      });
+
+      // Plants are allocated by the shared rules, carrying part-plant credit forward
+      const allocation = await allocationService.allocatePayment(tx, {
+        paymentId: payment.id,
+        sipInvestmentId: sipInvestment.id,
+        amount,
+        acquisitionDate: new Date(payment_time)
+      });
+
+      // A successful debit ends any dunning cycle and resumes a SIP it paused
+      const resumed = await dunningService.recordRecovery(sipInvestment, payment_id, tx);
+
+      return { paymentId: payment.id, credit: { allocation, resumed } };
+    });
+    const { credit } = result;
+
+    if (sipInvestment && credit?.resumed) {
+      await sendWhatsAppNotification(
+        sipInvestment.phoneNumber,
+        `▶️ Your daily SIP is active again! Thanks for updating your payment.`,
+        template('sip_resumed')
+      );
+    }
+
+    if (sipInvestment && credit) {
+      const { plants, plotNumber, creditAfter } = credit.allocation;
+
+      // Send WhatsApp notification
+      await sendWhatsAppNotification(
+        sipInvestment.phoneNumber,
+        `🎉 Payment successful! ₹${order_amount} processed.
+
+${plants > 0 ? `🌱 ${plants} new plants allocated to your portfolio!
+📍 Plot: ${plotNumber}` : `🌱 Added to your credit towards the next plant`}
+💳 Credit towards next plant: ₹${creditAfter.toLocaleString()}
+💰 Total invested: ₹${(sipInvestment.totalInvested + amount).toLocaleString()}
+
+Your berry empire is growing! 🫐
+
+Reply STATS to see your dashboard.`,
+        template(
+          'sip_payment_success',
+          order_amount,
+          plants,
+          (sipInvestment.totalInvested + amount).toLocaleString()
+        )
+      );
+    }
+
+    if (sipInvestment) {
+      await sendPaymentInvoice(result.paymentId);
+    }
+
+  } catch (error) {
+    console.error('Error handling payment success:', error);
+    throw error;
+  }
+}
+
+async function handleLumpsumPaymentSuccess(paymentData: any) {
+  const { order_id, payment_id, order_amount, payment_method, payment_time } = paymentData;
+
+  const completed = await lumpsumService.completeOrder(order_id, {
+    cfPaymentId: payment_id,
+    amount: parseFloat(order_amount),
+    paymentMethod: payment_method,
+    paidAt: new Date(payment_time),
+    rawPayload: paymentData
+  });
+
+  if (!completed) {
+    console.log('Lumpsum order already completed:', order_id);
+    return;
+  }
+
+  const { order, allocation } = completed;
+
+  if (!allocation) {
+    await refundSoldOutOrder(order, completed.paymentId);
+    return;
+  }
+
+  await sendWhatsAppNotification(
+    order.phoneNumber,
+    `🎉 Payment received! ₹${order.amount.toLocaleString('en-IN')} lumpsum investment confirmed.
+
+🌱 ${allocation.plants} plants allocated
+🏞️ Land: ${allocation.landName} (${allocation.acres.toFixed(2)} acres)
+${allocation.plotNumber ? `📍 Plot: ${allocation.plotNumber}\n` : ''}
+Your receipt is on its way. Welcome to the berry fields! 🫐
+
+Reply STATS to see your dashboard.`,
+    template('lumpsum_payment_success', order.amount.toLocaleString('en-IN'), allocation.plants, allocation.landName),
+    { urgent: true }
+  );
+
+  await sendPaymentInvoice(completed.paymentId);
+}
+
+// The land sold out between checkout and payment: give the money back, or leave it to an admin if the gateway refuses
+async function refundSoldOutOrder(order: { orderId: string; phoneNumber: string; amount: number }, paymentId: string) {
+  try {
+    await refundService.initiate(paymentId, undefined, 'Land sold out before the payment arrived');
+  } catch (error) {
+    console.error('Sold-out lumpsum refund error:', order.orderId, error);
+  }
+
+  await sendWhatsAppNotification(
+    order.phoneNumber,
+    `🙏 We received your ₹${order.amount.toLocaleString('en-IN')} payment, but the land you chose sold out just before it arrived.
+
+💸 Your full payment is being refunded to your original payment method within 5-7 working days.
+
+Reply HELP if you'd like to pick another plot.`,
+    template('lumpsum_refund_due', order.amount.toLocaleString('en-IN')),
+    { urgent: true }
+  );
+}
+
+async function handlePaymentFailure(gateway: PaymentGatewayName, paymentData: any) {
+  const { 
+    order_id, 
+    payment_id,
+    order_amount, 
+    payment_method, 
+    subscription_id,
+    failure_reason 
+  } = paymentData;
+
+  console.log('Payment failed:', { order_id, failure_reason });
+
+  try {
+    const sipInvestment = subscription_id
+      ? await prisma.sIPInvestment.findFirst({ where: { subscriptionId: subscription_id } })
+      : null;
+    const lumpsumOrder = subscription_id ? null : await lumpsumService.getOrder(order_id);
+
+    // A retry after a later step failed finds the failure already in the ledger
+    const recorded = payment_id ? await paymentService.getByPaymentId(payment_id) : null;
+    if (!recorded) {
+      await paymentService.record({
+        gateway,
+        orderId: order_id,
+        paymentId: payment_id,
+        amount: parseFloat(order_amount),
+        paymentMethod: payment_method,
+        status: 'FAILED',
+        failureReason: failure_reason,
+        subscriptionId: subscription_id,
+        sipInvestmentId: sipInvestment?.id,
+        phoneNumber: sipInvestment?.phoneNumber || lumpsumOrder?.phoneNumber,
+        rawPayload: paymentData
+      });
+    }
+
+    if (lumpsumOrder) {
+      await lumpsumService.markFailed(order_id, failure_reason);
+      await sendWhatsAppNotification(
+        lumpsumOrder.phoneNumber,
+        `⚠️ Your ₹${lumpsumOrder.amount.toLocaleString('en-IN')} payment didn't go through${failure_reason ? ` (${failure_reason})` : ''}.
+
+If any amount was debited, your bank will reverse it. You can try again from the checkout page, or reply HELP and our team will assist you.`,
+        template('lumpsum_payment_failed', lumpsumOrder.amount.toLocaleString('en-IN')),
+        { urgent: true }
+      );
+    }
+
+    if (sipInvestment) {
+      // Schedule the retry and send the reminder for this attempt
+      await dunningService.recordFailure(sipInvestment, {
+        paymentId: payment_id,
+        amount: parseFloat(order_amount),
+        reason: failure_reason
+      });
+    }
+
+  } catch (error) {
+    console.error('Error handling payment failure:', error);
+    throw error;
+  }
+}
+
+// The customer approved the mandate; the SIP stays PENDING until the subscription is activated
+async function handleSubscriptionAuthorized(subscriptionData: any) {
+  const { subscription_id } = subscriptionData;
+
+  console.log('Subscription authorised:', subscription_id);
+
+  try {
+    // Nothing is left to authorise, so the link is not offered again
+    await prisma.sIPInvestment.updateMany({
+      where: { subscriptionId: subscription_id, status: 'PENDING' },
+      data: { paymentLink: null }
+    });
+  } catch (error) {
+    console.error('Error handling subscription authorisation:', error);
+  }
+}
+
+async function handleSubscriptionActivated(subscriptionData: any) {
+  const { subscription_id, customer_details } = subscriptionData;
+
+  console.log('Subscription activated:', subscription_id);
+
+  try {
+    await prisma.sIPInvestment.updateMany({
+      where: { subscriptionId: subscription_id },
+      data: { status: 'ACTIVE' }
+    });
+
+    // Send welcome message
+    const phoneNumber = customer_details?.customer_phone;
+    if (phoneNumber) {
+      await sendWhatsAppNotification(
+        phoneNumber,
+        `🎉 Welcome to Darjberry!
+
+Your daily SIP subscription is now ACTIVE! 
+
+✅ Daily investment: ₹10,000
+🌱 Plants allocation starts tomorrow
+📊 Track progress anytime with STATS
+🎁 Welcome berry box shipping soon
+
+You're officially a berry farmer! 🫐
+
+Reply HELP if you need anything.`,
+        template('sip_activated'),
+        { urgent: true }
+      );
+    }
+
+  } catch (error) {
+    console.error('Error handling subscription activation:', error);
+  }
+}
+
+async function handleSubscriptionCancelled(subscriptionData: any) {
+  const { subscription_id, customer_details } = subscriptionData;
+
+  console.log('Subscription cancelled:', subscription_id);
+
+  try {
+    await prisma.sIPInvestment.updateMany({
+      where: { subscriptionId: subscription_id },
+      data: { status: 'CANCELLED' }
+    });
+
+    const phoneNumber = customer_details?.customer_phone;
+    if (phoneNumber) {
+      await sendWhatsAppNotification(
+        phoneNumber,
+        `😢 Your Darjberry SIP has been cancelled.
+
+Your existing plants continue growing and will generate returns from Year 3.
+
+Want to restart anytime?
+🔄 Reply RESTART
+💬 Reply HELP to talk to our team
+
+We'll miss you in the berry fields! 🫐`,
+        template('sip_cancelled')
+      );
+    }
+
+  } catch (error) {
+    console.error('Error handling subscription cancellation:', error);
+  }
+}
+
+async function handleSubscriptionPaused(subscriptionData: any) {
+  const { subscription_id } = subscriptionData;
+
+  await prisma.sIPInvestment.updateMany({
+    where: { subscriptionId: subscription_id },
+    data: { status: 'PAUSED' }
+  });
+}
+
+async function handleSubscriptionResumed(subscriptionData: any) {
+  const { subscription_id } = subscriptionData;
+
+  await prisma.sIPInvestment.updateMany({
+    where: { subscriptionId: subscription_id },
+    data: { status: 'ACTIVE', pausedUntil: null }
+  });
+}
+
+async function handlePaymentRetry(paymentData: any) {
+  const { subscription_id, payment_id, retry_count } = paymentData;
+
+  console.log(`Payment retry ${retry_count} for subscription:`, subscription_id);
+
+  const sipInvestment = subscription_id
+    ? await prisma.sIPInvestment.findFirst({ where: { subscriptionId: subscription_id } })
+    : null;
+
+  // Pausing is left to the dunning grace period rather than the retry count
+  if (sipInvestment) {
+    await dunningService.recordRetry(sipInvestment, retry_count, payment_id);
+  }
+}
+
+async function handleRefundSuccess(refundData: any) {
+  const { payment_id, refund_id, cf_refund_id, refund_amount, refund_note } = refundData;
+
+  console.log('Refund successful:', { payment_id, refund_id, refund_amount });
+
+  const reversal = await refundService.applyRefund({
+    cfPaymentId: payment_id,
+    refundId: refund_id,
+    cfRefundId: cf_refund_id,
+    amount: parseFloat(refund_amount),
+    reason: refund_note
+  });
+
+  if (reversal?.phoneNumber) {
+    await sendWhatsAppNotification(
+      reversal.phoneNumber,
+      `💸 Refund processed
+
+💳 Amount: ₹${reversal.amount.toLocaleString()}
+🌱 Plants released: ${reversal.plantsRemoved}
+
+The money should reach your account in 5-7 working days.
+
+💬 Reply HELP if you have any questions 🫐`,
+      template('refund_processed', reversal.amount.toLocaleString(), reversal.plantsRemoved)
+    );
+  }
+}
+
+async function handleRefundFailure(refundData: any) {
+  const { refund_id, refund_status, status_description } = refundData;
+
+  console.log('Refund not completed:', { refund_id, refund_status });
+
+  await refundService.markRefundFailed(refund_id, status_description || refund_status);
+}
+
+async function handleDisputeCreated(disputeData: any) {
+  const { payment_id, dispute_id, dispute_amount, reason_description } = disputeData;
+
+  console.log('Dispute raised:', { payment_id, dispute_id, dispute_amount });
+
+  const dispute = await refundService.openDispute({
+    cfPaymentId: payment_id,
+    disputeId: dispute_id,
+    amount: parseFloat(dispute_amount),
+    reason: reason_description
+  });
+
+  if (dispute?.phoneNumber) {
+    await sendWhatsAppNotification(
+      dispute.phoneNumber,
+      `⚠️ Your bank has raised a dispute on a ₹${dispute_amount} SIP payment.
+
+The plants from this payment are on hold until the dispute is resolved.
+
+💬 Reply HELP and our team will sort it out with you.`,
+      template('dispute_opened', dispute_amount)
+    );
+  }
+}
+
+async function handleDisputeClosed(disputeData: any) {
+  const { payment_id, dispute_id, dispute_status } = disputeData;
+
+  console.log('Dispute closed:', { payment_id, dispute_id, dispute_status });
+
+  const merchantWon = dispute_status === 'DISPUTE_MERCHANT_WON';
+  const reversal = await refundService.resolveDispute({
+    cfPaymentId: payment_id,
+    disputeId: dispute_id,
+    merchantWon
+  });
+
+  if (reversal?.phoneNumber) {
+    await sendWhatsAppNotification(
+      reversal.phoneNumber,
+      merchantWon
+        ? `✅ The dispute on your SIP payment is closed. Your plants are back in your portfolio! 🫐`
+        : `ℹ️ The dispute on your SIP payment is closed in your bank's favour.
+
+💳 Amount reversed: ₹${reversal.amount.toLocaleString()}
+🌱 Plants released: ${reversal.plantsRemoved}
+
+💬 Reply HELP if you have any questions.`,
+      merchantWon
+        ? template('dispute_won')
+        : template('dispute_lost', reversal.amount.toLocaleString(), reversal.plantsRemoved)
+    );
+  }
+}
+
+// A receipt failure must not fail the payment; admins can reissue it from the payment
+async function sendPaymentInvoice(paymentId: string) {
+  try {
+    const invoice = await invoiceService.issueForPayment(paymentId);
+    await invoiceService.send(invoice);
+  } catch (error) {
+    console.error('Invoice error for payment', paymentId, error);
+  }
+}
+
+// Free-form text while the customer's 24-hour window is open, the template after it closes.
+// Urgent ones answer something the customer just did and skip quiet hours.
+async function sendWhatsAppNotification(
+  phoneNumber: string,
+  message: string,
+  fallback: TemplateMessage,
+  options: { urgent?: boolean } = {}
+) {
+  try {
+    // Import the notification service dynamically to avoid circular dependencies
+    const { whatsappNotificationService } = await import('@/lib/services/whatsappNotificationService');
+    await whatsappNotificationService.send(
+      phoneNumber,
+      { text: message, template: fallback, urgent: options.urgent },
+      'webhook_notification'
+    );
+
+  } catch (error) {
+    console.error('WhatsApp notification error:', error);
+  }
+}
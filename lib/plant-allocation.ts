@@ -0,0 +1,62 @@
+import { DARJBERRY_CONSTANTS } from '@/lib/shared-constants';
+
+// Single source of truth for how money turns into plants, used by the payment
+// webhook, the SIP calculator and the WhatsApp bot
+export const ALLOCATION_RULES = {
+  PRICE_PER_PLANT: 3000, // ₹3 lakh a month (₹10k daily) buys 100 plants
+  PLANTS_PER_PLOT: 100,
+  PLANTS_PER_ACRE: DARJBERRY_CONSTANTS.PLANTS_PER_ACRE
+} as const;
+
+export interface PlantAllocationResult {
+  plants: number;
+  creditBefore: number;
+  creditAfter: number; // Left over for the next payment
+}
+
+// Work in paise so repeated credits don't drift
+const toPaise = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Whole plants an amount buys, ignoring any carried credit
+ */
+export function plantsForAmount(amount: number): number {
+  return allocatePlants(amount).plants;
+}
+
+/**
+ * Allocate plants for a payment on top of the credit carried from earlier
+ * payments, so debits smaller than a plant still count towards the next one
+ */
+export function allocatePlants(amount: number, carriedCredit: number = 0): PlantAllocationResult {
+  const available = Math.max(0, toPaise(carriedCredit) + toPaise(amount));
+  const pricePerPlant = toPaise(ALLOCATION_RULES.PRICE_PER_PLANT);
+  const plants = Math.floor(available / pricePerPlant);
+
+  return {
+    plants,
+    creditBefore: carriedCredit,
+    creditAfter: (available - plants * pricePerPlant) / 100
+  };
+}
+
+/**
+ * Complete plots for a number of plants
+ */
+export function plotsForPlants(plants: number): number {
+  return Math.floor(plants / ALLOCATION_RULES.PLANTS_PER_PLOT);
+}
+
+/**
+ * Land needed for a number of plants, in acres
+ */
+export function plotSizeForPlants(plants: number): number {
+  return plants / ALLOCATION_RULES.PLANTS_PER_ACRE;
+}
+
+/**
+ * Amount needed to fund a number of plants
+ */
+export function amountForPlants(plants: number): number {
+  return plants * ALLOCATION_RULES.PRICE_PER_PLANT;
+}
@@ -0,0 +1,358 @@
+import type { PaymentGateway } from '@/lib/payment-gateway';
+import type {
+  SubscriptionPlan,
+  SubscriptionRequest,
+  SubscriptionAction,
+  CashfreeSubscriptionResponse,
+  OrderRequest,
+  CashfreeOrderResponse,
+  RefundRequest,
+  CashfreeRefundResponse
+} from '@/lib/cashfree';
+
+interface RazorpayConfig {
+  keyId: string;
+  keySecret: string;
+  baseUrl?: string; // Overrides the API URL, e.g. a local stand-in during tests
+}
+
+const PLAN_PERIODS: Record<SubscriptionPlan['intervalType'], string> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly'
+};
+
+// Razorpay rejects daily plans that debit more often than once a week
+export const RAZORPAY_MIN_DAILY_INTERVAL = 7;
+
+const SUBSCRIPTION_STATUSES: Record<string, CashfreeSubscriptionResponse['subscriptionStatus']> = {
+  created: 'BANK_APPROVAL_PENDING',
+  authenticated: 'ACTIVE',
+  active: 'ACTIVE',
+  cancelled: 'CANCELLED',
+  completed: 'CANCELLED',
+  expired: 'CANCELLED',
+  halted: 'AUTHORIZATION_FAILED'
+};
+
+const REFUND_STATUSES: Record<string, CashfreeRefundResponse['refundStatus']> = {
+  pending: 'PENDING',
+  processed: 'SUCCESS',
+  failed: 'CANCELLED'
+};
+
+// Razorpay works in paise
+export const toPaise = (rupees: number) => Math.round(rupees * 100);
+export const toRupees = (paise: number) => paise / 100;
+
+/**
+ * Razorpay adapter. Razorpay assigns its own plan and subscription IDs, so ours
+ * travel in notes and come back on webhooks; orders are looked up by receipt.
+ */
+class RazorpayService implements PaymentGateway {
+  readonly name = 'RAZORPAY' as const;
+  private config: RazorpayConfig;
+  private baseUrl: string;
+
+  constructor(config: RazorpayConfig) {
+    this.config = config;
+    this.baseUrl = config.baseUrl || 'https://api.razorpay.com/v1';
+  }
+
+  async createSubscriptionPlan(plan: SubscriptionPlan): Promise<{ planId: string }> {
+    if (plan.intervalType === 'DAILY' && plan.intervals < RAZORPAY_MIN_DAILY_INTERVAL) {
+      throw new Error(`Invalid plan for RAZORPAY: daily plans must debit every ${RAZORPAY_MIN_DAILY_INTERVAL} days or more`);
+    }
+
+    const created = await this.request('POST', '/plans', {
+      period: PLAN_PERIODS[plan.intervalType],
+      interval: plan.intervals,
+      item: {
+        name: plan.planName,
+        amount: toPaise(plan.amount),
+        currency: plan.currency,
+        description: plan.description
+      },
+      notes: { planId: plan.planId }
+    }, 'create plan');
+
+    return { planId: created.id };
+  }
+
+  async createSubscription(subscriptionData: SubscriptionRequest): Promise<CashfreeSubscriptionResponse> {
+    if (!subscriptionData.maxCycles) {
+      throw new Error('Invalid subscription for RAZORPAY: maxCycles is required');
+    }
+
+    const created = await this.request('POST', '/subscriptions', {
+      plan_id: subscriptionData.planId,
+      total_count: subscriptionData.maxCycles,
+      customer_notify: 1,
+      notes: {
+        ...subscriptionData.subscriptionTags,
+        subscriptionId: subscriptionData.subscriptionId,
+        customerPhone: subscriptionData.customerDetails.customerPhone,
+        customerName: subscriptionData.customerDetails.customerName
+      }
+    }, 'create subscription');
+
+    return this.toSubscriptionResponse(created);
+  }
+
+  async getSubscription(subscriptionId: string): Promise<any> {
+    return this.toSubscriptionResponse(
+      await this.request('GET', `/subscriptions/${subscriptionId}`, undefined, 'get subscription')
+    );
+  }
+
+  async cancelSubscription(subscriptionId: string): Promise<any> {
+    return this.toSubscriptionResponse(
+      await this.request('POST', `/subscriptions/${subscriptionId}/cancel`, { cancel_at_cycle_end: 0 }, 'cancel subscription')
+    );
+  }
+
+  // Razorpay subscriptions debit the plan amount; changing it means a new plan and mandate
+  async updateSubscription(subscriptionId: string): Promise<any> {
+    throw new Error(`Invalid operation for RAZORPAY: subscription ${subscriptionId} cannot change its debit amount`);
+  }
+
+  // Razorpay pauses until resumed rather than until a date; our SIP keeps pausedUntil
+  async manageSubscription(subscriptionId: string, action: SubscriptionAction): Promise<any> {
+    const path = action.action === 'PAUSE'
+      ? `/subscriptions/${subscriptionId}/pause`
+      : `/subscriptions/${subscriptionId}/resume`;
+    const body = action.action === 'PAUSE' ? { pause_at: 'now' } : { resume_at: 'now' };
+
+    return this.toSubscriptionResponse(
+      await this.request('POST', path, body, `${action.action.toLowerCase()} subscription`)
+    );
+  }
+
+  async createOrder(orderData: OrderRequest): Promise<CashfreeOrderResponse> {
+    const created = await this.request('POST', '/orders', {
+      amount: toPaise(orderData.orderAmount),
+      currency: orderData.orderCurrency,
+      receipt: orderData.orderId,
+      notes: {
+        ...orderData.orderTags,
+        customerPhone: orderData.customerDetails.customerPhone
+      }
+    }, 'create order');
+
+    return this.toOrderResponse(created);
+  }
+
+  async getOrder(orderId: string): Promise<CashfreeOrderResponse> {
+    const result = await this.request('GET', `/orders?receipt=${encodeURIComponent(orderId)}`, undefined, 'get order');
+    const order = result.items?.[0];
+
+    if (!order) {
+      throw new Error(`Failed to get order: ${orderId} not found`);
+    }
+
+    return this.toOrderResponse(order);
+  }
+
+  // Razorpay refunds against the payment, not the order
+  async createRefund(orderId: string, refundData: RefundRequest, paymentId?: string | null): Promise<CashfreeRefundResponse> {
+    if (!paymentId) {
+      throw new Error(`Invalid refund for RAZORPAY: order ${orderId} has no payment ID`);
+    }
+
+    const created = await this.request('POST', `/payments/${paymentId}/refund`, {
+      amount: toPaise(refundData.refundAmount),
+      receipt: refundData.refundId,
+      notes: { orderId, ...(refundData.refundNote && { reason: refundData.refundNote }) }
+    }, 'create refund');
+
+    return {
+      cfRefundId: created.id,
+      refundId: created.receipt || refundData.refundId,
+      orderId,
+      refundAmount: toRupees(created.amount),
+      refundStatus: REFUND_STATUSES[created.status] || 'PENDING'
+    };
+  }
+
+  // Razorpay only knows its own subscription ID
+  getSubscriptionReference(sip: { subscriptionId: string | null; cfSubscriptionId: string | null }): string | null {
+    return sip.cfSubscriptionId;
+  }
+
+  private async request(method: string, path: string, body: unknown, action: string): Promise<any> {
+    const credentials = Buffer.from(`${this.config.keyId}:${this.config.keySecret}`).toString('base64');
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Basic ${credentials}`,
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to ${action}: ${response.statusText} - ${errorText}`);
+    }
+
+    return response.json();
+  }
+
+  private toSubscriptionResponse(subscription: any): CashfreeSubscriptionResponse {
+    return {
+      cfSubscriptionId: subscription.id,
+      subscriptionId: subscription.notes?.subscriptionId,
+      subscriptionStatus: SUBSCRIPTION_STATUSES[subscription.status] || 'BANK_APPROVAL_PENDING',
+      subscriptionPaymentLink: subscription.short_url
+    };
+  }
+
+  // Razorpay Checkout opens with the order ID, which stands in for Cashfree's payment session
+  private toOrderResponse(order: any): CashfreeOrderResponse {
+    return {
+      cfOrderId: order.id,
+      orderId: order.receipt,
+      orderAmount: toRupees(order.amount),
+      orderStatus: order.status === 'paid' ? 'PAID' : 'ACTIVE',
+      paymentSessionId: order.id
+    };
+  }
+}
+
+export interface TranslatedPaymentEvent {
+  type: string;
+  data: Record<string, any>;
+}
+
+const toIsoTime = (epochSeconds?: number) =>
+  new Date(epochSeconds ? epochSeconds * 1000 : Date.now()).toISOString();
+
+const DISPUTE_STATUSES: Record<string, string> = {
+  won: 'DISPUTE_MERCHANT_WON',
+  lost: 'DISPUTE_CUSTOMER_WON',
+  closed: 'DISPUTE_CLOSED'
+};
+
+/**
+ * Translate a Razorpay webhook into the Cashfree-shaped event our handlers
+ * take. Returns null for events we do not act on. Subscriptions are matched
+ * by our ID from notes, orders by receipt and refunds by our refund ID.
+ */
+export function translateRazorpayEvent(webhook: { event?: string; payload?: Record<string, any> }): TranslatedPaymentEvent | null {
+  const payload = webhook.payload || {};
+  const subscription = payload.subscription?.entity;
+  const payment = payload.payment?.entity;
+
+  const subscriptionData = subscription && {
+    subscription_id: subscription.notes?.subscriptionId,
+    cf_subscription_id: subscription.id,
+    customer_details: { customer_phone: subscription.notes?.customerPhone }
+  };
+
+  switch (webhook.event) {
+    // The mandate is approved but nothing is debited until Razorpay activates it
+    case 'subscription.authenticated':
+      return { type: 'SUBSCRIPTION_AUTHORIZED', data: subscriptionData };
+
+    case 'subscription.activated':
+      return { type: 'SUBSCRIPTION_ACTIVATED', data: subscriptionData };
+
+    case 'subscription.cancelled':
+    case 'subscription.completed':
+      return { type: 'SUBSCRIPTION_CANCELLED', data: subscriptionData };
+
+    case 'subscription.paused':
+      return { type: 'SUBSCRIPTION_PAUSED', data: subscriptionData };
+
+    case 'subscription.resumed':
+      return { type: 'SUBSCRIPTION_RESUMED', data: subscriptionData };
+
+    case 'subscription.charged':
+      return {
+        type: 'PAYMENT_SUCCESS',
+        data: {
+          ...subscriptionData,
+          order_id: payment.order_id,
+          payment_id: payment.id,
+          order_amount: toRupees(payment.amount),
+          payment_method: payment.method?.toUpperCase(),
+          payment_time: toIsoTime(payment.created_at)
+        }
+      };
+
+    // A debit failed and Razorpay will retry it on its own schedule
+    case 'subscription.pending':
+      return {
+        type: 'PAYMENT_FAILED',
+        data: {
+          ...subscriptionData,
+          order_id: payment?.order_id || subscription.id,
+          payment_id: payment?.id,
+          order_amount: toRupees(payment?.amount ?? 0),
+          payment_method: payment?.method?.toUpperCase(),
+          failure_reason: payment?.error_description || 'Subscription debit failed'
+        }
+      };
+
+    // Failed attempts on an order are retried inside Razorpay Checkout, so only success matters
+    case 'order.paid': {
+      const order = payload.order.entity;
+      return {
+        type: 'PAYMENT_SUCCESS',
+        data: {
+          order_id: order.receipt,
+          payment_id: payment.id,
+          order_amount: toRupees(payment.amount),
+          payment_method: payment.method?.toUpperCase(),
+          payment_time: toIsoTime(payment.created_at)
+        }
+      };
+    }
+
+    case 'refund.processed':
+    case 'refund.failed': {
+      const refund = payload.refund.entity;
+      return {
+        type: webhook.event === 'refund.processed' ? 'REFUND_SUCCESS' : 'REFUND_FAILED',
+        data: {
+          payment_id: refund.payment_id,
+          refund_id: refund.receipt || refund.id,
+          cf_refund_id: refund.id,
+          refund_amount: toRupees(refund.amount),
+          refund_note: refund.notes?.reason,
+          refund_status: refund.status?.toUpperCase()
+        }
+      };
+    }
+
+    case 'payment.dispute.created':
+    case 'payment.dispute.won':
+    case 'payment.dispute.lost': {
+      const dispute = payload.dispute.entity;
+      return {
+        type: webhook.event === 'payment.dispute.created' ? 'DISPUTE_CREATED' : 'DISPUTE_CLOSED',
+        data: {
+          payment_id: dispute.payment_id || payment?.id,
+          dispute_id: dispute.id,
+          dispute_amount: toRupees(dispute.amount),
+          dispute_status: DISPUTE_STATUSES[dispute.status] || dispute.status,
+          reason_description: dispute.reason_description
+        }
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+function createRazorpayServiceFromEnv(): RazorpayService {
+  return new RazorpayService({
+    keyId: process.env.RAZORPAY_KEY_ID!,
+    keySecret: process.env.RAZORPAY_KEY_SECRET!,
+    baseUrl: process.env.RAZORPAY_API_BASE_URL
+  });
+}
+
+export { RazorpayService, createRazorpayServiceFromEnv, type RazorpayConfig };
@@ -0,0 +1,182 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ALLOCATION_RULES, allocatePlants, plotSizeForPlants } from '@/lib/plant-allocation';
+
+export interface PaymentAllocation {
+  plants: number;
+  creditAfter: number;
+  plotNumber: string | null;
+}
+
+export interface LumpsumAllocation {
+  plants: number;
+  acres: number;
+  plotNumber: string | null;
+  landName: string;
+  landAllocationId: string;
+}
+
+export interface AllocationRecord {
+  id: string;
+  paymentId: string;
+  sipInvestmentId: string | null;
+  amount: number;
+  creditBefore: number;
+  creditAfter: number;
+  pricePerPlant: number;
+  plantsAllocated: number;
+  plotNumber: string | null;
+  createdAt: Date;
+}
+
+export class AllocationService {
+  /**
+   * Turn a successful SIP payment into plants, carrying any remainder as credit
+   * towards the next payment, and record how the count was reached.
+   * Must run in the transaction that records the payment.
+   */
+  async allocatePayment(
+    tx: Prisma.TransactionClient,
+    data: { paymentId: string; sipInvestmentId: string; amount: number; acquisitionDate: Date }
+  ): Promise<PaymentAllocation> {
+    // Read the credit inside the transaction so concurrent debits don't reuse it
+    const sip = await tx.sIPInvestment.findUnique({
+      where: { id: data.sipInvestmentId }
+    });
+
+    if (!sip) {
+      throw new Error(`SIP investment not found: ${data.sipInvestmentId}`);
+    }
+
+    const allocation = allocatePlants(data.amount, sip.allocationCredit);
+    let plotNumber: string | null = null;
+
+    if (allocation.plants > 0) {
+      plotNumber = `PLOT_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+      await tx.berryPlot.create({
+        data: {
+          phoneNumber: sip.phoneNumber,
+          plotNumber,
+          location: 'Your Own Land',
+          plantCount: allocation.plants,
+          plotSize: plotSizeForPlants(allocation.plants),
+          acquisitionDate: data.acquisitionDate,
+          paymentId: data.paymentId
+        }
+      });
+    }
+
+    await tx.sIPInvestment.update({
+      where: { id: sip.id },
+      data: { allocationCredit: allocation.creditAfter }
+    });
+
+    await tx.plantAllocation.create({
+      data: {
+        paymentId: data.paymentId,
+        sipInvestmentId: sip.id,
+        amount: data.amount,
+        creditBefore: allocation.creditBefore,
+        creditAfter: allocation.creditAfter,
+        pricePerPlant: ALLOCATION_RULES.PRICE_PER_PLANT,
+        plantsAllocated: allocation.plants,
+        plotNumber
+      }
+    });
+
+    return { plants: allocation.plants, creditAfter: allocation.creditAfter, plotNumber };
+  }
+
+  /**
+   * Allocate plants for a one-time lumpsum purchase on the chosen land option,
+   * recording the LandAllocation and taking the acres out of availability.
+   * Returns null, allocating nothing, when the land no longer has room.
+   * Must run in the transaction that records the payment.
+   */
+  async allocateLumpsum(
+    tx: Prisma.TransactionClient,
+    data: { paymentId: string; phoneNumber: string; amount: number; landOptionId: string; acquisitionDate: Date }
+  ): Promise<LumpsumAllocation | null> {
+    const landOption = await tx.landOption.findUnique({
+      where: { id: data.landOptionId }
+    });
+
+    if (!landOption) {
+      throw new Error(`Land option not found: ${data.landOptionId}`);
+    }
+
+    // No SIP to carry credit into, so any part-plant remainder stays on the allocation record
+    const allocation = allocatePlants(data.amount);
+    const acres = plotSizeForPlants(allocation.plants);
+
+    // Claimed only if still free: another purchase may have taken the acres since checkout
+    const claimed = await tx.landOption.updateMany({
+      where: { id: landOption.id, availableAcres: { gte: acres } },
+      data: { availableAcres: { decrement: acres } }
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    let plotNumber: string | null = null;
+
+    if (allocation.plants > 0) {
+      plotNumber = `PLOT_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+      await tx.berryPlot.create({
+        data: {
+          phoneNumber: data.phoneNumber,
+          plotNumber,
+          location: landOption.name,
+          latitude: landOption.latitude,
+          longitude: landOption.longitude,
+          plantCount: allocation.plants,
+          plotSize: acres,
+          acquisitionDate: data.acquisitionDate,
+          paymentId: data.paymentId
+        }
+      });
+    }
+
+    const landAllocation = await tx.landAllocation.create({
+      data: {
+        landOptionId: landOption.id,
+        phoneNumber: data.phoneNumber,
+        acres,
+        plantsCount: allocation.plants,
+        purchasePrice: data.amount,
+        purchaseDate: data.acquisitionDate,
+        plotNumbers: JSON.stringify(plotNumber ? [plotNumber] : [])
+      }
+    });
+
+    await tx.plantAllocation.create({
+      data: {
+        paymentId: data.paymentId,
+        amount: data.amount,
+        creditBefore: allocation.creditBefore,
+        creditAfter: allocation.creditAfter,
+        pricePerPlant: ALLOCATION_RULES.PRICE_PER_PLANT,
+        plantsAllocated: allocation.plants,
+        plotNumber
+      }
+    });
+
+    return { plants: allocation.plants, acres, plotNumber, landName: landOption.name, landAllocationId: landAllocation.id };
+  }
+
+  /**
+   * Allocation history of a SIP, most recent first
+   */
+  async getHistory(sipInvestmentId: string): Promise<AllocationRecord[]> {
+    return await prisma.plantAllocation.findMany({
+      where: { sipInvestmentId },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+}
+
+// Singleton instance
+export const allocationService = new AllocationService();
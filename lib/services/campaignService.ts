@@ -0,0 +1,557 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { WhatsAppService } from '@/lib/whatsapp';
+import {
+  TEMPLATE_LANGUAGE,
+  TemplateMessage,
+  TemplateName,
+  WHATSAPP_TEMPLATES,
+  renderTemplate,
+  template,
+  templateComponents
+} from '@/lib/whatsapp-templates';
+import { CampaignDeliveryStats, messageDeliveryService, sentMessageId } from '@/lib/services/messageDeliveryService';
+import { ConsentRecord, hasConsent, quietHoursEnd } from '@/lib/messaging-policy';
+
+export type CampaignStatus = 'DRAFT' | 'SENDING' | 'COMPLETED' | 'CANCELLED';
+export type RecipientStatus = 'PENDING' | 'SENDING' | 'SENT' | 'FAILED' | 'SKIPPED';
+
+/**
+ * Who a campaign goes to. Every filter given must match; at least one is required.
+ */
+export interface CampaignSegment {
+  states?: string[]; // Conversation state, e.g. SELECTING_SERVICE
+  landTypes?: string[]; // TEA_ESTATE, AGRICULTURE, VACANT, DARJEELING_LEASE
+  minLeadScore?: number;
+  sipStatuses?: string[]; // Has an SIP in one of these statuses, e.g. ACTIVE
+  minTotalInvested?: number; // Has an SIP with at least this much invested
+  plotLocations?: string[]; // Has an active berry plot at one of these locations
+  darjeelingInterest?: boolean; // Registered for the Darjeeling lease and not yet notified
+}
+
+export interface CampaignConfig {
+  messagesPerSecond: number; // Kept well under the Cloud API's 80/s business limit
+  batchSize: number; // Recipients per sendBatch call
+  maxRetries: number; // Attempts per recipient when Graph reports a rate limit
+  retryDelayMs: number; // Doubled on each retry
+}
+
+export interface CreateCampaignInput {
+  name: string;
+  templateName: string;
+  parameters?: string[];
+  segment: CampaignSegment;
+  createdBy?: string;
+}
+
+export interface CampaignRecord {
+  id: string;
+  name: string;
+  templateName: string;
+  parameters: string | null;
+  segment: string;
+  status: string;
+  createdBy: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+export interface CampaignSummary extends CampaignRecord {
+  recipients: Record<RecipientStatus, number>;
+}
+
+export interface CampaignDetail extends CampaignSummary {
+  delivery: CampaignDeliveryStats | null;
+  failures: Array<{ phoneNumber: string; status: string; error: string | null }>;
+}
+
+export interface SegmentPreview {
+  recipients: number;
+  optedOut: number; // Matched but replied STOP; they will be skipped
+  notOptedIn: number; // Matched but never replied SUBSCRIBE; also skipped
+  sample: Array<{ phoneNumber: string; name: string | null }>;
+}
+
+export interface BatchResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+  remaining: number;
+  rateLimited: boolean; // Graph kept refusing; the rest waits for the next batch
+  quietUntil: Date | null; // Nothing is sent during quiet hours in India; resume after this
+  status: CampaignStatus;
+}
+
+// Graph error codes meaning "slow down": throughput, per-user pair limit, account limit
+const RATE_LIMIT_CODES = new Set([4, 80007, 130429, 131056]);
+// The customer has stopped marketing messages from within WhatsApp
+const MARKETING_OPT_OUT_CODE = 131050;
+
+const NAME_PATTERN = /^[a-z0-9_]{3,64}$/;
+const SAMPLE_SIZE = 5;
+const FAILURE_LIMIT = 50;
+
+const EMPTY_COUNTS: Record<RecipientStatus, number> = { PENDING: 0, SENDING: 0, SENT: 0, FAILED: 0, SKIPPED: 0 };
+
+function configFromEnv(): CampaignConfig {
+  return {
+    messagesPerSecond: Number(process.env.WHATSAPP_BROADCAST_RATE) || 20,
+    batchSize: Number(process.env.WHATSAPP_BROADCAST_BATCH) || 200,
+    maxRetries: 3,
+    retryDelayMs: 2000
+  };
+}
+
+/**
+ * Why a user cannot receive marketing, or null if they can
+ */
+function missingConsent(user: ConsentRecord): string | null {
+  if (hasConsent(user, 'MARKETING')) {
+    return null;
+  }
+
+  return user.optedOutAt ? 'Opted out' : 'Never subscribed';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * The code and message Graph returned for a failed send, if it got that far
+ */
+function graphError(error: unknown): { code: number | null; message: string } {
+  const graph = (error as { response?: { data?: { error?: { code?: number; message?: string } } } })
+    ?.response?.data?.error;
+
+  return {
+    code: graph?.code ?? null,
+    message: graph?.message || (error instanceof Error ? error.message : 'Unknown error')
+  };
+}
+
+/**
+ * Broadcasts an approved template to a segment of WhatsApp users, e.g. the
+ * Darjeeling lease launch to everyone who registered interest or a harvest
+ * update to active SIP holders. Starting a campaign fixes its audience;
+ * sendBatch then works through it at a throttled rate, so a long campaign is
+ * sent by calling it until nothing remains.
+ */
+export class CampaignService {
+  private config: CampaignConfig;
+
+  constructor(config: CampaignConfig = configFromEnv()) {
+    this.config = config;
+  }
+
+  /**
+   * How many users a segment reaches now, and a few of them
+   */
+  async preview(segment: CampaignSegment): Promise<SegmentPreview> {
+    const where = await this.segmentWhere(segment);
+
+    const [recipients, optedOut, notOptedIn, sample] = await Promise.all([
+      prisma.whatsAppUser.count({ where }),
+      prisma.whatsAppUser.count({ where: { ...where, optedOutAt: { not: null } } }),
+      prisma.whatsAppUser.count({ where: { ...where, optedInAt: null, optedOutAt: null } }),
+      prisma.whatsAppUser.findMany({
+        where: { ...where, optedInAt: { not: null }, optedOutAt: null },
+        select: { phoneNumber: true, name: true },
+        orderBy: { lastInteraction: 'desc' },
+        take: SAMPLE_SIZE
+      })
+    ]);
+
+    return { recipients, optedOut, notOptedIn, sample };
+  }
+
+  /**
+   * Create a draft campaign. Only our own templates that Meta has approved
+   * can be broadcast, since anything else would be rejected per recipient.
+   */
+  async create(input: CreateCampaignInput): Promise<CampaignRecord> {
+    if (!NAME_PATTERN.test(input.name || '')) {
+      throw new Error('Invalid campaign name: use 3-64 lowercase letters, digits and underscores');
+    }
+
+    if (!(input.templateName in WHATSAPP_TEMPLATES)) {
+      throw new Error(`Invalid template: ${input.templateName} is not one of our templates`);
+    }
+
+    const templateName = input.templateName as TemplateName;
+    const parameters = input.parameters || [];
+    template(templateName, ...parameters);
+
+    const approved = await prisma.messageTemplate.findUnique({
+      where: { name_language: { name: templateName, language: TEMPLATE_LANGUAGE } }
+    });
+    if (approved?.status !== 'APPROVED') {
+      throw new Error(`Invalid template: ${templateName} is not approved by Meta`);
+    }
+
+    await this.segmentWhere(input.segment);
+
+    const existing = await prisma.campaign.findUnique({
+      where: { name: input.name }
+    });
+    if (existing) {
+      throw new Error(`Campaign ${input.name} already exists`);
+    }
+
+    return prisma.campaign.create({
+      data: {
+        name: input.name,
+        templateName,
+        parameters: JSON.stringify(parameters),
+        segment: JSON.stringify(input.segment),
+        createdBy: input.createdBy || null
+      }
+    });
+  }
+
+  /**
+   * Fix the audience of a draft and start sending. Users without marketing
+   * consent are recorded as skipped so the results account for everyone
+   * matched.
+   */
+  async start(campaignId: string): Promise<CampaignRecord> {
+    const campaign = await this.findCampaign(campaignId);
+
+    if (campaign.status !== 'DRAFT') {
+      throw new Error(`Invalid campaign status: ${campaign.name} is ${campaign.status.toLowerCase()}`);
+    }
+
+    const users = await prisma.whatsAppUser.findMany({
+      where: await this.segmentWhere(JSON.parse(campaign.segment)),
+      select: { phoneNumber: true, name: true, optedInAt: true, optedOutAt: true }
+    });
+
+    await prisma.campaignRecipient.createMany({
+      data: users.map(user => {
+        const skipped = missingConsent(user);
+        return {
+          campaignId,
+          phoneNumber: user.phoneNumber,
+          name: user.name,
+          status: skipped ? 'SKIPPED' : 'PENDING',
+          error: skipped
+        };
+      })
+    });
+
+    return prisma.campaign.update({
+      where: { id: campaignId },
+      data: { status: 'SENDING', startedAt: new Date() }
+    });
+  }
+
+  /**
+   * Send to the next batch of pending recipients, starting a draft first.
+   * Sends are spaced to stay under Graph's throughput limit; when Graph
+   * still asks us to slow down the batch stops early and leaves the rest
+   * pending. During quiet hours nothing is sent.
+   */
+  async sendBatch(campaignId: string, now: Date = new Date()): Promise<BatchResult> {
+    let campaign = await this.findCampaign(campaignId);
+
+    const quietUntil = quietHoursEnd(now);
+    if (quietUntil && (campaign.status === 'DRAFT' || campaign.status === 'SENDING')) {
+      const remaining = await prisma.campaignRecipient.count({
+        where: { campaignId, status: 'PENDING' }
+      });
+      return { sent: 0, failed: 0, skipped: 0, remaining, rateLimited: false, quietUntil, status: campaign.status as CampaignStatus };
+    }
+
+    if (campaign.status === 'DRAFT') {
+      campaign = await this.start(campaignId);
+    }
+
+    if (campaign.status !== 'SENDING') {
+      throw new Error(`Invalid campaign status: ${campaign.name} is ${campaign.status.toLowerCase()}`);
+    }
+
+    const segment: CampaignSegment = JSON.parse(campaign.segment);
+    const parameters: string[] = JSON.parse(campaign.parameters || '[]');
+    const recipients = await prisma.campaignRecipient.findMany({
+      where: { campaignId, status: 'PENDING' },
+      orderBy: { id: 'asc' },
+      take: this.config.batchSize
+    });
+
+    const result = { sent: 0, failed: 0, skipped: 0, rateLimited: false };
+    const interval = 1000 / this.config.messagesPerSecond;
+
+    for (const [index, recipient] of recipients.entries()) {
+      if (index > 0) {
+        await sleep(interval);
+      }
+
+      // Another run may be working through the same batch
+      const claimed = await prisma.campaignRecipient.updateMany({
+        where: { id: recipient.id, status: 'PENDING' },
+        data: { status: 'SENDING' }
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const outcome = await this.sendToRecipient(campaign, recipient, parameters, segment);
+      if (outcome === 'RATE_LIMITED') {
+        await prisma.campaignRecipient.update({
+          where: { id: recipient.id },
+          data: { status: 'PENDING' }
+        });
+        result.rateLimited = true;
+        break;
+      }
+      result[outcome] += 1;
+    }
+
+    const remaining = await prisma.campaignRecipient.count({
+      where: { campaignId, status: 'PENDING' }
+    });
+
+    let status = campaign.status as CampaignStatus;
+    if (remaining === 0) {
+      await prisma.campaign.update({
+        where: { id: campaignId },
+        data: { status: 'COMPLETED', completedAt: new Date() }
+      });
+      status = 'COMPLETED';
+    }
+
+    return { ...result, remaining, quietUntil: null, status };
+  }
+
+  /**
+   * Stop a campaign; recipients not reached yet are skipped
+   */
+  async cancel(campaignId: string): Promise<CampaignRecord> {
+    const campaign = await this.findCampaign(campaignId);
+
+    if (campaign.status !== 'DRAFT' && campaign.status !== 'SENDING') {
+      throw new Error(`Invalid campaign status: ${campaign.name} is ${campaign.status.toLowerCase()}`);
+    }
+
+    await prisma.campaignRecipient.updateMany({
+      where: { campaignId, status: 'PENDING' },
+      data: { status: 'SKIPPED', error: 'Campaign cancelled' }
+    });
+
+    return prisma.campaign.update({
+      where: { id: campaignId },
+      data: { status: 'CANCELLED', completedAt: new Date() }
+    });
+  }
+
+  /**
+   * All campaigns, newest first, with how many recipients reached each status
+   */
+  async list(): Promise<CampaignSummary[]> {
+    const campaigns = await prisma.campaign.findMany({
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const groups = await prisma.campaignRecipient.groupBy({
+      by: ['campaignId', 'status'],
+      _count: { _all: true }
+    });
+
+    return campaigns.map(campaign => ({
+      ...campaign,
+      recipients: this.countRecipients(groups.filter(group => group.campaignId === campaign.id))
+    }));
+  }
+
+  /**
+   * A campaign's results: recipient outcomes, WhatsApp delivery and read
+   * rates, and the recipients it could not reach
+   */
+  async get(campaignId: string): Promise<CampaignDetail> {
+    const campaign = await this.findCampaign(campaignId);
+
+    const groups = await prisma.campaignRecipient.groupBy({
+      by: ['campaignId', 'status'],
+      where: { campaignId },
+      _count: { _all: true }
+    });
+
+    const [delivery] = await messageDeliveryService.getCampaignStats(undefined, campaign.name);
+
+    const failures = await prisma.campaignRecipient.findMany({
+      where: { campaignId, status: { in: ['FAILED', 'SKIPPED'] } },
+      select: { phoneNumber: true, status: true, error: true },
+      take: FAILURE_LIMIT
+    });
+
+    return {
+      ...campaign,
+      recipients: this.countRecipients(groups),
+      delivery: delivery || null,
+      failures
+    };
+  }
+
+  private async sendToRecipient(
+    campaign: CampaignRecord,
+    recipient: { id: string; phoneNumber: string; name: string | null },
+    parameters: string[],
+    segment: CampaignSegment
+  ): Promise<'sent' | 'failed' | 'skipped' | 'RATE_LIMITED'> {
+    // Customers can reply STOP while a long campaign is going out
+    const user = await prisma.whatsAppUser.findUnique({
+      where: { phoneNumber: recipient.phoneNumber },
+      select: { optedInAt: true, optedOutAt: true }
+    });
+    const skipped = user ? missingConsent(user) : 'Never subscribed';
+    if (skipped) {
+      await this.markRecipient(recipient.id, 'SKIPPED', skipped);
+      return 'skipped';
+    }
+
+    const message: TemplateMessage = {
+      name: campaign.templateName as TemplateName,
+      parameters: parameters.map(parameter => parameter.replace(/\{name\}/g, recipient.name || 'there'))
+    };
+
+    let sent: Awaited<ReturnType<typeof WhatsAppService.sendTemplate>>;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        sent = await WhatsAppService.sendTemplate(
+          recipient.phoneNumber,
+          message.name,
+          templateComponents(message),
+          TEMPLATE_LANGUAGE
+        );
+        break;
+      } catch (error) {
+        const { code, message: reason } = graphError(error);
+
+        if (code !== null && RATE_LIMIT_CODES.has(code)) {
+          if (attempt < this.config.maxRetries) {
+            await sleep(this.config.retryDelayMs * 2 ** attempt);
+            continue;
+          }
+          return 'RATE_LIMITED';
+        }
+
+        if (code === MARKETING_OPT_OUT_CODE) {
+          await prisma.whatsAppUser.update({
+            where: { phoneNumber: recipient.phoneNumber },
+            data: { optedOutAt: new Date() }
+          });
+          await this.markRecipient(recipient.id, 'SKIPPED', 'Opted out of marketing messages in WhatsApp');
+          return 'skipped';
+        }
+
+        console.error('Campaign send error:', { campaign: campaign.name, phoneNumber: recipient.phoneNumber, reason });
+        await this.markRecipient(recipient.id, 'FAILED', code !== null ? `${code}: ${reason}` : reason);
+        return 'failed';
+      }
+    }
+
+    await prisma.campaignRecipient.update({
+      where: { id: recipient.id },
+      data: { status: 'SENT', waMessageId: sentMessageId(sent), sentAt: new Date() }
+    });
+
+    // The customer has the message; a logging failure must not count it as failed
+    try {
+      await messageDeliveryService.recordSent(recipient.phoneNumber, renderTemplate(message), sent, {
+        campaign: campaign.name,
+        metadata: { template: message.name, campaignId: campaign.id }
+      });
+
+      if (segment.darjeelingInterest) {
+        await prisma.darjeelingInterest.updateMany({
+          where: { phoneNumber: recipient.phoneNumber },
+          data: { notified: true }
+        });
+      }
+    } catch (error) {
+      console.error('Campaign log error:', { campaign: campaign.name, phoneNumber: recipient.phoneNumber, error });
+    }
+
+    return 'sent';
+  }
+
+  private async markRecipient(id: string, status: RecipientStatus, error: string) {
+    await prisma.campaignRecipient.update({
+      where: { id },
+      data: { status, error }
+    });
+  }
+
+  /**
+   * Turn a segment into a WhatsAppUser filter
+   */
+  private async segmentWhere(segment: CampaignSegment | undefined): Promise<Prisma.WhatsAppUserWhereInput> {
+    const filters: Prisma.WhatsAppUserWhereInput[] = [];
+
+    if (segment?.states?.length) {
+      filters.push({ state: { in: segment.states } });
+    }
+
+    if (segment?.landTypes?.length) {
+      filters.push({ landType: { in: segment.landTypes } });
+    }
+
+    if (segment?.minLeadScore !== undefined) {
+      filters.push({ leadScore: { gte: segment.minLeadScore } });
+    }
+
+    if (segment?.sipStatuses?.length || segment?.minTotalInvested !== undefined) {
+      filters.push({
+        sipInvestments: {
+          some: {
+            ...(segment.sipStatuses?.length && { status: { in: segment.sipStatuses } }),
+            ...(segment.minTotalInvested !== undefined && { totalInvested: { gte: segment.minTotalInvested } })
+          }
+        }
+      });
+    }
+
+    if (segment?.plotLocations?.length) {
+      filters.push({ berryPlots: { some: { status: 'ACTIVE', location: { in: segment.plotLocations } } } });
+    }
+
+    // DarjeelingInterest has no relation to the user, so match on phone number
+    if (segment?.darjeelingInterest) {
+      const interested = await prisma.darjeelingInterest.findMany({
+        where: { notified: false },
+        select: { phoneNumber: true }
+      });
+      filters.push({ phoneNumber: { in: interested.map(interest => interest.phoneNumber) } });
+    }
+
+    if (filters.length === 0) {
+      throw new Error('Invalid segment: choose at least one filter');
+    }
+
+    return { AND: filters };
+  }
+
+  private countRecipients(groups: Array<{ status: string; _count: { _all: number } }>): Record<RecipientStatus, number> {
+    const counts = { ...EMPTY_COUNTS };
+    for (const group of groups) {
+      counts[group.status as RecipientStatus] = group._count._all;
+    }
+    return counts;
+  }
+
+  private async findCampaign(campaignId: string): Promise<CampaignRecord> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId }
+    });
+
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+
+    return campaign;
+  }
+}
+
+// Singleton instance
+export const campaignService = new CampaignService();
@@ -0,0 +1,283 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { template, type TemplateMessage } from '@/lib/whatsapp-templates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DunningStep =
+  | 'DEBIT_FAILED'
+  | 'RETRY_ATTEMPTED'
+  | 'REMINDER_SENT'
+  | 'PAUSED'
+  | 'RESUMED';
+
+export interface ReminderContext {
+  attempt: number;
+  amount: number;
+  reason?: string | null;
+  pauseAt: Date;
+}
+
+// We don't re-present a failed debit ourselves: the gateway's own retries and
+// the next daily debit do, so reminders never promise a retry date.
+export interface DunningPolicy {
+  /** Days after the first failed debit before the SIP is paused */
+  gracePeriodDays: number;
+  /** Reminder per failed attempt, escalating; the last one repeats for later attempts */
+  reminders: Array<(context: ReminderContext) => string>;
+  /** Approved template sent in place of each reminder once the customer's 24-hour window has closed */
+  reminderTemplates: Array<(context: ReminderContext) => TemplateMessage>;
+}
+
+export interface DunningSIP {
+  id: string;
+  phoneNumber: string;
+  dailyAmount: number;
+  status: string;
+  failedDebitCount?: number | null;
+  dunningStartedAt?: Date | null;
+}
+
+export interface DunningResult {
+  attempt: number;
+  paused: boolean;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', timeZone: 'Asia/Kolkata' });
+
+export const DEFAULT_DUNNING_POLICY: DunningPolicy = {
+  gracePeriodDays: 7,
+  reminders: [
+    ({ amount, reason }) => `⚠️ Payment issue with your daily SIP
+
+💳 Amount: ₹${amount}
+❌ Reason: ${reason || 'Payment declined'}
+
+Don't worry! Your next daily debit goes ahead as scheduled.
+
+To update payment method:
+🔄 Reply RETRY
+💬 Reply HELP for assistance
+
+Your berry journey continues! 🫐`,
+    ({ amount, pauseAt }) => `⚠️ Your daily SIP of ₹${amount} failed again
+
+Please check your bank balance and UPI mandate before your next debit.
+
+Your SIP will be paused on ${formatDate(pauseAt)} if the debit keeps failing.
+
+🔄 Reply RETRY to update your payment method
+💬 Reply HELP for assistance`,
+    ({ amount, pauseAt }) => `🚨 Final reminder: your daily SIP of ₹${amount} could not be collected
+
+Your SIP will be paused on ${formatDate(pauseAt)}. Your plants are safe, but new allocations stop while it's paused.
+
+🔄 Reply RETRY now to keep growing
+💬 Reply HELP to talk to our team`
+  ],
+  reminderTemplates: [
+    ({ amount, reason }) => template('sip_payment_failed', amount, reason || 'Payment declined'),
+    ({ amount, pauseAt }) => template('sip_payment_failed_again', amount, formatDate(pauseAt)),
+    ({ amount, pauseAt }) => template('sip_final_reminder', amount, formatDate(pauseAt))
+  ]
+};
+
+/**
+ * Build the dunning policy, letting DUNNING_GRACE_DAYS override the default
+ * grace period
+ */
+export function createDunningPolicyFromEnv(): DunningPolicy {
+  const gracePeriodDays = parseInt(process.env.DUNNING_GRACE_DAYS || '', 10);
+
+  return {
+    ...DEFAULT_DUNNING_POLICY,
+    gracePeriodDays: gracePeriodDays > 0 ? gracePeriodDays : DEFAULT_DUNNING_POLICY.gracePeriodDays
+  };
+}
+
+export class DunningService {
+  private policy: DunningPolicy;
+
+  constructor(policy: DunningPolicy = createDunningPolicyFromEnv()) {
+    this.policy = policy;
+  }
+
+  /**
+   * Handle a failed debit: count the attempt, send the escalating reminder,
+   * and pause the SIP once the grace period has run out
+   */
+  async recordFailure(
+    sip: DunningSIP,
+    failure: { paymentId?: string | null; amount: number; reason?: string | null },
+    now: Date = new Date()
+  ): Promise<DunningResult> {
+    const attempt = (sip.failedDebitCount || 0) + 1;
+    const dunningStartedAt = sip.dunningStartedAt || now;
+    const pauseAt = new Date(dunningStartedAt.getTime() + this.policy.gracePeriodDays * DAY_MS);
+
+    await prisma.sIPInvestment.update({
+      where: { id: sip.id },
+      data: { failedDebitCount: attempt, dunningStartedAt }
+    });
+    await this.recordStep(sip.id, 'DEBIT_FAILED', attempt, {
+      paymentId: failure.paymentId,
+      message: failure.reason || null
+    });
+
+    if (sip.status === 'PAUSED') {
+      return { attempt, paused: true };
+    }
+
+    if (now >= pauseAt) {
+      await this.pause(sip, attempt);
+      return { attempt, paused: true };
+    }
+
+    const reminder = this.policy.reminders[Math.min(attempt, this.policy.reminders.length) - 1];
+    const reminderTemplate = this.policy.reminderTemplates[Math.min(attempt, this.policy.reminderTemplates.length) - 1];
+    if (reminder && reminderTemplate) {
+      const context = { attempt, amount: failure.amount, reason: failure.reason, pauseAt };
+      const message = reminder(context);
+      await this.notify(sip.phoneNumber, message, reminderTemplate(context));
+      await this.recordStep(sip.id, 'REMINDER_SENT', attempt, { message });
+    }
+
+    return { attempt, paused: false };
+  }
+
+  /**
+   * Record a retry Cashfree reports making; the outcome arrives as its own
+   * payment webhook
+   */
+  async recordRetry(sip: DunningSIP, retryCount: number, paymentId?: string | null): Promise<void> {
+    await this.recordStep(sip.id, 'RETRY_ATTEMPTED', sip.failedDebitCount || 0, {
+      paymentId,
+      message: `Cashfree retry ${retryCount}`
+    });
+  }
+
+  /**
+   * Close the dunning cycle after a successful debit, resuming a SIP the
+   * dunning engine paused. Returns true when the SIP was resumed.
+   */
+  async recordRecovery(
+    sip: DunningSIP,
+    paymentId?: string | null,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    if (!sip.dunningStartedAt) {
+      return false;
+    }
+
+    const resumed = sip.status === 'PAUSED';
+
+    await client.sIPInvestment.update({
+      where: { id: sip.id },
+      data: {
+        failedDebitCount: 0,
+        dunningStartedAt: null,
+        ...(resumed ? { status: 'ACTIVE' } : {})
+      }
+    });
+    await this.recordStep(sip.id, 'RESUMED', sip.failedDebitCount || 0, {
+      paymentId,
+      message: resumed ? 'SIP resumed after successful debit' : 'Debit recovered within grace period'
+    }, client);
+
+    return resumed;
+  }
+
+  /**
+   * Record that the customer resumed a SIP that was in a dunning cycle. The
+   * caller clears the cycle, so the daily run does not pause it again for a
+   * grace period that has already run out.
+   */
+  async recordManualResume(sip: DunningSIP, message: string): Promise<void> {
+    if (!sip.dunningStartedAt) {
+      return;
+    }
+
+    await this.recordStep(sip.id, 'RESUMED', sip.failedDebitCount || 0, { message });
+  }
+
+  /**
+   * Pause every SIP whose grace period has run out without a successful debit.
+   * Meant to be run daily.
+   */
+  async processDue(now: Date = new Date()): Promise<{ paused: number }> {
+    const graceStart = new Date(now.getTime() - this.policy.gracePeriodDays * DAY_MS);
+
+    const overdue = await prisma.sIPInvestment.findMany({
+      where: {
+        status: 'ACTIVE',
+        dunningStartedAt: { lte: graceStart }
+      }
+    });
+
+    for (const sip of overdue) {
+      await this.pause(sip, sip.failedDebitCount);
+    }
+
+    return { paused: overdue.length };
+  }
+
+  /**
+   * Dunning history of a SIP, most recent first
+   */
+  async getHistory(sipInvestmentId: string) {
+    return await prisma.dunningEvent.findMany({
+      where: { sipInvestmentId },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  private async pause(sip: DunningSIP, attempt: number): Promise<void> {
+    await prisma.sIPInvestment.update({
+      where: { id: sip.id },
+      data: { status: 'PAUSED' }
+    });
+
+    const message = `⏸️ Your daily SIP of ₹${sip.dailyAmount} is now paused
+
+We couldn't collect your SIP after several attempts. Your existing plants keep growing 🌱
+
+Your SIP resumes automatically with the next successful debit.
+🔄 Reply RETRY to update your payment method
+💬 Reply HELP for assistance`;
+
+    await this.notify(sip.phoneNumber, message, template('sip_paused', sip.dailyAmount));
+    await this.recordStep(sip.id, 'PAUSED', attempt, { message });
+  }
+
+  private async recordStep(
+    sipInvestmentId: string,
+    step: DunningStep,
+    attempt: number,
+    details: { paymentId?: string | null; message?: string | null },
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    await client.dunningEvent.create({
+      data: {
+        sipInvestmentId,
+        step,
+        attempt,
+        paymentId: details.paymentId || null,
+        message: details.message || null
+      }
+    });
+  }
+
+  private async notify(phoneNumber: string, message: string, fallback: TemplateMessage): Promise<void> {
+    try {
+      // Import the notification service dynamically to avoid circular dependencies
+      const { whatsappNotificationService } = await import('@/lib/services/whatsappNotificationService');
+      await whatsappNotificationService.send(phoneNumber, { text: message, template: fallback }, 'dunning');
+    } catch (error) {
+      console.error('Dunning notification error:', error);
+    }
+  }
+}
+
+// Singleton instance
+export const dunningService = new DunningService();
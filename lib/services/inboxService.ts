@@ -0,0 +1,252 @@
+import { prisma } from '@/lib/prisma';
+import { WhatsAppService } from '@/lib/whatsapp';
+import { HUMAN_HANDOFF_STATE } from '@/lib/conversation-flows';
+import { getSessionWindow } from '@/lib/services/whatsappNotificationService';
+import { messageDeliveryService } from '@/lib/services/messageDeliveryService';
+
+export type InboxFilter = 'HANDOFF' | 'ALL';
+
+export interface InboxMessage {
+  id: string;
+  messageType: string;
+  content: string;
+  agent: string | null;
+  timestamp: Date;
+}
+
+export interface InboxThreadSummary {
+  phoneNumber: string;
+  name: string | null;
+  state: string;
+  handoffAt: Date | null;
+  assignedTo: string | null;
+  lastInteraction: Date;
+  sessionExpiresAt: Date | null; // Agents can only reply until the customer's 24-hour window closes
+  lastMessage: InboxMessage | null;
+}
+
+export interface InboxThread extends InboxThreadSummary {
+  messages: InboxMessage[];
+}
+
+// Graph rejects text bodies longer than this
+const MAX_TEXT_LENGTH = 4096;
+const THREAD_LIMIT = 200;
+const LIST_LIMIT = 50;
+
+const HAND_BACK_MESSAGE = `Thanks for chatting with our team! 🫐
+
+You're back with the Darjberry bot. Reply HELP anytime to see what I can do, or 4 to talk to a person again.`;
+
+type MessageRow = { id: string; messageType: string; content: string; metadata: string | null; timestamp: Date };
+
+type UserRow = {
+  phoneNumber: string;
+  name: string | null;
+  state: string;
+  handoffAt: Date | null;
+  assignedTo: string | null;
+  lastInteraction: Date;
+  lastInboundAt: Date | null;
+};
+
+function toInboxMessage(message: MessageRow): InboxMessage {
+  let agent: string | null = null;
+
+  if (message.metadata) {
+    try {
+      agent = JSON.parse(message.metadata).agent ?? null;
+    } catch {
+      // Inbound messages carry the raw webhook payload, which has no agent
+    }
+  }
+
+  return {
+    id: message.id,
+    messageType: message.messageType,
+    content: message.content,
+    agent,
+    timestamp: message.timestamp
+  };
+}
+
+function toSummary(user: UserRow, lastMessage: MessageRow | undefined): InboxThreadSummary {
+  return {
+    phoneNumber: user.phoneNumber,
+    name: user.name,
+    state: user.state,
+    handoffAt: user.handoffAt,
+    assignedTo: user.assignedTo,
+    lastInteraction: user.lastInteraction,
+    sessionExpiresAt: getSessionWindow(user.lastInboundAt).expiresAt,
+    lastMessage: lastMessage ? toInboxMessage(lastMessage) : null
+  };
+}
+
+function requireAgent(agent: string | null | undefined): string {
+  const name = agent?.trim();
+  if (!name) {
+    throw new Error('Invalid agent: name is required');
+  }
+  return name;
+}
+
+export class InboxService {
+  /**
+   * Conversations for the shared inbox, most recently active first. HANDOFF
+   * lists customers waiting for or talking to an agent.
+   */
+  async listThreads(filter: InboxFilter = 'HANDOFF', assignedTo?: string): Promise<InboxThreadSummary[]> {
+    const users = await prisma.whatsAppUser.findMany({
+      where: {
+        ...(filter === 'HANDOFF' && { state: HUMAN_HANDOFF_STATE }),
+        ...(assignedTo && { assignedTo })
+      },
+      orderBy: { lastInteraction: 'desc' },
+      take: LIST_LIMIT,
+      include: {
+        messages: {
+          orderBy: { timestamp: 'desc' },
+          take: 1
+        }
+      }
+    });
+
+    return users.map(user => toSummary(user, user.messages[0]));
+  }
+
+  /**
+   * A customer's conversation with the bot and agents, oldest message first
+   */
+  async getThread(phoneNumber: string, limit: number = THREAD_LIMIT): Promise<InboxThread> {
+    const user = await prisma.whatsAppUser.findUnique({
+      where: { phoneNumber },
+      include: {
+        messages: {
+          orderBy: { timestamp: 'desc' },
+          take: limit
+        }
+      }
+    });
+
+    if (!user) {
+      throw new Error('Conversation not found');
+    }
+
+    const messages = user.messages.map(toInboxMessage).reverse();
+
+    return {
+      ...toSummary(user, user.messages[0]),
+      messages
+    };
+  }
+
+  /**
+   * Send an agent's reply. Replying takes the conversation over from the bot,
+   * so it does not answer the customer's next message as well.
+   */
+  async reply(phoneNumber: string, text: string, agent: string): Promise<InboxMessage> {
+    const agentName = requireAgent(agent);
+    const body = text?.trim();
+
+    if (!body) {
+      throw new Error('Invalid reply: message is empty');
+    }
+    if (body.length > MAX_TEXT_LENGTH) {
+      throw new Error(`Invalid reply: longer than ${MAX_TEXT_LENGTH} characters`);
+    }
+
+    const user = await this.findUser(phoneNumber);
+
+    if (!getSessionWindow(user.lastInboundAt).open) {
+      throw new Error('Invalid reply: the customer has not written in the last 24 hours');
+    }
+
+    const sent = await WhatsAppService.sendMessage(phoneNumber, body);
+    const message = await messageDeliveryService.recordSent(phoneNumber, body, sent, {
+      campaign: 'inbox',
+      metadata: { agent: agentName }
+    });
+
+    await prisma.whatsAppUser.update({
+      where: { phoneNumber },
+      data: {
+        state: HUMAN_HANDOFF_STATE,
+        handoffAt: user.handoffAt ?? new Date(),
+        assignedTo: user.assignedTo ?? agentName
+      }
+    });
+
+    return toInboxMessage(message);
+  }
+
+  /**
+   * Give the conversation to an agent, or back to the unassigned queue with null
+   */
+  async assign(phoneNumber: string, agent: string | null): Promise<InboxThreadSummary> {
+    await this.findUser(phoneNumber);
+
+    const user = await prisma.whatsAppUser.update({
+      where: { phoneNumber },
+      data: { assignedTo: agent === null ? null : requireAgent(agent) }
+    });
+
+    return toSummary(user, undefined);
+  }
+
+  /**
+   * Let the bot answer again, starting from the main menu
+   */
+  async handBack(phoneNumber: string, agent: string): Promise<InboxThreadSummary> {
+    const agentName = requireAgent(agent);
+    const existing = await this.findUser(phoneNumber);
+
+    if (existing.state !== HUMAN_HANDOFF_STATE) {
+      throw new Error('Invalid state: conversation is already with the bot');
+    }
+
+    // Outside the 24-hour window the bot simply answers the customer's next message
+    if (getSessionWindow(existing.lastInboundAt).open) {
+      const sent = await WhatsAppService.sendMessage(phoneNumber, HAND_BACK_MESSAGE);
+      await messageDeliveryService.recordSent(phoneNumber, HAND_BACK_MESSAGE, sent, {
+        campaign: 'inbox',
+        metadata: { agent: agentName, event: 'HAND_BACK' }
+      });
+    }
+
+    const user = await prisma.whatsAppUser.update({
+      where: { phoneNumber },
+      data: {
+        state: 'SELECTING_SERVICE',
+        handoffAt: null,
+        assignedTo: null
+      }
+    });
+
+    await prisma.analytics.create({
+      data: {
+        phoneNumber,
+        event: 'HUMAN_HANDOFF_RETURNED',
+        funnelStage: 'ENGAGEMENT',
+        metadata: JSON.stringify({ agent: agentName })
+      }
+    });
+
+    return toSummary(user, undefined);
+  }
+
+  private async findUser(phoneNumber: string) {
+    const user = await prisma.whatsAppUser.findUnique({
+      where: { phoneNumber }
+    });
+
+    if (!user) {
+      throw new Error('Conversation not found');
+    }
+
+    return user;
+  }
+}
+
+// Singleton instance
+export const inboxService = new InboxService();
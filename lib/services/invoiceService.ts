@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { template } from '@/lib/whatsapp-templates';
+import { NotificationChannel, whatsappNotificationService } from '@/lib/services/whatsappNotificationService';
+import {
+  InvoiceData,
+  getFinancialYear,
+  formatInvoiceNumber,
+  renderInvoiceHtml,
+  renderInvoicePdf
+} from '@/lib/invoice-renderer';
+
+export interface InvoiceRecord extends InvoiceData {
+  id: string;
+  paymentId: string;
+  currency: string;
+  html: string;
+  accessToken: string;
+  sentAt: Date | null;
+}
+
+export class InvoiceService {
+  /**
+   * Issue the numbered invoice for a successful payment. Issuing again for the
+   * same payment returns the existing invoice, so numbers are never skipped or reused.
+   */
+  async issueForPayment(paymentId: string): Promise<InvoiceRecord> {
+    const existing = await prisma.invoice.findUnique({
+      where: { paymentId }
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { sipInvestment: true, user: true, allocation: true }
+    });
+
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    if (payment.status !== 'SUCCESS' || !payment.phoneNumber) {
+      throw new Error(`Invalid payment for invoice: ${payment.status}`);
+    }
+
+    const issuedAt = new Date();
+    const financialYear = getFinancialYear(issuedAt);
+
+    return await prisma.$transaction(async (tx) => {
+      // Sequential numbering per financial year, as GST invoices require
+      const sequence = await tx.invoiceSequence.upsert({
+        where: { financialYear },
+        create: { financialYear, lastNumber: 1 },
+        update: { lastNumber: { increment: 1 } }
+      });
+
+      const data: InvoiceData = {
+        invoiceNumber: formatInvoiceNumber(financialYear, sequence.lastNumber),
+        issuedAt,
+        paidAt: payment.paidAt || payment.createdAt,
+        customerName: payment.user?.name || null,
+        customerEmail: payment.user?.email || null,
+        phoneNumber: payment.phoneNumber!,
+        orderId: payment.orderId,
+        paymentReference: payment.paymentId,
+        planName: payment.sipInvestment
+          ? `Daily SIP ₹${payment.sipInvestment.dailyAmount.toLocaleString('en-IN')}`
+          : 'One-time investment',
+        amount: payment.amount,
+        plantsAllocated: payment.allocation?.plantsAllocated || 0
+      };
+
+      return await tx.invoice.create({
+        data: {
+          ...data,
+          paymentId: payment.id,
+          html: renderInvoiceHtml(data),
+          accessToken: crypto.randomBytes(24).toString('hex')
+        }
+      });
+    });
+  }
+
+  /**
+   * Send the invoice PDF to the customer on WhatsApp: as a document inside
+   * their 24-hour window, otherwise as the header of the approved invoice_ready
+   * template. During quiet hours it waits in the morning queue; sentAt is only
+   * set once it has actually gone out.
+   */
+  async send(invoice: InvoiceRecord, now: Date = new Date()): Promise<NotificationChannel> {
+    const amount = invoice.amount.toLocaleString('en-IN');
+    return whatsappNotificationService.send(invoice.phoneNumber, {
+      text: `🧾 Your receipt ${invoice.invoiceNumber} for ₹${amount}. Keep it for your accountant!`,
+      template: template('invoice_ready', invoice.invoiceNumber, amount),
+      document: {
+        link: this.getDownloadUrl(invoice, 'pdf'),
+        filename: `Darjberry-Invoice-${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`
+      },
+      invoiceId: invoice.id
+    }, 'invoice', now);
+  }
+
+  /**
+   * Look up an invoice for the public download link; the token must match
+   */
+  async getForDownload(id: string, token: string): Promise<InvoiceRecord | null> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id }
+    });
+
+    if (!invoice || !token || !crypto.timingSafeEqual(
+      crypto.createHash('sha256').update(invoice.accessToken).digest(),
+      crypto.createHash('sha256').update(token).digest()
+    )) {
+      return null;
+    }
+
+    return invoice;
+  }
+
+  renderPdf(invoice: InvoiceRecord): Buffer {
+    return renderInvoicePdf(invoice);
+  }
+
+  getDownloadUrl(invoice: InvoiceRecord, format: 'pdf' | 'html'): string {
+    return `${process.env.NEXT_PUBLIC_BASE_URL}/api/invoices/${invoice.id}?format=${format}&token=${invoice.accessToken}`;
+  }
+}
+
+// Singleton instance
+export const invoiceService = new InvoiceService();
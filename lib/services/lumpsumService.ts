@@ -0,0 +1,321 @@
+import { prisma } from '@/lib/prisma';
+import { PaymentGatewayRegistry, createPaymentGatewaysFromEnv, type PaymentGatewayName } from '@/lib/payment-gateway';
+import { paymentService } from '@/lib/services/paymentService';
+import { allocationService, type LumpsumAllocation } from '@/lib/services/allocationService';
+import { plantsForAmount, plotSizeForPlants } from '@/lib/plant-allocation';
+
+export interface LumpsumPackage {
+  key: string;
+  name: string;
+  amount: number;
+  description: string;
+  gateway?: PaymentGatewayName; // Cashfree unless set
+}
+
+// One-time purchases are gateway orders, not subscriptions
+export const LUMPSUM_PACKAGES: Record<string, LumpsumPackage> = {
+  lumpsum3L: {
+    key: 'lumpsum3L',
+    name: 'Darjberry Lumpsum ₹3 Lakh',
+    amount: 300000,
+    description: 'One-time ₹3 lakh investment for premium blueberry farming setup'
+  }
+};
+
+// REFUND_DUE: paid after the land sold out, so the payment is being refunded
+export type LumpsumOrderStatus = 'PENDING' | 'PAID' | 'FAILED' | 'EXPIRED' | 'REFUND_DUE';
+
+export interface CreateLumpsumOrderDTO {
+  packageKey: string;
+  phoneNumber: string;
+  customerName: string;
+  customerEmail: string;
+  landOptionId?: string;
+}
+
+export interface LumpsumOrderRecord {
+  id: string;
+  orderId: string;
+  cfOrderId: string | null;
+  packageKey: string;
+  phoneNumber: string;
+  customerName: string | null;
+  customerEmail: string | null;
+  amount: number;
+  currency: string;
+  landOptionId: string;
+  status: string;
+  paymentSessionId: string | null;
+  paymentLink: string | null;
+  paymentId: string | null;
+  landAllocationId: string | null;
+  failureReason: string | null;
+  paidAt: Date | null;
+  gateway: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LumpsumCheckout {
+  orderId: string;
+  paymentSessionId: string;
+  paymentLink: string | null;
+  amount: number;
+  plants: number;
+  acres: number;
+  landName: string;
+}
+
+export interface LumpsumOrderSummary {
+  orderId: string;
+  status: LumpsumOrderStatus | 'PROCESSING'; // PROCESSING: paid at the gateway, webhook not yet applied
+  packageName: string;
+  amount: number;
+  plants: number;
+  acres: number;
+  landName: string | null;
+  plotNumbers: string[];
+  paidAt: Date | null;
+}
+
+export interface CompletedLumpsumOrder {
+  order: LumpsumOrderRecord;
+  paymentId: string;
+  allocation: LumpsumAllocation | null; // Null when the land sold out before the payment arrived
+}
+
+export class LumpsumService {
+  private gateways: PaymentGatewayRegistry;
+
+  constructor(gateways: PaymentGatewayRegistry = createPaymentGatewaysFromEnv()) {
+    this.gateways = gateways;
+  }
+
+  /**
+   * Create a gateway order for a lumpsum package, reserving nothing until it is paid
+   */
+  async createOrder(data: CreateLumpsumOrderDTO): Promise<LumpsumCheckout> {
+    const lumpsumPackage = LUMPSUM_PACKAGES[data.packageKey];
+
+    if (!lumpsumPackage) {
+      throw new Error(`Invalid lumpsum package: ${data.packageKey}`);
+    }
+
+    const plants = plantsForAmount(lumpsumPackage.amount);
+    const acres = plotSizeForPlants(plants);
+    const landOption = await this.findLand(acres, data.landOptionId);
+
+    const orderId = `DARJ_LS_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    const gateway = this.gateways.get(lumpsumPackage.gateway);
+
+    const order = await gateway.createOrder({
+      orderId,
+      orderAmount: lumpsumPackage.amount,
+      orderCurrency: 'INR',
+      customerDetails: {
+        customerId: `CUST_${data.phoneNumber}`,
+        customerName: data.customerName,
+        customerEmail: data.customerEmail,
+        customerPhone: data.phoneNumber
+      },
+      orderMeta: {
+        // Cashfree fills in {order_id} when redirecting back
+        returnUrl: `${process.env.NEXT_PUBLIC_BASE_URL}/payment/success?order_id={order_id}`
+      },
+      orderNote: `Darjberry investment - ${lumpsumPackage.name}`,
+      orderTags: {
+        product: 'blueberry_farming',
+        package: lumpsumPackage.key,
+        landOptionId: landOption.id
+      }
+    });
+
+    if (!order.paymentSessionId) {
+      throw new Error(`${gateway.name} did not return a payment session for ${orderId}`);
+    }
+
+    await prisma.lumpsumOrder.create({
+      data: {
+        orderId,
+        cfOrderId: order.cfOrderId || null,
+        packageKey: lumpsumPackage.key,
+        phoneNumber: data.phoneNumber,
+        customerName: data.customerName,
+        customerEmail: data.customerEmail,
+        amount: lumpsumPackage.amount,
+        landOptionId: landOption.id,
+        paymentSessionId: order.paymentSessionId,
+        paymentLink: order.paymentLink || null,
+        gateway: gateway.name
+      }
+    });
+
+    return {
+      orderId,
+      paymentSessionId: order.paymentSessionId,
+      paymentLink: order.paymentLink || null,
+      amount: lumpsumPackage.amount,
+      plants,
+      acres,
+      landName: landOption.name
+    };
+  }
+
+  async getOrder(orderId: string): Promise<LumpsumOrderRecord | null> {
+    return await prisma.lumpsumOrder.findUnique({
+      where: { orderId }
+    });
+  }
+
+  /**
+   * Order status for the return page, checking with the gateway while we wait for the webhook
+   */
+  async getStatus(orderId: string): Promise<LumpsumOrderSummary> {
+    const order = await this.getOrder(orderId);
+
+    if (!order) {
+      throw new Error('Lumpsum order not found');
+    }
+
+    let status: LumpsumOrderSummary['status'] = order.status as LumpsumOrderStatus;
+
+    if (order.status === 'PENDING' || order.status === 'FAILED') {
+      try {
+        const gatewayOrder = await this.gateways.get(order.gateway).getOrder(orderId);
+
+        if (gatewayOrder.orderStatus === 'PAID') {
+          status = 'PROCESSING';
+        } else if (gatewayOrder.orderStatus === 'EXPIRED' || gatewayOrder.orderStatus === 'TERMINATED') {
+          status = 'EXPIRED';
+          await prisma.lumpsumOrder.update({
+            where: { orderId },
+            data: { status: 'EXPIRED' }
+          });
+        }
+      } catch (error) {
+        // Fall back to what the webhooks have told us
+        console.error('Gateway order status check failed:', error);
+      }
+    }
+
+    const plants = plantsForAmount(order.amount);
+    const landAllocation = order.landAllocationId
+      ? await prisma.landAllocation.findUnique({
+          where: { id: order.landAllocationId },
+          include: { landOption: true }
+        })
+      : null;
+
+    return {
+      orderId: order.orderId,
+      status,
+      packageName: LUMPSUM_PACKAGES[order.packageKey]?.name || order.packageKey,
+      amount: order.amount,
+      plants: landAllocation?.plantsCount ?? plants,
+      acres: landAllocation?.acres ?? plotSizeForPlants(plants),
+      landName: landAllocation?.landOption.name || null,
+      plotNumbers: landAllocation ? JSON.parse(landAllocation.plotNumbers) : [],
+      paidAt: order.paidAt
+    };
+  }
+
+  /**
+   * Record the payment for a lumpsum order and allocate its plants and land.
+   * When the land has sold out in the meantime the order is marked
+   * REFUND_DUE instead. Returns null when the order was already completed by
+   * an earlier delivery.
+   */
+  async completeOrder(
+    orderId: string,
+    payment: { cfPaymentId: string; amount: number; paymentMethod?: string; paidAt: Date; rawPayload?: unknown }
+  ): Promise<CompletedLumpsumOrder | null> {
+    return await prisma.$transaction(async (tx) => {
+      const order = await tx.lumpsumOrder.findUnique({
+        where: { orderId }
+      });
+
+      if (!order) {
+        throw new Error(`Lumpsum order not found: ${orderId}`);
+      }
+
+      if (order.status === 'PAID' || order.status === 'REFUND_DUE') return null;
+
+      const recorded = await paymentService.record({
+        orderId,
+        gateway: order.gateway,
+        paymentId: payment.cfPaymentId,
+        amount: payment.amount,
+        paymentMethod: payment.paymentMethod,
+        status: 'SUCCESS',
+        phoneNumber: order.phoneNumber,
+        paidAt: payment.paidAt,
+        rawPayload: payment.rawPayload
+      }, tx);
+
+      const allocation = await allocationService.allocateLumpsum(tx, {
+        paymentId: recorded.id,
+        phoneNumber: order.phoneNumber,
+        amount: payment.amount,
+        landOptionId: order.landOptionId,
+        acquisitionDate: payment.paidAt
+      });
+
+      const updated = await tx.lumpsumOrder.update({
+        where: { orderId },
+        data: {
+          status: allocation ? 'PAID' : 'REFUND_DUE',
+          paymentId: recorded.id,
+          landAllocationId: allocation?.landAllocationId || null,
+          failureReason: allocation ? null : 'Land sold out before the payment arrived',
+          paidAt: payment.paidAt
+        }
+      });
+
+      return { order: updated, paymentId: recorded.id, allocation };
+    });
+  }
+
+  /**
+   * Note a failed attempt; the order stays payable until the gateway expires it
+   */
+  async markFailed(orderId: string, reason?: string): Promise<void> {
+    await prisma.lumpsumOrder.updateMany({
+      where: { orderId, status: { notIn: ['PAID', 'REFUND_DUE'] } },
+      data: { status: 'FAILED', failureReason: reason || null }
+    });
+  }
+
+  // The requested land option, or the oldest one with room for the plants
+  private async findLand(acres: number, landOptionId?: string) {
+    if (landOptionId) {
+      const landOption = await prisma.landOption.findUnique({
+        where: { id: landOptionId }
+      });
+
+      if (!landOption || !landOption.isActive) {
+        throw new Error(`Land option not found: ${landOptionId}`);
+      }
+
+      if (landOption.status !== 'AVAILABLE' || landOption.availableAcres < acres) {
+        throw new Error(`Land not available on ${landOption.name} for ${acres} acres`);
+      }
+
+      return landOption;
+    }
+
+    const landOption = await prisma.landOption.findFirst({
+      where: { isActive: true, status: 'AVAILABLE', availableAcres: { gte: acres } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    if (!landOption) {
+      throw new Error(`Land not available for ${acres} acres`);
+    }
+
+    return landOption;
+  }
+}
+
+// Singleton instance
+export const lumpsumService = new LumpsumService();
@@ -0,0 +1,190 @@
+import { prisma } from '@/lib/prisma';
+import { WhatsAppMessageStatus, WhatsAppSendResponse } from '@/types/whatsapp';
+
+export type DeliveryStatus = 'ACCEPTED' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+
+export interface OutboundMessageRecord {
+  id: string;
+  phoneNumber: string;
+  messageType: string;
+  content: string;
+  metadata: string | null;
+  campaign: string | null;
+  waMessageId: string | null;
+  status: string | null;
+  statusAt: Date | null;
+  error: string | null;
+  timestamp: Date;
+}
+
+export interface CampaignDeliveryStats {
+  campaign: string;
+  total: number;
+  pending: number; // Accepted by Graph, or sent before tracking, with no status yet
+  sent: number;
+  delivered: number; // Includes read
+  read: number;
+  failed: number;
+}
+
+// Status webhooks can arrive out of order; a message never moves back down this list
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+  ACCEPTED: 0,
+  SENT: 1,
+  DELIVERED: 2,
+  READ: 3,
+  FAILED: 4
+};
+
+const MESSAGE_LIMIT = 100;
+
+/**
+ * The Graph message id from a send response; null when WhatsApp is not configured
+ */
+export function sentMessageId(response: WhatsAppSendResponse | null | undefined): string | null {
+  return response?.messages?.[0]?.id || null;
+}
+
+export class MessageDeliveryService {
+  /**
+   * Log a message we sent, keeping Graph's id so status webhooks can find it
+   */
+  async recordSent(
+    phoneNumber: string,
+    content: string,
+    response: WhatsAppSendResponse | null | undefined,
+    options: { campaign: string; metadata?: Record<string, unknown> }
+  ): Promise<OutboundMessageRecord> {
+    const waMessageId = sentMessageId(response);
+
+    return prisma.whatsAppMessage.create({
+      data: {
+        phoneNumber,
+        messageType: 'SENT',
+        content,
+        campaign: options.campaign,
+        metadata: options.metadata ? JSON.stringify(options.metadata) : null,
+        waMessageId,
+        status: waMessageId ? 'ACCEPTED' : null,
+        statusAt: waMessageId ? new Date() : null
+      }
+    });
+  }
+
+  /**
+   * Apply a status webhook to the message it refers to. Returns false for
+   * messages we have no record of, e.g. those sent before ids were kept.
+   */
+  async recordStatus(update: WhatsAppMessageStatus): Promise<boolean> {
+    const message = await prisma.whatsAppMessage.findUnique({
+      where: { waMessageId: update.id }
+    });
+
+    if (!message) {
+      return false;
+    }
+
+    const status = update.status.toUpperCase() as DeliveryStatus;
+    const current = message.status as DeliveryStatus | null;
+
+    if (current && STATUS_RANK[current] >= STATUS_RANK[status]) {
+      return true;
+    }
+
+    await prisma.whatsAppMessage.update({
+      where: { id: message.id },
+      data: {
+        status,
+        statusAt: new Date(Number(update.timestamp) * 1000),
+        error: update.errors?.length
+          ? update.errors.map(error => `${error.code}: ${error.message || error.title}`).join('; ')
+          : message.error
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * Messages we sent, newest first
+   */
+  async listMessages(filters: {
+    campaign?: string;
+    status?: DeliveryStatus;
+    phoneNumber?: string;
+  } = {}): Promise<OutboundMessageRecord[]> {
+    return prisma.whatsAppMessage.findMany({
+      where: {
+        messageType: 'SENT',
+        ...(filters.campaign && { campaign: filters.campaign }),
+        ...(filters.status && { status: filters.status }),
+        ...(filters.phoneNumber && { phoneNumber: filters.phoneNumber })
+      },
+      orderBy: { timestamp: 'desc' },
+      take: MESSAGE_LIMIT,
+      select: {
+        id: true,
+        phoneNumber: true,
+        messageType: true,
+        content: true,
+        metadata: true,
+        campaign: true,
+        waMessageId: true,
+        status: true,
+        statusAt: true,
+        error: true,
+        timestamp: true
+      }
+    });
+  }
+
+  /**
+   * How far the messages each campaign sent got, optionally since a date or
+   * for one campaign
+   */
+  async getCampaignStats(since?: Date, forCampaign?: string): Promise<CampaignDeliveryStats[]> {
+    const groups = await prisma.whatsAppMessage.groupBy({
+      by: ['campaign', 'status'],
+      where: {
+        messageType: 'SENT',
+        ...(since && { timestamp: { gte: since } }),
+        ...(forCampaign && { campaign: forCampaign })
+      },
+      _count: { _all: true }
+    });
+
+    const stats = new Map<string, CampaignDeliveryStats>();
+
+    for (const group of groups) {
+      const campaign = group.campaign || 'untracked';
+      const count = group._count._all;
+      const entry = stats.get(campaign) || { campaign, total: 0, pending: 0, sent: 0, delivered: 0, read: 0, failed: 0 };
+
+      entry.total += count;
+      switch (group.status) {
+        case 'SENT':
+          entry.sent += count;
+          break;
+        case 'DELIVERED':
+          entry.delivered += count;
+          break;
+        case 'READ':
+          entry.delivered += count;
+          entry.read += count;
+          break;
+        case 'FAILED':
+          entry.failed += count;
+          break;
+        default:
+          entry.pending += count;
+      }
+
+      stats.set(campaign, entry);
+    }
+
+    return Array.from(stats.values()).sort((a, b) => b.total - a.total);
+  }
+}
+
+// Singleton instance
+export const messageDeliveryService = new MessageDeliveryService();
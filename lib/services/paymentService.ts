@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+export type PaymentStatus = 'SUCCESS' | 'FAILED';
+
+export interface RecordPaymentDTO {
+  orderId: string;
+  paymentId?: string | null;
+  amount: number;
+  paymentMethod?: string | null;
+  status: PaymentStatus;
+  failureReason?: string | null;
+  subscriptionId?: string | null;
+  sipInvestmentId?: string | null;
+  phoneNumber?: string | null;
+  paidAt?: Date | null;
+  rawPayload?: unknown;
+  gateway?: string; // Cashfree unless set
+}
+
+export interface PaymentFilter {
+  phoneNumber?: string;
+  status?: string;
+  sipInvestmentId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface PaymentRecord {
+  id: string;
+  orderId: string;
+  paymentId: string | null;
+  amount: number;
+  currency: string;
+  paymentMethod: string | null;
+  status: string;
+  failureReason: string | null;
+  subscriptionId: string | null;
+  sipInvestmentId: string | null;
+  phoneNumber: string | null;
+  paidAt: Date | null;
+  rawPayload: string | null;
+  gateway: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class PaymentService {
+  /**
+   * Record a payment attempt reported by a gateway, optionally inside a caller's transaction
+   */
+  async record(data: RecordPaymentDTO, client: Prisma.TransactionClient = prisma): Promise<PaymentRecord> {
+    return await client.payment.create({
+      data: {
+        orderId: data.orderId,
+        paymentId: data.paymentId || null,
+        amount: data.amount,
+        paymentMethod: data.paymentMethod || null,
+        status: data.status,
+        failureReason: data.failureReason || null,
+        subscriptionId: data.subscriptionId || null,
+        sipInvestmentId: data.sipInvestmentId || null,
+        phoneNumber: data.phoneNumber || null,
+        paidAt: data.paidAt || null,
+        rawPayload: data.rawPayload ? JSON.stringify(data.rawPayload) : null,
+        ...(data.gateway && { gateway: data.gateway })
+      }
+    });
+  }
+
+  /**
+   * Get a payment by its Cashfree payment ID
+   */
+  async getByPaymentId(paymentId: string): Promise<PaymentRecord | null> {
+    return await prisma.payment.findUnique({
+      where: { paymentId }
+    });
+  }
+
+  /**
+   * Get payment history with pagination and filtering
+   */
+  async getHistory(
+    page: number = 1,
+    limit: number = 20,
+    filter?: PaymentFilter
+  ): Promise<{ payments: PaymentRecord[]; total: number; totalPages: number; totalAmount: number }> {
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+
+    if (filter) {
+      if (filter.phoneNumber) where.phoneNumber = filter.phoneNumber;
+      if (filter.status) where.status = filter.status;
+      if (filter.sipInvestmentId) where.sipInvestmentId = filter.sipInvestmentId;
+      if (filter.from || filter.to) {
+        where.createdAt = {};
+        if (filter.from) where.createdAt.gte = filter.from;
+        if (filter.to) where.createdAt.lte = filter.to;
+      }
+    }
+
+    const [payments, total, sum] = await Promise.all([
+      prisma.payment.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        // How each payment turned into plants, so customers can trace their count
+        include: { allocation: true }
+      }),
+      prisma.payment.count({ where }),
+      // Only money actually collected counts towards what the customer paid
+      prisma.payment.aggregate({
+        where: { AND: [where, { status: 'SUCCESS' }] },
+        _sum: { amount: true }
+      })
+    ]);
+
+    return {
+      payments,
+      total,
+      totalPages: Math.ceil(total / limit),
+      totalAmount: sum._sum.amount || 0
+    };
+  }
+}
+
+// Singleton instance
+export const paymentService = new PaymentService();
@@ -0,0 +1,347 @@
+import { prisma } from '@/lib/prisma';
+import type { SubscriptionPlan } from '@/lib/cashfree';
+import {
+  PaymentGatewayRegistry,
+  createPaymentGatewaysFromEnv,
+  isPaymentGatewayName,
+  DEFAULT_PAYMENT_GATEWAY,
+  type PaymentGatewayName
+} from '@/lib/payment-gateway';
+import { RAZORPAY_MIN_DAILY_INTERVAL } from '@/lib/razorpay';
+import { LUMPSUM_PACKAGES } from '@/lib/services/lumpsumService';
+
+export type PlanIntervalType = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface CreatePlanDTO {
+  key: string;
+  planName: string;
+  intervalType: PlanIntervalType;
+  intervals?: number;
+  maxCycles: number;
+  amount: number;
+  description: string;
+  gateway?: PaymentGatewayName;
+}
+
+export type UpdatePlanDTO = Partial<Omit<CreatePlanDTO, 'key'>>;
+
+export interface PlanRecord {
+  id: string;
+  key: string;
+  version: number;
+  planId: string;
+  planName: string;
+  intervalType: string;
+  intervals: number;
+  maxCycles: number;
+  amount: number;
+  currency: string;
+  description: string;
+  status: string;
+  syncStatus: string;
+  syncError: string | null;
+  syncedAt: Date | null;
+  gateway: string;
+  gatewayPlanId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const INTERVAL_TYPES: PlanIntervalType[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+// The original catalogue; these plan IDs are already registered with Cashfree.
+// Lumpsum packages are one-time orders, see LUMPSUM_PACKAGES in lumpsumService.
+export const DEFAULT_PLANS: Array<CreatePlanDTO & { planId: string }> = [
+  {
+    key: 'dailySIP',
+    planId: 'DARJBERRY_DAILY_10K',
+    planName: 'Darjberry Daily SIP ₹10,000',
+    maxCycles: 365,
+    intervalType: 'DAILY',
+    intervals: 1,
+    amount: 10000,
+    description: 'Daily ₹10,000 investment in Darjeeling blueberry farms with tax-free returns'
+  },
+  {
+    key: 'monthly30K',
+    planId: 'DARJBERRY_MONTHLY_30K',
+    planName: 'Darjberry Monthly ₹30,000',
+    maxCycles: 120,
+    intervalType: 'MONTHLY',
+    intervals: 1,
+    amount: 30000,
+    description: 'Monthly ₹30,000 for systematic blueberry farm investment'
+  }
+];
+
+export class PlanService {
+  private gateways: PaymentGatewayRegistry;
+
+  constructor(gateways: PaymentGatewayRegistry = createPaymentGatewaysFromEnv()) {
+    this.gateways = gateways;
+  }
+
+  /**
+   * Latest synced, active version of a plan. The original catalogue is seeded
+   * on first use so existing flows keep working on an empty table.
+   */
+  async getActivePlan(key: string): Promise<PlanRecord | null> {
+    const plan = await prisma.subscriptionPlan.findFirst({
+      where: { key, status: 'ACTIVE', syncStatus: 'SYNCED' },
+      orderBy: { version: 'desc' }
+    });
+
+    if (plan) {
+      return plan;
+    }
+
+    const defaultPlan = DEFAULT_PLANS.find(p => p.key === key);
+    if (!defaultPlan) {
+      return null;
+    }
+
+    const existing = await prisma.subscriptionPlan.count({ where: { key } });
+    if (existing > 0) {
+      return null;
+    }
+
+    return await prisma.subscriptionPlan.create({
+      data: {
+        ...defaultPlan,
+        intervals: defaultPlan.intervals || 1,
+        version: 1,
+        syncStatus: 'SYNCED',
+        syncedAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Synced daily plans on a gateway, cheapest first: the amounts a daily SIP
+   * can move between
+   */
+  async getDailyPlans(gateway: string): Promise<PlanRecord[]> {
+    // Seeds the original daily plan on an empty table
+    await this.getActivePlan('dailySIP');
+
+    return await prisma.subscriptionPlan.findMany({
+      where: { intervalType: 'DAILY', intervals: 1, status: 'ACTIVE', syncStatus: 'SYNCED', gateway },
+      orderBy: { amount: 'asc' }
+    });
+  }
+
+  /**
+   * All plan versions, newest first
+   */
+  async list(includeRetired: boolean = false): Promise<PlanRecord[]> {
+    return await prisma.subscriptionPlan.findMany({
+      where: includeRetired ? {} : { status: 'ACTIVE' },
+      orderBy: [{ key: 'asc' }, { version: 'desc' }]
+    });
+  }
+
+  /**
+   * Add a new plan to the catalogue. It becomes selectable once sync has
+   * registered it with the plan's gateway (Cashfree unless chosen otherwise).
+   */
+  async create(data: CreatePlanDTO): Promise<PlanRecord> {
+    if (!/^[a-zA-Z][a-zA-Z0-9]*$/.test(data.key || '')) {
+      throw new Error('Invalid plan key: use letters and digits only');
+    }
+
+    this.validateTerms(data);
+
+    const existing = await prisma.subscriptionPlan.count({ where: { key: data.key } });
+    if (existing > 0 || DEFAULT_PLANS.some(p => p.key === data.key) || LUMPSUM_PACKAGES[data.key]) {
+      throw new Error(`Plan ${data.key} already exists`);
+    }
+
+    return await prisma.subscriptionPlan.create({
+      data: {
+        key: data.key,
+        version: 1,
+        planId: this.buildPlanId(data.key, 1),
+        planName: data.planName,
+        intervalType: data.intervalType,
+        intervals: data.intervals || 1,
+        maxCycles: data.maxCycles,
+        amount: data.amount,
+        description: data.description,
+        gateway: data.gateway || DEFAULT_PAYMENT_GATEWAY,
+        syncStatus: 'PENDING'
+      }
+    });
+  }
+
+  /**
+   * Change a plan by creating its next version. The current version stays
+   * selectable until the new one is synced, and existing subscriptions keep theirs.
+   */
+  async update(key: string, changes: UpdatePlanDTO): Promise<PlanRecord> {
+    const current = await this.getLatestVersion(key);
+
+    if (!current || current.status === 'RETIRED') {
+      throw new Error(`Plan ${key} not found`);
+    }
+
+    const terms = {
+      planName: changes.planName ?? current.planName,
+      intervalType: (changes.intervalType ?? current.intervalType) as PlanIntervalType,
+      intervals: changes.intervals ?? current.intervals,
+      maxCycles: changes.maxCycles ?? current.maxCycles,
+      amount: changes.amount ?? current.amount,
+      description: changes.description ?? current.description,
+      // Moving a plan to another gateway is a new version like any other change
+      gateway: (changes.gateway ?? current.gateway) as PaymentGatewayName
+    };
+
+    this.validateTerms(terms);
+
+    const version = current.version + 1;
+
+    return await prisma.subscriptionPlan.create({
+      data: {
+        ...terms,
+        key,
+        version,
+        planId: this.buildPlanId(key, version),
+        syncStatus: 'PENDING'
+      }
+    });
+  }
+
+  /**
+   * Withdraw a plan from sale. Subscriptions already on it are unaffected.
+   */
+  async retire(key: string): Promise<number> {
+    const result = await prisma.subscriptionPlan.updateMany({
+      where: { key, status: 'ACTIVE' },
+      data: { status: 'RETIRED' }
+    });
+
+    if (result.count === 0) {
+      throw new Error(`Plan ${key} not found`);
+    }
+
+    return result.count;
+  }
+
+  /**
+   * Register pending plan versions with their gateway and retire the versions they supersede
+   */
+  async sync(): Promise<{ synced: string[]; failed: string[] }> {
+    const pending = await prisma.subscriptionPlan.findMany({
+      where: { status: 'ACTIVE', syncStatus: { in: ['PENDING', 'FAILED'] } },
+      orderBy: [{ key: 'asc' }, { version: 'asc' }]
+    });
+
+    const synced: string[] = [];
+    const failed: string[] = [];
+
+    for (const plan of pending) {
+      try {
+        const gateway = this.gateways.get(plan.gateway);
+        const registered = await gateway.createSubscriptionPlan(this.toGatewayPlan(plan));
+
+        await prisma.$transaction([
+          prisma.subscriptionPlan.update({
+            where: { id: plan.id },
+            data: {
+              syncStatus: 'SYNCED',
+              syncError: null,
+              syncedAt: new Date(),
+              gatewayPlanId: registered?.planId || null
+            }
+          }),
+          prisma.subscriptionPlan.updateMany({
+            where: { key: plan.key, version: { lt: plan.version }, status: 'ACTIVE' },
+            data: { status: 'RETIRED' }
+          })
+        ]);
+        synced.push(plan.planId);
+      } catch (error) {
+        console.error(`Plan sync failed for ${plan.planId}:`, error);
+        await prisma.subscriptionPlan.update({
+          where: { id: plan.id },
+          data: {
+            syncStatus: 'FAILED',
+            syncError: error instanceof Error ? error.message : 'Unknown error'
+          }
+        });
+        failed.push(plan.planId);
+      }
+    }
+
+    return { synced, failed };
+  }
+
+  /**
+   * Shape a catalogue entry as the plan a gateway registers
+   */
+  toGatewayPlan(plan: PlanRecord): SubscriptionPlan {
+    return {
+      planId: plan.planId,
+      planName: plan.planName,
+      type: 'PERIODIC',
+      maxCycles: plan.maxCycles,
+      intervalType: plan.intervalType as PlanIntervalType,
+      intervals: plan.intervals,
+      amount: plan.amount,
+      currency: 'INR',
+      description: plan.description
+    };
+  }
+
+  private async getLatestVersion(key: string): Promise<PlanRecord | null> {
+    const plan = await prisma.subscriptionPlan.findFirst({
+      where: { key },
+      orderBy: { version: 'desc' }
+    });
+
+    if (plan) {
+      return plan;
+    }
+
+    // Seed a default plan so its first edit becomes version 2
+    return await this.getActivePlan(key);
+  }
+
+  private validateTerms(terms: Omit<CreatePlanDTO, 'key'>): void {
+    if (!terms.planName || !terms.description) {
+      throw new Error('Invalid plan: name and description are required');
+    }
+
+    if (!INTERVAL_TYPES.includes(terms.intervalType)) {
+      throw new Error(`Invalid interval type: ${terms.intervalType}`);
+    }
+
+    if (!(terms.amount > 0)) {
+      throw new Error('Invalid plan amount');
+    }
+
+    if (!Number.isInteger(terms.maxCycles) || terms.maxCycles < 1) {
+      throw new Error('Invalid max cycles');
+    }
+
+    if (terms.intervals !== undefined && (!Number.isInteger(terms.intervals) || terms.intervals < 1)) {
+      throw new Error('Invalid interval count');
+    }
+
+    if (terms.gateway !== undefined && !isPaymentGatewayName(terms.gateway)) {
+      throw new Error(`Invalid payment gateway: ${terms.gateway}`);
+    }
+
+    // Caught here rather than at sync, so the plan is never saved in a form Razorpay will refuse
+    if (terms.gateway === 'RAZORPAY' && terms.intervalType === 'DAILY' && (terms.intervals ?? 1) < RAZORPAY_MIN_DAILY_INTERVAL) {
+      throw new Error(`Invalid plan for RAZORPAY: daily plans must debit every ${RAZORPAY_MIN_DAILY_INTERVAL} days or more`);
+    }
+  }
+
+  private buildPlanId(key: string, version: number): string {
+    const base = key.replace(/([a-z])([A-Z0-9])/g, '$1_$2').toUpperCase();
+    return `DARJBERRY_${base}_V${version}`;
+  }
+}
+
+// Singleton instance
+export const planService = new PlanService();
@@ -0,0 +1,304 @@
+import { prisma } from '@/lib/prisma';
+import { parseSettlementReport, type SettlementRow } from '@/lib/settlement-report';
+
+export type ReconciliationExceptionType =
+  | 'MISSING_WEBHOOK'
+  | 'DOUBLE_CREDIT'
+  | 'AMOUNT_MISMATCH'
+  | 'STATUS_MISMATCH'
+  | 'TOTAL_INVESTED_MISMATCH';
+
+export type ReconciliationExceptionStatus = 'OPEN' | 'RESOLVED';
+
+export interface ReconciliationExceptionRecord {
+  id: string;
+  runId: string;
+  key: string;
+  type: string;
+  orderId: string | null;
+  cfPaymentId: string | null;
+  paymentId: string | null;
+  sipInvestmentId: string | null;
+  expectedAmount: number | null;
+  actualAmount: number | null;
+  details: string;
+  status: string;
+  resolutionNote: string | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ReconciliationRunRecord {
+  id: string;
+  source: string | null;
+  rowCount: number;
+  skippedCount: number;
+  matchedCount: number;
+  exceptionCount: number;
+  createdAt: Date;
+}
+
+export interface ReconciliationSummary extends ReconciliationRunRecord {
+  exceptions: ReconciliationExceptionRecord[];
+}
+
+interface ExceptionDraft {
+  type: ReconciliationExceptionType;
+  reference: string;
+  orderId?: string | null;
+  cfPaymentId?: string | null;
+  paymentId?: string | null;
+  sipInvestmentId?: string | null;
+  expectedAmount?: number | null;
+  actualAmount?: number | null;
+  details: string;
+}
+
+// Anything under a paisa is float noise, not a discrepancy
+const AMOUNT_TOLERANCE = 0.01;
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+// Payment statuses that credited the customer at some point
+const isCredited = (payment: { status: string }) => payment.status !== 'FAILED';
+
+export class ReconciliationService {
+  /**
+   * Match a Cashfree settlement/transaction export against the payment ledger,
+   * then cross-check every SIP's totalInvested against its payments.
+   * Discrepancies are stored as exceptions for the admin to work through.
+   */
+  async run(csv: string, source?: string): Promise<ReconciliationSummary> {
+    const report = parseSettlementReport(csv);
+
+    const run = await prisma.reconciliationRun.create({
+      data: {
+        source: source || null,
+        rowCount: report.rows.length,
+        skippedCount: report.skipped,
+        matchedCount: 0,
+        exceptionCount: 0
+      }
+    });
+
+    const exceptions: ReconciliationExceptionRecord[] = [];
+    const seen = new Set<string>();
+    let matchedCount = 0;
+
+    for (const row of report.rows) {
+      // Exports overlap when downloaded for adjacent date ranges
+      const rowKey = `${row.cfPaymentId || row.orderId}:${row.status}`;
+      if (seen.has(rowKey)) continue;
+      seen.add(rowKey);
+
+      const draft = await this.checkRow(row);
+      if (!draft) {
+        matchedCount++;
+        continue;
+      }
+
+      const exception = await this.raise(run.id, draft);
+      if (exception) exceptions.push(exception);
+    }
+
+    for (const draft of await this.checkTotals()) {
+      const exception = await this.raise(run.id, draft);
+      if (exception) exceptions.push(exception);
+    }
+
+    const updated = await prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: { matchedCount, exceptionCount: exceptions.length }
+    });
+
+    return { ...updated, exceptions };
+  }
+
+  /**
+   * Exceptions for the admin queue, newest first
+   */
+  async listExceptions(
+    filter: { status?: ReconciliationExceptionStatus; type?: ReconciliationExceptionType } = {}
+  ): Promise<ReconciliationExceptionRecord[]> {
+    return await prisma.reconciliationException.findMany({
+      where: {
+        ...(filter.status && { status: filter.status }),
+        ...(filter.type && { type: filter.type })
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Recent reconciliation runs, newest first
+   */
+  async listRuns(limit: number = 20): Promise<ReconciliationRunRecord[]> {
+    return await prisma.reconciliationRun.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Close an exception once it has been investigated
+   */
+  async resolve(id: string, note?: string): Promise<ReconciliationExceptionRecord> {
+    const exception = await prisma.reconciliationException.findUnique({
+      where: { id }
+    });
+
+    if (!exception) {
+      throw new Error('Reconciliation exception not found');
+    }
+
+    if (exception.status !== 'OPEN') {
+      throw new Error(`Invalid exception status for resolve: ${exception.status}`);
+    }
+
+    return await prisma.reconciliationException.update({
+      where: { id },
+      data: {
+        status: 'RESOLVED',
+        resolutionNote: note || null,
+        resolvedAt: new Date()
+      }
+    });
+  }
+
+  // Compare one export row with what the webhooks recorded; null when they agree
+  private async checkRow(row: SettlementRow): Promise<ExceptionDraft | null> {
+    const candidates = await prisma.payment.findMany({
+      where: {
+        OR: [
+          { orderId: row.orderId },
+          ...(row.cfPaymentId ? [{ paymentId: row.cfPaymentId }] : [])
+        ]
+      }
+    });
+
+    const reference = row.cfPaymentId || row.orderId;
+    const common = { reference, orderId: row.orderId, cfPaymentId: row.cfPaymentId };
+
+    if (row.status !== 'SUCCESS') {
+      // Orders are retried, so only the exact payment can contradict a failure
+      const credited = row.cfPaymentId
+        ? candidates.find(payment => payment.paymentId === row.cfPaymentId && isCredited(payment))
+        : undefined;
+
+      if (!credited) return null;
+
+      return {
+        ...common,
+        type: 'STATUS_MISMATCH',
+        paymentId: credited.id,
+        sipInvestmentId: credited.sipInvestmentId,
+        expectedAmount: 0,
+        actualAmount: credited.amount,
+        details: `Cashfree reports ${reference} as ${row.status} but we credited ${formatAmount(credited.amount)}`
+      };
+    }
+
+    const credited = candidates.filter(isCredited);
+
+    if (credited.length === 0) {
+      const recordedFailure = candidates.length > 0 ? ' (we recorded it as failed)' : '';
+      return {
+        ...common,
+        type: 'MISSING_WEBHOOK',
+        paymentId: candidates[0]?.id,
+        sipInvestmentId: candidates[0]?.sipInvestmentId,
+        expectedAmount: row.amount,
+        actualAmount: 0,
+        details: `Cashfree settled ${formatAmount(row.amount)} for order ${row.orderId} but no successful payment was recorded${recordedFailure}`
+      };
+    }
+
+    if (credited.length > 1) {
+      const creditedAmount = credited.reduce((sum, payment) => sum + payment.amount, 0);
+      return {
+        ...common,
+        type: 'DOUBLE_CREDIT',
+        paymentId: credited[0].id,
+        sipInvestmentId: credited[0].sipInvestmentId,
+        expectedAmount: row.amount,
+        actualAmount: creditedAmount,
+        details: `Order ${row.orderId} was paid once but credited ${credited.length} times (${credited.map(payment => payment.id).join(', ')})`
+      };
+    }
+
+    const [payment] = credited;
+    if (Math.abs(payment.amount - row.amount) > AMOUNT_TOLERANCE) {
+      return {
+        ...common,
+        type: 'AMOUNT_MISMATCH',
+        paymentId: payment.id,
+        sipInvestmentId: payment.sipInvestmentId,
+        expectedAmount: row.amount,
+        actualAmount: payment.amount,
+        details: `Cashfree settled ${formatAmount(row.amount)} for order ${row.orderId} but we recorded ${formatAmount(payment.amount)}`
+      };
+    }
+
+    return null;
+  }
+
+  // totalInvested is only ever incremented by webhooks, so rebuild it from the ledger
+  private async checkTotals(): Promise<ExceptionDraft[]> {
+    const sips = await prisma.sIPInvestment.findMany({
+      include: { payments: true }
+    });
+
+    const drafts: ExceptionDraft[] = [];
+
+    for (const sip of sips) {
+      const ledgerTotal = sip.payments
+        .filter(isCredited)
+        .reduce((sum, payment) => sum + payment.amount - payment.refundedAmount, 0);
+      const difference = sip.totalInvested - ledgerTotal;
+
+      if (Math.abs(difference) <= AMOUNT_TOLERANCE) continue;
+
+      drafts.push({
+        type: 'TOTAL_INVESTED_MISMATCH',
+        reference: sip.id,
+        sipInvestmentId: sip.id,
+        expectedAmount: ledgerTotal,
+        actualAmount: sip.totalInvested,
+        details: difference > 0
+          ? `SIP for ${sip.phoneNumber} shows ${formatAmount(difference)} more invested than its payments add up to (possible double credit)`
+          : `SIP for ${sip.phoneNumber} shows ${formatAmount(-difference)} less invested than its payments add up to (missed credit)`
+      });
+    }
+
+    return drafts;
+  }
+
+  // Store an exception unless the same one is still open from an earlier run
+  private async raise(runId: string, draft: ExceptionDraft): Promise<ReconciliationExceptionRecord | null> {
+    const key = `${draft.type}:${draft.reference}`;
+
+    const open = await prisma.reconciliationException.findFirst({
+      where: { key, status: 'OPEN' }
+    });
+
+    if (open) return null;
+
+    return await prisma.reconciliationException.create({
+      data: {
+        runId,
+        key,
+        type: draft.type,
+        orderId: draft.orderId ?? null,
+        cfPaymentId: draft.cfPaymentId ?? null,
+        paymentId: draft.paymentId ?? null,
+        sipInvestmentId: draft.sipInvestmentId ?? null,
+        expectedAmount: draft.expectedAmount ?? null,
+        actualAmount: draft.actualAmount ?? null,
+        details: draft.details
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const reconciliationService = new ReconciliationService();
@@ -0,0 +1,362 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { PaymentGatewayRegistry, createPaymentGatewaysFromEnv } from '@/lib/payment-gateway';
+import { plotSizeForPlants } from '@/lib/plant-allocation';
+
+export interface RefundRecord {
+  id: string;
+  refundId: string;
+  cfRefundId: string | null;
+  paymentId: string;
+  type: string;
+  amount: number;
+  status: string;
+  reason: string | null;
+  initiatedBy: string | null;
+  createdAt: Date;
+  processedAt: Date | null;
+}
+
+export interface ReversalResult {
+  phoneNumber: string | null;
+  amount: number;
+  plantsRemoved: number;
+  fullyReversed: boolean;
+}
+
+// Only these payment states still hold money that can be given back
+const REFUNDABLE_STATUSES = ['SUCCESS', 'PARTIALLY_REFUNDED', 'DISPUTED'];
+
+export class RefundService {
+  private gateways: PaymentGatewayRegistry;
+
+  constructor(gateways: PaymentGatewayRegistry = createPaymentGatewaysFromEnv()) {
+    this.gateways = gateways;
+  }
+
+  /**
+   * Start a refund with the gateway that took the payment. The credit is only rolled back once the
+   * REFUND_SUCCESS webhook confirms it, via applyRefund.
+   */
+  async initiate(paymentId: string, amount: number | undefined, reason: string): Promise<RefundRecord> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId }
+    });
+
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+      throw new Error(`Invalid payment status for refund: ${payment.status}`);
+    }
+
+    // Refunds still with the gateway are not in refundedAmount yet
+    const pending = await prisma.refund.aggregate({
+      where: { paymentId: payment.id, type: 'REFUND', status: 'PENDING' },
+      _sum: { amount: true }
+    });
+    const refundable = payment.amount - payment.refundedAmount - (pending._sum.amount || 0);
+    const refundAmount = amount ?? refundable;
+
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      throw new Error(`Invalid refund amount: ₹${refundAmount} (refundable ₹${refundable})`);
+    }
+
+    const refundId = `RFD_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+    const gatewayRefund = await this.gateways.get(payment.gateway).createRefund(payment.orderId, {
+      refundId,
+      refundAmount,
+      refundNote: reason
+    }, payment.paymentId);
+
+    return await prisma.refund.create({
+      data: {
+        refundId,
+        cfRefundId: gatewayRefund.cfRefundId || null,
+        paymentId: payment.id,
+        type: 'REFUND',
+        amount: refundAmount,
+        status: 'PENDING',
+        reason,
+        initiatedBy: 'ADMIN'
+      }
+    });
+  }
+
+  /**
+   * Apply a refund Cashfree has confirmed. Refunds started from the Cashfree
+   * dashboard have no local record yet, so one is created here.
+   */
+  async applyRefund(data: {
+    cfPaymentId: string;
+    refundId: string;
+    cfRefundId?: string;
+    amount: number;
+    reason?: string;
+  }): Promise<ReversalResult | null> {
+    const payment = await prisma.payment.findUnique({
+      where: { paymentId: data.cfPaymentId }
+    });
+
+    if (!payment) {
+      console.error('Refund for unknown payment:', data.cfPaymentId);
+      return null;
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      await tx.refund.upsert({
+        where: { refundId: data.refundId },
+        update: { status: 'SUCCESS', cfRefundId: data.cfRefundId, processedAt: new Date() },
+        create: {
+          refundId: data.refundId,
+          cfRefundId: data.cfRefundId || null,
+          paymentId: payment.id,
+          type: 'REFUND',
+          amount: data.amount,
+          status: 'SUCCESS',
+          reason: data.reason || null,
+          initiatedBy: 'CASHFREE',
+          processedAt: new Date()
+        }
+      });
+
+      return await this.reverseCredit(tx, payment, data.amount);
+    });
+  }
+
+  /**
+   * Record a failed refund so admins can see it and try again
+   */
+  async markRefundFailed(refundId: string, reason?: string): Promise<void> {
+    await prisma.refund.updateMany({
+      where: { refundId },
+      data: { status: 'FAILED', reason, processedAt: new Date() }
+    });
+  }
+
+  /**
+   * Flag a disputed payment and its plants until the dispute is resolved
+   */
+  async openDispute(data: {
+    cfPaymentId: string;
+    disputeId: string;
+    amount: number;
+    reason?: string;
+  }): Promise<{ phoneNumber: string | null } | null> {
+    const payment = await prisma.payment.findUnique({
+      where: { paymentId: data.cfPaymentId }
+    });
+
+    if (!payment) {
+      console.error('Dispute for unknown payment:', data.cfPaymentId);
+      return null;
+    }
+
+    await prisma.$transaction([
+      prisma.refund.upsert({
+        where: { refundId: data.disputeId },
+        update: {},
+        create: {
+          refundId: data.disputeId,
+          paymentId: payment.id,
+          type: 'CHARGEBACK',
+          amount: data.amount,
+          status: 'OPEN',
+          reason: data.reason || null,
+          initiatedBy: 'CASHFREE'
+        }
+      }),
+      prisma.payment.update({
+        where: { id: payment.id },
+        data: { status: 'DISPUTED' }
+      }),
+      prisma.berryPlot.updateMany({
+        where: { paymentId: payment.id, status: 'ACTIVE' },
+        data: { status: 'UNDER_DISPUTE' }
+      })
+    ]);
+
+    return { phoneNumber: payment.phoneNumber };
+  }
+
+  /**
+   * Close a dispute: a win restores the allocation, a loss reverses it like a refund
+   */
+  async resolveDispute(data: {
+    cfPaymentId: string;
+    disputeId: string;
+    merchantWon: boolean;
+  }): Promise<ReversalResult | null> {
+    const payment = await prisma.payment.findUnique({
+      where: { paymentId: data.cfPaymentId }
+    });
+
+    if (!payment) {
+      console.error('Dispute resolution for unknown payment:', data.cfPaymentId);
+      return null;
+    }
+
+    const dispute = await prisma.refund.findUnique({
+      where: { refundId: data.disputeId }
+    });
+    const disputedAmount = dispute?.amount ?? payment.amount - payment.refundedAmount;
+
+    return await prisma.$transaction(async (tx) => {
+      await tx.refund.updateMany({
+        where: { refundId: data.disputeId },
+        data: { status: data.merchantWon ? 'WON' : 'LOST', processedAt: new Date() }
+      });
+
+      if (data.merchantWon) {
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: { status: payment.refundedAmount > 0 ? 'PARTIALLY_REFUNDED' : 'SUCCESS' }
+        });
+        await tx.berryPlot.updateMany({
+          where: { paymentId: payment.id, status: 'UNDER_DISPUTE' },
+          data: { status: 'ACTIVE' }
+        });
+        return { phoneNumber: payment.phoneNumber, amount: 0, plantsRemoved: 0, fullyReversed: false };
+      }
+
+      return await this.reverseCredit(tx, payment, disputedAmount, 'CHARGEBACK');
+    });
+  }
+
+  /**
+   * Roll back the totalInvested increment, the plants a payment funded, the
+   * credit it carried forward and, for lumpsum purchases, the land it took,
+   * in proportion to the amount being reversed
+   */
+  private async reverseCredit(
+    tx: Prisma.TransactionClient,
+    payment: { id: string; amount: number; refundedAmount: number; sipInvestmentId: string | null; phoneNumber: string | null },
+    amount: number,
+    finalStatus: 'REFUNDED' | 'CHARGEBACK' = 'REFUNDED'
+  ): Promise<ReversalResult> {
+    const refundedAmount = Math.min(payment.amount, payment.refundedAmount + amount);
+    const reversedAmount = refundedAmount - payment.refundedAmount;
+    const fullyReversed = refundedAmount >= payment.amount;
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        refundedAmount,
+        status: fullyReversed ? finalStatus : 'PARTIALLY_REFUNDED'
+      }
+    });
+
+    // Plants still funded by this payment map to the amount not yet refunded
+    const outstandingAmount = payment.amount - payment.refundedAmount;
+    let plantsRemoved = 0;
+    const plots = await tx.berryPlot.findMany({
+      where: { paymentId: payment.id, status: { not: 'DEALLOCATED' } }
+    });
+
+    for (const plot of plots) {
+      if (fullyReversed) {
+        plantsRemoved += plot.plantCount;
+        await tx.berryPlot.update({
+          where: { id: plot.id },
+          data: { status: 'DEALLOCATED' }
+        });
+        continue;
+      }
+
+      if (plot.plantCount === 0) continue;
+
+      const plantsToRemove = Math.min(plot.plantCount, Math.round(plot.plantCount * reversedAmount / outstandingAmount));
+      const remainingPlants = plot.plantCount - plantsToRemove;
+      plantsRemoved += plantsToRemove;
+
+      await tx.berryPlot.update({
+        where: { id: plot.id },
+        data: {
+          plantCount: remainingPlants,
+          plotSize: plot.plotSize * (remainingPlants / plot.plantCount),
+          // A lost chargeback closes the dispute, so surviving plants are released from the flag
+          status: remainingPlants === 0 ? 'DEALLOCATED' : finalStatus === 'CHARGEBACK' ? 'ACTIVE' : plot.status
+        }
+      });
+    }
+
+    const allocation = await tx.plantAllocation.findUnique({
+      where: { paymentId: payment.id }
+    });
+
+    if (allocation) {
+      await tx.plantAllocation.update({
+        where: { id: allocation.id },
+        data: { plantsAllocated: Math.max(0, allocation.plantsAllocated - plantsRemoved) }
+      });
+    }
+
+    if (payment.sipInvestmentId) {
+      const sip = await tx.sIPInvestment.findUnique({
+        where: { id: payment.sipInvestmentId }
+      });
+
+      // The remainder this payment left (or used up) as credit goes back with the money
+      const creditReversed = allocation
+        ? (allocation.creditAfter - allocation.creditBefore) * reversedAmount / payment.amount
+        : 0;
+      const allocationCredit = Math.max(0, Math.round(((sip?.allocationCredit ?? 0) - creditReversed) * 100) / 100);
+
+      await tx.sIPInvestment.update({
+        where: { id: payment.sipInvestmentId },
+        data: { totalInvested: { decrement: reversedAmount }, allocationCredit }
+      });
+    } else {
+      await this.releaseLand(tx, payment.id, plantsRemoved, fullyReversed);
+    }
+
+    return { phoneNumber: payment.phoneNumber, amount: reversedAmount, plantsRemoved, fullyReversed };
+  }
+
+  /**
+   * Give the acres behind a refunded lumpsum purchase back to its land option
+   */
+  private async releaseLand(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+    plantsRemoved: number,
+    fullyReversed: boolean
+  ): Promise<void> {
+    const order = await tx.lumpsumOrder.findUnique({
+      where: { paymentId }
+    });
+
+    if (!order?.landAllocationId) {
+      return;
+    }
+
+    const landAllocation = await tx.landAllocation.findUnique({
+      where: { id: order.landAllocationId }
+    });
+
+    if (!landAllocation || landAllocation.status !== 'ACTIVE') {
+      return;
+    }
+
+    const acresReleased = fullyReversed
+      ? landAllocation.acres
+      : Math.min(landAllocation.acres, plotSizeForPlants(plantsRemoved));
+
+    await tx.landAllocation.update({
+      where: { id: landAllocation.id },
+      data: fullyReversed
+        ? { status: 'CANCELLED' }
+        : { acres: landAllocation.acres - acresReleased, plantsCount: Math.max(0, landAllocation.plantsCount - plantsRemoved) }
+    });
+
+    await tx.landOption.update({
+      where: { id: landAllocation.landOptionId },
+      data: { availableAcres: { increment: acresReleased } }
+    });
+  }
+}
+
+// Singleton instance
+export const refundService = new RefundService();
@@ -0,0 +1,420 @@
+import { prisma } from '@/lib/prisma';
+import { PaymentGatewayRegistry, createPaymentGatewaysFromEnv, type PaymentGateway } from '@/lib/payment-gateway';
+import { CashfreeProvider } from '@/lib/cashfree-provider';
+import { PlanService } from '@/lib/services/planService';
+import { dunningService } from '@/lib/services/dunningService';
+import { allocatePlants, plantsForAmount } from '@/lib/plant-allocation';
+
+export const MIN_DAILY_AMOUNT = 1000;
+export const MAX_DAILY_AMOUNT = 100000;
+export const MAX_PAUSE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Resuming also ends any dunning cycle, so the daily dunning run doesn't pause the SIP again
+const RESUMED_DATA = { status: 'ACTIVE', pausedUntil: null, failedDebitCount: 0, dunningStartedAt: null };
+
+export interface ManagedSIP {
+  id: string;
+  phoneNumber: string;
+  packageType: string;
+  dailyAmount: number;
+  totalInvested: number;
+  status: string;
+  nextPaymentDate: Date;
+  subscriptionId: string | null;
+  cfSubscriptionId: string | null;
+  gateway: string;
+  pausedUntil: Date | null;
+  paymentLink: string | null;
+  failedDebitCount: number;
+  dunningStartedAt: Date | null;
+}
+
+export interface RestartResult {
+  sip: ManagedSIP;
+  paymentLink: string | null;
+  resumed: boolean;
+}
+
+export interface RetryResult {
+  sip: ManagedSIP;
+  paymentLink: string;
+  replaced: boolean; // A new subscription was created because the old mandate can no longer be authorised
+}
+
+export type MandateStatus = 'PENDING' | 'ACTIVE' | 'PAUSED' | 'FAILED' | 'CANCELLED';
+
+export interface MandateStatusSummary {
+  subscriptionId: string;
+  status: MandateStatus;
+  gateway: string;
+  dailyAmount: number | null; // Unknown for web subscriptions that have no SIP record
+  firstDebitDate: Date | null;
+  plantsFirstDebit: number | null;
+  plantsPerMonth: number | null;
+  totalInvested: number;
+  paymentLink: string | null; // Offered again while the mandate can still be authorised
+  failureReason: string | null;
+}
+
+// Gateway subscription statuses, as returned in the Cashfree shape by every adapter
+const MANDATE_STATUSES: Record<string, MandateStatus> = {
+  INITIALIZED: 'PENDING',
+  BANK_APPROVAL_PENDING: 'PENDING',
+  ACTIVE: 'ACTIVE',
+  ON_HOLD: 'PAUSED',
+  PAUSED: 'PAUSED',
+  AUTHORIZATION_FAILED: 'FAILED',
+  LINK_EXPIRED: 'FAILED',
+  CANCELLED: 'CANCELLED',
+  COMPLETED: 'CANCELLED'
+};
+
+const MANDATE_FAILURE_REASONS: Record<string, string> = {
+  AUTHORIZATION_FAILED: 'Your bank did not approve the mandate',
+  LINK_EXPIRED: 'The authorisation link expired before it was completed'
+};
+
+export class SIPManagementService {
+  private gateways: PaymentGatewayRegistry;
+  private plans: PlanService;
+
+  constructor(gateways: PaymentGatewayRegistry = createPaymentGatewaysFromEnv()) {
+    this.gateways = gateways;
+    this.plans = new PlanService(gateways);
+  }
+
+  /**
+   * The customer's most recent SIP, live or not
+   */
+  async getCurrent(phoneNumber: string): Promise<ManagedSIP | null> {
+    return await prisma.sIPInvestment.findFirst({
+      where: { phoneNumber },
+      orderBy: { startDate: 'desc' }
+    });
+  }
+
+  /**
+   * Where a mandate stands after the customer returns from the gateway. Our
+   * record is authoritative once webhooks have landed; while it is still
+   * PENDING the gateway is asked directly, since customers usually arrive
+   * before the activation webhook. gatewayName is only used for web
+   * subscriptions, which have no SIP record to say where they live.
+   */
+  async getMandateStatus(subscriptionId: string, gatewayName?: string | null): Promise<MandateStatusSummary> {
+    const sip = await prisma.sIPInvestment.findFirst({
+      where: { subscriptionId }
+    });
+
+    let live: any = null;
+
+    if (!sip || sip.status === 'PENDING') {
+      const { gateway, reference } = sip
+        ? this.getSubscription(sip)
+        : this.getWebSubscription(subscriptionId, gatewayName);
+
+      if (reference) {
+        try {
+          live = await gateway.getSubscription(reference);
+        } catch (error) {
+          // Fall back to what the webhooks have told us
+          console.error('Gateway subscription status check failed:', error);
+        }
+      }
+    }
+
+    if (!sip && !live) {
+      throw new Error('Subscription not found');
+    }
+
+    const liveStatus: string | null = live?.subscriptionStatus || null;
+    const status: MandateStatus = sip && sip.status !== 'PENDING'
+      ? sip.status as MandateStatus
+      : (liveStatus && MANDATE_STATUSES[liveStatus]) || 'PENDING';
+
+    const dailyAmount = sip?.dailyAmount ?? null;
+    const canAuthorise = (status === 'PENDING' || status === 'FAILED') && liveStatus !== 'LINK_EXPIRED';
+
+    return {
+      subscriptionId,
+      status,
+      gateway: sip?.gateway || this.gateways.get(gatewayName).name,
+      dailyAmount,
+      firstDebitDate: sip?.nextPaymentDate || null,
+      plantsFirstDebit: dailyAmount !== null ? allocatePlants(dailyAmount, sip?.allocationCredit || 0).plants : null,
+      plantsPerMonth: dailyAmount !== null ? plantsForAmount(dailyAmount * 30) : null,
+      totalInvested: sip?.totalInvested || 0,
+      paymentLink: canAuthorise ? live?.subscriptionPaymentLink || sip?.paymentLink || null : null,
+      failureReason: status === 'FAILED' && liveStatus ? MANDATE_FAILURE_REASONS[liveStatus] || null : null
+    };
+  }
+
+  /**
+   * Pause debits for a number of days. The gateway is told when debits pick
+   * up again, and resumeDue marks the SIP active once the pause has ended.
+   */
+  async pause(phoneNumber: string, days: number): Promise<ManagedSIP> {
+    if (!Number.isInteger(days) || days < 1 || days > MAX_PAUSE_DAYS) {
+      throw new Error(`Invalid pause duration: choose 1 to ${MAX_PAUSE_DAYS} days`);
+    }
+
+    const sip = await this.requireSIP(phoneNumber);
+    if (sip.status !== 'ACTIVE') {
+      throw new Error(`Invalid SIP status for pause: ${sip.status}`);
+    }
+
+    const pausedUntil = new Date(Date.now() + days * DAY_MS);
+
+    const { gateway, reference } = this.getSubscription(sip);
+    if (reference) {
+      await gateway.manageSubscription(reference, {
+        action: 'PAUSE',
+        actionDetails: { nextScheduledTime: pausedUntil.toISOString() }
+      });
+    }
+
+    return await prisma.sIPInvestment.update({
+      where: { id: sip.id },
+      data: { status: 'PAUSED', pausedUntil, nextPaymentDate: pausedUntil }
+    });
+  }
+
+  /**
+   * Resume a paused SIP straight away
+   */
+  async resume(phoneNumber: string): Promise<ManagedSIP> {
+    const sip = await this.requireSIP(phoneNumber);
+    if (sip.status !== 'PAUSED') {
+      throw new Error(`Invalid SIP status for resume: ${sip.status}`);
+    }
+
+    const nextPaymentDate = new Date(Date.now() + DAY_MS);
+
+    const { gateway, reference } = this.getSubscription(sip);
+    if (reference) {
+      await gateway.manageSubscription(reference, {
+        action: 'ACTIVATE',
+        actionDetails: { nextScheduledTime: nextPaymentDate.toISOString() }
+      });
+    }
+
+    const resumed = await prisma.sIPInvestment.update({
+      where: { id: sip.id },
+      data: { ...RESUMED_DATA, nextPaymentDate }
+    });
+    await dunningService.recordManualResume(sip, 'SIP resumed by the customer');
+
+    return resumed;
+  }
+
+  /**
+   * Resume every SIP whose fixed-length pause has ended. Dunning pauses have
+   * no end date and wait for a successful debit instead. Meant to be run daily.
+   */
+  async resumeDue(now: Date = new Date()): Promise<{ resumed: number }> {
+    const due = await prisma.sIPInvestment.findMany({
+      where: { status: 'PAUSED', pausedUntil: { lte: now } }
+    });
+
+    let resumed = 0;
+    for (const sip of due) {
+      const nextPaymentDate = new Date(now.getTime() + DAY_MS);
+
+      try {
+        const { gateway, reference } = this.getSubscription(sip);
+        if (reference) {
+          await gateway.manageSubscription(reference, {
+            action: 'ACTIVATE',
+            actionDetails: { nextScheduledTime: nextPaymentDate.toISOString() }
+          });
+        }
+      } catch (error) {
+        // Left paused so the next run tries again
+        console.error('SIP resume error:', error);
+        continue;
+      }
+
+      await prisma.sIPInvestment.update({
+        where: { id: sip.id },
+        data: { ...RESUMED_DATA, nextPaymentDate }
+      });
+      await dunningService.recordManualResume(sip, 'SIP resumed when its pause ended');
+      resumed++;
+    }
+
+    return { resumed };
+  }
+
+  /**
+   * Change the daily debit amount from the next debit onwards. Gateways debit
+   * the plan amount, so the subscription moves to the daily plan at the new
+   * amount and amounts without a plan are rejected.
+   */
+  async changeAmount(phoneNumber: string, dailyAmount: number): Promise<ManagedSIP> {
+    if (!Number.isFinite(dailyAmount) || dailyAmount < MIN_DAILY_AMOUNT || dailyAmount > MAX_DAILY_AMOUNT) {
+      throw new Error(`Invalid daily amount: choose ₹${MIN_DAILY_AMOUNT.toLocaleString()} to ₹${MAX_DAILY_AMOUNT.toLocaleString()}`);
+    }
+
+    const sip = await this.requireSIP(phoneNumber);
+    if (sip.status !== 'ACTIVE' && sip.status !== 'PAUSED') {
+      throw new Error(`Invalid SIP status for amount change: ${sip.status}`);
+    }
+
+    const plans = await this.plans.getDailyPlans(sip.gateway);
+    const plan = plans.find(p => p.amount === dailyAmount);
+    if (!plan) {
+      const amounts = plans.map(p => `₹${p.amount.toLocaleString()}`).join(', ');
+      throw new Error(`Invalid daily amount: no daily plan at ₹${dailyAmount.toLocaleString()}${amounts ? `, choose ${amounts}` : ''}`);
+    }
+
+    const { gateway, reference } = this.getSubscription(sip);
+    if (reference) {
+      await gateway.updateSubscription(reference, {
+        planId: plan.gatewayPlanId || plan.planId,
+        authorizationAmount: dailyAmount,
+        subscriptionMeta: { dailyAmount },
+        subscriptionTags: { amount: dailyAmount.toString() }
+      });
+    }
+
+    return await prisma.sIPInvestment.update({
+      where: { id: sip.id },
+      data: { dailyAmount }
+    });
+  }
+
+  /**
+   * Cancel the SIP. Plants already allocated stay with the customer.
+   */
+  async cancel(phoneNumber: string): Promise<ManagedSIP> {
+    const sip = await this.requireSIP(phoneNumber);
+    if (sip.status === 'CANCELLED') {
+      throw new Error('Invalid SIP status for cancel: CANCELLED');
+    }
+
+    const { gateway, reference } = this.getSubscription(sip);
+    if (reference) {
+      await gateway.cancelSubscription(reference);
+    }
+
+    return await prisma.sIPInvestment.update({
+      where: { id: sip.id },
+      data: { status: 'CANCELLED', pausedUntil: null }
+    });
+  }
+
+  /**
+   * RESTART: resume a paused SIP, or start a new subscription at the old
+   * amount when the previous one was cancelled
+   */
+  async restart(phoneNumber: string): Promise<RestartResult> {
+    const sip = await this.requireSIP(phoneNumber);
+
+    if (sip.status === 'PAUSED') {
+      return { sip: await this.resume(phoneNumber), paymentLink: null, resumed: true };
+    }
+
+    if (sip.status !== 'CANCELLED') {
+      throw new Error(`Invalid SIP status for restart: ${sip.status}`);
+    }
+
+    const user = await prisma.whatsAppUser.findUnique({
+      where: { phoneNumber }
+    });
+
+    if (!user?.name || !user?.email) {
+      throw new Error('Invalid customer profile: name and email are required');
+    }
+
+    const provider = new CashfreeProvider(this.gateways);
+    const subscription = await provider.createDailySIPSubscription(phoneNumber, {
+      name: user.name,
+      email: user.email
+    }, sip);
+
+    const newSIP = await prisma.sIPInvestment.findUniqueOrThrow({
+      where: { id: subscription.sipInvestmentId }
+    });
+
+    return { sip: newSIP, paymentLink: subscription.paymentLink, resumed: false };
+  }
+
+  /**
+   * RETRY: get a mandate that is still waiting for authorisation over the
+   * line. The existing link is sent again while it is usable; once the bank
+   * has rejected it or it has expired, the SIP is replaced by a new
+   * subscription at the same amount.
+   */
+  async retry(phoneNumber: string): Promise<RetryResult> {
+    const sip = await this.requireSIP(phoneNumber);
+
+    if (sip.status !== 'PENDING' || !sip.subscriptionId) {
+      throw new Error(`Invalid SIP status for retry: ${sip.status}`);
+    }
+
+    const mandate = await this.getMandateStatus(sip.subscriptionId);
+
+    if (mandate.status === 'PENDING' && mandate.paymentLink) {
+      return { sip, paymentLink: mandate.paymentLink, replaced: false };
+    }
+
+    if (mandate.status !== 'PENDING' && mandate.status !== 'FAILED') {
+      throw new Error(`Invalid SIP status for retry: ${mandate.status}`);
+    }
+
+    const user = await prisma.whatsAppUser.findUnique({
+      where: { phoneNumber }
+    });
+
+    if (!user?.name || !user?.email) {
+      throw new Error('Invalid customer profile: name and email are required');
+    }
+
+    const provider = new CashfreeProvider(this.gateways);
+    const subscription = await provider.createDailySIPSubscription(phoneNumber, {
+      name: user.name,
+      email: user.email
+    }, sip);
+
+    if (!subscription.paymentLink) {
+      throw new Error(`No payment link returned for subscription ${subscription.subscriptionId}`);
+    }
+
+    // The failed mandate never debited, so it is closed locally only
+    await prisma.sIPInvestment.update({
+      where: { id: sip.id },
+      data: { status: 'CANCELLED' }
+    });
+
+    const newSIP = await prisma.sIPInvestment.findUniqueOrThrow({
+      where: { id: subscription.sipInvestmentId }
+    });
+
+    return { sip: newSIP, paymentLink: subscription.paymentLink, replaced: true };
+  }
+
+  // The gateway holding the SIP's mandate and the ID it knows the subscription by
+  private getSubscription(sip: ManagedSIP): { gateway: PaymentGateway; reference: string | null } {
+    const gateway = this.gateways.get(sip.gateway);
+    return { gateway, reference: gateway.getSubscriptionReference(sip) };
+  }
+
+  private getWebSubscription(subscriptionId: string, gatewayName?: string | null): { gateway: PaymentGateway; reference: string | null } {
+    const gateway = this.gateways.get(gatewayName);
+    return { gateway, reference: gateway.getSubscriptionReference({ subscriptionId, cfSubscriptionId: null }) };
+  }
+
+  private async requireSIP(phoneNumber: string): Promise<ManagedSIP> {
+    const sip = await this.getCurrent(phoneNumber);
+
+    if (!sip) {
+      throw new Error('SIP not found');
+    }
+
+    return sip;
+  }
+}
+
+// Singleton instance
+export const sipManagementService = new SIPManagementService();
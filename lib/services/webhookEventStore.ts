@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+
+export type WebhookSource = 'CASHFREE' | 'RAZORPAY' | 'META';
+
+export class WebhookEventStore {
+  /**
+   * Claim an event for processing. Returns false when it was already processed,
+   * relying on the unique (source, eventKey) constraint so concurrent retries race safely.
+   */
+  async claim(source: WebhookSource, eventKey: string, eventType: string): Promise<boolean> {
+    try {
+      await prisma.processedWebhookEvent.create({
+        data: { source, eventKey, eventType }
+      });
+      return true;
+    } catch (error) {
+      if ((error as any)?.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Release a claim after a processing failure so the provider's retry is handled
+   */
+  async release(source: WebhookSource, eventKey: string): Promise<void> {
+    await prisma.processedWebhookEvent.deleteMany({
+      where: { source, eventKey }
+    });
+  }
+}
+
+/**
+ * Derive the dedupe key for a Cashfree webhook: payment events are keyed on the
+ * payment ID, refunds on the refund ID, disputes on the dispute ID and status,
+ * everything else on the event ID or, failing that, the payload hash.
+ */
+export function getCashfreeEventKey(
+  webhookData: { type?: string; event_id?: string; data?: Record<string, any> },
+  rawBody: string
+): string {
+  const type = webhookData.type || '';
+  const data = webhookData.data || {};
+
+  let entityId: string | undefined;
+  if (type.startsWith('REFUND_')) {
+    entityId = data.refund_id;
+  } else if (type.startsWith('DISPUTE_')) {
+    entityId = data.dispute_id && `${data.dispute_id}:${data.dispute_status || ''}`;
+  } else if (type.startsWith('PAYMENT_')) {
+    entityId = data.payment_id || data.cf_payment_id;
+  }
+
+  if (entityId) {
+    return `${type}:${entityId}`;
+  }
+
+  if (webhookData.event_id) {
+    return `${type}:${webhookData.event_id}`;
+  }
+
+  const hash = crypto.createHash('sha256').update(rawBody).digest('hex');
+  return `${type}:${hash}`;
+}
+
+/**
+ * Derive the dedupe key for a Razorpay webhook. Razorpay resends a failed
+ * delivery with the same x-razorpay-event-id; without one, use the payload hash.
+ */
+export function getRazorpayEventKey(
+  webhookData: { event?: string },
+  rawBody: string,
+  eventId: string | null
+): string {
+  const event = webhookData.event || '';
+
+  if (eventId) {
+    return `${event}:${eventId}`;
+  }
+
+  const hash = crypto.createHash('sha256').update(rawBody).digest('hex');
+  return `${event}:${hash}`;
+}
+
+// Singleton instance
+export const webhookEventStore = new WebhookEventStore();
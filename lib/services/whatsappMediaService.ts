@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import path from 'path';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { prisma } from '@/lib/prisma';
+import { InboundMediaKind, WhatsAppMediaObject } from '@/types/whatsapp';
+
+export type MediaPurpose = 'LAND_PHOTO' | 'LAND_RECORD';
+
+export interface WhatsAppMediaConfig {
+  baseUrl: string; // Graph API, e.g. https://graph.facebook.com/v18.0
+  accessToken?: string;
+  storageDir: string;
+  timeoutMs?: number; // Per request, default 30s
+  maxBytes?: number; // Largest file accepted, default 16 MB
+}
+
+export interface StoredMedia {
+  id: string;
+  phoneNumber: string;
+  messageId: string;
+  mediaId: string;
+  kind: string;
+  mimeType: string;
+  fileName: string | null;
+  caption: string | null;
+  sha256: string | null;
+  size: number;
+  storagePath: string;
+  purpose: string | null;
+  createdAt: Date;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+// WhatsApp's own limit for audio, video and images; bigger documents are refused too
+const DEFAULT_MAX_BYTES = 16 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'video/mp4': 'mp4'
+};
+
+function configFromEnv(): WhatsAppMediaConfig {
+  return {
+    baseUrl: 'https://graph.facebook.com/v18.0',
+    accessToken: process.env.WHATSAPP_ACCESS_TOKEN,
+    storageDir: process.env.WHATSAPP_MEDIA_DIR || path.join(process.cwd(), 'storage', 'whatsapp-media')
+  };
+}
+
+/**
+ * Downloads files customers send us (land photos, land records, voice notes)
+ * from the Graph API and keeps them on disk against their WhatsApp user.
+ * Graph media URLs expire after a few minutes, so files are fetched as soon
+ * as the message arrives.
+ */
+export class WhatsAppMediaService {
+  private config: WhatsAppMediaConfig;
+
+  constructor(config: WhatsAppMediaConfig = configFromEnv()) {
+    this.config = config;
+  }
+
+  /**
+   * Download and store a file from an inbound message. Storing the same media
+   * again, e.g. when Meta redelivers the webhook, returns the existing record.
+   */
+  async store(
+    phoneNumber: string,
+    messageId: string,
+    kind: InboundMediaKind,
+    media: WhatsAppMediaObject
+  ): Promise<StoredMedia> {
+    const existing = await prisma.whatsAppMedia.findUnique({
+      where: { mediaId: media.id }
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const file = await this.download(media.id);
+    const sha256 = crypto.createHash('sha256').update(file.content).digest('hex');
+
+    if (media.sha256 && media.sha256 !== sha256) {
+      throw new Error(`Invalid media ${media.id}: checksum mismatch`);
+    }
+
+    const mimeType = file.mimeType || media.mime_type;
+    const extension = EXTENSIONS[mimeType.split(';')[0].trim()] || 'bin';
+    const storagePath = path.join(phoneNumber, `${media.id}.${extension}`);
+
+    await mkdir(path.join(this.config.storageDir, phoneNumber), { recursive: true });
+    await writeFile(path.join(this.config.storageDir, storagePath), file.content);
+
+    return await prisma.whatsAppMedia.create({
+      data: {
+        phoneNumber,
+        messageId,
+        mediaId: media.id,
+        kind: kind.toUpperCase(),
+        mimeType,
+        fileName: media.filename || null,
+        caption: media.caption || null,
+        sha256,
+        size: file.content.length,
+        storagePath
+      }
+    });
+  }
+
+  async setPurpose(id: string, purpose: MediaPurpose): Promise<StoredMedia> {
+    return await prisma.whatsAppMedia.update({
+      where: { id },
+      data: { purpose }
+    });
+  }
+
+  async listForUser(phoneNumber: string, purpose?: MediaPurpose): Promise<StoredMedia[]> {
+    return await prisma.whatsAppMedia.findMany({
+      where: { phoneNumber, ...(purpose ? { purpose } : {}) },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  async readFile(media: StoredMedia): Promise<Buffer> {
+    return readFile(path.join(this.config.storageDir, media.storagePath));
+  }
+
+  // Graph answers the media id with a short-lived URL, which needs the same token
+  private async download(mediaId: string): Promise<{ content: Buffer; mimeType: string | null }> {
+    if (!this.config.accessToken) {
+      throw new Error('WhatsApp not configured: cannot download media');
+    }
+
+    const metadataResponse = await this.fetchWithTimeout(`${this.config.baseUrl}/${mediaId}`);
+    if (!metadataResponse.ok) {
+      throw new Error(`Failed to look up media ${mediaId}: ${metadataResponse.status} - ${await metadataResponse.text()}`);
+    }
+
+    const metadata = await metadataResponse.json();
+    if (!metadata.url) {
+      throw new Error(`Failed to look up media ${mediaId}: no download URL`);
+    }
+
+    const maxBytes = this.config.maxBytes ?? DEFAULT_MAX_BYTES;
+    if (Number(metadata.file_size) > maxBytes) {
+      throw new Error(`Invalid media ${mediaId}: ${metadata.file_size} bytes is over the ${maxBytes} byte limit`);
+    }
+
+    const fileResponse = await this.fetchWithTimeout(metadata.url);
+    if (!fileResponse.ok) {
+      throw new Error(`Failed to download media ${mediaId}: ${fileResponse.status}`);
+    }
+
+    const contentLength = Number(fileResponse.headers.get('content-length'));
+    if (contentLength > maxBytes) {
+      await fileResponse.body?.cancel();
+      throw new Error(`Invalid media ${mediaId}: ${contentLength} bytes is over the ${maxBytes} byte limit`);
+    }
+
+    return {
+      content: await this.readLimited(mediaId, fileResponse, maxBytes),
+      mimeType: metadata.mime_type || fileResponse.headers.get('content-type')
+    };
+  }
+
+  // The size Graph reports can be missing or wrong, so the download itself is capped too
+  private async readLimited(mediaId: string, response: Response, maxBytes: number): Promise<Buffer> {
+    if (!response.body) {
+      return Buffer.alloc(0);
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Buffer[] = [];
+    let received = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return Buffer.concat(chunks);
+      }
+
+      received += value.length;
+      if (received > maxBytes) {
+        await reader.cancel();
+        throw new Error(`Invalid media ${mediaId}: download is over the ${maxBytes} byte limit`);
+      }
+
+      chunks.push(Buffer.from(value));
+    }
+  }
+
+  private async fetchWithTimeout(url: string): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    try {
+      return await fetch(url, {
+        headers: { 'Authorization': `Bearer ${this.config.accessToken}` },
+        signal: controller.signal
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Failed to download media: Graph API did not respond within ${this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Singleton instance
+export const whatsappMediaService = new WhatsAppMediaService();
@@ -0,0 +1,241 @@
+import { prisma } from '@/lib/prisma';
+import { WhatsAppService } from '@/lib/whatsapp';
+import { TEMPLATE_LANGUAGE, TemplateDocument, TemplateMessage, renderTemplate, templateComponents } from '@/lib/whatsapp-templates';
+import { MessageCategory, hasConsent, quietHoursEnd } from '@/lib/messaging-policy';
+import { messageDeliveryService } from '@/lib/services/messageDeliveryService';
+import { WhatsAppTemplateStatusUpdate } from '@/types/whatsapp';
+
+// Meta accepts free-form messages for this long after the customer's last message
+export const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type NotificationChannel = 'SESSION' | 'TEMPLATE' | 'QUEUED' | 'UNSENT';
+
+export interface Notification {
+  text: string; // Sent while the customer-service window is open
+  template: TemplateMessage; // Sent once it has closed
+  category?: MessageCategory; // Default TRANSACTIONAL; marketing stops when the customer replies STOP
+  urgent?: boolean; // Sent during quiet hours, e.g. confirming a payment the customer just made
+  document?: TemplateDocument; // Attached with the text as its caption, or as the template's header
+  invoiceId?: string; // Marked sent on the invoice once delivered, including from the queue
+}
+
+export interface QueueRunResult {
+  sent: number;
+  unsent: number;
+}
+
+const QUEUE_BATCH_SIZE = 200;
+
+export interface SessionWindow {
+  open: boolean;
+  expiresAt: Date | null;
+}
+
+/**
+ * Whether a customer who last wrote at lastInboundAt can still get free-form messages
+ */
+export function getSessionWindow(lastInboundAt: Date | null | undefined, now: Date = new Date()): SessionWindow {
+  if (!lastInboundAt) {
+    return { open: false, expiresAt: null };
+  }
+
+  const expiresAt = new Date(lastInboundAt.getTime() + SESSION_WINDOW_MS);
+  return { open: now < expiresAt, expiresAt };
+}
+
+export class WhatsAppNotificationService {
+  /**
+   * Send a proactive notification: the free-form text inside the 24-hour
+   * window, otherwise the approved template. Nothing is sent when the
+   * template is not approved yet, since Meta would reject the text anyway,
+   * or when the customer has not agreed to this kind of message. Unless
+   * urgent, notifications during quiet hours are queued for the morning.
+   */
+  async send(
+    phoneNumber: string,
+    notification: Notification,
+    source: string,
+    now: Date = new Date()
+  ): Promise<NotificationChannel> {
+    const user = await prisma.whatsAppUser.findUnique({
+      where: { phoneNumber }
+    });
+
+    const category = notification.category || 'TRANSACTIONAL';
+    const { name } = notification.template;
+
+    if (!hasConsent(user, category)) {
+      await this.logUnsent(phoneNumber, name, source, 'NO_CONSENT');
+      return 'UNSENT';
+    }
+
+    const sendAfter = notification.urgent ? null : quietHoursEnd(now);
+    if (sendAfter) {
+      await prisma.scheduledMessage.create({
+        data: {
+          phoneNumber,
+          text: notification.text,
+          template: JSON.stringify(notification.template),
+          document: notification.document ? JSON.stringify(notification.document) : null,
+          invoiceId: notification.invoiceId || null,
+          source,
+          category,
+          sendAfter
+        }
+      });
+      return 'QUEUED';
+    }
+
+    if (getSessionWindow(user?.lastInboundAt, now).open) {
+      const { document } = notification;
+      const sent = document
+        ? await WhatsAppService.sendDocument(phoneNumber, document.link, document.filename, notification.text)
+        : await WhatsAppService.sendMessage(phoneNumber, notification.text);
+      await messageDeliveryService.recordSent(phoneNumber, `${document ? '[document] ' : ''}${notification.text}`, sent, { campaign: source });
+      await this.markInvoiceSent(notification, now);
+      return 'SESSION';
+    }
+
+    const approved = await this.isApproved(name);
+
+    if (!approved) {
+      console.error('WhatsApp template not approved, notification not sent:', { phoneNumber, template: name, source });
+      await this.logUnsent(phoneNumber, name, source, 'TEMPLATE_NOT_APPROVED');
+      return 'UNSENT';
+    }
+
+    const sent = await WhatsAppService.sendTemplate(
+      phoneNumber,
+      name,
+      templateComponents(notification.template, notification.document),
+      TEMPLATE_LANGUAGE
+    );
+    await messageDeliveryService.recordSent(phoneNumber, renderTemplate(notification.template), sent, {
+      campaign: source,
+      metadata: { template: name }
+    });
+    await this.markInvoiceSent(notification, now);
+    return 'TEMPLATE';
+  }
+
+  /**
+   * Morning run: send the notifications held over quiet hours. Consent and
+   * the 24-hour window are checked again, as either may have changed. Each
+   * message is claimed before it is sent, so overlapping runs send it once.
+   * A send that throws is marked UNSENT with the error rather than retried,
+   * as it may already have reached the customer.
+   */
+  async sendQueued(now: Date = new Date()): Promise<QueueRunResult> {
+    const result: QueueRunResult = { sent: 0, unsent: 0 };
+
+    if (quietHoursEnd(now)) {
+      return result;
+    }
+
+    const due = await prisma.scheduledMessage.findMany({
+      where: { status: 'PENDING', sendAfter: { lte: now } },
+      orderBy: { sendAfter: 'asc' },
+      take: QUEUE_BATCH_SIZE
+    });
+
+    for (const message of due) {
+      const claimed = await prisma.scheduledMessage.updateMany({
+        where: { id: message.id, status: 'PENDING' },
+        data: { status: 'SENDING' }
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      let channel: NotificationChannel;
+      try {
+        channel = await this.send(message.phoneNumber, {
+          text: message.text,
+          template: JSON.parse(message.template),
+          document: message.document ? JSON.parse(message.document) : undefined,
+          invoiceId: message.invoiceId || undefined,
+          category: message.category as MessageCategory
+        }, message.source, now);
+      } catch (error) {
+        console.error('Queued notification error:', message.id, error);
+        await prisma.scheduledMessage.update({
+          where: { id: message.id },
+          data: { status: 'UNSENT', error: error instanceof Error ? error.message : String(error) }
+        });
+        result.unsent += 1;
+        continue;
+      }
+
+      await prisma.scheduledMessage.update({
+        where: { id: message.id },
+        data: channel === 'UNSENT'
+          ? { status: 'UNSENT' }
+          : { status: 'SENT', channel, sentAt: now }
+      });
+      result[channel === 'UNSENT' ? 'unsent' : 'sent'] += 1;
+    }
+
+    return result;
+  }
+
+  /**
+   * Store a template review result from the message_template_status_update webhook
+   */
+  async recordTemplateStatus(update: WhatsAppTemplateStatusUpdate): Promise<void> {
+    // A reinstated template can be sent again
+    const status = update.event === 'REINSTATED' ? 'APPROVED' : update.event;
+    const data = {
+      templateId: String(update.message_template_id),
+      status,
+      reason: update.reason && update.reason !== 'NONE' ? update.reason : null
+    };
+
+    await prisma.messageTemplate.upsert({
+      where: {
+        name_language: {
+          name: update.message_template_name,
+          language: update.message_template_language
+        }
+      },
+      update: data,
+      create: {
+        name: update.message_template_name,
+        language: update.message_template_language,
+        ...data
+      }
+    });
+  }
+
+  private async markInvoiceSent(notification: Notification, now: Date) {
+    if (!notification.invoiceId) {
+      return;
+    }
+
+    await prisma.invoice.update({
+      where: { id: notification.invoiceId },
+      data: { sentAt: now }
+    });
+  }
+
+  private async logUnsent(phoneNumber: string, template: string, source: string, reason: string) {
+    await prisma.analytics.create({
+      data: {
+        phoneNumber,
+        event: 'NOTIFICATION_UNSENT',
+        funnelStage: 'SYSTEM',
+        metadata: JSON.stringify({ template, source, reason })
+      }
+    });
+  }
+
+  private async isApproved(name: string): Promise<boolean> {
+    const template = await prisma.messageTemplate.findUnique({
+      where: { name_language: { name, language: TEMPLATE_LANGUAGE } }
+    });
+
+    return template?.status === 'APPROVED';
+  }
+}
+
+// Singleton instance
+export const whatsappNotificationService = new WhatsAppNotificationService();
@@ -0,0 +1,143 @@
+export interface SettlementRow {
+  line: number; // Line in the export, for pointing admins at the source row
+  orderId: string;
+  cfPaymentId: string | null;
+  amount: number;
+  status: string; // SUCCESS, FAILED, ... as reported by Cashfree
+  settlementUtr: string | null;
+  settledAt: Date | null;
+}
+
+export interface SettlementReport {
+  rows: SettlementRow[];
+  skipped: number; // Refund/chargeback/adjustment lines, reconciled elsewhere
+}
+
+// Cashfree's settlement and transaction exports name the same fields differently
+const COLUMN_ALIASES: Record<keyof Omit<SettlementRow, 'line'> | 'eventType', string[]> = {
+  orderId: ['order_id', 'merchant_order_id', 'orderid'],
+  cfPaymentId: ['cf_payment_id', 'payment_id', 'transaction_id', 'reference_id'],
+  amount: ['payment_amount', 'order_amount', 'transaction_amount', 'amount'],
+  status: ['payment_status', 'transaction_status', 'status'],
+  settlementUtr: ['settlement_utr', 'utr'],
+  settledAt: ['settlement_date', 'settled_on', 'payment_time', 'transaction_time'],
+  eventType: ['event_type', 'transaction_type', 'type']
+};
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields with embedded
+ * commas, quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, ''); // Excel adds a byte-order mark
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+const normaliseHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const parseAmount = (value: string) => parseFloat(value.replace(/[₹,\s]/g, ''));
+
+/**
+ * Parse a Cashfree settlement or transaction CSV export into payment rows
+ */
+export function parseSettlementReport(csv: string): SettlementReport {
+  const [header, ...lines] = parseCsv(csv);
+
+  if (!header) {
+    throw new Error('Invalid settlement report: file is empty');
+  }
+
+  const headers = header.map(normaliseHeader);
+  const columnFor = (field: keyof typeof COLUMN_ALIASES) =>
+    COLUMN_ALIASES[field].map(alias => headers.indexOf(alias)).find(index => index >= 0) ?? -1;
+
+  const columns = {
+    orderId: columnFor('orderId'),
+    cfPaymentId: columnFor('cfPaymentId'),
+    amount: columnFor('amount'),
+    status: columnFor('status'),
+    settlementUtr: columnFor('settlementUtr'),
+    settledAt: columnFor('settledAt'),
+    eventType: columnFor('eventType')
+  };
+
+  if (columns.orderId < 0 || columns.amount < 0) {
+    throw new Error('Invalid settlement report: order_id and amount columns are required');
+  }
+
+  const rows: SettlementRow[] = [];
+  let skipped = 0;
+
+  lines.forEach((fields, index) => {
+    const value = (column: number) => (column >= 0 ? (fields[column] || '').trim() : '');
+    const line = index + 2;
+
+    const eventType = value(columns.eventType).toUpperCase();
+    if (eventType && eventType !== 'PAYMENT') {
+      skipped++;
+      return;
+    }
+
+    const amount = parseAmount(value(columns.amount));
+    if (!value(columns.orderId) || isNaN(amount)) {
+      throw new Error(`Invalid settlement report: line ${line} has no order_id or amount`);
+    }
+
+    const settledAt = value(columns.settledAt) ? new Date(value(columns.settledAt)) : null;
+
+    rows.push({
+      line,
+      orderId: value(columns.orderId),
+      cfPaymentId: value(columns.cfPaymentId) || null,
+      amount,
+      // Settlement exports only list settled payments and carry no status column
+      status: value(columns.status).toUpperCase() || 'SUCCESS',
+      settlementUtr: value(columns.settlementUtr) || null,
+      settledAt: settledAt && !isNaN(settledAt.getTime()) ? settledAt : null
+    });
+  });
+
+  return { rows, skipped };
+}
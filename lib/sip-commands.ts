@@ -0,0 +1,126 @@
+import { sipManagementService, MAX_PAUSE_DAYS } from '@/lib/services/sipManagementService';
+
+export type SIPCommand =
+  | { type: 'PAUSE'; days: number }
+  | { type: 'RESUME' }
+  | { type: 'RESTART' }
+  | { type: 'AMOUNT'; amount: number }
+  | { type: 'CANCEL'; confirmed: boolean };
+
+/**
+ * Parse a WhatsApp SIP management command, e.g. "PAUSE 7", "AMOUNT 15000" or "CANCEL SIP"
+ */
+export function parseSIPCommand(messageText: string): SIPCommand | null {
+  const text = messageText.trim().toUpperCase().replace(/\s+/g, ' ');
+
+  const pause = text.match(/^PAUSE(?: (\d+))?(?: DAYS?)?$/);
+  if (pause) {
+    return { type: 'PAUSE', days: pause[1] ? parseInt(pause[1]) : NaN };
+  }
+
+  const amount = text.match(/^(?:CHANGE )?AMOUNT(?: ₹?([\d,]+))?$/);
+  if (amount) {
+    return { type: 'AMOUNT', amount: amount[1] ? parseFloat(amount[1].replace(/,/g, '')) : NaN };
+  }
+
+  switch (text) {
+    case 'RESUME':
+      return { type: 'RESUME' };
+    case 'RESTART':
+      return { type: 'RESTART' };
+    case 'CANCEL':
+      return { type: 'CANCEL', confirmed: false };
+    case 'CANCEL SIP':
+      return { type: 'CANCEL', confirmed: true };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Run a SIP command for a customer with a SIP. Returns null when the message
+ * is not a command, or the sender has no SIP, so the conversation flow handles it.
+ */
+export async function handleSIPCommand(phoneNumber: string, messageText: string): Promise<string | null> {
+  const command = parseSIPCommand(messageText);
+  if (!command) {
+    return null;
+  }
+
+  const sip = await sipManagementService.getCurrent(phoneNumber);
+  if (!sip) {
+    return null;
+  }
+
+  try {
+    switch (command.type) {
+      case 'PAUSE': {
+        if (!command.days) {
+          return `How many days should we pause for? Reply e.g. "PAUSE 7" (up to ${MAX_PAUSE_DAYS} days).`;
+        }
+        const paused = await sipManagementService.pause(phoneNumber, command.days);
+        return `⏸️ Your daily SIP is paused for ${command.days} day${command.days !== 1 ? 's' : ''}.
+
+Debits restart on ${paused.pausedUntil?.toDateString()}. Your plants keep growing meanwhile 🌱
+
+Changed your mind? Reply RESUME`;
+      }
+
+      case 'RESUME': {
+        await sipManagementService.resume(phoneNumber);
+        return `▶️ Your daily SIP of ₹${sip.dailyAmount.toLocaleString()} is active again!
+
+Next debit: tomorrow. Your berry empire is back on track 🫐`;
+      }
+
+      case 'RESTART': {
+        const result = await sipManagementService.restart(phoneNumber);
+        if (result.resumed) {
+          return `▶️ Welcome back! Your daily SIP of ₹${result.sip.dailyAmount.toLocaleString()} is active again 🫐`;
+        }
+        return `🎉 Let's get you growing again!
+
+Complete the payment setup for your ₹${result.sip.dailyAmount.toLocaleString()} daily SIP:
+
+💳 **Payment Link:** ${result.paymentLink}`;
+      }
+
+      case 'AMOUNT': {
+        if (!command.amount) {
+          return `What should your new daily amount be? Reply e.g. "AMOUNT 15000"`;
+        }
+        const updated = await sipManagementService.changeAmount(phoneNumber, command.amount);
+        return `✅ Your daily SIP is now ₹${updated.dailyAmount.toLocaleString()}, starting with the next debit.`;
+      }
+
+      case 'CANCEL': {
+        if (!command.confirmed) {
+          return `Sure you want to cancel your daily SIP? Your existing plants stay yours.
+
+Reply CANCEL SIP to confirm, or PAUSE 30 to take a break instead.`;
+        }
+        await sipManagementService.cancel(phoneNumber);
+        return `😢 Your Darjberry SIP has been cancelled.
+
+Your existing plants continue growing and will generate returns from Year 3.
+
+Want to restart anytime?
+🔄 Reply RESTART`;
+      }
+    }
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Invalid')) {
+      const reason = error.message.includes('status')
+        ? `your SIP is currently ${sip.status.toLowerCase()}`
+        : error.message.replace(/^Invalid [^:]*: /, '');
+      return `Hmm, that didn't work: ${reason}.
+
+Reply STATS to see your SIP or HELP for assistance.`;
+    }
+
+    console.error('SIP command error:', error);
+    return `Oops! Something went berry wrong updating your SIP 😅
+
+Please try again in a bit, or reply HELP for assistance.`;
+  }
+}
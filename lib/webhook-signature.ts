@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+
+// Default replay window for signed webhooks (5 minutes either side of now)
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Constant-time string comparison that returns false instead of throwing
+ * when the inputs differ in length.
+ */
+export function safeCompare(received: string, expected: string): boolean {
+  const receivedBuffer = Buffer.from(received);
+  const expectedBuffer = Buffer.from(expected);
+
+  if (receivedBuffer.length !== expectedBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(receivedBuffer, expectedBuffer);
+}
+
+/**
+ * Collect the active secret plus the previous one, so secrets can be
+ * rotated without dropping webhooks signed with the old value.
+ */
+export function getWebhookSecrets(...envValues: Array<string | undefined>): string[] {
+  return envValues.filter((secret): secret is string => !!secret && secret.trim().length > 0);
+}
+
+export function getToleranceSeconds(envValue: string | undefined): number {
+  const parsed = envValue ? parseInt(envValue, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+}
+
+/**
+ * Check a webhook timestamp against the current time. Accepts epoch seconds
+ * or milliseconds and rejects both stale and future-dated values.
+ */
+export function isTimestampFresh(
+  timestamp: string,
+  toleranceSeconds: number = DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  now: number = Date.now()
+): boolean {
+  if (!/^\d+$/.test(timestamp)) {
+    return false;
+  }
+
+  const value = parseInt(timestamp, 10);
+  const timestampMs = value > 1e12 ? value : value * 1000;
+
+  return Math.abs(now - timestampMs) <= toleranceSeconds * 1000;
+}
+
+/**
+ * Verify an HMAC-SHA256 signature against any of the configured secrets
+ */
+export function verifyHmacSignature(
+  payload: string,
+  signature: string,
+  secrets: string[],
+  format: (digest: string) => string = (digest) => digest
+): boolean {
+  return secrets.some((secret) => {
+    const expectedSignature = format(
+      crypto.createHmac('sha256', secret).update(payload).digest('hex')
+    );
+    return safeCompare(signature, expectedSignature);
+  });
+}
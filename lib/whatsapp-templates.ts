@@ -0,0 +1,149 @@
+// Message templates for notifications sent outside the 24-hour customer-service
+// window. Each body must be submitted to Meta with the same name and text;
+// {{n}} are the body parameters, filled in order.
+
+export const TEMPLATE_LANGUAGE = 'en';
+
+export const WHATSAPP_TEMPLATES = {
+  sip_payment_success: `🎉 Payment successful! ₹{{1}} processed.
+
+🌱 Plants allocated: {{2}}
+💰 Total invested: ₹{{3}}
+
+Reply STATS to see your dashboard.`,
+
+  sip_resumed: `▶️ Your daily SIP is active again! Thanks for updating your payment.`,
+
+  sip_activated: `🎉 Welcome to Darjberry! Your daily SIP subscription is now active.
+
+Reply STATS anytime to track your plants, or HELP if you need anything.`,
+
+  sip_cancelled: `Your Darjberry SIP has been cancelled. Your existing plants keep growing and will generate returns from Year 3.
+
+Reply RESTART to start again, or HELP to talk to our team.`,
+
+  sip_payment_failed: `⚠️ Your daily SIP payment of ₹{{1}} didn't go through ({{2}}).
+
+Your next daily debit goes ahead as scheduled. Reply RETRY to update your payment method, or HELP for assistance.`,
+
+  sip_payment_failed_again: `⚠️ Your daily SIP of ₹{{1}} failed again.
+
+Your SIP will be paused on {{2}} if the debit keeps failing. Reply RETRY to update your payment method.`,
+
+  sip_final_reminder: `🚨 Final reminder: your daily SIP of ₹{{1}} could not be collected and will be paused on {{2}}.
+
+Reply RETRY now to keep growing.`,
+
+  sip_paused: `⏸️ Your daily SIP of ₹{{1}} is now paused after several failed debits. Your existing plants keep growing.
+
+It resumes automatically with the next successful debit. Reply RETRY to update your payment method.`,
+
+  lumpsum_payment_success: `🎉 Payment received! ₹{{1}} lumpsum investment confirmed.
+
+🌱 {{2}} plants allocated on {{3}}.
+
+Reply STATS to see your dashboard.`,
+
+  lumpsum_refund_due: `🙏 We received your ₹{{1}} payment, but the land you chose sold out just before it arrived. Your full payment is being refunded within 5-7 working days.
+
+Reply HELP if you'd like to pick another plot.`,
+
+  lumpsum_payment_failed: `⚠️ Your ₹{{1}} payment didn't go through. If any amount was debited, your bank will reverse it.
+
+Reply HELP and our team will assist you.`,
+
+  refund_processed: `💸 Your refund of ₹{{1}} has been processed and {{2}} plants were released.
+
+The money should reach your account in 5-7 working days.`,
+
+  dispute_opened: `⚠️ Your bank has raised a dispute on a ₹{{1}} SIP payment. The plants from this payment are on hold until it is resolved.
+
+Reply HELP and our team will sort it out with you.`,
+
+  dispute_won: `✅ The dispute on your SIP payment is closed. Your plants are back in your portfolio!`,
+
+  dispute_lost: `ℹ️ The dispute on your SIP payment is closed in your bank's favour. ₹{{1}} was reversed and {{2}} plants were released.
+
+Reply HELP if you have any questions.`,
+
+  // Submitted with a document header, which carries the receipt PDF
+  invoice_ready: `🧾 Your receipt {{1}} for ₹{{2}} is attached. Keep it for your accountant!`,
+
+  milestone_reached: `🎉 Congratulations! You've reached a berry milestone: {{1}}.
+
+Keep growing! 🫐`,
+
+  // Broadcast campaigns; Meta reviews these as marketing, so they offer STOP
+
+  darjeeling_lease_launch: `🍃 Hi {{1}}, the Darjeeling Tea Estate lease program you registered for is now open!
+
+{{2}}
+
+Reply HELP and our team will walk you through leasing.
+Reply STOP to stop these updates.`,
+
+  harvest_update: `🫐 Hi {{1}}, here's the latest from the berry farms:
+
+{{2}}
+
+Reply STATS to see your plants.
+Reply STOP to stop these updates.`
+};
+
+export type TemplateName = keyof typeof WHATSAPP_TEMPLATES;
+
+export interface TemplateMessage {
+  name: TemplateName;
+  parameters?: Array<string | number>;
+}
+
+// A file sent as a document message, or as the header of a template submitted with one
+export interface TemplateDocument {
+  link: string;
+  filename: string;
+}
+
+/**
+ * Build a template message, checking the parameters match the body's placeholders
+ */
+export function template(name: TemplateName, ...parameters: Array<string | number>): TemplateMessage {
+  const expected = new Set(WHATSAPP_TEMPLATES[name].match(/\{\{\d+\}\}/g) || []).size;
+
+  if (parameters.length !== expected) {
+    throw new Error(`Invalid parameters for template ${name}: expected ${expected}, got ${parameters.length}`);
+  }
+
+  return { name, parameters };
+}
+
+/**
+ * The text the customer sees, for the message log
+ */
+export function renderTemplate(message: TemplateMessage): string {
+  return WHATSAPP_TEMPLATES[message.name].replace(/\{\{(\d+)\}\}/g, (_, index) =>
+    String(message.parameters?.[Number(index) - 1] ?? '')
+  );
+}
+
+/**
+ * Graph API components carrying the body parameters and any document header
+ */
+export function templateComponents(message: TemplateMessage, document?: TemplateDocument): unknown[] {
+  const components: unknown[] = [];
+
+  if (document) {
+    components.push({
+      type: 'header',
+      parameters: [{ type: 'document', document: { link: document.link, filename: document.filename } }]
+    });
+  }
+
+  if (message.parameters?.length) {
+    components.push({
+      type: 'body',
+      parameters: message.parameters.map(parameter => ({ type: 'text', text: String(parameter) }))
+    });
+  }
+
+  return components;
+}
@@ -0,0 +1,326 @@
+import { prisma } from '@/lib/prisma';
+import { WhatsAppService, describeInboundMessage, readInboundMedia, readInboundReply } from '@/lib/whatsapp';
+import { whatsappAuthService } from '@/lib/services/whatsappAuth';
+import { whatsappMediaService } from '@/lib/services/whatsappMediaService';
+import { webhookEventStore } from '@/lib/services/webhookEventStore';
+import { whatsappNotificationService } from '@/lib/services/whatsappNotificationService';
+import { messageDeliveryService } from '@/lib/services/messageDeliveryService';
+import { handleSIPCommand } from '@/lib/sip-commands';
+import { handleKeyword, handleSubscriptionKeyword } from '@/lib/bot-keywords';
+import { ConversationEngine, FlowAttachment } from '@/lib/conversation-engine';
+import { DARJBERRY_FLOW, HUMAN_HANDOFF_STATE } from '@/lib/conversation-flows';
+import { FLOW_ACTIONS } from '@/lib/conversation-actions';
+import {
+  InteractiveChoice,
+  WhatsAppMessage,
+  WhatsAppMessageStatus,
+  WhatsAppMessagesValue,
+  WhatsAppTemplateStatusUpdate,
+  WhatsAppWebhookBody
+} from '@/types/whatsapp';
+
+// Everything the bot says outside the global keywords is defined in DARJBERRY_FLOW
+const conversationEngine = new ConversationEngine(DARJBERRY_FLOW, FLOW_ACTIONS);
+
+// Set by a handler once it has written something a redelivery would write again
+interface EventProgress {
+  applied: boolean;
+}
+
+/**
+ * Apply a verified WhatsApp Business webhook: inbound messages go to the bot,
+ * delivery statuses and template reviews are recorded. Meta redelivers
+ * whole payloads, so each message and status is claimed once by its id.
+ */
+export async function handleWhatsAppWebhook(body: WhatsAppWebhookBody): Promise<void> {
+  for (const entry of body.entry || []) {
+    for (const change of entry.changes || []) {
+      switch (change.field) {
+        case 'messages':
+          await handleMessages(change.value);
+          break;
+
+        case 'message_template_status_update':
+          await handleTemplateStatusUpdate(change.value);
+          break;
+
+        case 'account_update':
+          await handleAccountUpdate(change.value);
+          break;
+
+        default:
+          console.log('Unhandled WhatsApp webhook field:', change.field);
+      }
+    }
+  }
+}
+
+async function handleMessages(value: WhatsAppMessagesValue) {
+  for (const message of value.messages || []) {
+    const profileName = value.contacts?.find(contact => contact.wa_id === message.from)?.profile.name || null;
+
+    await processOnce(`message:${message.id}`, message.type, progress => processWhatsAppMessage(message, profileName, progress));
+  }
+
+  for (const status of value.statuses || []) {
+    await processOnce(`status:${status.id}:${status.status}`, `status_${status.status}`, () => handleMessageStatus(status));
+  }
+}
+
+async function processOnce(eventKey: string, eventType: string, handler: (progress: EventProgress) => Promise<void>) {
+  const isNewEvent = await webhookEventStore.claim('META', eventKey, eventType);
+
+  if (!isNewEvent) {
+    console.log('Duplicate WhatsApp webhook event ignored:', eventKey);
+    return;
+  }
+
+  const progress: EventProgress = { applied: false };
+
+  try {
+    await handler(progress);
+  } catch (error) {
+    if (progress.applied) {
+      // Processing it again from where it stopped would log and answer it twice
+      console.error('WhatsApp webhook event failed part way, not retried:', eventKey, error);
+      return;
+    }
+
+    // Nothing was applied, so let Meta's redelivery process this event again
+    await webhookEventStore.release('META', eventKey);
+    throw error;
+  }
+}
+
+async function processWhatsAppMessage(message: WhatsAppMessage, profileName: string | null, progress: EventProgress) {
+  const phoneNumber = message.from;
+  // Taps on buttons and list rows arrive with the choice id we sent and its title as text
+  const { text: messageText, choiceId } = readInboundReply(message);
+  const location = message.location;
+  // Meta sends seconds since the epoch; the 24-hour window runs from here
+  const receivedAt = message.timestamp ? new Date(Number(message.timestamp) * 1000) : new Date();
+
+  // Get or create user
+  let user = await prisma.whatsAppUser.findUnique({
+    where: { phoneNumber },
+  });
+
+  // Writing to us is not consent to marketing; that takes replying SUBSCRIBE
+  if (!user) {
+    user = await prisma.whatsAppUser.create({
+      data: {
+        phoneNumber,
+        state: 'NEW',
+      },
+    });
+  }
+
+  // Log the message
+  await prisma.whatsAppMessage.create({
+    data: {
+      phoneNumber,
+      messageType: 'RECEIVED',
+      content: describeInboundMessage(message),
+      metadata: JSON.stringify(message),
+    },
+  });
+  progress.applied = true;
+
+  await prisma.analytics.create({
+    data: {
+      phoneNumber,
+      event: `MESSAGE_RECEIVED_${message.type.toUpperCase()}`,
+      funnelStage: 'ENGAGEMENT',
+      metadata: JSON.stringify({
+        messageType: message.type,
+        messageId: message.id,
+        hasText: !!messageText
+      })
+    }
+  });
+
+  // Check if this is an authentication message first
+  if (messageText.includes('Darjberry Authentication') || messageText.includes('Auth Code:')) {
+    const authResponse = await whatsappAuthService.handleWhatsAppMessage(
+      phoneNumber,
+      messageText,
+      { name: profileName, profile: profileName ? { name: profileName } : null }
+    );
+
+    if (authResponse) {
+      await sendReply(phoneNumber, authResponse);
+      await touchUser(phoneNumber, receivedAt);
+      return; // Don't process as regular chat message
+    }
+  }
+
+  // Reactions are logged but need no reply
+  if (message.reaction) {
+    await touchUser(phoneNumber, receivedAt);
+    return;
+  }
+
+  const attachment = await receiveAttachment(phoneNumber, message);
+
+  // Opting out of campaigns works in every state, even with an agent
+  const subscription = await handleSubscriptionKeyword(phoneNumber, messageText);
+  if (subscription !== null) {
+    await sendReply(phoneNumber, subscription);
+    await touchUser(phoneNumber, receivedAt);
+    return;
+  }
+
+  // An agent has the conversation; they read it in the admin inbox
+  if (user.state === HUMAN_HANDOFF_STATE) {
+    await touchUser(phoneNumber, receivedAt);
+    return;
+  }
+
+  // Keywords our notifications mention (STATS, RETRY, RESTART, HELP) and SIP
+  // management commands (PAUSE, RESUME, AMOUNT, CANCEL) work from any state
+  const command = await handleKeyword(phoneNumber, messageText)
+    ?? await handleSIPCommand(phoneNumber, messageText);
+  const response = command !== null
+    ? { text: command, choices: [] }
+    : await conversationEngine.handleMessage(user, { text: messageText, location, choiceId, attachment });
+
+  if (response) {
+    await sendReply(phoneNumber, response.text, response.choices);
+  }
+
+  await touchUser(phoneNumber, receivedAt);
+}
+
+/**
+ * Download a file the customer sent and describe it, or the contacts they
+ * shared, for the conversation flow
+ */
+async function receiveAttachment(phoneNumber: string, message: WhatsAppMessage): Promise<FlowAttachment | undefined> {
+  const inbound = readInboundMedia(message);
+
+  if (inbound) {
+    const attachment: FlowAttachment = {
+      kind: inbound.kind,
+      caption: inbound.media.caption,
+      voice: inbound.media.voice
+    };
+
+    // The flow still answers without the file, e.g. asking for it again
+    try {
+      const stored = await whatsappMediaService.store(phoneNumber, message.id, inbound.kind, inbound.media);
+      attachment.mediaId = stored.id;
+    } catch (error) {
+      console.error('WhatsApp media download error:', error);
+    }
+
+    return attachment;
+  }
+
+  if (message.contacts?.length) {
+    return {
+      kind: 'contacts',
+      contacts: message.contacts.map(contact => ({
+        name: contact.name.formatted_name,
+        phone: contact.phones?.[0]?.phone || contact.phones?.[0]?.wa_id
+      }))
+    };
+  }
+
+  return undefined;
+}
+
+// The message being answered has already moved the conversation on, so a
+// reply that fails is logged rather than left to fail the whole event
+async function sendReply(phoneNumber: string, text: string, choices?: InteractiveChoice[]) {
+  let sent;
+  try {
+    sent = choices
+      ? await WhatsAppService.sendChoices(phoneNumber, text, choices)
+      : await WhatsAppService.sendMessage(phoneNumber, text);
+  } catch (error) {
+    console.error('WhatsApp reply error:', phoneNumber, error);
+    return;
+  }
+
+  try {
+    await messageDeliveryService.recordSent(phoneNumber, text, sent, { campaign: 'bot' });
+  } catch (error) {
+    console.error('WhatsApp reply log error:', phoneNumber, error);
+  }
+}
+
+async function touchUser(phoneNumber: string, receivedAt: Date) {
+  await prisma.whatsAppUser.update({
+    where: { phoneNumber },
+    data: { lastInteraction: new Date(), lastInboundAt: receivedAt },
+  });
+}
+
+async function handleMessageStatus(status: WhatsAppMessageStatus) {
+  if (status.status === 'failed') {
+    console.error('WhatsApp message failed:', status.id, status.errors);
+  }
+
+  const tracked = await messageDeliveryService.recordStatus(status);
+  if (!tracked) {
+    console.log('Status for untracked WhatsApp message:', status.id);
+  }
+
+  await prisma.analytics.create({
+    data: {
+      phoneNumber: status.recipient_id,
+      event: `MESSAGE_${status.status.toUpperCase()}`,
+      funnelStage: 'ENGAGEMENT',
+      metadata: JSON.stringify({
+        messageId: status.id,
+        timestamp: status.timestamp,
+        errors: status.errors
+      })
+    }
+  });
+}
+
+async function handleTemplateStatusUpdate(templateData: WhatsAppTemplateStatusUpdate) {
+  const { message_template_id, message_template_name, message_template_language, event, reason } = templateData;
+
+  console.log('Template status update:', {
+    id: message_template_id,
+    name: message_template_name,
+    language: message_template_language,
+    event,
+    reason
+  });
+
+  // Notifications outside the 24-hour window only use approved templates
+  await whatsappNotificationService.recordTemplateStatus(templateData);
+
+  // Log template status changes
+  await prisma.analytics.create({
+    data: {
+      phoneNumber: 'SYSTEM',
+      event: `TEMPLATE_${event.toUpperCase()}`,
+      funnelStage: 'SYSTEM',
+      metadata: JSON.stringify({
+        templateId: message_template_id,
+        templateName: message_template_name,
+        language: message_template_language,
+        event,
+        reason
+      })
+    }
+  });
+}
+
+async function handleAccountUpdate(accountData: unknown) {
+  console.log('WhatsApp Business Account update:', accountData);
+
+  // Log account updates
+  await prisma.analytics.create({
+    data: {
+      phoneNumber: 'SYSTEM',
+      event: 'ACCOUNT_UPDATE',
+      funnelStage: 'SYSTEM',
+      metadata: JSON.stringify(accountData)
+    }
+  });
+}
@@ -1,4 +1,68 @@
 import axios from 'axios';
+import { InboundMediaKind, InteractiveChoice, WhatsAppMediaObject, WhatsAppMessage } from '@/types/whatsapp';
+
+// Graph API limits for interactive messages
+const MAX_BUTTONS = 3;
+const MAX_BUTTON_TITLE = 20;
+const MAX_LIST_ROWS = 10;
+const MAX_INTERACTIVE_BODY = 1024;
+
+/**
+ * The text of an inbound message and, for a tapped button or list row, the id
+ * we sent it with
+ */
+export function readInboundReply(message: WhatsAppMessage): { text: string; choiceId?: string } {
+  const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+  if (reply) {
+    return { text: reply.title, choiceId: reply.id };
+  }
+
+  if (message.button) {
+    return { text: message.button.text, choiceId: message.button.payload };
+  }
+
+  return { text: message.text?.body || '' };
+}
+
+const MEDIA_KINDS: InboundMediaKind[] = ['image', 'document', 'audio', 'video', 'sticker'];
+
+/**
+ * The file attached to an inbound message, if any
+ */
+export function readInboundMedia(message: WhatsAppMessage): { kind: InboundMediaKind; media: WhatsAppMediaObject } | null {
+  const kind = MEDIA_KINDS.find(candidate => message.type === candidate && message[candidate]);
+
+  return kind ? { kind, media: message[kind]! } : null;
+}
+
+/**
+ * A readable line for the message log, so non-text messages are not stored as empty
+ */
+export function describeInboundMessage(message: WhatsAppMessage): string {
+  const media = readInboundMedia(message);
+
+  if (media) {
+    const label = media.kind === 'audio' && media.media.voice ? 'voice note' : media.kind;
+    const detail = media.media.caption || media.media.filename;
+    return detail ? `[${label}] ${detail}` : `[${label}]`;
+  }
+
+  if (message.contacts?.length) {
+    return `[contacts] ${message.contacts.map(contact =>
+      [contact.name.formatted_name, ...(contact.phones || []).map(phone => phone.phone || phone.wa_id)].filter(Boolean).join(' ')
+    ).join(', ')}`;
+  }
+
+  if (message.reaction) {
+    return message.reaction.emoji ? `[reaction] ${message.reaction.emoji}` : '[reaction removed]';
+  }
+
+  if (message.location && !message.text) {
+    return `[location] ${message.location.latitude}, ${message.location.longitude}`;
+  }
+
+  return readInboundReply(message).text;
+}
 
 export class WhatsAppService {
   private static readonly BASE_URL = 'https://graph.facebook.com/v18.0';
@@ -37,7 +101,7 @@ export class WhatsAppService {
     }
   }
 
-  static async sendTemplate(to: string, templateName: string, components?: unknown[]) {
+  static async sendTemplate(to: string, templateName: string, components?: unknown[], languageCode: string = 'en') {
     if (!this.PHONE_NUMBER_ID || !this.ACCESS_TOKEN) {
       console.log('WhatsApp not configured, would send template:', { to, templateName });
       return;
@@ -52,7 +116,7 @@ export class WhatsAppService {
           type: 'template',
           template: {
             name: templateName,
-            language: { code: 'en' },
+            language: { code: languageCode },
             components: components || [],
           },
         },
@@ -189,4 +253,71 @@ export class WhatsAppService {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  static async sendInteractiveList(
+    to: string,
+    bodyText: string,
+    buttonText: string,
+    rows: Array<{id: string, title: string, description?: string}>
+  ) {
+    if (!this.PHONE_NUMBER_ID || !this.ACCESS_TOKEN) {
+      console.log('WhatsApp not configured, would send list:', { to, bodyText, rows });
+      return;
+    }
+
+    try {
+      const response = await axios.post(
+        `${this.BASE_URL}/${this.PHONE_NUMBER_ID}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          to,
+          type: 'interactive',
+          interactive: {
+            type: 'list',
+            body: { text: bodyText },
+            action: {
+              button: buttonText,
+              sections: [{
+                rows: rows.map(row => ({
+                  id: row.id,
+                  title: row.title,
+                  description: row.description,
+                })),
+              }],
+            },
+          },
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.ACCESS_TOKEN}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      console.log('WhatsApp list message sent:', response.data);
+      return response.data;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('WhatsApp list error:', errorMessage);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a message with choices as reply buttons when they fit, a list
+   * otherwise, and plain text when there are none or the text is too long
+   * for an interactive message. Typed replies keep working either way.
+   */
+  static async sendChoices(to: string, bodyText: string, choices: InteractiveChoice[], buttonText: string = 'Choose an option') {
+    if (choices.length === 0 || choices.length > MAX_LIST_ROWS || bodyText.length > MAX_INTERACTIVE_BODY) {
+      return this.sendMessage(to, bodyText);
+    }
+
+    if (choices.length <= MAX_BUTTONS && choices.every(choice => choice.title.length <= MAX_BUTTON_TITLE)) {
+      return this.sendInteractiveButtons(to, bodyText, choices.map(({ id, title }) => ({ id, title })));
+    }
+
+    return this.sendInteractiveList(to, bodyText, buttonText, choices);
+  }
+}
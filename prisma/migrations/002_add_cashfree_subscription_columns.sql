@@ -0,0 +1,3 @@
+-- Cashfree mandate on SIPs
+ALTER TABLE "sip_investments" ADD COLUMN "cfSubscriptionId" TEXT;
+ALTER TABLE "sip_investments" ADD COLUMN "paymentLink" TEXT;
@@ -0,0 +1,27 @@
+-- Payment ledger: one row per debit
+CREATE TABLE IF NOT EXISTS "payments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "paymentMethod" TEXT,
+    "status" TEXT NOT NULL,
+    "failureReason" TEXT,
+    "subscriptionId" TEXT,
+    "sipInvestmentId" TEXT,
+    "phoneNumber" TEXT,
+    "paidAt" DATETIME,
+    "rawPayload" TEXT, -- JSON webhook payload
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "payments_sipInvestmentId_fkey" FOREIGN KEY ("sipInvestmentId") REFERENCES "sip_investments" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "payments_phoneNumber_fkey" FOREIGN KEY ("phoneNumber") REFERENCES "whatsapp_users" ("phoneNumber") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "payments_paymentId_key" ON "payments"("paymentId");
+CREATE INDEX IF NOT EXISTS "payments_orderId_idx" ON "payments"("orderId");
+CREATE INDEX IF NOT EXISTS "payments_phoneNumber_idx" ON "payments"("phoneNumber");
+CREATE INDEX IF NOT EXISTS "payments_sipInvestmentId_idx" ON "payments"("sipInvestmentId");
+CREATE INDEX IF NOT EXISTS "payments_status_idx" ON "payments"("status");
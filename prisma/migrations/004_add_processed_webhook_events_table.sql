@@ -0,0 +1,12 @@
+-- Webhook deliveries already handled, so redeliveries are ignored
+CREATE TABLE IF NOT EXISTS "processed_webhook_events" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "source" TEXT NOT NULL,
+    "eventKey" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "processedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "processed_webhook_events_source_eventKey_key" ON "processed_webhook_events"("source", "eventKey");
+CREATE INDEX IF NOT EXISTS "processed_webhook_events_processedAt_idx" ON "processed_webhook_events"("processedAt");
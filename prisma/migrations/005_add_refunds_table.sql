@@ -0,0 +1,26 @@
+-- How much of a payment has been refunded
+ALTER TABLE "payments" ADD COLUMN "refundedAmount" REAL NOT NULL DEFAULT 0;
+
+-- Berry plots can be disputed or deallocated and point at the payment that funded them
+ALTER TABLE "berry_plots" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'ACTIVE';
+ALTER TABLE "berry_plots" ADD COLUMN "paymentId" TEXT REFERENCES "payments" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Refunds and chargebacks against payments
+CREATE TABLE IF NOT EXISTS "refunds" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "refundId" TEXT NOT NULL,
+    "cfRefundId" TEXT,
+    "paymentId" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'REFUND',
+    "amount" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "initiatedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" DATETIME,
+    CONSTRAINT "refunds_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "refunds_refundId_key" ON "refunds"("refundId");
+CREATE INDEX IF NOT EXISTS "refunds_paymentId_idx" ON "refunds"("paymentId");
@@ -0,0 +1,18 @@
+-- Dunning state on SIPs
+ALTER TABLE "sip_investments" ADD COLUMN "failedDebitCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "sip_investments" ADD COLUMN "dunningStartedAt" DATETIME;
+
+-- Every step of a failed-debit cycle
+CREATE TABLE IF NOT EXISTS "dunning_events" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sipInvestmentId" TEXT NOT NULL,
+    "step" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL DEFAULT 0,
+    "paymentId" TEXT,
+    "message" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "dunning_events_sipInvestmentId_fkey" FOREIGN KEY ("sipInvestmentId") REFERENCES "sip_investments" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS "dunning_events_sipInvestmentId_idx" ON "dunning_events"("sipInvestmentId");
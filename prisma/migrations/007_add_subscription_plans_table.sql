@@ -0,0 +1,25 @@
+-- Versioned subscription plan catalogue, synced to Cashfree
+CREATE TABLE IF NOT EXISTS "subscription_plans" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "planId" TEXT NOT NULL,
+    "planName" TEXT NOT NULL,
+    "intervalType" TEXT NOT NULL,
+    "intervals" INTEGER NOT NULL DEFAULT 1,
+    "maxCycles" INTEGER NOT NULL,
+    "amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "description" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "syncStatus" TEXT NOT NULL DEFAULT 'PENDING',
+    "syncError" TEXT,
+    "syncedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "subscription_plans_planId_key" ON "subscription_plans"("planId");
+CREATE UNIQUE INDEX IF NOT EXISTS "subscription_plans_key_version_key" ON "subscription_plans"("key", "version");
+CREATE INDEX IF NOT EXISTS "subscription_plans_key_status_idx" ON "subscription_plans"("key", "status");
@@ -0,0 +1,2 @@
+-- Pauses for a fixed number of days
+ALTER TABLE "sip_investments" ADD COLUMN "pausedUntil" DATETIME;
@@ -0,0 +1,22 @@
+-- Rupees paid towards the next plant
+ALTER TABLE "sip_investments" ADD COLUMN "allocationCredit" REAL NOT NULL DEFAULT 0;
+
+-- Plants allocated per payment, and the credit carried to the next one
+CREATE TABLE IF NOT EXISTS "plant_allocations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "paymentId" TEXT NOT NULL,
+    "sipInvestmentId" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "creditBefore" REAL NOT NULL,
+    "creditAfter" REAL NOT NULL,
+    "pricePerPlant" REAL NOT NULL,
+    "plantsAllocated" INTEGER NOT NULL,
+    "plotNumber" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "plant_allocations_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "plant_allocations_sipInvestmentId_fkey" FOREIGN KEY ("sipInvestmentId") REFERENCES "sip_investments" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "plant_allocations_paymentId_key" ON "plant_allocations"("paymentId");
+CREATE INDEX IF NOT EXISTS "plant_allocations_sipInvestmentId_idx" ON "plant_allocations"("sipInvestmentId");
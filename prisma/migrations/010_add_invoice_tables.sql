@@ -0,0 +1,31 @@
+-- Receipts, numbered per Indian financial year
+CREATE TABLE IF NOT EXISTS "invoices" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "invoiceNumber" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "phoneNumber" TEXT NOT NULL,
+    "customerName" TEXT,
+    "customerEmail" TEXT,
+    "orderId" TEXT NOT NULL,
+    "paymentReference" TEXT,
+    "planName" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "plantsAllocated" INTEGER NOT NULL DEFAULT 0,
+    "html" TEXT NOT NULL,
+    "accessToken" TEXT NOT NULL,
+    "paidAt" DATETIME NOT NULL,
+    "issuedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" DATETIME,
+    CONSTRAINT "invoices_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS "invoice_sequences" (
+    "financialYear" TEXT NOT NULL PRIMARY KEY,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "invoices_invoiceNumber_key" ON "invoices"("invoiceNumber");
+CREATE UNIQUE INDEX IF NOT EXISTS "invoices_paymentId_key" ON "invoices"("paymentId");
+CREATE INDEX IF NOT EXISTS "invoices_phoneNumber_idx" ON "invoices"("phoneNumber");
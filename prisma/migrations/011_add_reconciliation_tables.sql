@@ -0,0 +1,33 @@
+-- Settlement export reconciliation
+CREATE TABLE IF NOT EXISTS "reconciliation_runs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "source" TEXT,
+    "rowCount" INTEGER NOT NULL,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "matchedCount" INTEGER NOT NULL,
+    "exceptionCount" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS "reconciliation_exceptions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "runId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "orderId" TEXT,
+    "cfPaymentId" TEXT,
+    "paymentId" TEXT,
+    "sipInvestmentId" TEXT,
+    "expectedAmount" REAL,
+    "actualAmount" REAL,
+    "details" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "resolutionNote" TEXT,
+    "resolvedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "reconciliation_exceptions_runId_fkey" FOREIGN KEY ("runId") REFERENCES "reconciliation_runs" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS "reconciliation_exceptions_key_status_idx" ON "reconciliation_exceptions"("key", "status");
+CREATE INDEX IF NOT EXISTS "reconciliation_exceptions_status_idx" ON "reconciliation_exceptions"("status");
@@ -0,0 +1,52 @@
+-- One-time lumpsum checkout orders
+CREATE TABLE IF NOT EXISTS "lumpsum_orders" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "cfOrderId" TEXT,
+    "packageKey" TEXT NOT NULL,
+    "phoneNumber" TEXT NOT NULL,
+    "customerName" TEXT,
+    "customerEmail" TEXT,
+    "amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "landOptionId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "paymentSessionId" TEXT,
+    "paymentLink" TEXT,
+    "paymentId" TEXT,
+    "landAllocationId" TEXT,
+    "failureReason" TEXT,
+    "paidAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- Lumpsum purchases allocate plants without an SIP; SQLite can't drop NOT NULL, so the table is rebuilt
+PRAGMA foreign_keys = OFF;
+
+CREATE TABLE "new_plant_allocations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "paymentId" TEXT NOT NULL,
+    "sipInvestmentId" TEXT,
+    "amount" REAL NOT NULL,
+    "creditBefore" REAL NOT NULL,
+    "creditAfter" REAL NOT NULL,
+    "pricePerPlant" REAL NOT NULL,
+    "plantsAllocated" INTEGER NOT NULL,
+    "plotNumber" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "plant_allocations_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "plant_allocations_sipInvestmentId_fkey" FOREIGN KEY ("sipInvestmentId") REFERENCES "sip_investments" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_plant_allocations" SELECT "id", "paymentId", "sipInvestmentId", "amount", "creditBefore", "creditAfter", "pricePerPlant", "plantsAllocated", "plotNumber", "createdAt" FROM "plant_allocations";
+DROP TABLE "plant_allocations";
+ALTER TABLE "new_plant_allocations" RENAME TO "plant_allocations";
+
+PRAGMA foreign_keys = ON;
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "lumpsum_orders_orderId_key" ON "lumpsum_orders"("orderId");
+CREATE UNIQUE INDEX IF NOT EXISTS "lumpsum_orders_paymentId_key" ON "lumpsum_orders"("paymentId");
+CREATE INDEX IF NOT EXISTS "lumpsum_orders_phoneNumber_idx" ON "lumpsum_orders"("phoneNumber");
+CREATE UNIQUE INDEX IF NOT EXISTS "plant_allocations_paymentId_key" ON "plant_allocations"("paymentId");
+CREATE INDEX IF NOT EXISTS "plant_allocations_sipInvestmentId_idx" ON "plant_allocations"("sipInvestmentId");
@@ -0,0 +1,6 @@
+-- Which gateway holds each mandate, payment, order and plan
+ALTER TABLE "sip_investments" ADD COLUMN "gateway" TEXT NOT NULL DEFAULT 'CASHFREE';
+ALTER TABLE "payments" ADD COLUMN "gateway" TEXT NOT NULL DEFAULT 'CASHFREE';
+ALTER TABLE "lumpsum_orders" ADD COLUMN "gateway" TEXT NOT NULL DEFAULT 'CASHFREE';
+ALTER TABLE "subscription_plans" ADD COLUMN "gateway" TEXT NOT NULL DEFAULT 'CASHFREE';
+ALTER TABLE "subscription_plans" ADD COLUMN "gatewayPlanId" TEXT;
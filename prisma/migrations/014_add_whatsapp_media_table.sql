@@ -0,0 +1,21 @@
+-- Photos and documents customers send us
+CREATE TABLE IF NOT EXISTS "whatsapp_media" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "phoneNumber" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "mediaId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "fileName" TEXT,
+    "caption" TEXT,
+    "sha256" TEXT,
+    "size" INTEGER NOT NULL,
+    "storagePath" TEXT NOT NULL,
+    "purpose" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "whatsapp_media_phoneNumber_fkey" FOREIGN KEY ("phoneNumber") REFERENCES "whatsapp_users" ("phoneNumber") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "whatsapp_media_mediaId_key" ON "whatsapp_media"("mediaId");
+CREATE INDEX IF NOT EXISTS "whatsapp_media_phoneNumber_idx" ON "whatsapp_media"("phoneNumber");
@@ -0,0 +1,6 @@
+-- Human handoff from the bot to the admin inbox
+ALTER TABLE "whatsapp_users" ADD COLUMN "handoffAt" DATETIME;
+ALTER TABLE "whatsapp_users" ADD COLUMN "assignedTo" TEXT;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS "whatsapp_messages_phoneNumber_timestamp_idx" ON "whatsapp_messages"("phoneNumber", "timestamp");
@@ -0,0 +1,17 @@
+-- Start of the 24-hour session window
+ALTER TABLE "whatsapp_users" ADD COLUMN "lastInboundAt" DATETIME;
+
+-- Meta's review status of our message templates
+CREATE TABLE IF NOT EXISTS "message_templates" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "templateId" TEXT,
+    "status" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "message_templates_name_language_key" ON "message_templates"("name", "language");
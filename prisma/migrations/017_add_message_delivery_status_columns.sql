@@ -0,0 +1,10 @@
+-- Delivery status of the messages we send
+ALTER TABLE "whatsapp_messages" ADD COLUMN "waMessageId" TEXT;
+ALTER TABLE "whatsapp_messages" ADD COLUMN "campaign" TEXT;
+ALTER TABLE "whatsapp_messages" ADD COLUMN "status" TEXT;
+ALTER TABLE "whatsapp_messages" ADD COLUMN "statusAt" DATETIME;
+ALTER TABLE "whatsapp_messages" ADD COLUMN "error" TEXT;
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "whatsapp_messages_waMessageId_key" ON "whatsapp_messages"("waMessageId");
+CREATE INDEX IF NOT EXISTS "whatsapp_messages_campaign_status_idx" ON "whatsapp_messages"("campaign", "status");
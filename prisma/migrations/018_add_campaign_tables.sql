@@ -0,0 +1,33 @@
+-- Customers who replied STOP
+ALTER TABLE "whatsapp_users" ADD COLUMN "optedOutAt" DATETIME;
+
+-- Broadcast campaigns and who they went to
+CREATE TABLE IF NOT EXISTS "campaigns" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "templateName" TEXT NOT NULL,
+    "parameters" TEXT, -- JSON array
+    "segment" TEXT NOT NULL, -- JSON CampaignSegment
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "completedAt" DATETIME
+);
+
+CREATE TABLE IF NOT EXISTS "campaign_recipients" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "campaignId" TEXT NOT NULL,
+    "phoneNumber" TEXT NOT NULL,
+    "name" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "error" TEXT,
+    "waMessageId" TEXT,
+    "sentAt" DATETIME,
+    CONSTRAINT "campaign_recipients_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "campaigns_name_key" ON "campaigns"("name");
+CREATE UNIQUE INDEX IF NOT EXISTS "campaign_recipients_campaignId_phoneNumber_key" ON "campaign_recipients"("campaignId", "phoneNumber");
+CREATE INDEX IF NOT EXISTS "campaign_recipients_campaignId_status_idx" ON "campaign_recipients"("campaignId", "status");
@@ -0,0 +1,24 @@
+-- Marketing consent on WhatsApp users
+ALTER TABLE "whatsapp_users" ADD COLUMN "optInSource" TEXT;
+ALTER TABLE "whatsapp_users" ADD COLUMN "optedInAt" DATETIME;
+
+-- Notifications held over quiet hours
+CREATE TABLE IF NOT EXISTS "scheduled_messages" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "phoneNumber" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "template" TEXT NOT NULL, -- JSON TemplateMessage
+    "document" TEXT, -- JSON TemplateDocument
+    "invoiceId" TEXT,
+    "source" TEXT NOT NULL,
+    "category" TEXT NOT NULL DEFAULT 'TRANSACTIONAL',
+    "sendAfter" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "channel" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" DATETIME
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS "scheduled_messages_status_sendAfter_idx" ON "scheduled_messages"("status", "sendAfter");
@@ -1,4 +1,5 @@
 export interface WhatsAppMessage {
+  id: string;
   from: string;
   text?: {
     body: string;
@@ -7,28 +8,134 @@ export interface WhatsAppMessage {
     latitude: number;
     longitude: number;
   };
+  // A tapped reply button or list row from one of our interactive messages
+  interactive?: {
+    type: 'button_reply' | 'list_reply';
+    button_reply?: {
+      id: string;
+      title: string;
+    };
+    list_reply?: {
+      id: string;
+      title: string;
+      description?: string;
+    };
+  };
+  // A tapped quick-reply button on a template message
+  button?: {
+    text: string;
+    payload: string;
+  };
+  image?: WhatsAppMediaObject;
+  document?: WhatsAppMediaObject;
+  audio?: WhatsAppMediaObject; // Voice notes have voice: true
+  video?: WhatsAppMediaObject;
+  sticker?: WhatsAppMediaObject;
+  contacts?: WhatsAppSharedContact[];
+  reaction?: {
+    message_id: string; // The message reacted to
+    emoji?: string; // Missing when a reaction is removed
+  };
   type: string;
   timestamp: string;
 }
 
-export interface WhatsAppWebhookBody {
-  hub?: {
-    mode: string;
-    verify_token: string;
-    challenge: string;
+export type InboundMediaKind = 'image' | 'document' | 'audio' | 'video' | 'sticker';
+
+// Files arrive as a media id to download from the Graph API
+export interface WhatsAppMediaObject {
+  id: string;
+  mime_type: string;
+  sha256?: string;
+  caption?: string;
+  filename?: string; // Documents only
+  voice?: boolean;
+}
+
+export interface WhatsAppSharedContact {
+  name: {
+    formatted_name: string;
+    first_name?: string;
+    last_name?: string;
   };
+  phones?: Array<{
+    phone?: string;
+    wa_id?: string;
+    type?: string;
+  }>;
+  emails?: Array<{
+    email: string;
+    type?: string;
+  }>;
+}
+
+// A reply button or list row. Buttons are used for up to 3 choices, lists for up to 10.
+export interface InteractiveChoice {
+  id: string;
+  title: string; // At most 20 characters on a button, 24 in a list
+  description?: string; // List rows only, at most 72 characters
+}
+
+export interface WhatsAppWebhookBody {
+  object: string; // whatsapp_business_account
   entry?: Array<{
-    changes: Array<{
-      value: {
-        messages?: WhatsAppMessage[];
-        metadata: {
-          phone_number_id: string;
-        };
-      };
-    }>;
+    id: string;
+    changes: WhatsAppWebhookChange[];
   }>;
 }
 
+// One change per subscribed field: value is a WhatsAppMessagesValue for
+// messages, a WhatsAppTemplateStatusUpdate for message_template_status_update
+export interface WhatsAppWebhookChange {
+  field: string;
+  value: any;
+}
+
+export interface WhatsAppMessagesValue {
+  messaging_product: 'whatsapp';
+  metadata: {
+    display_phone_number: string;
+    phone_number_id: string;
+  };
+  // Profiles of the senders in messages
+  contacts?: Array<{
+    wa_id: string;
+    profile: {
+      name: string;
+    };
+  }>;
+  messages?: WhatsAppMessage[];
+  statuses?: WhatsAppMessageStatus[];
+}
+
+// What Graph answers when it accepts a message for delivery
+export interface WhatsAppSendResponse {
+  messaging_product: 'whatsapp';
+  contacts: Array<{ input: string; wa_id: string }>;
+  messages: Array<{ id: string; message_status?: string }>;
+}
+
+// Delivery progress of a message we sent
+export interface WhatsAppMessageStatus {
+  id: string; // The message id Graph returned when we sent it
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  timestamp: string;
+  recipient_id: string;
+  errors?: Array<{
+    code: number;
+    title: string;
+    message?: string;
+  }>;
+}
+
+export interface WhatsAppTemplateStatusUpdate {
+  event: string; // APPROVED, REJECTED, PENDING_DELETION, ...
+  message_template_id: number;
+  message_template_name: string;
+  message_template_language: string;
+  reason: string | null;
+}
+
 export interface WhatsAppUser {
   phoneNumber: string;
   name?: string;